@@ -0,0 +1,357 @@
+import { useState } from 'react';
+import {
+	DropdownMenu,
+	DropdownMenuContent,
+	DropdownMenuItem,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+	AlertDialog,
+	AlertDialogAction,
+	AlertDialogCancel,
+	AlertDialogContent,
+	AlertDialogDescription,
+	AlertDialogFooter,
+	AlertDialogHeader,
+	AlertDialogTitle,
+	AlertDialogTrigger,
+} from '@/components/ui/alert-dialog';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	ChevronDown,
+	Flag,
+	ListPlus,
+	Loader2,
+	MoreHorizontal,
+	Tags,
+	Trash2,
+} from 'lucide-react';
+import TagChip from '@/components/TagChip';
+import {
+	BulkOperation,
+	BulkTarget,
+	NO_PIPELINE_STATUS,
+	useBulkBusinessOperation,
+} from '@/hooks/useSavedBusinesses';
+import { PipelineStage } from '@/hooks/usePipeline';
+import { isSmartList, useSavedLists } from '@/hooks/useSavedLists';
+import { useTags } from '@/hooks/useTags';
+import { useToast } from '@/hooks/use-toast';
+
+type SettableField = Extract<BulkOperation, { type: 'set_field' }>['field'];
+
+const FIELD_LABELS: Record<SettableField, string> = {
+	notes: 'Notes',
+	website: 'Website',
+	location: 'Location',
+	phone: 'Phone',
+	careerLink: 'Careers link',
+};
+
+// What each operation did, for the toast after it runs
+const DONE_TITLES: Record<BulkOperation['type'], string> = {
+	delete: 'Companies Deleted',
+	set_status: 'Status Updated',
+	add_tags: 'Tag Added',
+	remove_tags: 'Tag Removed',
+	add_to_list: 'Added to List',
+	mark_bad_lead: 'Bad Leads Updated',
+	set_field: 'Field Updated',
+};
+
+// Actions for many companies at once, each sent as one bulk request. The
+// target is the selected companies or every company matching the filters.
+export default function BulkActionsToolbar({
+	target,
+	count,
+	stages,
+	onDone,
+}: {
+	target: BulkTarget;
+	count: number; // Companies in the target, for confirmations
+	stages: PipelineStage[];
+	onDone: () => void; // After companies were deleted
+}) {
+	const [fieldDialogOpen, setFieldDialogOpen] = useState(false);
+	const [field, setField] = useState<SettableField>('notes');
+	const [fieldValue, setFieldValue] = useState('');
+	const { data: lists = [] } = useSavedLists();
+	const { data: tags = [] } = useTags();
+	const bulkOperation = useBulkBusinessOperation();
+	const { toast } = useToast();
+	// Smart lists pick their own companies, so only static ones take more
+	const staticLists = lists.filter((list) => !isSmartList(list));
+
+	const run = async (operation: BulkOperation) => {
+		try {
+			const result = await bulkOperation.mutateAsync({
+				operation,
+				target,
+			});
+			toast({
+				title: DONE_TITLES[operation.type],
+				description: `${result.succeeded} companies updated${
+					result.failed > 0 ? `, ${result.failed} failed` : ''
+				}.`,
+				variant: result.succeeded === 0 ? 'destructive' : undefined,
+			});
+			if (operation.type === 'delete') onDone();
+			return true;
+		} catch (error) {
+			toast({
+				title: 'Bulk Action Failed',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to update the companies.',
+				variant: 'destructive',
+			});
+			return false;
+		}
+	};
+
+	const handleSetField = async () => {
+		if (await run({ type: 'set_field', field, value: fieldValue })) {
+			setFieldDialogOpen(false);
+			setFieldValue('');
+		}
+	};
+
+	const busy = bulkOperation.isPending;
+
+	return (
+		<>
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button variant='outline' size='sm' disabled={busy}>
+						{busy ? (
+							<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+						) : (
+							<ChevronDown className='w-4 h-4 mr-2' />
+						)}
+						Set Status
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent>
+					<DropdownMenuItem
+						onSelect={() =>
+							run({
+								type: 'set_status',
+								status: NO_PIPELINE_STATUS,
+							})
+						}>
+						No status
+					</DropdownMenuItem>
+					{stages.map((stage) => (
+						<DropdownMenuItem
+							key={stage.id}
+							onSelect={() =>
+								run({ type: 'set_status', status: stage.id })
+							}>
+							{stage.name}
+						</DropdownMenuItem>
+					))}
+				</DropdownMenuContent>
+			</DropdownMenu>
+
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button variant='outline' size='sm' disabled={busy}>
+						<Tags className='w-4 h-4 mr-2' />
+						Tags
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent>
+					<DropdownMenuLabel>Add tag</DropdownMenuLabel>
+					{tags.length === 0 && (
+						<DropdownMenuItem disabled>
+							Create a tag first
+						</DropdownMenuItem>
+					)}
+					{tags.map((tag) => (
+						<DropdownMenuItem
+							key={tag._id}
+							onSelect={() =>
+								run({ type: 'add_tags', tags: [tag.name] })
+							}>
+							<TagChip name={tag.name} color={tag.color} />
+						</DropdownMenuItem>
+					))}
+					{tags.length > 0 && (
+						<>
+							<DropdownMenuSeparator />
+							<DropdownMenuLabel>Remove tag</DropdownMenuLabel>
+							{tags.map((tag) => (
+								<DropdownMenuItem
+									key={tag._id}
+									onSelect={() =>
+										run({
+											type: 'remove_tags',
+											tags: [tag.name],
+										})
+									}>
+									<TagChip
+										name={tag.name}
+										color={tag.color}
+									/>
+								</DropdownMenuItem>
+							))}
+						</>
+					)}
+				</DropdownMenuContent>
+			</DropdownMenu>
+
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button variant='outline' size='sm' disabled={busy}>
+						<ListPlus className='w-4 h-4 mr-2' />
+						Add to List
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent>
+					<DropdownMenuLabel>Add to list</DropdownMenuLabel>
+					<DropdownMenuSeparator />
+					{staticLists.length === 0 ? (
+						<DropdownMenuItem disabled>
+							Create a list first
+						</DropdownMenuItem>
+					) : (
+						staticLists.map((list) => (
+							<DropdownMenuItem
+								key={list._id}
+								onSelect={() =>
+									run({
+										type: 'add_to_list',
+										listId: list._id,
+									})
+								}>
+								{list.name}
+							</DropdownMenuItem>
+						))
+					)}
+				</DropdownMenuContent>
+			</DropdownMenu>
+
+			<DropdownMenu>
+				<DropdownMenuTrigger asChild>
+					<Button
+						variant='outline'
+						size='sm'
+						disabled={busy}
+						title='More actions'>
+						<MoreHorizontal className='w-4 h-4' />
+					</Button>
+				</DropdownMenuTrigger>
+				<DropdownMenuContent>
+					<DropdownMenuItem
+						onSelect={() =>
+							run({ type: 'mark_bad_lead', value: true })
+						}>
+						<Flag className='w-4 h-4 mr-2' />
+						Mark as bad leads
+					</DropdownMenuItem>
+					<DropdownMenuItem
+						onSelect={() =>
+							run({ type: 'mark_bad_lead', value: false })
+						}>
+						Unmark bad leads
+					</DropdownMenuItem>
+					<DropdownMenuSeparator />
+					<DropdownMenuItem onSelect={() => setFieldDialogOpen(true)}>
+						Set a field...
+					</DropdownMenuItem>
+				</DropdownMenuContent>
+			</DropdownMenu>
+
+			<AlertDialog>
+				<AlertDialogTrigger asChild>
+					<Button variant='destructive' size='sm' disabled={busy}>
+						<Trash2 className='w-4 h-4 mr-2' />
+						Delete
+					</Button>
+				</AlertDialogTrigger>
+				<AlertDialogContent>
+					<AlertDialogHeader>
+						<AlertDialogTitle>Delete Companies</AlertDialogTitle>
+						<AlertDialogDescription>
+							Are you sure you want to delete {count} companies?
+							This action cannot be undone.
+						</AlertDialogDescription>
+					</AlertDialogHeader>
+					<AlertDialogFooter>
+						<AlertDialogCancel>Cancel</AlertDialogCancel>
+						<AlertDialogAction
+							className='bg-destructive text-destructive-foreground hover:bg-destructive/90'
+							onClick={() => run({ type: 'delete' })}>
+							Delete
+						</AlertDialogAction>
+					</AlertDialogFooter>
+				</AlertDialogContent>
+			</AlertDialog>
+
+			<Dialog open={fieldDialogOpen} onOpenChange={setFieldDialogOpen}>
+				<DialogContent>
+					<DialogHeader>
+						<DialogTitle>Set a Field</DialogTitle>
+						<DialogDescription>
+							Overwrites the field on {count} companies. Leave the
+							value empty to clear it.
+						</DialogDescription>
+					</DialogHeader>
+					<div className='space-y-3'>
+						<Select
+							value={field}
+							onValueChange={(value) =>
+								setField(value as SettableField)
+							}>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								{Object.entries(FIELD_LABELS).map(
+									([value, label]) => (
+										<SelectItem key={value} value={value}>
+											{label}
+										</SelectItem>
+									)
+								)}
+							</SelectContent>
+						</Select>
+						<Input
+							value={fieldValue}
+							maxLength={5000}
+							placeholder={FIELD_LABELS[field]}
+							onChange={(e) => setFieldValue(e.target.value)}
+						/>
+					</div>
+					<DialogFooter>
+						<Button onClick={handleSetField} disabled={busy}>
+							{busy && (
+								<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+							)}
+							Apply
+						</Button>
+					</DialogFooter>
+				</DialogContent>
+			</Dialog>
+		</>
+	);
+}
@@ -0,0 +1,190 @@
+import { useState } from 'react';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Bell, Check, Loader2, Trash2 } from 'lucide-react';
+import {
+	useCreateReminder,
+	useDeleteReminder,
+	useReminders,
+	useUpdateReminder,
+} from '@/hooks/useReminders';
+import { BusinessActivityType } from '@/hooks/useBusinessActivities';
+import { useToast } from '@/hooks/use-toast';
+
+// What marks a reminder done without ticking it off
+const COMPLETIONS: Record<
+	string,
+	{ label: string; types: BusinessActivityType[] }
+> = {
+	contact: {
+		label: 'Email or call logged',
+		types: ['email_sent', 'call_logged'],
+	},
+	email: { label: 'Email logged', types: ['email_sent'] },
+	call: { label: 'Call logged', types: ['call_logged'] },
+	status: { label: 'Status changed', types: ['status_changed'] },
+	manual: { label: 'Only when ticked off', types: [] },
+};
+
+// Tomorrow at 9am, in the datetime-local input's format
+function defaultDue(): string {
+	const due = new Date();
+	due.setDate(due.getDate() + 1);
+	due.setHours(9, 0, 0, 0);
+	const offset = due.getTimezoneOffset() * 60 * 1000;
+	return new Date(due.getTime() - offset).toISOString().slice(0, 16);
+}
+
+// A business's open reminders and a form to add one
+export default function BusinessReminders({
+	businessId,
+}: {
+	businessId: string;
+}) {
+	const [title, setTitle] = useState('Follow up');
+	const [dueAt, setDueAt] = useState(defaultDue);
+	const [completion, setCompletion] = useState('contact');
+	const { data } = useReminders({ businessId });
+	const createReminder = useCreateReminder();
+	const updateReminder = useUpdateReminder();
+	const deleteReminder = useDeleteReminder();
+	const { toast } = useToast();
+
+	const run = async (action: () => Promise<unknown>, failure: string) => {
+		try {
+			await action();
+			return true;
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description: error instanceof Error ? error.message : failure,
+				variant: 'destructive',
+			});
+			return false;
+		}
+	};
+
+	const handleAdd = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!title.trim() || !dueAt) return;
+		const added = await run(
+			() =>
+				createReminder.mutateAsync({
+					businessId,
+					reminder: {
+						title: title.trim(),
+						dueAt: new Date(dueAt).toISOString(),
+						completeOn: COMPLETIONS[completion].types,
+					},
+				}),
+			'Failed to add the reminder'
+		);
+		if (added) {
+			setTitle('Follow up');
+			setDueAt(defaultDue());
+		}
+	};
+
+	return (
+		<div className='space-y-3 border-b pb-4'>
+			<h3 className='text-sm font-medium'>Reminders</h3>
+			{data?.reminders.map((reminder) => (
+				<div
+					key={reminder._id}
+					className='flex items-center justify-between gap-2 text-sm'>
+					<div className='flex items-center gap-2 min-w-0'>
+						<Bell className='w-4 h-4 text-muted-foreground flex-shrink-0' />
+						<span className='truncate'>{reminder.title}</span>
+						<span className='text-muted-foreground whitespace-nowrap'>
+							{new Date(reminder.dueAt).toLocaleString()}
+						</span>
+					</div>
+					<div className='flex'>
+						<Button
+							variant='ghost'
+							size='sm'
+							onClick={() =>
+								run(
+									() =>
+										updateReminder.mutateAsync({
+											id: reminder._id,
+											updates: { done: true },
+										}),
+									'Failed to update the reminder'
+								)
+							}
+							title='Mark done'>
+							<Check className='w-4 h-4' />
+						</Button>
+						<Button
+							variant='ghost'
+							size='sm'
+							onClick={() =>
+								run(
+									() =>
+										deleteReminder.mutateAsync(
+											reminder._id
+										),
+									'Failed to delete the reminder'
+								)
+							}
+							title='Delete reminder'>
+							<Trash2 className='w-4 h-4' />
+						</Button>
+					</div>
+				</div>
+			))}
+			<form onSubmit={handleAdd} className='space-y-2'>
+				<div className='flex gap-2'>
+					<Input
+						value={title}
+						maxLength={200}
+						onChange={(e) => setTitle(e.target.value)}
+						placeholder='Follow up'
+					/>
+					<Input
+						type='datetime-local'
+						value={dueAt}
+						onChange={(e) => setDueAt(e.target.value)}
+						className='w-52'
+					/>
+				</div>
+				<div className='flex gap-2'>
+					<Select value={completion} onValueChange={setCompletion}>
+						<SelectTrigger title='What marks the reminder done'>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{Object.entries(COMPLETIONS).map(
+								([value, { label }]) => (
+									<SelectItem key={value} value={value}>
+										Done when: {label}
+									</SelectItem>
+								)
+							)}
+						</SelectContent>
+					</Select>
+					<Button
+						type='submit'
+						size='sm'
+						variant='outline'
+						disabled={
+							createReminder.isPending || !title.trim() || !dueAt
+						}>
+						{createReminder.isPending && (
+							<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+						)}
+						Add Reminder
+					</Button>
+				</div>
+			</form>
+		</div>
+	);
+}
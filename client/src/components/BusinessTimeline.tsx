@@ -0,0 +1,223 @@
+import { useState } from 'react';
+import {
+	Sheet,
+	SheetContent,
+	SheetDescription,
+	SheetHeader,
+	SheetTitle,
+} from '@/components/ui/sheet';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
+import {
+	GitMerge,
+	Link,
+	Loader2,
+	Mail,
+	MoveRight,
+	Phone,
+	StickyNote,
+} from 'lucide-react';
+import {
+	BusinessActivity,
+	BusinessActivityType,
+	LoggableActivityType,
+	useBusinessActivities,
+	useLogActivity,
+} from '@/hooks/useBusinessActivities';
+import { SavedBusiness } from '@/hooks/useSavedBusinesses';
+import { PipelineStage } from '@/hooks/usePipeline';
+import BusinessReminders from '@/components/BusinessReminders';
+import { useToast } from '@/hooks/use-toast';
+
+const ACTIVITY_ICONS: Record<BusinessActivityType, typeof StickyNote> = {
+	note: StickyNote,
+	status_changed: MoveRight,
+	email_sent: Mail,
+	call_logged: Phone,
+	career_link_changed: Link,
+	merged: GitMerge,
+};
+
+const LOGGABLE_LABELS: Record<LoggableActivityType, string> = {
+	note: 'Note',
+	email_sent: 'Email sent',
+	call_logged: 'Call',
+};
+
+function describe(
+	activity: BusinessActivity,
+	stageName: (id?: string) => string
+): string {
+	switch (activity.type) {
+		case 'note':
+			return 'Added a note';
+		case 'email_sent':
+			return 'Sent an email';
+		case 'call_logged':
+			return 'Logged a call';
+		case 'status_changed':
+			return `Moved from ${stageName(activity.from)} to ${stageName(
+				activity.to
+			)}`;
+		case 'career_link_changed':
+			return activity.to
+				? `Careers page set to ${activity.to}`
+				: 'Careers page removed';
+		case 'merged':
+			return `Merged in ${(activity.mergedFrom || [])
+				.map((b) => b.name)
+				.join(', ')}`;
+	}
+}
+
+export type TimelineBusiness = Pick<SavedBusiness, '_id' | 'name'> & {
+	location?: string;
+};
+
+// A saved business's reminders and activity timeline, with a form to log
+// notes, emails and calls
+export default function BusinessTimeline({
+	business,
+	stages,
+	onClose,
+}: {
+	business: TimelineBusiness | null;
+	stages: PipelineStage[];
+	onClose: () => void;
+}) {
+	const [type, setType] = useState<LoggableActivityType>('note');
+	const [body, setBody] = useState('');
+	const { data, isLoading } = useBusinessActivities(business?._id);
+	const logActivity = useLogActivity();
+	const { toast } = useToast();
+
+	const stageName = (id?: string) =>
+		stages.find((stage) => stage.id === id)?.name || id || 'no status';
+
+	const handleLog = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!business) return;
+		try {
+			await logActivity.mutateAsync({
+				businessId: business._id!,
+				type,
+				body: body.trim() || undefined,
+			});
+			setBody('');
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to log the activity',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	return (
+		<Sheet open={!!business} onOpenChange={(open) => !open && onClose()}>
+			<SheetContent className='w-full sm:max-w-lg overflow-y-auto'>
+				<SheetHeader>
+					<SheetTitle>{business?.name}</SheetTitle>
+					<SheetDescription>
+						{business?.location || 'Activity timeline'}
+					</SheetDescription>
+				</SheetHeader>
+
+				{business && (
+					<div className='pt-4'>
+						<BusinessReminders businessId={business._id!} />
+					</div>
+				)}
+
+				<form onSubmit={handleLog} className='space-y-2 py-4'>
+					<Select
+						value={type}
+						onValueChange={(value) =>
+							setType(value as LoggableActivityType)
+						}>
+						<SelectTrigger className='w-40'>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							{Object.entries(LOGGABLE_LABELS).map(
+								([value, label]) => (
+									<SelectItem key={value} value={value}>
+										{label}
+									</SelectItem>
+								)
+							)}
+						</SelectContent>
+					</Select>
+					<Textarea
+						placeholder={
+							type === 'note'
+								? 'Write a note...'
+								: 'What was it about? (optional)'
+						}
+						value={body}
+						maxLength={5000}
+						onChange={(e) => setBody(e.target.value)}
+					/>
+					<Button
+						type='submit'
+						size='sm'
+						disabled={
+							logActivity.isPending ||
+							(type === 'note' && !body.trim())
+						}>
+						{logActivity.isPending && (
+							<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+						)}
+						Log {LOGGABLE_LABELS[type]}
+					</Button>
+				</form>
+
+				{isLoading ? (
+					<div className='flex justify-center p-6'>
+						<Loader2 className='w-6 h-6 animate-spin' />
+					</div>
+				) : !data?.activities.length ? (
+					<p className='text-sm text-muted-foreground'>
+						Nothing logged yet
+					</p>
+				) : (
+					<ol className='space-y-4 border-l pl-4'>
+						{data.activities.map((activity) => {
+							const Icon = ACTIVITY_ICONS[activity.type];
+							return (
+								<li key={activity._id} className='text-sm'>
+									<div className='flex items-center gap-2 font-medium'>
+										<Icon className='w-4 h-4 text-muted-foreground' />
+										{describe(activity, stageName)}
+									</div>
+									{activity.body && (
+										<p className='mt-1 whitespace-pre-wrap'>
+											{activity.body}
+										</p>
+									)}
+									<p className='mt-1 text-xs text-muted-foreground'>
+										{new Date(
+											activity.createdAt
+										).toLocaleString()}
+										{activity.author.email &&
+											` · ${activity.author.email}`}
+									</p>
+								</li>
+							);
+						})}
+					</ol>
+				)}
+			</SheetContent>
+		</Sheet>
+	);
+}
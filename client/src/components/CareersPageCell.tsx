@@ -0,0 +1,92 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, Search } from 'lucide-react';
+import { SavedBusiness } from '@/hooks/useSavedBusinesses';
+import { useDiscoverCareers } from '@/hooks/useEnrichment';
+import { useToast } from '@/hooks/use-toast';
+
+const CONFIDENCE_STYLES = {
+	high: 'bg-green-50 text-green-800 border-green-200',
+	medium: 'bg-amber-50 text-amber-800 border-amber-200',
+	low: 'bg-gray-50 text-gray-700 border-gray-200',
+};
+
+// The business's careers link with how sure discovery was, and a button to
+// look (again)
+export default function CareersPageCell({
+	business,
+}: {
+	business: SavedBusiness;
+}) {
+	const { toast } = useToast();
+	const discoverCareers = useDiscoverCareers();
+	const confidence = business.careerLinkConfidence;
+
+	const handleDiscover = async () => {
+		try {
+			const result = await discoverCareers.mutateAsync(business._id!);
+			if (!result.found) {
+				toast({
+					title: 'No careers page found',
+					description: `Couldn't confirm a careers page for ${business.name}.`,
+				});
+			}
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to look for a careers page',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	return (
+		<div className='flex items-center gap-2'>
+			{business.careerLink ? (
+				<a
+					href={business.careerLink}
+					target='_blank'
+					rel='noopener noreferrer'
+					className='text-blue-600 hover:underline truncate max-w-[12rem]'
+					title={business.careerLink}>
+					{business.careerLink.replace(/^https?:\/\/(www\.)?/, '')}
+				</a>
+			) : (
+				<span className='text-muted-foreground'>
+					{business.careerLinkCheckedAt ? 'Not found' : '—'}
+				</span>
+			)}
+			{business.careerLink && (
+				<Badge
+					variant='outline'
+					className={confidence ? CONFIDENCE_STYLES[confidence] : ''}
+					title={
+						business.careerLinkCheckedAt
+							? `Checked ${new Date(
+									business.careerLinkCheckedAt
+							  ).toLocaleString()}`
+							: 'Not checked'
+					}>
+					{confidence || 'unverified'}
+				</Badge>
+			)}
+			{business.website && (
+				<Button
+					variant='ghost'
+					size='sm'
+					onClick={handleDiscover}
+					disabled={discoverCareers.isPending}
+					title='Find careers page'>
+					{discoverCareers.isPending ? (
+						<Loader2 className='w-4 h-4 animate-spin' />
+					) : (
+						<Search className='w-4 h-4' />
+					)}
+				</Button>
+			)}
+		</div>
+	);
+}
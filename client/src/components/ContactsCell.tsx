@@ -0,0 +1,113 @@
+import { Button } from '@/components/ui/button';
+import {
+	Github,
+	Linkedin,
+	Loader2,
+	Mail,
+	Phone,
+	Twitter,
+	UserSearch,
+} from 'lucide-react';
+import { SavedBusiness } from '@/hooks/useSavedBusinesses';
+import { useExtractContacts } from '@/hooks/useEnrichment';
+import { ContactDetail } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+
+const foundOn = (detail: ContactDetail) => `Found on ${detail.sourceUrl}`;
+
+// Contact details found on the business's website, with where each came from
+export default function ContactsCell({
+	business,
+}: {
+	business: SavedBusiness;
+}) {
+	const { toast } = useToast();
+	const extractContacts = useExtractContacts();
+	const contacts = business.contacts;
+
+	const handleExtract = async () => {
+		try {
+			await extractContacts.mutateAsync(business._id!);
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to extract contacts',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const socials = contacts
+		? ([
+				[contacts.linkedin, Linkedin, 'LinkedIn'],
+				[contacts.x, Twitter, 'X'],
+				[contacts.github, Github, 'GitHub'],
+		  ] as const)
+		: [];
+
+	return (
+		<div className='space-y-1 text-sm'>
+			{contacts?.emails.map((email) => (
+				<a
+					key={email.value}
+					href={`mailto:${email.value}`}
+					title={foundOn(email)}
+					className='flex items-center gap-1 text-blue-600 hover:underline'>
+					<Mail className='w-3 h-3' />
+					{email.value}
+				</a>
+			))}
+			{contacts?.phones.map((phone) => (
+				<div
+					key={phone.value}
+					title={foundOn(phone)}
+					className='flex items-center gap-1'>
+					<Phone className='w-3 h-3' />
+					{phone.value}
+				</div>
+			))}
+			<div className='flex items-center gap-2'>
+				{socials.map(
+					([detail, Icon, label]) =>
+						detail && (
+							<a
+								key={label}
+								href={detail.value}
+								target='_blank'
+								rel='noopener noreferrer'
+								title={`${label}: ${foundOn(detail)}`}
+								className='text-blue-600'>
+								<Icon className='w-4 h-4' />
+							</a>
+						)
+				)}
+				{contacts &&
+					contacts.emails.length === 0 &&
+					contacts.phones.length === 0 &&
+					socials.every(([detail]) => !detail) && (
+						<span className='text-muted-foreground'>
+							None found
+						</span>
+					)}
+				{business.website && (
+					<Button
+						variant='ghost'
+						size='sm'
+						className='h-6 px-1'
+						onClick={handleExtract}
+						disabled={extractContacts.isPending}
+						title='Find contact details on the website'>
+						{extractContacts.isPending ? (
+							<Loader2 className='w-3 h-3 animate-spin' />
+						) : (
+							<UserSearch className='w-3 h-3' />
+						)}
+					</Button>
+				)}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,61 @@
+import { Badge } from '@/components/ui/badge';
+import { CleanupPlan } from '@/hooks/useBusinessMerges';
+
+// What a previewed duplicate cleanup keeps and deletes, and why
+export default function DuplicateCleanupPreview({
+	plan,
+}: {
+	plan: CleanupPlan;
+}) {
+	if (plan.removeCount === 0) {
+		return (
+			<p className='text-sm text-muted-foreground'>
+				No duplicates found.
+			</p>
+		);
+	}
+
+	const companies = plan.groups.length;
+
+	return (
+		<div className='space-y-3'>
+			<p className='text-sm font-medium'>
+				{plan.removeCount} duplicate{plan.removeCount === 1 ? '' : 's'}{' '}
+				will be deleted from {companies}{' '}
+				{companies === 1 ? 'company' : 'companies'}.
+			</p>
+			<div className='max-h-80 overflow-y-auto space-y-3 rounded-md border p-3'>
+				{plan.groups.map((group) => (
+					<div key={group.keep._id} className='text-sm space-y-1'>
+						<div>
+							<Badge
+								variant='outline'
+								className='mr-2 bg-green-50 text-green-800 border-green-200'>
+								Keep
+							</Badge>
+							<span className='font-medium'>
+								{group.keep.name}
+							</span>{' '}
+							<span className='text-muted-foreground'>
+								({group.keepReason})
+							</span>
+						</div>
+						{group.remove.map((business) => (
+							<div key={business._id} className='pl-4'>
+								<Badge
+									variant='outline'
+									className='mr-2 bg-red-50 text-red-800 border-red-200'>
+									Delete
+								</Badge>
+								{business.name}{' '}
+								<span className='text-muted-foreground'>
+									({business.reason})
+								</span>
+							</div>
+						))}
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,337 @@
+import { useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from '@/components/ui/dialog';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { Combine, Loader2, Undo2 } from 'lucide-react';
+import {
+	useDuplicateGroups,
+	useBusinessMerges,
+	useMergeBusinesses,
+	useUndoMerge,
+	DuplicateGroup,
+	MergeableField,
+} from '@/hooks/useBusinessMerges';
+import { useToast } from '@/hooks/use-toast';
+
+const FIELD_LABELS: Record<MergeableField, string> = {
+	name: 'Name',
+	website: 'Website',
+	location: 'Address',
+	phone: 'Phone',
+	careerLink: 'Career link',
+	notes: 'Notes',
+};
+
+const FIELDS = Object.keys(FIELD_LABELS) as MergeableField[];
+
+// Field label column, then one column per business
+const columnsFor = (count: number) => ({
+	gridTemplateColumns: `8rem repeat(${count}, minmax(0, 1fr))`,
+});
+
+function DuplicateGroupReview({ group }: { group: DuplicateGroup }) {
+	const { businesses, reasons } = group;
+	const [survivorId, setSurvivorId] = useState(businesses[0]._id!);
+	const [leftOut, setLeftOut] = useState<Set<string>>(new Set());
+	const [sources, setSources] = useState<
+		Partial<Record<MergeableField, string>>
+	>({});
+	const [combineNotes, setCombineNotes] = useState(false);
+	const { toast } = useToast();
+	const mergeBusinesses = useMergeBusinesses();
+
+	const survivor = businesses.find((b) => b._id === survivorId)!;
+	const included = businesses.filter((b) => !leftOut.has(b._id!));
+	const duplicateIds = included
+		.map((b) => b._id!)
+		.filter((id) => id !== survivorId);
+
+	// Where a field's value comes from unless another copy is picked: the
+	// survivor, or the first copy that has a value
+	const sourceFor = (field: MergeableField) => {
+		const picked = sources[field];
+		if (picked && !leftOut.has(picked)) return picked;
+		const withValue = [survivor, ...included].find((b) => b[field]?.trim());
+		return (withValue || survivor)._id!;
+	};
+
+	const toggleLeftOut = (id: string, out: boolean) => {
+		const next = new Set(leftOut);
+		if (out) next.add(id);
+		else next.delete(id);
+		setLeftOut(next);
+	};
+
+	const handleMerge = async () => {
+		try {
+			await mergeBusinesses.mutateAsync({
+				survivorId,
+				duplicateIds,
+				sources: Object.fromEntries(
+					FIELDS.map((field) => [field, sourceFor(field)])
+				),
+				combineNotes,
+			});
+			toast({
+				title: 'Businesses merged',
+				description: `Merged ${duplicateIds.length} duplicate${
+					duplicateIds.length === 1 ? '' : 's'
+				} into ${survivor.name}. You can undo this below.`,
+			});
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to merge businesses',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	return (
+		<div className='rounded-md border p-4 space-y-3'>
+			<RadioGroup
+				value={survivorId}
+				onValueChange={setSurvivorId}
+				className='grid gap-3'
+				style={columnsFor(businesses.length)}>
+				<Label className='text-sm text-muted-foreground'>Keep</Label>
+				{businesses.map((business) => (
+					<div key={business._id} className='space-y-1'>
+						<div className='flex items-center space-x-2'>
+							<RadioGroupItem
+								value={business._id!}
+								id={`keep-${business._id}`}
+								disabled={leftOut.has(business._id!)}
+							/>
+							<Label
+								htmlFor={`keep-${business._id}`}
+								className='font-medium'>
+								{business.name}
+							</Label>
+						</div>
+						{reasons[business._id!] && (
+							<Badge
+								variant='outline'
+								className='bg-amber-100 text-amber-800 border-amber-200'>
+								{reasons[business._id!]}
+							</Badge>
+						)}
+						{business.createdAt && (
+							<p className='text-xs text-muted-foreground'>
+								Saved{' '}
+								{new Date(business.createdAt).toLocaleString()}
+							</p>
+						)}
+						{business._id !== survivorId && (
+							<div className='flex items-center space-x-2'>
+								<Checkbox
+									id={`leave-out-${business._id}`}
+									checked={leftOut.has(business._id!)}
+									onCheckedChange={(checked) =>
+										toggleLeftOut(
+											business._id!,
+											checked === true
+										)
+									}
+								/>
+								<Label
+									htmlFor={`leave-out-${business._id}`}
+									className='text-xs font-normal'>
+									Not a duplicate
+								</Label>
+							</div>
+						)}
+					</div>
+				))}
+			</RadioGroup>
+
+			{FIELDS.map((field) => (
+				<RadioGroup
+					key={field}
+					value={sourceFor(field)}
+					onValueChange={(id) =>
+						setSources({ ...sources, [field]: id })
+					}
+					disabled={field === 'notes' && combineNotes}
+					className='grid gap-3 border-t pt-3'
+					style={columnsFor(businesses.length)}>
+					<Label className='text-sm text-muted-foreground'>
+						{FIELD_LABELS[field]}
+					</Label>
+					{businesses.map((business) => (
+						<div
+							key={business._id}
+							className='flex items-start space-x-2'>
+							<RadioGroupItem
+								value={business._id!}
+								id={`${field}-${business._id}`}
+								disabled={leftOut.has(business._id!)}
+								className='mt-0.5'
+							/>
+							<Label
+								htmlFor={`${field}-${business._id}`}
+								className='text-sm font-normal break-all whitespace-pre-wrap'>
+								{business[field]?.trim() || (
+									<span className='text-muted-foreground'>
+										—
+									</span>
+								)}
+							</Label>
+						</div>
+					))}
+				</RadioGroup>
+			))}
+
+			<div className='flex items-center justify-between border-t pt-3'>
+				<div className='flex items-center space-x-2'>
+					<Checkbox
+						id={`combine-notes-${businesses[0]._id}`}
+						checked={combineNotes}
+						onCheckedChange={(checked) =>
+							setCombineNotes(checked === true)
+						}
+					/>
+					<Label
+						htmlFor={`combine-notes-${businesses[0]._id}`}
+						className='text-sm font-normal'>
+						Combine notes from every copy
+					</Label>
+				</div>
+				<Button
+					size='sm'
+					onClick={handleMerge}
+					disabled={
+						duplicateIds.length === 0 || mergeBusinesses.isPending
+					}>
+					{mergeBusinesses.isPending ? (
+						<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+					) : (
+						<Combine className='w-4 h-4 mr-2' />
+					)}
+					Merge {duplicateIds.length + 1}
+				</Button>
+			</div>
+		</div>
+	);
+}
+
+export default function DuplicateReviewDialog() {
+	const [open, setOpen] = useState(false);
+	const { toast } = useToast();
+
+	const { data, isLoading } = useDuplicateGroups(open);
+	const { data: merges } = useBusinessMerges(open);
+	const undoMerge = useUndoMerge();
+
+	const handleUndo = async (id: string) => {
+		try {
+			await undoMerge.mutateAsync(id);
+			toast({ title: 'Merge undone' });
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to undo merge',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const groups = data?.groups || [];
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			<DialogTrigger asChild>
+				<Button variant='outline' size='sm'>
+					<Combine className='w-4 h-4 mr-2' />
+					Review Duplicates
+				</Button>
+			</DialogTrigger>
+			<DialogContent className='max-w-5xl max-h-[90vh] overflow-y-auto'>
+				<DialogHeader>
+					<DialogTitle>Review Duplicates</DialogTitle>
+					<DialogDescription>
+						Pick the record to keep and which copy each field comes
+						from. Notes, tags and list memberships from the other
+						copies are carried over.
+					</DialogDescription>
+				</DialogHeader>
+
+				{isLoading ? (
+					<div className='flex justify-center p-6'>
+						<Loader2 className='w-6 h-6 animate-spin' />
+					</div>
+				) : groups.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>
+						No duplicates found.
+					</p>
+				) : (
+					<div className='space-y-4'>
+						{groups.map((group) => (
+							<DuplicateGroupReview
+								key={group.businesses
+									.map((b) => b._id)
+									.join(':')}
+								group={group}
+							/>
+						))}
+					</div>
+				)}
+
+				{merges && merges.length > 0 && (
+					<div className='space-y-2 border-t pt-4'>
+						<h3 className='text-sm font-medium'>Recent merges</h3>
+						{merges.map((merge) => (
+							<div
+								key={merge._id}
+								className='flex items-center justify-between text-sm'>
+								<div>
+									<span className='font-medium'>
+										{merge.survivorBefore.name}
+									</span>{' '}
+									<span className='text-muted-foreground'>
+										absorbed{' '}
+										{merge.removed
+											.map((b) => b.name)
+											.join(', ')}{' '}
+										·{' '}
+										{new Date(
+											merge.createdAt
+										).toLocaleString()}
+									</span>
+								</div>
+								{merge.undoneAt ? (
+									<Badge variant='outline'>Undone</Badge>
+								) : (
+									<Button
+										variant='outline'
+										size='sm'
+										onClick={() => handleUndo(merge._id)}
+										disabled={undoMerge.isPending}>
+										<Undo2 className='w-4 h-4 mr-2' />
+										Undo
+									</Button>
+								)}
+							</div>
+						))}
+					</div>
+				)}
+			</DialogContent>
+		</Dialog>
+	);
+}
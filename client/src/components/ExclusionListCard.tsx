@@ -0,0 +1,304 @@
+import { useState } from 'react';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import {
+	Table,
+	TableHeader,
+	TableRow,
+	TableHead,
+	TableBody,
+	TableCell,
+} from '@/components/ui/table';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+	useExclusionList,
+	useSaveExclusionList,
+	ExclusionList,
+	ExclusionRule,
+	ExclusionRuleKind,
+} from '@/hooks/useExclusions';
+import { ExclusionCategory } from '@/lib/types';
+import { useToast } from '@/hooks/use-toast';
+
+export const EXCLUSION_CATEGORY_LABELS: Record<ExclusionCategory, string> = {
+	chain: 'Chain / franchise',
+	staffing: 'Staffing agency',
+	do_not_contact: 'Do not contact',
+	other: 'Other',
+};
+
+const KIND_LABELS: Record<ExclusionRuleKind, string> = {
+	name: 'Name',
+	domain: 'Domain',
+	type: 'Places type',
+};
+
+const KIND_PLACEHOLDERS: Record<ExclusionRuleKind, string> = {
+	name: '*staffing*',
+	domain: 'roberthalf.com',
+	type: 'employment_agency',
+};
+
+const EMPTY_RULE: ExclusionRule = {
+	kind: 'name',
+	pattern: '',
+	category: 'chain',
+};
+
+export default function ExclusionListCard() {
+	const [rule, setRule] = useState<ExclusionRule>(EMPTY_RULE);
+	const { toast } = useToast();
+
+	const { data: list, isLoading } = useExclusionList();
+	const saveList = useSaveExclusionList();
+
+	const save = async (updated: ExclusionList) => {
+		try {
+			await saveList.mutateAsync({
+				mode: updated.mode,
+				rules: updated.rules,
+			});
+			return true;
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to save exclusion list',
+				variant: 'destructive',
+			});
+			return false;
+		}
+	};
+
+	const handleAdd = async (e: React.FormEvent) => {
+		e.preventDefault();
+		if (!list || !rule.pattern.trim()) return;
+
+		const pattern = rule.pattern.trim();
+		const exists = list.rules.some(
+			(r) =>
+				r.kind === rule.kind &&
+				r.pattern.toLowerCase() === pattern.toLowerCase()
+		);
+		if (exists) {
+			toast({ title: 'That rule is already on your list' });
+			return;
+		}
+
+		if (
+			await save({
+				...list,
+				rules: [...list.rules, { ...rule, pattern }],
+			})
+		) {
+			setRule({
+				...EMPTY_RULE,
+				kind: rule.kind,
+				category: rule.category,
+			});
+		}
+	};
+
+	const handleRemove = (index: number) => {
+		if (!list) return;
+		save({ ...list, rules: list.rules.filter((_, i) => i !== index) });
+	};
+
+	return (
+		<Card className='mt-6'>
+			<CardHeader>
+				<CardTitle>Exclusion List</CardTitle>
+				<CardDescription>
+					Companies to leave out of every search, such as chains,
+					staffing agencies and companies you shouldn't contact
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-6'>
+				{isLoading || !list ? (
+					<div className='flex justify-center p-6'>
+						<Loader2 className='w-6 h-6 animate-spin' />
+					</div>
+				) : (
+					<>
+						<div className='flex items-center space-x-2'>
+							<Switch
+								id='exclusion-flag-mode'
+								checked={list.mode === 'flag'}
+								onCheckedChange={(checked) =>
+									save({
+										...list,
+										mode: checked ? 'flag' : 'hide',
+									})
+								}
+								disabled={saveList.isPending}
+							/>
+							<Label htmlFor='exclusion-flag-mode'>
+								Flag excluded companies instead of hiding them
+							</Label>
+						</div>
+
+						<form
+							onSubmit={handleAdd}
+							className='grid grid-cols-1 md:grid-cols-4 gap-3 items-end'>
+							<div className='space-y-1'>
+								<Label>Match on</Label>
+								<Select
+									value={rule.kind}
+									onValueChange={(value) =>
+										setRule({
+											...rule,
+											kind: value as ExclusionRuleKind,
+										})
+									}>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{Object.entries(KIND_LABELS).map(
+											([kind, label]) => (
+												<SelectItem
+													key={kind}
+													value={kind}>
+													{label}
+												</SelectItem>
+											)
+										)}
+									</SelectContent>
+								</Select>
+							</div>
+							<div className='space-y-1'>
+								<Label htmlFor='exclusion-pattern'>
+									Pattern
+								</Label>
+								<Input
+									id='exclusion-pattern'
+									value={rule.pattern}
+									onChange={(e) =>
+										setRule({
+											...rule,
+											pattern: e.target.value,
+										})
+									}
+									placeholder={KIND_PLACEHOLDERS[rule.kind]}
+									required
+								/>
+							</div>
+							<div className='space-y-1'>
+								<Label>Reason</Label>
+								<Select
+									value={rule.category}
+									onValueChange={(value) =>
+										setRule({
+											...rule,
+											category:
+												value as ExclusionCategory,
+										})
+									}>
+									<SelectTrigger>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										{Object.entries(
+											EXCLUSION_CATEGORY_LABELS
+										).map(([category, label]) => (
+											<SelectItem
+												key={category}
+												value={category}>
+												{label}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+							</div>
+							<Button type='submit' disabled={saveList.isPending}>
+								{saveList.isPending ? (
+									<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+								) : (
+									<Plus className='w-4 h-4 mr-2' />
+								)}
+								Add rule
+							</Button>
+						</form>
+						<p className='text-xs text-muted-foreground'>
+							Names match anywhere in the company name, with * as
+							a wildcard. Domains also match their subdomains.
+						</p>
+
+						{list.rules.length === 0 ? (
+							<p className='text-sm text-muted-foreground'>
+								No exclusions yet.
+							</p>
+						) : (
+							<div className='rounded-md border'>
+								<Table>
+									<TableHeader>
+										<TableRow>
+											<TableHead>Match on</TableHead>
+											<TableHead>Pattern</TableHead>
+											<TableHead>Reason</TableHead>
+											<TableHead className='text-right'>
+												Actions
+											</TableHead>
+										</TableRow>
+									</TableHeader>
+									<TableBody>
+										{list.rules.map((r, index) => (
+											<TableRow
+												key={`${r.kind}:${r.pattern}`}>
+												<TableCell>
+													{KIND_LABELS[r.kind]}
+												</TableCell>
+												<TableCell className='font-mono text-sm'>
+													{r.pattern}
+												</TableCell>
+												<TableCell>
+													{
+														EXCLUSION_CATEGORY_LABELS[
+															r.category
+														]
+													}
+												</TableCell>
+												<TableCell className='text-right'>
+													<Button
+														variant='outline'
+														size='sm'
+														title='Remove rule'
+														onClick={() =>
+															handleRemove(index)
+														}
+														disabled={
+															saveList.isPending
+														}>
+														<Trash2 className='w-4 h-4' />
+													</Button>
+												</TableCell>
+											</TableRow>
+										))}
+									</TableBody>
+								</Table>
+							</div>
+						)}
+					</>
+				)}
+			</CardContent>
+		</Card>
+	);
+}
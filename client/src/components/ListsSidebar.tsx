@@ -0,0 +1,269 @@
+import { useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import {
+	Check,
+	Download,
+	Loader2,
+	Pencil,
+	Plus,
+	SlidersHorizontal,
+	Sparkles,
+	Trash2,
+	X,
+} from 'lucide-react';
+import SmartListDialog from '@/components/SmartListDialog';
+import {
+	isSmartList,
+	SavedList,
+	useCreateSavedList,
+	useDeleteSavedList,
+	useSavedLists,
+	useUpdateSavedList,
+} from '@/hooks/useSavedLists';
+import { useToast } from '@/hooks/use-toast';
+
+interface ListsSidebarProps {
+	activeListId: string | null;
+	onSelect: (listId: string | null) => void;
+	onExport: (list: SavedList) => void;
+}
+
+// The user's saved and smart lists. Picking one shows only its companies.
+export default function ListsSidebar({
+	activeListId,
+	onSelect,
+	onExport,
+}: ListsSidebarProps) {
+	const [newName, setNewName] = useState('');
+	const [editing, setEditing] = useState<{ id: string; name: string } | null>(
+		null
+	);
+	const { data: lists, isLoading } = useSavedLists();
+	const createList = useCreateSavedList();
+	const updateList = useUpdateSavedList();
+	const deleteList = useDeleteSavedList();
+	const { toast } = useToast();
+
+	const run = async (action: () => Promise<unknown>, failure: string) => {
+		try {
+			await action();
+			return true;
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description: error instanceof Error ? error.message : failure,
+				variant: 'destructive',
+			});
+			return false;
+		}
+	};
+
+	const handleCreate = async (e: React.FormEvent) => {
+		e.preventDefault();
+		const name = newName.trim();
+		if (!name) return;
+		if (
+			await run(
+				() => createList.mutateAsync({ name }),
+				'Failed to create the list'
+			)
+		) {
+			setNewName('');
+		}
+	};
+
+	const handleRename = async () => {
+		if (!editing || !editing.name.trim()) return;
+		if (
+			await run(
+				() =>
+					updateList.mutateAsync({
+						id: editing.id,
+						updates: { name: editing.name.trim() },
+					}),
+				'Failed to rename the list'
+			)
+		) {
+			setEditing(null);
+		}
+	};
+
+	const handleDelete = async (list: SavedList) => {
+		if (
+			!confirm(
+				`Delete the list "${list.name}"? The companies in it stay saved.`
+			)
+		) {
+			return;
+		}
+		if (
+			await run(
+				() => deleteList.mutateAsync(list._id),
+				'Failed to delete the list'
+			)
+		) {
+			if (activeListId === list._id) onSelect(null);
+		}
+	};
+
+	const itemClass = (active: boolean) =>
+		`flex items-center justify-between gap-1 rounded-md px-2 py-1 text-sm ${
+			active ? 'bg-blue-50 text-blue-900' : 'hover:bg-muted'
+		}`;
+
+	return (
+		<Card className='lg:w-64 flex-shrink-0 self-start'>
+			<CardHeader className='pb-2'>
+				<CardTitle className='text-base'>Lists</CardTitle>
+			</CardHeader>
+			<CardContent className='space-y-1'>
+				<button
+					type='button'
+					className={`w-full text-left ${itemClass(!activeListId)}`}
+					onClick={() => onSelect(null)}>
+					All companies
+				</button>
+
+				{isLoading && (
+					<div className='flex justify-center p-2'>
+						<Loader2 className='w-4 h-4 animate-spin' />
+					</div>
+				)}
+
+				{lists?.map((list) =>
+					editing?.id === list._id ? (
+						<div key={list._id} className='flex items-center gap-1'>
+							<Input
+								autoFocus
+								value={editing.name}
+								maxLength={100}
+								className='h-8'
+								onChange={(e) =>
+									setEditing({
+										...editing,
+										name: e.target.value,
+									})
+								}
+								onKeyDown={(e) => {
+									if (e.key === 'Enter') handleRename();
+									if (e.key === 'Escape') setEditing(null);
+								}}
+							/>
+							<Button
+								variant='ghost'
+								size='sm'
+								className='h-8 px-1'
+								onClick={handleRename}
+								title='Save name'>
+								<Check className='w-4 h-4' />
+							</Button>
+							<Button
+								variant='ghost'
+								size='sm'
+								className='h-8 px-1'
+								onClick={() => setEditing(null)}
+								title='Cancel'>
+								<X className='w-4 h-4' />
+							</Button>
+						</div>
+					) : (
+						<div
+							key={list._id}
+							className={`group ${itemClass(
+								activeListId === list._id
+							)}`}>
+							<button
+								type='button'
+								className='flex-1 min-w-0 truncate text-left'
+								title={list.description || list.name}
+								onClick={() => onSelect(list._id)}>
+								{isSmartList(list) && (
+									<Sparkles className='inline w-3 h-3 mr-1 text-blue-600' />
+								)}
+								{list.name}
+							</button>
+							<div className='hidden group-hover:flex'>
+								{isSmartList(list) && (
+									<SmartListDialog list={list}>
+										<Button
+											variant='ghost'
+											size='sm'
+											className='h-6 px-1'
+											title='Edit rules'>
+											<SlidersHorizontal className='w-3 h-3' />
+										</Button>
+									</SmartListDialog>
+								)}
+								<Button
+									variant='ghost'
+									size='sm'
+									className='h-6 px-1'
+									onClick={() => onExport(list)}
+									title='Export CSV'>
+									<Download className='w-3 h-3' />
+								</Button>
+								<Button
+									variant='ghost'
+									size='sm'
+									className='h-6 px-1'
+									onClick={() =>
+										setEditing({
+											id: list._id,
+											name: list.name,
+										})
+									}
+									title='Rename'>
+									<Pencil className='w-3 h-3' />
+								</Button>
+								<Button
+									variant='ghost'
+									size='sm'
+									className='h-6 px-1'
+									onClick={() => handleDelete(list)}
+									title='Delete list'>
+									<Trash2 className='w-3 h-3' />
+								</Button>
+							</div>
+							<Badge
+								variant='secondary'
+								className='group-hover:hidden'>
+								{list.count ?? list.businesses?.length ?? 0}
+							</Badge>
+						</div>
+					)
+				)}
+
+				<form onSubmit={handleCreate} className='flex gap-1 pt-2'>
+					<Input
+						placeholder='New list...'
+						value={newName}
+						maxLength={100}
+						className='h-8'
+						onChange={(e) => setNewName(e.target.value)}
+					/>
+					<Button
+						type='submit'
+						variant='outline'
+						size='sm'
+						className='h-8 px-2'
+						disabled={!newName.trim() || createList.isPending}
+						title='Create list'>
+						<Plus className='w-4 h-4' />
+					</Button>
+				</form>
+				<SmartListDialog>
+					<Button
+						variant='ghost'
+						size='sm'
+						className='w-full justify-start px-2'>
+						<Sparkles className='w-4 h-4 mr-2' />
+						New smart list
+					</Button>
+				</SmartListDialog>
+			</CardContent>
+		</Card>
+	);
+}
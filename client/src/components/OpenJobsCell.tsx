@@ -0,0 +1,95 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, RefreshCw } from 'lucide-react';
+import { SavedBusiness } from '@/hooks/useSavedBusinesses';
+import { useCheckJobs } from '@/hooks/useEnrichment';
+import { useToast } from '@/hooks/use-toast';
+
+const PLATFORM_LABELS: Record<string, string> = {
+	greenhouse: 'Greenhouse',
+	lever: 'Lever',
+	workday: 'Workday',
+	ashby: 'Ashby',
+	bamboohr: 'BambooHR',
+	smartrecruiters: 'SmartRecruiters',
+};
+
+// Open postings on the business's job board, with the role titles on hover
+export default function OpenJobsCell({
+	business,
+}: {
+	business: SavedBusiness;
+}) {
+	const { toast } = useToast();
+	const checkJobs = useCheckJobs();
+	const count = business.openJobCount;
+	const roles = business.openRoles || [];
+
+	const handleCheck = async () => {
+		try {
+			const result = await checkJobs.mutateAsync(business._id!);
+			if (!result.platform) {
+				toast({
+					title: 'No job board found',
+					description: `${business.name}'s careers page doesn't use a supported job board.`,
+				});
+			}
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to check open jobs',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	return (
+		<div className='flex items-center gap-2'>
+			{count !== undefined ? (
+				<Badge
+					variant='outline'
+					className={
+						count > 0
+							? 'bg-green-50 text-green-800 border-green-200'
+							: ''
+					}
+					title={
+						roles.length > 0 ? roles.join('\n') : 'No open roles'
+					}>
+					{count} open
+				</Badge>
+			) : (
+				<span className='text-muted-foreground'>
+					{business.jobsCheckedAt ? 'No job board' : '—'}
+				</span>
+			)}
+			{business.atsPlatform && (
+				<a
+					href={business.atsBoardUrl}
+					target='_blank'
+					rel='noopener noreferrer'
+					className='text-xs text-blue-600 hover:underline'>
+					{PLATFORM_LABELS[business.atsPlatform] ||
+						business.atsPlatform}
+				</a>
+			)}
+			{business.careerLink && (
+				<Button
+					variant='ghost'
+					size='sm'
+					onClick={handleCheck}
+					disabled={checkJobs.isPending}
+					title='Check open jobs'>
+					{checkJobs.isPending ? (
+						<Loader2 className='w-4 h-4 animate-spin' />
+					) : (
+						<RefreshCw className='w-4 h-4' />
+					)}
+				</Button>
+			)}
+		</div>
+	);
+}
@@ -0,0 +1,173 @@
+import { useState, type DragEvent } from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Loader2 } from 'lucide-react';
+import {
+	SavedBusiness,
+	SavedBusinessFilters,
+	NO_PIPELINE_STATUS,
+	useSavedBusinesses,
+	useUpdateSavedBusiness,
+} from '@/hooks/useSavedBusinesses';
+import { PipelineStage } from '@/hooks/usePipeline';
+import { useToast } from '@/hooks/use-toast';
+
+// Cards on the board at most; narrow the filters to see the rest
+const BOARD_LIMIT = 500;
+
+interface PipelineBoardProps {
+	stages: PipelineStage[];
+	searchTerm?: string;
+	recentOnly?: boolean;
+	filters?: SavedBusinessFilters;
+	onOpen?: (business: SavedBusiness) => void;
+}
+
+// Saved businesses as cards in one column per pipeline stage. Dragging a
+// card to another column moves the business to that stage.
+export default function PipelineBoard({
+	stages,
+	searchTerm,
+	recentOnly,
+	filters = {},
+	onOpen,
+}: PipelineBoardProps) {
+	const { toast } = useToast();
+	const updateBusiness = useUpdateSavedBusiness();
+	const { data, isLoading } = useSavedBusinesses(
+		1,
+		BOARD_LIMIT,
+		searchTerm,
+		recentOnly,
+		filters
+	);
+	// Moves shown straight away, before the list is refetched
+	const [moved, setMoved] = useState<Record<string, string>>({});
+	const [dropTarget, setDropTarget] = useState<string | null>(null);
+
+	const businesses: SavedBusiness[] = data?.businesses || [];
+	const total: number = data?.total || 0;
+	const stageIds = new Set(stages.map((stage) => stage.id));
+
+	const statusOf = (business: SavedBusiness) => {
+		const status = moved[business._id!] ?? business.pipelineStatus;
+		return status && stageIds.has(status) ? status : NO_PIPELINE_STATUS;
+	};
+
+	const columns = [
+		{ id: NO_PIPELINE_STATUS, name: 'No status' },
+		...stages,
+	].map((stage) => ({
+		...stage,
+		businesses: businesses.filter(
+			(business) => statusOf(business) === stage.id
+		),
+	}));
+
+	const handleDrop = async (event: DragEvent, stageId: string) => {
+		event.preventDefault();
+		setDropTarget(null);
+		const id = event.dataTransfer.getData('text/plain');
+		const business = businesses.find((b) => b._id === id);
+		if (!business || statusOf(business) === stageId) return;
+
+		setMoved((current) => ({ ...current, [id]: stageId }));
+		try {
+			await updateBusiness.mutateAsync({
+				id,
+				updates: {
+					pipelineStatus:
+						stageId === NO_PIPELINE_STATUS ? '' : stageId,
+				},
+			});
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to move the business',
+				variant: 'destructive',
+			});
+		} finally {
+			setMoved(({ [id]: _, ...rest }) => rest);
+		}
+	};
+
+	if (isLoading) {
+		return (
+			<div className='flex items-center justify-center p-8'>
+				<Loader2 className='w-8 h-8 animate-spin mr-2' />
+				Loading board...
+			</div>
+		);
+	}
+
+	return (
+		<div className='space-y-2'>
+			{total > businesses.length && (
+				<p className='text-sm text-muted-foreground'>
+					Showing the first {businesses.length} of {total} companies.
+					Use the filters to narrow the board.
+				</p>
+			)}
+			<div className='flex gap-3 overflow-x-auto pb-2'>
+				{columns.map((column) => (
+					<div
+						key={column.id}
+						onDragOver={(event) => {
+							event.preventDefault();
+							setDropTarget(column.id);
+						}}
+						onDragLeave={() => setDropTarget(null)}
+						onDrop={(event) => handleDrop(event, column.id)}
+						className={`flex-shrink-0 w-60 rounded-lg border p-2 ${
+							dropTarget === column.id
+								? 'bg-blue-50 border-blue-300'
+								: 'bg-muted/40'
+						}`}>
+						<div className='flex items-center justify-between mb-2 px-1'>
+							<span className='text-sm font-medium'>
+								{column.name}
+							</span>
+							<Badge variant='secondary'>
+								{column.businesses.length}
+							</Badge>
+						</div>
+						<div className='space-y-2 min-h-[4rem]'>
+							{column.businesses.map((business) => (
+								<div
+									key={business._id}
+									draggable
+									onDragStart={(event) =>
+										event.dataTransfer.setData(
+											'text/plain',
+											business._id!
+										)
+									}
+									onClick={() => onOpen?.(business)}
+									className='rounded-md border bg-background p-2 text-sm shadow-sm cursor-grab active:cursor-grabbing'>
+									<div className='font-medium'>
+										{business.name}
+									</div>
+									{business.location && (
+										<div className='text-xs text-muted-foreground truncate'>
+											{business.location}
+										</div>
+									)}
+									{!!business.openJobCount && (
+										<div className='text-xs text-green-700'>
+											{business.openJobCount} open{' '}
+											{business.openJobCount === 1
+												? 'job'
+												: 'jobs'}
+										</div>
+									)}
+								</div>
+							))}
+						</div>
+					</div>
+				))}
+			</div>
+		</div>
+	);
+}
@@ -0,0 +1,198 @@
+import { useEffect, useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+	ArrowDown,
+	ArrowUp,
+	Loader2,
+	Plus,
+	Settings,
+	Trash2,
+} from 'lucide-react';
+import { PipelineStage, useSavePipelineStages } from '@/hooks/usePipeline';
+import { NO_PIPELINE_STATUS } from '@/hooks/useSavedBusinesses';
+import { useToast } from '@/hooks/use-toast';
+
+// A stage id from its name that isn't taken yet, e.g. "Phone screen" ->
+// "phone_screen"
+function stageIdFor(name: string, taken: PipelineStage[]): string {
+	const base =
+		name
+			.toLowerCase()
+			.replace(/[^a-z0-9]+/g, '_')
+			.replace(/^_+|_+$/g, '')
+			.slice(0, 30) || 'stage';
+	let id = base;
+	for (
+		let n = 2;
+		id === NO_PIPELINE_STATUS || taken.some((stage) => stage.id === id);
+		n++
+	) {
+		id = `${base}_${n}`;
+	}
+	return id;
+}
+
+// Rename, reorder, add and remove pipeline stages. Renaming keeps a stage's
+// id, so businesses stay in it.
+export default function PipelineStagesDialog({
+	stages,
+}: {
+	stages: PipelineStage[];
+}) {
+	const [open, setOpen] = useState(false);
+	const [draft, setDraft] = useState<PipelineStage[]>(stages);
+	const [newStage, setNewStage] = useState('');
+	const saveStages = useSavePipelineStages();
+	const { toast } = useToast();
+
+	useEffect(() => {
+		if (open) {
+			setDraft(stages);
+			setNewStage('');
+		}
+	}, [open, stages]);
+
+	const move = (index: number, offset: number) => {
+		const next = [...draft];
+		const [stage] = next.splice(index, 1);
+		next.splice(index + offset, 0, stage);
+		setDraft(next);
+	};
+
+	const handleAdd = (e: React.FormEvent) => {
+		e.preventDefault();
+		const name = newStage.trim();
+		if (!name) return;
+		setDraft([...draft, { id: stageIdFor(name, draft), name }]);
+		setNewStage('');
+	};
+
+	const handleSave = async () => {
+		try {
+			const result = await saveStages.mutateAsync(
+				draft.map((stage) => ({ ...stage, name: stage.name.trim() }))
+			);
+			toast({
+				title: 'Pipeline Saved',
+				description:
+					result.cleared > 0
+						? `${result.cleared} companies in removed stages now have no status`
+						: undefined,
+			});
+			setOpen(false);
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to save pipeline',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			<DialogTrigger asChild>
+				<Button variant='outline' size='sm'>
+					<Settings className='w-4 h-4 mr-2' />
+					Edit Stages
+				</Button>
+			</DialogTrigger>
+			<DialogContent>
+				<DialogHeader>
+					<DialogTitle>Pipeline Stages</DialogTitle>
+					<DialogDescription>
+						Companies in a stage you remove go back to having no
+						status
+					</DialogDescription>
+				</DialogHeader>
+				<div className='space-y-2'>
+					{draft.map((stage, index) => (
+						<div key={stage.id} className='flex items-center gap-2'>
+							<Input
+								value={stage.name}
+								maxLength={40}
+								onChange={(e) =>
+									setDraft(
+										draft.map((s, i) =>
+											i === index
+												? { ...s, name: e.target.value }
+												: s
+										)
+									)
+								}
+							/>
+							<Button
+								variant='ghost'
+								size='sm'
+								onClick={() => move(index, -1)}
+								disabled={index === 0}
+								title='Move up'>
+								<ArrowUp className='w-4 h-4' />
+							</Button>
+							<Button
+								variant='ghost'
+								size='sm'
+								onClick={() => move(index, 1)}
+								disabled={index === draft.length - 1}
+								title='Move down'>
+								<ArrowDown className='w-4 h-4' />
+							</Button>
+							<Button
+								variant='ghost'
+								size='sm'
+								onClick={() =>
+									setDraft(
+										draft.filter((_, i) => i !== index)
+									)
+								}
+								disabled={draft.length === 1}
+								title='Remove stage'>
+								<Trash2 className='w-4 h-4' />
+							</Button>
+						</div>
+					))}
+					<form onSubmit={handleAdd} className='flex gap-2 pt-2'>
+						<Input
+							placeholder='New stage, e.g. Phone screen'
+							value={newStage}
+							maxLength={40}
+							onChange={(e) => setNewStage(e.target.value)}
+						/>
+						<Button
+							type='submit'
+							variant='outline'
+							disabled={!newStage.trim() || draft.length >= 20}>
+							<Plus className='w-4 h-4' />
+						</Button>
+					</form>
+				</div>
+				<DialogFooter>
+					<Button
+						onClick={handleSave}
+						disabled={
+							saveStages.isPending ||
+							draft.some((stage) => !stage.name.trim())
+						}>
+						{saveStages.isPending && (
+							<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+						)}
+						Save Stages
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,179 @@
+import { useState } from 'react';
+import {
+	DropdownMenu,
+	DropdownMenuCheckboxItem,
+	DropdownMenuContent,
+	DropdownMenuLabel,
+	DropdownMenuSeparator,
+	DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Button } from '@/components/ui/button';
+import { Columns3, ExternalLink, Star } from 'lucide-react';
+import { PlaceDetails } from '@/lib/types';
+
+// Optional table columns for the Google Places details of a business
+export type PlaceDetailColumn =
+	| 'phone'
+	| 'primaryType'
+	| 'rating'
+	| 'businessStatus'
+	| 'coordinates'
+	| 'googleMapsUrl';
+
+export const PLACE_DETAIL_COLUMNS: {
+	key: PlaceDetailColumn;
+	label: string;
+}[] = [
+	{ key: 'phone', label: 'Phone' },
+	{ key: 'primaryType', label: 'Type' },
+	{ key: 'rating', label: 'Rating' },
+	{ key: 'businessStatus', label: 'Status' },
+	{ key: 'coordinates', label: 'Coordinates' },
+	{ key: 'googleMapsUrl', label: 'Google Maps' },
+];
+
+const DEFAULT_COLUMNS: PlaceDetailColumn[] = ['phone', 'rating'];
+
+// Which detail columns a table shows, in PLACE_DETAIL_COLUMNS order
+export function usePlaceDetailColumns() {
+	const [visible, setVisible] =
+		useState<PlaceDetailColumn[]>(DEFAULT_COLUMNS);
+
+	const toggle = (column: PlaceDetailColumn, checked: boolean) => {
+		setVisible((current) =>
+			PLACE_DETAIL_COLUMNS.map((c) => c.key).filter((key) =>
+				key === column ? checked : current.includes(key)
+			)
+		);
+	};
+
+	return { visible, toggle };
+}
+
+// "primary_type" -> "Primary type"
+function formatType(type: string): string {
+	const words = type.replace(/_/g, ' ');
+	return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+const STATUS_LABELS: Record<string, string> = {
+	OPERATIONAL: 'Open',
+	CLOSED_TEMPORARILY: 'Temporarily closed',
+	CLOSED_PERMANENTLY: 'Permanently closed',
+};
+
+export function PlaceDetailColumnsMenu({
+	visible,
+	onToggle,
+}: {
+	visible: PlaceDetailColumn[];
+	onToggle: (column: PlaceDetailColumn, checked: boolean) => void;
+}) {
+	return (
+		<DropdownMenu>
+			<DropdownMenuTrigger asChild>
+				<Button variant='outline' size='sm'>
+					<Columns3 className='w-4 h-4 mr-2' />
+					Columns
+				</Button>
+			</DropdownMenuTrigger>
+			<DropdownMenuContent align='end'>
+				<DropdownMenuLabel>Listing details</DropdownMenuLabel>
+				<DropdownMenuSeparator />
+				{PLACE_DETAIL_COLUMNS.map((column) => (
+					<DropdownMenuCheckboxItem
+						key={column.key}
+						checked={visible.includes(column.key)}
+						onCheckedChange={(checked) =>
+							onToggle(column.key, checked === true)
+						}
+						onSelect={(e) => e.preventDefault()}>
+						{column.label}
+					</DropdownMenuCheckboxItem>
+				))}
+			</DropdownMenuContent>
+		</DropdownMenu>
+	);
+}
+
+export function placeDetailLabel(column: PlaceDetailColumn): string {
+	return PLACE_DETAIL_COLUMNS.find((c) => c.key === column)!.label;
+}
+
+export function PlaceDetailValue({
+	business,
+	column,
+}: {
+	business: PlaceDetails;
+	column: PlaceDetailColumn;
+}) {
+	const empty = <span className='text-gray-400'>—</span>;
+
+	switch (column) {
+		case 'phone':
+			return business.phone ? (
+				<a
+					href={`tel:${business.phone}`}
+					className='whitespace-nowrap hover:underline'>
+					{business.phone}
+				</a>
+			) : (
+				empty
+			);
+		case 'primaryType':
+			return business.primaryType ? (
+				<span title={business.types?.map(formatType).join(', ')}>
+					{formatType(business.primaryType)}
+				</span>
+			) : (
+				empty
+			);
+		case 'rating':
+			return business.rating !== undefined ? (
+				<span className='inline-flex items-center whitespace-nowrap'>
+					<Star className='w-3 h-3 mr-1 fill-amber-400 text-amber-400' />
+					{business.rating.toFixed(1)}
+					<span className='ml-1 text-xs text-gray-500'>
+						({business.reviewCount ?? 0})
+					</span>
+				</span>
+			) : (
+				empty
+			);
+		case 'businessStatus':
+			return business.businessStatus ? (
+				<span
+					className={
+						business.businessStatus === 'OPERATIONAL'
+							? 'text-green-700'
+							: 'text-red-600'
+					}>
+					{STATUS_LABELS[business.businessStatus] ||
+						formatType(business.businessStatus.toLowerCase())}
+				</span>
+			) : (
+				empty
+			);
+		case 'coordinates':
+			return business.lat !== undefined && business.lng !== undefined ? (
+				<span className='whitespace-nowrap text-xs'>
+					{business.lat.toFixed(5)}, {business.lng.toFixed(5)}
+				</span>
+			) : (
+				empty
+			);
+		case 'googleMapsUrl':
+			return business.googleMapsUrl ? (
+				<a
+					href={business.googleMapsUrl}
+					target='_blank'
+					rel='noopener noreferrer'
+					className='inline-flex items-center text-primary hover:underline'>
+					Map
+					<ExternalLink className='w-3 h-3 ml-1' />
+				</a>
+			) : (
+				empty
+			);
+	}
+}
@@ -0,0 +1,211 @@
+import { useState } from 'react';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { CalendarPlus, Check, Copy, Loader2, RefreshCw } from 'lucide-react';
+import {
+	Reminder,
+	useCalendarFeed,
+	useReminders,
+	useUpdateReminder,
+} from '@/hooks/useReminders';
+import { TimelineBusiness } from '@/components/BusinessTimeline';
+import { useToast } from '@/hooks/use-toast';
+
+const endOfToday = () => {
+	const end = new Date();
+	end.setHours(23, 59, 59, 999);
+	return end.toISOString();
+};
+
+const startOfToday = () => {
+	const start = new Date();
+	start.setHours(0, 0, 0, 0);
+	return start;
+};
+
+// Reminders due today or overdue, and the calendar feed that carries all
+// open reminders into the user's calendar app
+export default function RemindersCard({
+	onOpen,
+}: {
+	onOpen: (business: TimelineBusiness) => void;
+}) {
+	const [dueBefore] = useState(endOfToday);
+	const { data, isLoading } = useReminders({ dueBefore });
+	const updateReminder = useUpdateReminder();
+	const calendarFeed = useCalendarFeed();
+	const { toast } = useToast();
+
+	const reminders = data?.reminders || [];
+	const isOverdue = (reminder: Reminder) =>
+		new Date(reminder.dueAt) < startOfToday();
+
+	const handleDone = async (reminder: Reminder) => {
+		try {
+			await updateReminder.mutateAsync({
+				id: reminder._id,
+				updates: { done: true },
+			});
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to update the reminder',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const handleFeed = async (reset: boolean) => {
+		if (
+			reset &&
+			!confirm(
+				'Reset the calendar link? Calendars subscribed to the old link stop updating.'
+			)
+		) {
+			return;
+		}
+		try {
+			await calendarFeed.mutateAsync(reset);
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to get the calendar link',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const feedUrl = calendarFeed.data?.url;
+
+	return (
+		<Card className='mb-6'>
+			<CardHeader>
+				<CardTitle>Follow-ups Due</CardTitle>
+				<CardDescription>
+					Reminders due today or overdue. Add reminders from a
+					company's timeline.
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{isLoading ? (
+					<div className='flex justify-center p-6'>
+						<Loader2 className='w-6 h-6 animate-spin' />
+					</div>
+				) : reminders.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>
+						Nothing due today
+					</p>
+				) : (
+					<ul className='divide-y'>
+						{reminders.map((reminder) => (
+							<li
+								key={reminder._id}
+								className='flex items-center justify-between gap-4 py-2'>
+								<div className='min-w-0'>
+									<div className='flex items-center gap-2'>
+										<span className='font-medium'>
+											{reminder.title}
+										</span>
+										{isOverdue(reminder) && (
+											<Badge variant='destructive'>
+												Overdue
+											</Badge>
+										)}
+									</div>
+									<div className='text-sm text-muted-foreground'>
+										<button
+											type='button'
+											className='hover:underline'
+											onClick={() =>
+												onOpen({
+													_id: reminder.businessId,
+													name: reminder.business
+														.name,
+												})
+											}>
+											{reminder.business.name}
+										</button>{' '}
+										· due{' '}
+										{new Date(
+											reminder.dueAt
+										).toLocaleString()}
+									</div>
+								</div>
+								<Button
+									variant='outline'
+									size='sm'
+									onClick={() => handleDone(reminder)}
+									disabled={updateReminder.isPending}>
+									<Check className='w-4 h-4 mr-2' />
+									Done
+								</Button>
+							</li>
+						))}
+					</ul>
+				)}
+
+				<div className='border-t pt-4'>
+					{feedUrl ? (
+						<div className='flex gap-2'>
+							<Input
+								readOnly
+								value={feedUrl}
+								onFocus={(e) => e.target.select()}
+							/>
+							<Button
+								variant='outline'
+								size='sm'
+								onClick={() => {
+									navigator.clipboard.writeText(feedUrl);
+									toast({ title: 'Calendar link copied' });
+								}}
+								title='Copy link'>
+								<Copy className='w-4 h-4' />
+							</Button>
+							<Button
+								variant='outline'
+								size='sm'
+								onClick={() => handleFeed(true)}
+								disabled={calendarFeed.isPending}
+								title='Reset link'>
+								<RefreshCw className='w-4 h-4' />
+							</Button>
+						</div>
+					) : (
+						<Button
+							variant='outline'
+							size='sm'
+							onClick={() => handleFeed(false)}
+							disabled={calendarFeed.isPending}>
+							{calendarFeed.isPending ? (
+								<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+							) : (
+								<CalendarPlus className='w-4 h-4 mr-2' />
+							)}
+							Subscribe in Calendar
+						</Button>
+					)}
+					<p className='mt-2 text-xs text-muted-foreground'>
+						Add this link to Google Calendar, Outlook or Apple
+						Calendar as a subscription. Anyone with the link can see
+						your reminders.
+					</p>
+				</div>
+			</CardContent>
+		</Card>
+	);
+}
@@ -0,0 +1,193 @@
+import { Switch } from '@/components/ui/switch';
+import { Label } from '@/components/ui/label';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { ResultFilters } from '@/lib/types';
+import { hasActiveResultFilters } from '@shared/resultFilters';
+
+const ANY = 'any';
+const RATING_OPTIONS = [3, 3.5, 4, 4.5];
+const REVIEW_COUNT_OPTIONS = [5, 10, 25, 50, 100];
+
+interface ResultFiltersBarProps {
+	filters: ResultFilters;
+	onChange: (filters: ResultFilters) => void;
+	hiddenCount: number;
+	disabled?: boolean;
+}
+
+// "software_company, it services" -> ['software_company', 'it services']
+function parseTypeList(value: string): string[] | undefined {
+	const types = value
+		.split(',')
+		.map((type) => type.trim())
+		.filter(Boolean);
+	return types.length > 0 ? types : undefined;
+}
+
+// Type lists apply on blur, so Enter applies them too
+function blurOnEnter(e: React.KeyboardEvent<HTMLInputElement>) {
+	if (e.key === 'Enter') {
+		e.currentTarget.blur();
+	}
+}
+
+export default function ResultFiltersBar({
+	filters,
+	onChange,
+	hiddenCount,
+	disabled,
+}: ResultFiltersBarProps) {
+	const update = (changes: Partial<ResultFilters>) =>
+		onChange({ ...filters, ...changes });
+
+	const toggles: { key: keyof ResultFilters; label: string }[] = [
+		{ key: 'hidePermanentlyClosed', label: 'Hide permanently closed' },
+		{ key: 'hideTemporarilyClosed', label: 'Hide temporarily closed' },
+		{ key: 'websiteOnly', label: 'Has website only' },
+	];
+
+	return (
+		<div className='space-y-3'>
+			<div className='flex flex-wrap gap-x-6 gap-y-2'>
+				{toggles.map(({ key, label }) => (
+					<div key={key} className='flex items-center space-x-2'>
+						<Switch
+							id={`filter-${key}`}
+							checked={filters[key] === true}
+							onCheckedChange={(checked) =>
+								update({ [key]: checked || undefined })
+							}
+							disabled={disabled}
+						/>
+						<Label
+							htmlFor={`filter-${key}`}
+							className='text-sm font-medium text-gray-700 cursor-pointer'>
+							{label}
+						</Label>
+					</div>
+				))}
+			</div>
+
+			<div className='grid grid-cols-1 sm:grid-cols-4 gap-3'>
+				<div className='space-y-1'>
+					<Label className='text-xs text-gray-500'>Min rating</Label>
+					<Select
+						value={
+							filters.minRating !== undefined
+								? String(filters.minRating)
+								: ANY
+						}
+						onValueChange={(value) =>
+							update({
+								minRating:
+									value === ANY ? undefined : Number(value),
+							})
+						}
+						disabled={disabled}>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={ANY}>Any</SelectItem>
+							{RATING_OPTIONS.map((rating) => (
+								<SelectItem key={rating} value={String(rating)}>
+									{rating.toFixed(1)}+
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				<div className='space-y-1'>
+					<Label className='text-xs text-gray-500'>Min reviews</Label>
+					<Select
+						value={
+							filters.minReviewCount !== undefined
+								? String(filters.minReviewCount)
+								: ANY
+						}
+						onValueChange={(value) =>
+							update({
+								minReviewCount:
+									value === ANY ? undefined : Number(value),
+							})
+						}
+						disabled={disabled}>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={ANY}>Any</SelectItem>
+							{REVIEW_COUNT_OPTIONS.map((count) => (
+								<SelectItem key={count} value={String(count)}>
+									{count}+
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				</div>
+				{/* Type inputs are keyed on their list so clearing resets them */}
+				<div className='space-y-1'>
+					<Label
+						htmlFor='filter-include-types'
+						className='text-xs text-gray-500'>
+						Only types
+					</Label>
+					<Input
+						id='filter-include-types'
+						key={filters.includeTypes?.join(',') || ''}
+						defaultValue={filters.includeTypes?.join(', ')}
+						onKeyDown={blurOnEnter}
+						onBlur={(e) =>
+							update({
+								includeTypes: parseTypeList(e.target.value),
+							})
+						}
+						placeholder='e.g. software_company'
+						disabled={disabled}
+					/>
+				</div>
+				<div className='space-y-1'>
+					<Label
+						htmlFor='filter-exclude-types'
+						className='text-xs text-gray-500'>
+						Exclude types
+					</Label>
+					<Input
+						id='filter-exclude-types'
+						key={filters.excludeTypes?.join(',') || ''}
+						defaultValue={filters.excludeTypes?.join(', ')}
+						onKeyDown={blurOnEnter}
+						onBlur={(e) =>
+							update({
+								excludeTypes: parseTypeList(e.target.value),
+							})
+						}
+						placeholder='e.g. restaurant, hotel'
+						disabled={disabled}
+					/>
+				</div>
+			</div>
+
+			{hasActiveResultFilters(filters) && (
+				<div className='flex items-center gap-2 text-xs text-gray-500'>
+					{hiddenCount} businesses hidden by filters
+					<Button
+						variant='link'
+						size='sm'
+						className='h-auto p-0 text-xs'
+						onClick={() => onChange({})}>
+						Clear filters
+					</Button>
+				</div>
+			)}
+		</div>
+	);
+}
@@ -15,7 +15,10 @@ import {
 	AlertDialogTrigger,
 } from '@/components/ui/alert-dialog';
 import ResultsTable from './ResultsTable';
-import { Business } from '@/lib/types';
+import ResultFiltersBar from './ResultFiltersBar';
+import { Business, ExclusionSummary, ResultFilters } from '@/lib/types';
+import { EXCLUSION_CATEGORY_LABELS } from './ExclusionListCard';
+import { applyResultFilters } from '@shared/resultFilters';
 import { exportToCSV, downloadCSV, copyToClipboard } from '@/lib/utils';
 import { useToast } from '@/hooks/use-toast';
 import {
@@ -25,12 +28,15 @@ import {
 import { useImportFromSearch } from '@/hooks/useSavedBusinesses';
 import { useAuth } from '@/hooks/useAuth';
 import { queryClient } from '@/lib/queryClient';
+import { SearchJob, isSearchJobActive } from '@/hooks/useStateSearch';
 
 interface ResultsPanelProps {
 	businesses: Business[];
 	isLoading: boolean;
 	error: Error | null;
 	onRetry: () => void;
+	searchJob?: SearchJob | null;
+	exclusions?: ExclusionSummary | null;
 }
 
 export default function ResultsPanel({
@@ -38,10 +44,13 @@ export default function ResultsPanel({
 	isLoading,
 	error,
 	onRetry,
+	searchJob,
+	exclusions,
 }: ResultsPanelProps) {
 	const { toast } = useToast();
 	const [copyButtonText, setCopyButtonText] = useState('Copy Data');
 	const [hideDuplicates, setHideDuplicates] = useState(false);
+	const [resultFilters, setResultFilters] = useState<ResultFilters>({});
 	const fileInputRef = useRef<HTMLInputElement>(null);
 	const importFromSearch = useImportFromSearch();
 	const { user } = useAuth();
@@ -53,12 +62,14 @@ export default function ResultsPanel({
 		return { ...business, isDuplicate: business.isDuplicate || false };
 	});
 
-	// Filter out duplicates if the toggle is on
+	// Status, rating, website and type filters, then duplicates if the toggle is on
+	const businessesPassingFilters = applyResultFilters(
+		businessesWithDuplicateDetection,
+		resultFilters
+	);
 	const filteredBusinesses = hideDuplicates
-		? businessesWithDuplicateDetection.filter(
-				(business) => !business.isDuplicate
-		  )
-		: businessesWithDuplicateDetection;
+		? businessesPassingFilters.filter((business) => !business.isDuplicate)
+		: businessesPassingFilters;
 
 	const handleDownloadCSV = () => {
 		const csvContent = exportToCSV(filteredBusinesses);
@@ -347,6 +358,39 @@ export default function ResultsPanel({
 							</div>
 						</div>
 
+						{/* What the user's exclusion list took out of this search */}
+						{exclusions && exclusions.total > 0 && (
+							<p className='text-xs text-gray-500'>
+								{exclusions.total}{' '}
+								{exclusions.mode === 'flag'
+									? 'results flagged'
+									: 'results hidden'}{' '}
+								by your exclusion list (
+								{Object.entries(exclusions.byCategory)
+									.map(
+										([category, count]) =>
+											`${count} ${EXCLUSION_CATEGORY_LABELS[
+												category as keyof typeof EXCLUSION_CATEGORY_LABELS
+											].toLowerCase()}`
+									)
+									.join(', ')}
+								)
+							</p>
+						)}
+
+						{/* Filters on the Places details of each result */}
+						<div className='pt-4 border-t border-gray-100'>
+							<ResultFiltersBar
+								filters={resultFilters}
+								onChange={setResultFilters}
+								hiddenCount={
+									businessesWithDuplicateDetection.length -
+									businessesPassingFilters.length
+								}
+								disabled={isLoading || businesses.length === 0}
+							/>
+						</div>
+
 						{/* Add to My Company List Button */}
 						<div className='flex flex-col sm:flex-row sm:justify-between sm:items-center pt-4 border-t border-gray-100'>
 							<div>
@@ -365,15 +409,16 @@ export default function ResultsPanel({
 									size='sm'
 									onClick={async () => {
 										try {
-											// Get IDs of filtered businesses (respects the duplicate toggle)
+											// Get IDs of filtered businesses (respects the filters and duplicate toggle)
 											const businessIds =
 												filteredBusinesses
 													.filter((b) => b.id)
 													.map((b) => b.id!);
 
-											await importFromSearch.mutateAsync(
-												businessIds
-											);
+											await importFromSearch.mutateAsync({
+												businessIds,
+												filters: resultFilters,
+											});
 
 											toast({
 												title: 'Companies Saved',
@@ -412,6 +457,26 @@ export default function ResultsPanel({
 					</div>
 				</CardContent>
 			</Card>
+			{/* State search still running: results so far are shown below */}
+			{isSearchJobActive(searchJob) && (
+				<Card>
+					<CardContent className='p-4 flex items-center gap-3'>
+						<div className='animate-spin rounded-full h-5 w-5 border-t-2 border-b-2 border-primary'></div>
+						<p className='text-sm text-gray-600'>
+							Searching{' '}
+							{
+								searchJob!.cities.filter(
+									(c) =>
+										c.status === 'done' ||
+										c.status === 'failed'
+								).length
+							}
+							/{searchJob!.cities.length} cities complete. Results
+							appear as each city finishes.
+						</p>
+					</CardContent>
+				</Card>
+			)}
 			{/* Loading State */}
 			{isLoading && (
 				<Card>
@@ -19,6 +19,12 @@ import {
 } from '@/components/ui/pagination';
 import { Business } from '@/lib/types';
 import { useUpdateBusiness } from '@/hooks/useBusiness';
+import {
+	PlaceDetailColumnsMenu,
+	PlaceDetailValue,
+	placeDetailLabel,
+	usePlaceDetailColumns,
+} from '@/components/PlaceDetailColumns';
 import { AlertCircle } from 'lucide-react';
 
 interface ResultsTableProps {
@@ -34,6 +40,7 @@ export default function ResultsTable({
 	const [page, setPage] = useState(1);
 	const itemsPerPage = 10;
 	const updateBusiness = useUpdateBusiness();
+	const detailColumns = usePlaceDetailColumns();
 
 	// Use server-provided isDuplicate flag instead of client-side detection
 	const businessesWithDuplicateFlags = businesses.map((business) => ({
@@ -109,6 +116,12 @@ export default function ResultsTable({
 
 	return (
 		<div className='bg-white rounded-lg shadow-md overflow-hidden'>
+			<div className='flex justify-end px-4 py-2 border-b border-gray-200'>
+				<PlaceDetailColumnsMenu
+					visible={detailColumns.visible}
+					onToggle={detailColumns.toggle}
+				/>
+			</div>
 			<div className='overflow-x-auto'>
 				<Table>
 					<TableHeader>
@@ -182,6 +195,11 @@ export default function ResultsTable({
 								</div>
 							</TableHead>
 							<TableHead>Distance</TableHead>
+							{detailColumns.visible.map((column) => (
+								<TableHead key={column}>
+									{placeDetailLabel(column)}
+								</TableHead>
+							))}
 							<TableHead>Status</TableHead>
 							<TableHead>Notes</TableHead>
 						</TableRow>
@@ -207,7 +225,11 @@ export default function ResultsTable({
 									{business.name}
 									{business.isDuplicate && (
 										<>
-											<span className='ml-2 inline-flex items-center'>
+											<span
+												className='ml-2 inline-flex items-center'
+												title={
+													business.duplicateReason
+												}>
 												<svg
 													className='w-4 h-4 text-amber-500'
 													xmlns='http://www.w3.org/2000/svg'
@@ -263,14 +285,33 @@ export default function ResultsTable({
 								<TableCell className='text-gray-500'>
 									{business.distance}
 								</TableCell>
+								{detailColumns.visible.map((column) => (
+									<TableCell
+										key={column}
+										className='text-gray-500'>
+										<PlaceDetailValue
+											business={business}
+											column={column}
+										/>
+									</TableCell>
+								))}
 								<TableCell>
 									{business.isDuplicate && (
 										<Badge
 											variant='outline'
+											title={business.duplicateReason}
 											className='bg-amber-100 text-amber-800 hover:bg-amber-100 border-amber-200 hidden sm:inline-flex'>
 											Duplicate
 										</Badge>
 									)}
+									{business.excludedBy && (
+										<Badge
+											variant='outline'
+											title={business.excludedBy}
+											className='bg-red-100 text-red-800 hover:bg-red-100 border-red-200 ml-1'>
+											Excluded
+										</Badge>
+									)}
 									{business.careerLink && (
 										<Badge
 											variant='outline'
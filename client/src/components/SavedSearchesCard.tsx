@@ -0,0 +1,458 @@
+import { useState } from 'react';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import {
+	Table,
+	TableHeader,
+	TableRow,
+	TableHead,
+	TableBody,
+	TableCell,
+} from '@/components/ui/table';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Loader2, Play, Plus, Trash2, Inbox } from 'lucide-react';
+import {
+	useSavedSearches,
+	useSavedSearchLeads,
+	useCreateSavedSearch,
+	useUpdateSavedSearch,
+	useDeleteSavedSearch,
+	useRunSavedSearch,
+	useMarkSavedSearchLeadsSeen,
+	SavedSearch,
+	SavedSearchCadence,
+	SavedSearchLead,
+} from '@/hooks/useSavedSearches';
+import { useSaveBusiness } from '@/hooks/useSavedBusinesses';
+import { useToast } from '@/hooks/use-toast';
+
+const EMPTY_FORM = {
+	name: '',
+	businessType: '',
+	location: '',
+	cadence: 'weekly' as SavedSearchCadence,
+};
+
+export default function SavedSearchesCard() {
+	const [form, setForm] = useState(EMPTY_FORM);
+	const [inboxSearch, setInboxSearch] = useState<SavedSearch | null>(null);
+	const [savedLeadIds, setSavedLeadIds] = useState<Set<string>>(new Set());
+	const { toast } = useToast();
+
+	const { data: searches = [], isLoading } = useSavedSearches();
+	const { data: leads = [], isLoading: isLeadsLoading } = useSavedSearchLeads(
+		inboxSearch?._id || null
+	);
+	const createSearch = useCreateSavedSearch();
+	const updateSearch = useUpdateSavedSearch();
+	const deleteSearch = useDeleteSavedSearch();
+	const runSearch = useRunSavedSearch();
+	const markSeen = useMarkSavedSearchLeadsSeen();
+	const saveBusiness = useSaveBusiness();
+
+	const showError = (description: string) => {
+		toast({ title: 'Error', description, variant: 'destructive' });
+	};
+
+	const handleCreate = async (e: React.FormEvent) => {
+		e.preventDefault();
+		try {
+			await createSearch.mutateAsync({
+				...form,
+				name:
+					form.name.trim() ||
+					`${form.businessType} in ${form.location}`,
+			});
+			setForm(EMPTY_FORM);
+			toast({
+				title: 'Saved search created',
+				description: 'It will run shortly and then on its schedule.',
+			});
+		} catch (error) {
+			showError(
+				error instanceof Error
+					? error.message
+					: 'Failed to create saved search'
+			);
+		}
+	};
+
+	const handleUpdate = async (
+		id: string,
+		updates: { cadence?: SavedSearchCadence; enabled?: boolean }
+	) => {
+		try {
+			await updateSearch.mutateAsync({ id, updates });
+		} catch (error) {
+			showError('Failed to update saved search');
+		}
+	};
+
+	const handleRun = async (search: SavedSearch) => {
+		try {
+			const result = await runSearch.mutateAsync(search._id);
+			toast({
+				title: `${search.name} finished`,
+				description: `${result.resultCount} results, ${result.newLeadCount} new leads`,
+			});
+		} catch (error) {
+			showError(
+				error instanceof Error ? error.message : 'Failed to run search'
+			);
+		}
+	};
+
+	const handleDelete = async (id: string) => {
+		try {
+			await deleteSearch.mutateAsync(id);
+		} catch (error) {
+			showError('Failed to delete saved search');
+		}
+	};
+
+	// Leads count as seen once the inbox has been looked at and closed
+	const closeInbox = () => {
+		if (inboxSearch && inboxSearch.unseenLeadCount > 0) {
+			markSeen.mutate(inboxSearch._id);
+		}
+		setInboxSearch(null);
+		setSavedLeadIds(new Set());
+	};
+
+	const handleSaveLead = async (lead: SavedSearchLead) => {
+		try {
+			await saveBusiness.mutateAsync({
+				name: lead.name,
+				website: lead.website || '',
+				location: lead.location || '',
+				distance: '',
+				isBadLead: false,
+				notes: '',
+			});
+			setSavedLeadIds((ids) => new Set(ids).add(lead._id));
+		} catch (error) {
+			showError('Failed to save company');
+		}
+	};
+
+	return (
+		<Card className='mt-6'>
+			<CardHeader>
+				<CardTitle>Saved Searches</CardTitle>
+				<CardDescription>
+					Searches that re-run automatically and collect companies you
+					haven't saved yet
+				</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-6'>
+				<form
+					onSubmit={handleCreate}
+					className='grid grid-cols-1 md:grid-cols-5 gap-3 items-end'>
+					<div className='space-y-1'>
+						<Label htmlFor='saved-search-type'>Business type</Label>
+						<Input
+							id='saved-search-type'
+							value={form.businessType}
+							onChange={(e) =>
+								setForm({
+									...form,
+									businessType: e.target.value,
+								})
+							}
+							placeholder='Software company'
+							required
+						/>
+					</div>
+					<div className='space-y-1'>
+						<Label htmlFor='saved-search-location'>Location</Label>
+						<Input
+							id='saved-search-location'
+							value={form.location}
+							onChange={(e) =>
+								setForm({ ...form, location: e.target.value })
+							}
+							placeholder='Columbus, OH'
+							required
+						/>
+					</div>
+					<div className='space-y-1'>
+						<Label htmlFor='saved-search-name'>Name</Label>
+						<Input
+							id='saved-search-name'
+							value={form.name}
+							onChange={(e) =>
+								setForm({ ...form, name: e.target.value })
+							}
+							placeholder='Optional'
+						/>
+					</div>
+					<div className='space-y-1'>
+						<Label>Runs</Label>
+						<Select
+							value={form.cadence}
+							onValueChange={(value) =>
+								setForm({
+									...form,
+									cadence: value as SavedSearchCadence,
+								})
+							}>
+							<SelectTrigger>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value='daily'>Daily</SelectItem>
+								<SelectItem value='weekly'>Weekly</SelectItem>
+							</SelectContent>
+						</Select>
+					</div>
+					<Button type='submit' disabled={createSearch.isPending}>
+						{createSearch.isPending ? (
+							<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+						) : (
+							<Plus className='w-4 h-4 mr-2' />
+						)}
+						Save search
+					</Button>
+				</form>
+
+				{isLoading ? (
+					<div className='flex justify-center p-6'>
+						<Loader2 className='w-6 h-6 animate-spin' />
+					</div>
+				) : searches.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>
+						No saved searches yet.
+					</p>
+				) : (
+					<div className='rounded-md border'>
+						<Table>
+							<TableHeader>
+								<TableRow>
+									<TableHead>Search</TableHead>
+									<TableHead>Runs</TableHead>
+									<TableHead>Enabled</TableHead>
+									<TableHead>Last run</TableHead>
+									<TableHead>Leads</TableHead>
+									<TableHead className='text-right'>
+										Actions
+									</TableHead>
+								</TableRow>
+							</TableHeader>
+							<TableBody>
+								{searches.map((search) => (
+									<TableRow key={search._id}>
+										<TableCell>
+											<span className='font-medium'>
+												{search.name}
+											</span>
+											<span className='block text-xs text-muted-foreground'>
+												{search.businessType} in{' '}
+												{search.location}
+											</span>
+										</TableCell>
+										<TableCell>
+											<Select
+												value={search.cadence}
+												onValueChange={(value) =>
+													handleUpdate(search._id, {
+														cadence:
+															value as SavedSearchCadence,
+													})
+												}>
+												<SelectTrigger className='w-28'>
+													<SelectValue />
+												</SelectTrigger>
+												<SelectContent>
+													<SelectItem value='daily'>
+														Daily
+													</SelectItem>
+													<SelectItem value='weekly'>
+														Weekly
+													</SelectItem>
+												</SelectContent>
+											</Select>
+										</TableCell>
+										<TableCell>
+											<Switch
+												checked={search.enabled}
+												onCheckedChange={(enabled) =>
+													handleUpdate(search._id, {
+														enabled,
+													})
+												}
+											/>
+										</TableCell>
+										<TableCell className='text-sm'>
+											{search.lastRunAt ? (
+												<>
+													{new Date(
+														search.lastRunAt
+													).toLocaleString()}
+													{search.lastError ? (
+														<span className='block text-xs text-red-600'>
+															{search.lastError}
+														</span>
+													) : (
+														<span className='block text-xs text-muted-foreground'>
+															{
+																search.lastResultCount
+															}{' '}
+															results
+														</span>
+													)}
+												</>
+											) : (
+												<span className='text-muted-foreground'>
+													Not run yet
+												</span>
+											)}
+										</TableCell>
+										<TableCell>
+											<Button
+												variant='ghost'
+												size='sm'
+												onClick={() =>
+													setInboxSearch(search)
+												}>
+												<Inbox className='w-4 h-4 mr-2' />
+												{search.unseenLeadCount > 0 ? (
+													<Badge>
+														{search.unseenLeadCount}{' '}
+														new leads
+													</Badge>
+												) : (
+													'Inbox'
+												)}
+											</Button>
+										</TableCell>
+										<TableCell className='text-right whitespace-nowrap space-x-2'>
+											<Button
+												variant='outline'
+												size='sm'
+												title='Run now'
+												onClick={() =>
+													handleRun(search)
+												}
+												disabled={runSearch.isPending}>
+												{runSearch.isPending &&
+												runSearch.variables ===
+													search._id ? (
+													<Loader2 className='w-4 h-4 animate-spin' />
+												) : (
+													<Play className='w-4 h-4' />
+												)}
+											</Button>
+											<Button
+												variant='outline'
+												size='sm'
+												title='Delete saved search'
+												onClick={() =>
+													handleDelete(search._id)
+												}
+												disabled={
+													deleteSearch.isPending
+												}>
+												<Trash2 className='w-4 h-4' />
+											</Button>
+										</TableCell>
+									</TableRow>
+								))}
+							</TableBody>
+						</Table>
+					</div>
+				)}
+			</CardContent>
+
+			<Dialog
+				open={!!inboxSearch}
+				onOpenChange={(open) => !open && closeInbox()}>
+				<DialogContent className='max-w-3xl max-h-[90vh] overflow-y-auto'>
+					<DialogHeader>
+						<DialogTitle>{inboxSearch?.name}</DialogTitle>
+						<DialogDescription>
+							Companies this search found that weren't in your
+							saved businesses
+						</DialogDescription>
+					</DialogHeader>
+
+					{isLeadsLoading ? (
+						<div className='flex justify-center p-6'>
+							<Loader2 className='w-6 h-6 animate-spin' />
+						</div>
+					) : leads.length === 0 ? (
+						<p className='text-sm text-muted-foreground'>
+							No leads yet. New companies will show up here after
+							the search runs.
+						</p>
+					) : (
+						<ul className='divide-y'>
+							{leads.map((lead) => (
+								<li
+									key={lead._id}
+									className='flex items-center justify-between gap-4 py-2'>
+									<div className='text-sm'>
+										<span className='font-medium'>
+											{lead.name}
+										</span>
+										{!lead.seen && (
+											<Badge className='ml-2'>New</Badge>
+										)}
+										{lead.website && (
+											<a
+												href={lead.website}
+												target='_blank'
+												rel='noopener noreferrer'
+												className='block text-blue-600 hover:underline'>
+												{lead.website}
+											</a>
+										)}
+										{lead.location && (
+											<span className='block text-xs text-muted-foreground'>
+												{lead.location}
+											</span>
+										)}
+									</div>
+									<Button
+										variant='outline'
+										size='sm'
+										onClick={() => handleSaveLead(lead)}
+										disabled={
+											savedLeadIds.has(lead._id) ||
+											saveBusiness.isPending
+										}>
+										{savedLeadIds.has(lead._id)
+											? 'Saved'
+											: 'Save'}
+									</Button>
+								</li>
+							))}
+						</ul>
+					)}
+				</DialogContent>
+			</Dialog>
+		</Card>
+	);
+}
@@ -0,0 +1,303 @@
+import { useState } from 'react';
+import { useLocation } from 'wouter';
+import {
+	Card,
+	CardContent,
+	CardHeader,
+	CardTitle,
+	CardDescription,
+} from '@/components/ui/card';
+import {
+	Table,
+	TableHeader,
+	TableRow,
+	TableHead,
+	TableBody,
+	TableCell,
+} from '@/components/ui/table';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, RotateCcw, GitCompare, Trash2 } from 'lucide-react';
+import {
+	useSearchHistory,
+	useSearchHistoryDiff,
+	useDeleteSearchHistoryEntry,
+	describeSearchLocation,
+	SearchHistoryEntry,
+	SearchHistoryBusiness,
+} from '@/hooks/useSearchHistory';
+import { useToast } from '@/hooks/use-toast';
+
+function BusinessList({
+	businesses,
+	emptyText,
+}: {
+	businesses: SearchHistoryBusiness[];
+	emptyText: string;
+}) {
+	if (businesses.length === 0) {
+		return <p className='text-sm text-muted-foreground'>{emptyText}</p>;
+	}
+
+	return (
+		<ul className='space-y-1 text-sm'>
+			{businesses.map((business, index) => (
+				<li key={`${business.name}-${index}`}>
+					<span className='font-medium'>{business.name}</span>
+					{business.website && (
+						<a
+							href={business.website}
+							target='_blank'
+							rel='noopener noreferrer'
+							className='ml-2 text-blue-600 hover:underline'>
+							{business.website}
+						</a>
+					)}
+					{business.location && (
+						<span className='block text-xs text-muted-foreground'>
+							{business.location}
+						</span>
+					)}
+				</li>
+			))}
+		</ul>
+	);
+}
+
+export default function SearchHistoryCard() {
+	const [page, setPage] = useState(1);
+	const [diffEntry, setDiffEntry] = useState<SearchHistoryEntry | null>(null);
+	const [, setLocation] = useLocation();
+	const { toast } = useToast();
+	const { data, isLoading } = useSearchHistory(page);
+	const { data: diff, isLoading: isDiffLoading } = useSearchHistoryDiff(
+		diffEntry?._id || null
+	);
+	const deleteEntry = useDeleteSearchHistoryEntry();
+
+	const handleDelete = async (id: string) => {
+		try {
+			await deleteEntry.mutateAsync(id);
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description: 'Failed to delete search history entry',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const entries = data?.entries || [];
+
+	return (
+		<Card className='mt-6'>
+			<CardHeader>
+				<CardTitle>Search History</CardTitle>
+				<CardDescription>
+					Re-run a past search or see which companies are new since
+					the last time you ran it
+				</CardDescription>
+			</CardHeader>
+			<CardContent>
+				{isLoading ? (
+					<div className='flex justify-center p-6'>
+						<Loader2 className='w-6 h-6 animate-spin' />
+					</div>
+				) : entries.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>
+						No searches yet. Searches you run will show up here.
+					</p>
+				) : (
+					<div className='space-y-4'>
+						<div className='rounded-md border'>
+							<Table>
+								<TableHeader>
+									<TableRow>
+										<TableHead>Date</TableHead>
+										<TableHead>Search</TableHead>
+										<TableHead className='text-right'>
+											Results
+										</TableHead>
+										<TableHead className='text-right'>
+											New
+										</TableHead>
+										<TableHead className='text-right'>
+											Duplicates
+										</TableHead>
+										<TableHead>Source</TableHead>
+										<TableHead className='text-right'>
+											Actions
+										</TableHead>
+									</TableRow>
+								</TableHeader>
+								<TableBody>
+									{entries.map((entry) => (
+										<TableRow key={entry._id}>
+											<TableCell className='whitespace-nowrap'>
+												{new Date(
+													entry.createdAt
+												).toLocaleString()}
+											</TableCell>
+											<TableCell>
+												<span className='font-medium'>
+													{entry.businessType}
+												</span>
+												<span className='block text-xs text-muted-foreground'>
+													{describeSearchLocation(
+														entry
+													)}
+												</span>
+											</TableCell>
+											<TableCell className='text-right'>
+												{entry.resultCount}
+											</TableCell>
+											<TableCell className='text-right'>
+												{entry.newCount}
+											</TableCell>
+											<TableCell className='text-right'>
+												{entry.duplicateCount}
+											</TableCell>
+											<TableCell>
+												<Badge
+													variant={
+														entry.cached
+															? 'secondary'
+															: 'default'
+													}>
+													{entry.cached
+														? 'Cached'
+														: 'Fresh'}
+												</Badge>
+											</TableCell>
+											<TableCell className='text-right whitespace-nowrap space-x-2'>
+												<Button
+													variant='outline'
+													size='sm'
+													title='Run this search again'
+													onClick={() =>
+														setLocation(
+															`/?rerun=${entry._id}`
+														)
+													}>
+													<RotateCcw className='w-4 h-4' />
+												</Button>
+												<Button
+													variant='outline'
+													size='sm'
+													title='Compare with the previous run'
+													onClick={() =>
+														setDiffEntry(entry)
+													}>
+													<GitCompare className='w-4 h-4' />
+												</Button>
+												<Button
+													variant='outline'
+													size='sm'
+													title='Delete from history'
+													onClick={() =>
+														handleDelete(entry._id)
+													}
+													disabled={
+														deleteEntry.isPending
+													}>
+													<Trash2 className='w-4 h-4' />
+												</Button>
+											</TableCell>
+										</TableRow>
+									))}
+								</TableBody>
+							</Table>
+						</div>
+
+						{data && data.totalPages > 1 && (
+							<div className='flex items-center justify-between px-2'>
+								<p className='text-sm font-medium'>
+									Page {page} of {data.totalPages}
+								</p>
+								<div className='flex items-center space-x-2'>
+									<Button
+										variant='outline'
+										size='sm'
+										onClick={() => setPage(page - 1)}
+										disabled={page <= 1}>
+										Previous
+									</Button>
+									<Button
+										variant='outline'
+										size='sm'
+										onClick={() => setPage(page + 1)}
+										disabled={page >= data.totalPages}>
+										Next
+									</Button>
+								</div>
+							</div>
+						)}
+					</div>
+				)}
+			</CardContent>
+
+			<Dialog
+				open={!!diffEntry}
+				onOpenChange={(open) => !open && setDiffEntry(null)}>
+				<DialogContent className='max-w-3xl max-h-[90vh] overflow-y-auto'>
+					<DialogHeader>
+						<DialogTitle>
+							What's new: {diffEntry?.businessType}
+						</DialogTitle>
+						<DialogDescription>
+							{diffEntry && describeSearchLocation(diffEntry)}
+							{diff?.previousRunAt
+								? ` — compared with the run on ${new Date(
+										diff.previousRunAt
+								  ).toLocaleString()}`
+								: ''}
+						</DialogDescription>
+					</DialogHeader>
+
+					{isDiffLoading || !diff ? (
+						<div className='flex justify-center p-6'>
+							<Loader2 className='w-6 h-6 animate-spin' />
+						</div>
+					) : !diff.previousId ? (
+						<p className='text-sm text-muted-foreground'>
+							This is the first time this search was run, so there
+							is nothing to compare against yet.
+						</p>
+					) : (
+						<div className='space-y-6'>
+							<p className='text-sm text-muted-foreground'>
+								{diff.added.length} new, {diff.removed.length}{' '}
+								no longer found, {diff.unchangedCount} unchanged
+							</p>
+							<div>
+								<h4 className='font-semibold mb-2'>
+									New since last run
+								</h4>
+								<BusinessList
+									businesses={diff.added}
+									emptyText='No new companies.'
+								/>
+							</div>
+							<div>
+								<h4 className='font-semibold mb-2'>
+									No longer found
+								</h4>
+								<BusinessList
+									businesses={diff.removed}
+									emptyText='Every company from the last run was found again.'
+								/>
+							</div>
+						</div>
+					)}
+				</DialogContent>
+			</Dialog>
+		</Card>
+	);
+}
@@ -0,0 +1,102 @@
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import {
+	SearchJob,
+	CityProgress,
+	isSearchJobActive,
+} from '@/hooks/useStateSearch';
+import { CheckCircle, Clock, Loader2, XCircle } from 'lucide-react';
+
+interface SearchJobProgressProps {
+	job: SearchJob;
+	onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<SearchJob['status'], string> = {
+	queued: 'Waiting to start...',
+	running: 'Searching cities...',
+	done: 'Search complete',
+	failed: 'Search failed',
+	cancelled: 'Search cancelled',
+};
+
+function CityStatusIcon({ status }: { status: CityProgress['status'] }) {
+	switch (status) {
+		case 'running':
+			return <Loader2 className='h-4 w-4 animate-spin text-primary' />;
+		case 'done':
+			return <CheckCircle className='h-4 w-4 text-green-600' />;
+		case 'failed':
+			return <XCircle className='h-4 w-4 text-red-600' />;
+		default:
+			return <Clock className='h-4 w-4 text-gray-400' />;
+	}
+}
+
+export default function SearchJobProgress({
+	job,
+	onCancel,
+}: SearchJobProgressProps) {
+	const finishedCities = job.cities.filter(
+		(c) => c.status === 'done' || c.status === 'failed'
+	).length;
+	const percent =
+		job.cities.length > 0 ? (finishedCities / job.cities.length) * 100 : 0;
+	const isActive = isSearchJobActive(job);
+
+	return (
+		<div className='space-y-3 rounded-md border p-3'>
+			<div className='flex items-center justify-between'>
+				<div>
+					<p className='text-sm font-medium'>
+						{STATUS_LABELS[job.status]}
+					</p>
+					<p className='text-xs text-muted-foreground'>
+						{finishedCities}/{job.cities.length} cities ·{' '}
+						{job.totalResults} businesses
+						{job.cached ? ' (cached)' : ''}
+					</p>
+				</div>
+				{isActive && (
+					<Button
+						type='button'
+						variant='outline'
+						size='sm'
+						onClick={onCancel}>
+						Cancel
+					</Button>
+				)}
+			</div>
+
+			<Progress value={job.status === 'done' ? 100 : percent} />
+
+			{job.cities.length > 0 && (
+				<ul className='space-y-1'>
+					{job.cities.map((city) => (
+						<li
+							key={city.city}
+							className='flex items-center justify-between text-sm'>
+							<span className='flex items-center gap-2'>
+								<CityStatusIcon status={city.status} />
+								{city.city}
+							</span>
+							<span
+								className='text-xs text-muted-foreground'
+								title={city.error}>
+								{city.status === 'failed'
+									? 'Failed'
+									: city.status === 'done'
+									? `${city.resultCount} found`
+									: ''}
+							</span>
+						</li>
+					))}
+				</ul>
+			)}
+
+			{job.status === 'failed' && job.error && (
+				<p className='text-xs text-red-600'>{job.error}</p>
+			)}
+		</div>
+	);
+}
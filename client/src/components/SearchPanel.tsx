@@ -11,11 +11,13 @@ import {
 } from '@/components/ui/select';
 import { Button } from '@/components/ui/button';
 import { Checkbox } from '@/components/ui/checkbox';
+import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { SearchParams } from '@/lib/types';
 import { useToast } from '@/hooks/use-toast';
-import { useStateSearch, useStateCities } from '@/hooks/useStateSearch';
+import { useStateCities, type StateSearch } from '@/hooks/useStateSearch';
+import { useTiledSearchEstimate } from '@/hooks/useBusiness';
 import { useApiKeys } from '@/hooks/useApiKeys';
 import { useAuth } from '@/hooks/useAuth';
 import {
@@ -29,24 +31,44 @@ import {
 } from 'lucide-react';
 import { apiRequest } from '@/lib/queryClient';
 import QuotaExhaustedModal from './QuotaExhaustedModal';
+import SearchJobProgress from './SearchJobProgress';
 
 interface SearchPanelProps {
 	onSearch: (params: SearchParams) => void;
 	isLoading: boolean;
+	stateSearch: StateSearch;
 }
 
+const RADIUS_OPTIONS = [5, 10, 20, 30, 50];
+// A single query stops at 60 results; tiled searches can go further
+const MAX_RESULTS_OPTIONS = [20, 40, 60];
+const TILED_MAX_RESULTS_OPTIONS = [60, 100, 200, 300, 500];
+
 interface StateSearchParams {
 	businessType: string;
 	state: string;
 	maxCities: number;
 }
 
-export default function SearchPanel({ onSearch, isLoading }: SearchPanelProps) {
+export default function SearchPanel({
+	onSearch,
+	isLoading,
+	stateSearch,
+}: SearchPanelProps) {
 	const { toast } = useToast();
 	const [searchParams, setSearchParams] = useState<SearchParams>({
 		businessType: '',
 		location: 'Columbus, OH',
+		radius: 20,
+		maxResults: 60,
+		searchMode: 'standard',
+		tileDensity: 3,
 	});
+	const isTiledSearch = searchParams.searchMode === 'tiled';
+	const { data: tiledEstimate } = useTiledSearchEstimate(
+		searchParams.tileDensity || 3,
+		isTiledSearch
+	);
 
 	const [stateParams, setStateParams] = useState<StateSearchParams>({
 		businessType: '',
@@ -72,7 +94,6 @@ export default function SearchPanel({ onSearch, isLoading }: SearchPanelProps) {
 
 	const { data: apiKeysStatus } = useApiKeys();
 	const { user, isAuthenticated } = useAuth();
-	const stateSearch = useStateSearch();
 	const stateCities = useStateCities();
 
 	// Rate limiting constants for demo mode
@@ -248,20 +269,30 @@ export default function SearchPanel({ onSearch, isLoading }: SearchPanelProps) {
 				maxCities: selectedCities.length,
 			};
 
-			const result = await stateSearch.mutateAsync(searchParams);
-
-			toast({
-				title: 'Search completed',
-				description: `Found ${result.total} businesses across ${selectedCities.length} selected cities`,
-			});
+			// Results stream into the results panel as each city completes
+			const job = await stateSearch.start(searchParams);
 
-			// Convert state search result to regular search format for display
-			onSearch({
-				businessType: stateParams.businessType,
-				location: `${selectedCities.join(', ')} (${
-					selectedCities.length
-				} cities) - ${result.total} results`,
-			});
+			if (job.status === 'done') {
+				toast({
+					title: 'Search completed',
+					description: `Found ${job.totalResults} businesses across ${
+						job.cities.length
+					} selected cities${job.cached ? ' (cached)' : ''}`,
+				});
+			} else if (job.status === 'failed') {
+				toast({
+					title: 'Search failed',
+					description:
+						job.error ||
+						'Failed to search selected cities. Please try again.',
+					variant: 'destructive',
+				});
+			} else if (job.status === 'cancelled') {
+				toast({
+					title: 'Search cancelled',
+					description: `Kept ${job.totalResults} businesses found before cancelling`,
+				});
+			}
 		} catch (error) {
 			console.error('State search error:', error);
 			toast({
@@ -273,6 +304,19 @@ export default function SearchPanel({ onSearch, isLoading }: SearchPanelProps) {
 		}
 	};
 
+	const handleCancelStateSearch = async () => {
+		try {
+			await stateSearch.cancel();
+		} catch (error) {
+			console.error('Cancel search error:', error);
+			toast({
+				title: 'Cancel failed',
+				description: 'Could not cancel the search. Please try again.',
+				variant: 'destructive',
+			});
+		}
+	};
+
 	const handleGetSuggestions = async (targetJobRole?: string) => {
 		const roleToUse = targetJobRole || jobRole;
 		if (!roleToUse.trim()) {
@@ -658,6 +702,128 @@ export default function SearchPanel({ onSearch, isLoading }: SearchPanelProps) {
 								/>
 							</div>
 
+							<div className='grid grid-cols-2 gap-4'>
+								<div className='space-y-2'>
+									<Label>Radius</Label>
+									<Select
+										value={String(searchParams.radius)}
+										onValueChange={(value) =>
+											setSearchParams((prev) => ({
+												...prev,
+												radius: Number(value),
+											}))
+										}>
+										<SelectTrigger>
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{RADIUS_OPTIONS.map((miles) => (
+												<SelectItem
+													key={miles}
+													value={String(miles)}>
+													{miles} miles
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								</div>
+								<div className='space-y-2'>
+									<Label>Max results</Label>
+									<Select
+										value={String(searchParams.maxResults)}
+										onValueChange={(value) =>
+											setSearchParams((prev) => ({
+												...prev,
+												maxResults: Number(value),
+											}))
+										}>
+										<SelectTrigger>
+											<SelectValue />
+										</SelectTrigger>
+										<SelectContent>
+											{(isTiledSearch
+												? TILED_MAX_RESULTS_OPTIONS
+												: MAX_RESULTS_OPTIONS
+											).map((count) => (
+												<SelectItem
+													key={count}
+													value={String(count)}>
+													{count}
+												</SelectItem>
+											))}
+										</SelectContent>
+									</Select>
+								</div>
+							</div>
+
+							<div className='space-y-2'>
+								<div className='flex items-center justify-between'>
+									<Label htmlFor='tiledSearch'>
+										Tiled search
+									</Label>
+									<Switch
+										id='tiledSearch'
+										checked={isTiledSearch}
+										onCheckedChange={(checked) =>
+											setSearchParams((prev) => ({
+												...prev,
+												searchMode: checked
+													? 'tiled'
+													: 'standard',
+												// Each mode has its own result count options
+												maxResults: checked ? 100 : 60,
+											}))
+										}
+									/>
+								</div>
+								<p className='text-xs text-muted-foreground'>
+									Splits the area into a grid and searches
+									each tile, to find more than the 60
+									businesses a single search returns.
+								</p>
+								{isTiledSearch && (
+									<>
+										<Select
+											value={String(
+												searchParams.tileDensity
+											)}
+											onValueChange={(value) =>
+												setSearchParams((prev) => ({
+													...prev,
+													tileDensity: Number(value),
+												}))
+											}>
+											<SelectTrigger>
+												<SelectValue />
+											</SelectTrigger>
+											<SelectContent>
+												{[2, 3, 4, 5, 6, 7, 8].map(
+													(density) => (
+														<SelectItem
+															key={density}
+															value={String(
+																density
+															)}>
+															{density} x{' '}
+															{density} grid
+														</SelectItem>
+													)
+												)}
+											</SelectContent>
+										</Select>
+										{tiledEstimate && (
+											<p className='text-xs text-muted-foreground'>
+												{tiledEstimate.tiles} tiles · up
+												to {tiledEstimate.maxApiCalls}{' '}
+												API calls · up to{' '}
+												{tiledEstimate.maxResults}{' '}
+												businesses
+											</p>
+										)}
+									</>
+								)}
+							</div>
+
 							<Button
 								type='submit'
 								disabled={
@@ -919,7 +1085,7 @@ export default function SearchPanel({ onSearch, isLoading }: SearchPanelProps) {
 							<Button
 								onClick={handleStateSearch}
 								disabled={
-									stateSearch.isPending ||
+									stateSearch.isRunning ||
 									(!apiKeysStatus?.hasGooglePlacesKey &&
 										!apiKeysStatus?.demoMode) ||
 									selectedCities.length === 0 ||
@@ -928,7 +1094,7 @@ export default function SearchPanel({ onSearch, isLoading }: SearchPanelProps) {
 										searchCooldown > 0)
 								}
 								className='w-full'>
-								{stateSearch.isPending
+								{stateSearch.isRunning
 									? 'Searching...'
 									: !isAuthenticated &&
 									  apiKeysStatus?.demoMode &&
@@ -941,6 +1107,13 @@ export default function SearchPanel({ onSearch, isLoading }: SearchPanelProps) {
 									? 'Quota Exhausted - Sign Up!'
 									: `Search ${selectedCities.length} Selected Cities`}
 							</Button>
+
+							{stateSearch.job && (
+								<SearchJobProgress
+									job={stateSearch.job}
+									onCancel={handleCancelStateSearch}
+								/>
+							)}
 						</div>
 					</TabsContent>
 				</Tabs>
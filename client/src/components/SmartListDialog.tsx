@@ -0,0 +1,306 @@
+import { useEffect, useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogFooter,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from '@/components/ui/dialog';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, Plus, Trash2 } from 'lucide-react';
+import {
+	SavedList,
+	SmartListMatch,
+	SmartListRule,
+	useCreateSavedList,
+	useUpdateSavedList,
+} from '@/hooks/useSavedLists';
+import { usePipelineStages } from '@/hooks/usePipeline';
+import { NO_PIPELINE_STATUS } from '@/hooks/useSavedBusinesses';
+import { useToast } from '@/hooks/use-toast';
+
+type RuleKind = SmartListRule['kind'];
+
+const RULE_LABELS: Record<RuleKind, string> = {
+	tag_contains: 'Tag contains',
+	status_equals: 'Status is',
+	location_matches: 'Location contains',
+	created_within_days: 'Saved within',
+	has_career_link: 'Careers link',
+	hiring_now: 'Hiring now',
+	domain_ends_with: 'Domain ends with',
+};
+
+// A new rule of the given kind, with a value to start from
+function newRule(kind: RuleKind): SmartListRule {
+	switch (kind) {
+		case 'created_within_days':
+			return { kind, value: 30 };
+		case 'has_career_link':
+		case 'hiring_now':
+			return { kind, value: true };
+		case 'status_equals':
+			return { kind, value: NO_PIPELINE_STATUS };
+		default:
+			return { kind, value: '' };
+	}
+}
+
+const isComplete = (rule: SmartListRule) =>
+	typeof rule.value === 'string'
+		? rule.value.trim().length > 0
+		: typeof rule.value === 'number'
+		? rule.value >= 1
+		: true;
+
+// Create a smart list, or change one's name and rules. Its companies are
+// whichever saved companies match the rules when the list is opened.
+export default function SmartListDialog({
+	list,
+	children,
+}: {
+	list?: SavedList;
+	children: React.ReactNode; // The button that opens the dialog
+}) {
+	const [open, setOpen] = useState(false);
+	const [name, setName] = useState('');
+	const [match, setMatch] = useState<SmartListMatch>('all');
+	const [rules, setRules] = useState<SmartListRule[]>([]);
+	const { data: pipeline } = usePipelineStages();
+	const createList = useCreateSavedList();
+	const updateList = useUpdateSavedList();
+	const { toast } = useToast();
+	const isSaving = createList.isPending || updateList.isPending;
+
+	useEffect(() => {
+		if (open) {
+			setName(list?.name || '');
+			setMatch(list?.match || 'all');
+			setRules(list?.rules || [newRule('hiring_now')]);
+		}
+	}, [open, list]);
+
+	const setRule = (index: number, rule: SmartListRule) =>
+		setRules(rules.map((r, i) => (i === index ? rule : r)));
+
+	const handleSave = async () => {
+		const input = {
+			name: name.trim(),
+			match,
+			rules: rules.map((rule) =>
+				typeof rule.value === 'string'
+					? ({ ...rule, value: rule.value.trim() } as SmartListRule)
+					: rule
+			),
+		};
+		try {
+			if (list) {
+				await updateList.mutateAsync({ id: list._id, updates: input });
+			} else {
+				await createList.mutateAsync(input);
+			}
+			setOpen(false);
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to save the smart list',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const renderValue = (rule: SmartListRule, index: number) => {
+		switch (rule.kind) {
+			case 'status_equals':
+				return (
+					<Select
+						value={rule.value}
+						onValueChange={(value) =>
+							setRule(index, { ...rule, value })
+						}>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value={NO_PIPELINE_STATUS}>
+								No status
+							</SelectItem>
+							{pipeline?.stages.map((stage) => (
+								<SelectItem key={stage.id} value={stage.id}>
+									{stage.name}
+								</SelectItem>
+							))}
+						</SelectContent>
+					</Select>
+				);
+			case 'has_career_link':
+			case 'hiring_now':
+				return (
+					<Select
+						value={String(rule.value)}
+						onValueChange={(value) =>
+							setRule(index, { ...rule, value: value === 'true' })
+						}>
+						<SelectTrigger>
+							<SelectValue />
+						</SelectTrigger>
+						<SelectContent>
+							<SelectItem value='true'>Yes</SelectItem>
+							<SelectItem value='false'>No</SelectItem>
+						</SelectContent>
+					</Select>
+				);
+			case 'created_within_days':
+				return (
+					<div className='flex items-center gap-2'>
+						<Input
+							type='number'
+							min={1}
+							max={3650}
+							value={rule.value || ''}
+							onChange={(e) =>
+								setRule(index, {
+									...rule,
+									value: parseInt(e.target.value) || 0,
+								})
+							}
+						/>
+						<span className='text-sm text-muted-foreground'>
+							days
+						</span>
+					</div>
+				);
+			default:
+				return (
+					<Input
+						value={rule.value}
+						maxLength={rule.kind === 'domain_ends_with' ? 253 : 200}
+						placeholder={
+							rule.kind === 'domain_ends_with'
+								? 'example.com'
+								: rule.kind === 'location_matches'
+								? 'Columbus'
+								: 'Tag'
+						}
+						onChange={(e) =>
+							setRule(index, { ...rule, value: e.target.value })
+						}
+					/>
+				);
+		}
+	};
+
+	return (
+		<Dialog open={open} onOpenChange={setOpen}>
+			<DialogTrigger asChild>{children}</DialogTrigger>
+			<DialogContent className='max-w-xl'>
+				<DialogHeader>
+					<DialogTitle>
+						{list ? 'Edit Smart List' : 'New Smart List'}
+					</DialogTitle>
+					<DialogDescription>
+						Smart lists hold whichever saved companies match their
+						rules, so they stay up to date on their own
+					</DialogDescription>
+				</DialogHeader>
+				<div className='space-y-3'>
+					<Input
+						placeholder='List name'
+						value={name}
+						maxLength={100}
+						onChange={(e) => setName(e.target.value)}
+					/>
+					<div className='flex items-center gap-2 text-sm'>
+						Match
+						<Select
+							value={match}
+							onValueChange={(value) =>
+								setMatch(value as SmartListMatch)
+							}>
+							<SelectTrigger className='w-24'>
+								<SelectValue />
+							</SelectTrigger>
+							<SelectContent>
+								<SelectItem value='all'>all</SelectItem>
+								<SelectItem value='any'>any</SelectItem>
+							</SelectContent>
+						</Select>
+						of these rules
+					</div>
+					{rules.map((rule, index) => (
+						<div key={index} className='flex items-center gap-2'>
+							<Select
+								value={rule.kind}
+								onValueChange={(kind) =>
+									setRule(index, newRule(kind as RuleKind))
+								}>
+								<SelectTrigger className='w-44 flex-shrink-0'>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									{Object.entries(RULE_LABELS).map(
+										([kind, label]) => (
+											<SelectItem key={kind} value={kind}>
+												{label}
+											</SelectItem>
+										)
+									)}
+								</SelectContent>
+							</Select>
+							<div className='flex-1'>
+								{renderValue(rule, index)}
+							</div>
+							<Button
+								variant='ghost'
+								size='sm'
+								onClick={() =>
+									setRules(
+										rules.filter((_, i) => i !== index)
+									)
+								}
+								disabled={rules.length === 1}
+								title='Remove rule'>
+								<Trash2 className='w-4 h-4' />
+							</Button>
+						</div>
+					))}
+					<Button
+						variant='outline'
+						size='sm'
+						onClick={() =>
+							setRules([...rules, newRule('tag_contains')])
+						}
+						disabled={rules.length >= 20}>
+						<Plus className='w-4 h-4 mr-2' />
+						Add Rule
+					</Button>
+				</div>
+				<DialogFooter>
+					<Button
+						onClick={handleSave}
+						disabled={
+							isSaving || !name.trim() || !rules.every(isComplete)
+						}>
+						{isSaving && (
+							<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+						)}
+						Save List
+					</Button>
+				</DialogFooter>
+			</DialogContent>
+		</Dialog>
+	);
+}
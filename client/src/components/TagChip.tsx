@@ -0,0 +1,48 @@
+// For tags without a color, e.g. before tags have loaded
+const FALLBACK_COLOR = '#64748b';
+
+// A tag as a small colored pill. Clickable when onClick is given; active
+// ones are outlined, e.g. while filtering by the tag.
+export default function TagChip({
+	name,
+	color = FALLBACK_COLOR,
+	count,
+	active = false,
+	onClick,
+}: {
+	name: string;
+	color?: string;
+	count?: number;
+	active?: boolean;
+	onClick?: () => void;
+}) {
+	const className = `inline-flex items-center gap-1 rounded-full border px-2 py-0.5 text-xs font-medium whitespace-nowrap ${
+		active ? 'ring-2 ring-offset-1' : ''
+	}`;
+	const style = {
+		backgroundColor: `${color}1a`,
+		borderColor: `${color}66`,
+		color,
+		'--tw-ring-color': color,
+	} as React.CSSProperties;
+	const content = (
+		<>
+			{name}
+			{count !== undefined && <span className='opacity-70'>{count}</span>}
+		</>
+	);
+
+	return onClick ? (
+		<button
+			type='button'
+			className={`${className} hover:opacity-80`}
+			style={style}
+			onClick={onClick}>
+			{content}
+		</button>
+	) : (
+		<span className={className} style={style}>
+			{content}
+		</span>
+	);
+}
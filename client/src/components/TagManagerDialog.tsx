@@ -0,0 +1,210 @@
+import { useState } from 'react';
+import {
+	Dialog,
+	DialogContent,
+	DialogDescription,
+	DialogHeader,
+	DialogTitle,
+	DialogTrigger,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2, Plus, Tags, Trash2 } from 'lucide-react';
+import {
+	Tag,
+	TAG_COLORS,
+	useCreateTag,
+	useDeleteTag,
+	useTags,
+	useUpdateTag,
+} from '@/hooks/useTags';
+import { useToast } from '@/hooks/use-toast';
+
+// A row of color swatches to pick from
+function ColorPicker({
+	value,
+	onChange,
+}: {
+	value: string;
+	onChange: (color: string) => void;
+}) {
+	return (
+		<div className='flex gap-1'>
+			{TAG_COLORS.map((color) => (
+				<button
+					key={color}
+					type='button'
+					className={`h-4 w-4 rounded-full ${
+						color === value
+							? 'ring-2 ring-offset-1 ring-gray-400'
+							: ''
+					}`}
+					style={{ backgroundColor: color }}
+					onClick={() => onChange(color)}
+					title={color}
+				/>
+			))}
+		</div>
+	);
+}
+
+// Create, rename, recolor and delete tags. Renaming a tag renames it on
+// every company that has it; deleting takes it off them.
+export default function TagManagerDialog() {
+	const [newName, setNewName] = useState('');
+	const [newColor, setNewColor] = useState(TAG_COLORS[6]);
+	// Names being edited, by tag id, until saved
+	const [names, setNames] = useState<Record<string, string>>({});
+	const { data: tags = [], isLoading } = useTags();
+	const createTag = useCreateTag();
+	const updateTag = useUpdateTag();
+	const deleteTag = useDeleteTag();
+	const { toast } = useToast();
+
+	const run = async (action: () => Promise<unknown>, failure: string) => {
+		try {
+			await action();
+			return true;
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description: error instanceof Error ? error.message : failure,
+				variant: 'destructive',
+			});
+			return false;
+		}
+	};
+
+	const handleCreate = async (e: React.FormEvent) => {
+		e.preventDefault();
+		const name = newName.trim();
+		if (!name) return;
+		if (
+			await run(
+				() => createTag.mutateAsync({ name, color: newColor }),
+				'Failed to create the tag'
+			)
+		) {
+			setNewName('');
+		}
+	};
+
+	const handleRename = async (tag: Tag) => {
+		const name = names[tag._id]?.trim();
+		if (name && name !== tag.name) {
+			await run(
+				() => updateTag.mutateAsync({ id: tag._id, updates: { name } }),
+				'Failed to rename the tag'
+			);
+		}
+		setNames(({ [tag._id]: _, ...rest }) => rest);
+	};
+
+	const handleDelete = (tag: Tag) => {
+		if (
+			tag.count > 0 &&
+			!confirm(
+				`Delete the tag "${tag.name}"? It will be removed from ${tag.count} companies.`
+			)
+		) {
+			return;
+		}
+		run(() => deleteTag.mutateAsync(tag._id), 'Failed to delete the tag');
+	};
+
+	return (
+		<Dialog>
+			<DialogTrigger asChild>
+				<Button variant='outline' size='sm'>
+					<Tags className='w-4 h-4 mr-2' />
+					Manage Tags
+				</Button>
+			</DialogTrigger>
+			<DialogContent className='max-w-xl'>
+				<DialogHeader>
+					<DialogTitle>Tags</DialogTitle>
+					<DialogDescription>
+						Renaming a tag renames it on every company that has it
+					</DialogDescription>
+				</DialogHeader>
+				<div className='space-y-2'>
+					{isLoading && (
+						<div className='flex justify-center p-2'>
+							<Loader2 className='w-4 h-4 animate-spin' />
+						</div>
+					)}
+					{!isLoading && tags.length === 0 && (
+						<p className='text-sm text-muted-foreground'>
+							No tags yet
+						</p>
+					)}
+					{tags.map((tag) => (
+						<div key={tag._id} className='flex items-center gap-2'>
+							<Input
+								value={names[tag._id] ?? tag.name}
+								maxLength={40}
+								className='h-8'
+								onChange={(e) =>
+									setNames({
+										...names,
+										[tag._id]: e.target.value,
+									})
+								}
+								onBlur={() => handleRename(tag)}
+								onKeyDown={(e) => {
+									if (e.key === 'Enter')
+										e.currentTarget.blur();
+								}}
+							/>
+							<ColorPicker
+								value={tag.color}
+								onChange={(color) =>
+									run(
+										() =>
+											updateTag.mutateAsync({
+												id: tag._id,
+												updates: { color },
+											}),
+										'Failed to change the color'
+									)
+								}
+							/>
+							<span
+								className='w-10 text-right text-sm text-muted-foreground'
+								title='Companies with this tag'>
+								{tag.count}
+							</span>
+							<Button
+								variant='ghost'
+								size='sm'
+								onClick={() => handleDelete(tag)}
+								title='Delete tag'>
+								<Trash2 className='w-4 h-4' />
+							</Button>
+						</div>
+					))}
+					<form
+						onSubmit={handleCreate}
+						className='flex items-center gap-2 border-t pt-3'>
+						<Input
+							placeholder='New tag...'
+							value={newName}
+							maxLength={40}
+							className='h-8'
+							onChange={(e) => setNewName(e.target.value)}
+						/>
+						<ColorPicker value={newColor} onChange={setNewColor} />
+						<Button
+							type='submit'
+							variant='outline'
+							size='sm'
+							disabled={!newName.trim() || createTag.isPending}
+							title='Create tag'>
+							<Plus className='w-4 h-4' />
+						</Button>
+					</form>
+				</div>
+			</DialogContent>
+		</Dialog>
+	);
+}
@@ -0,0 +1,107 @@
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Loader2, RefreshCw, ShieldAlert } from 'lucide-react';
+import { SavedBusiness, WebsiteHealth } from '@/hooks/useSavedBusinesses';
+import {
+	useApplyCanonicalWebsite,
+	useCheckWebsite,
+} from '@/hooks/useEnrichment';
+import { useToast } from '@/hooks/use-toast';
+
+const STATUS_STYLES: Record<WebsiteHealth['status'], string> = {
+	ok: 'bg-green-50 text-green-800 border-green-200',
+	redirected: 'bg-blue-50 text-blue-800 border-blue-200',
+	blocked: 'bg-gray-50 text-gray-700 border-gray-200',
+	broken: 'bg-red-50 text-red-800 border-red-200',
+	parked: 'bg-amber-50 text-amber-800 border-amber-200',
+	unreachable: 'bg-red-50 text-red-800 border-red-200',
+};
+
+function describe(health: WebsiteHealth): string {
+	const lines = [
+		health.httpStatus ? `HTTP ${health.httpStatus}` : health.error,
+		health.finalUrl && `Ends up at ${health.finalUrl}`,
+		health.tlsValid === false && 'Certificate is not valid',
+		health.parkedReason && `Looks parked: ${health.parkedReason}`,
+		`Checked ${new Date(health.checkedAt).toLocaleString()}`,
+	];
+	return lines.filter(Boolean).join('\n');
+}
+
+// Health of the business's website from the last check, with a way to
+// re-check and to store the URL it actually ends up at
+export default function WebsiteHealthBadge({
+	business,
+}: {
+	business: SavedBusiness;
+}) {
+	const { toast } = useToast();
+	const checkWebsite = useCheckWebsite();
+	const applyCanonical = useApplyCanonicalWebsite();
+	const health = business.websiteHealth;
+
+	const run = async (action: () => Promise<unknown>, failure: string) => {
+		try {
+			await action();
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description: error instanceof Error ? error.message : failure,
+				variant: 'destructive',
+			});
+		}
+	};
+
+	return (
+		<div className='flex flex-wrap items-center gap-1'>
+			{health && (
+				<Badge
+					variant='outline'
+					className={STATUS_STYLES[health.status]}
+					title={describe(health)}>
+					{health.status}
+				</Badge>
+			)}
+			{health?.tlsValid === false && (
+				<ShieldAlert
+					className='w-4 h-4 text-red-600'
+					aria-label='Certificate is not valid'
+				/>
+			)}
+			{health?.canonicalUrl && (
+				<Button
+					variant='link'
+					size='sm'
+					className='h-auto p-0 text-xs'
+					onClick={() =>
+						run(
+							() => applyCanonical.mutateAsync(business._id!),
+							'Failed to update the website'
+						)
+					}
+					disabled={applyCanonical.isPending}
+					title={`Change the website to ${health.canonicalUrl}`}>
+					Use {health.canonicalUrl.replace(/^https?:\/\//, '')}
+				</Button>
+			)}
+			<Button
+				variant='ghost'
+				size='sm'
+				className='h-6 px-1'
+				onClick={() =>
+					run(
+						() => checkWebsite.mutateAsync(business._id!),
+						'Failed to check the website'
+					)
+				}
+				disabled={checkWebsite.isPending}
+				title='Check website'>
+				{checkWebsite.isPending ? (
+					<Loader2 className='w-3 h-3 animate-spin' />
+				) : (
+					<RefreshCw className='w-3 h-3' />
+				)}
+			</Button>
+		</div>
+	);
+}
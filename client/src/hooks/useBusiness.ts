@@ -1,6 +1,6 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
-import { SearchParams, Business, SearchResult } from "@/lib/types";
+import { SearchParams, Business, SearchResult, TiledSearchEstimate } from "@/lib/types";
 
 // Hook for searching businesses
 export function useBusinessSearch() {
@@ -12,10 +12,19 @@ export function useBusinessSearch() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/businesses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/my/search-history"] });
     }
   });
 }
 
+// Hook for the worst-case API cost of a tiled search
+export function useTiledSearchEstimate(tileDensity: number, enabled: boolean) {
+  return useQuery<TiledSearchEstimate>({
+    queryKey: [`/api/businesses/search/estimate?tileDensity=${tileDensity}`],
+    enabled,
+  });
+}
+
 // Hook for fetching businesses
 export function useBusinesses() {
   return useQuery<Business[]>({
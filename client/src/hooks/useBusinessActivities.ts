@@ -0,0 +1,76 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+
+export type BusinessActivityType =
+	| 'note'
+	| 'status_changed'
+	| 'email_sent'
+	| 'call_logged'
+	| 'career_link_changed'
+	| 'merged';
+
+// Kinds of activity a user can log by hand
+export type LoggableActivityType = 'note' | 'email_sent' | 'call_logged';
+
+export interface BusinessActivity {
+	_id: string;
+	businessId: string;
+	type: BusinessActivityType;
+	body?: string;
+	from?: string;
+	to?: string;
+	mergedFrom?: { _id: string; name: string }[];
+	author: { userId: string; email?: string };
+	createdAt: string;
+}
+
+// Under the saved businesses key, so anything that changes a business
+// refreshes its timeline too
+const activitiesKey = (businessId: string) => [
+	'/api/my/businesses',
+	businessId,
+	'activities',
+];
+
+// A saved business's timeline, newest first
+export function useBusinessActivities(businessId: string | undefined) {
+	return useQuery<{ activities: BusinessActivity[] }>({
+		queryKey: activitiesKey(businessId || ''),
+		queryFn: async () => {
+			return await apiRequest(
+				'GET',
+				`/api/my/businesses/${businessId}/activities`
+			);
+		},
+		enabled: !!businessId,
+	});
+}
+
+export function useLogActivity() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			businessId,
+			type,
+			body,
+		}: {
+			businessId: string;
+			type: LoggableActivityType;
+			body?: string;
+		}): Promise<BusinessActivity> => {
+			return await apiRequest(
+				'POST',
+				`/api/my/businesses/${businessId}/activities`,
+				{ type, body }
+			);
+		},
+		onSuccess: (activity) => {
+			queryClient.invalidateQueries({
+				queryKey: activitiesKey(activity.businessId),
+			});
+			// Logging an activity can complete reminders
+			queryClient.invalidateQueries({ queryKey: ['/api/my/reminders'] });
+		},
+	});
+}
@@ -0,0 +1,140 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { SavedBusiness } from './useSavedBusinesses';
+
+export type MergeableField =
+	| 'name'
+	| 'website'
+	| 'location'
+	| 'phone'
+	| 'careerLink'
+	| 'notes';
+
+export interface DuplicateGroup {
+	businesses: SavedBusiness[]; // Oldest first
+	reasons: Record<string, string>; // Why each later business matched
+}
+
+export interface BusinessMergeInput {
+	survivorId: string;
+	duplicateIds: string[];
+	sources: Partial<Record<MergeableField, string>>;
+	combineNotes: boolean;
+}
+
+export interface BusinessMerge {
+	_id: string;
+	survivorId: string;
+	survivorBefore: SavedBusiness;
+	removed: SavedBusiness[];
+	createdAt: string;
+	undoneAt?: string;
+}
+
+// Suspected duplicates among the saved businesses. Keyed under
+// /api/my/businesses so any change to saved businesses refreshes it.
+export function useDuplicateGroups(enabled: boolean) {
+	return useQuery<{ groups: DuplicateGroup[] }>({
+		queryKey: ['/api/my/businesses', 'duplicates'],
+		queryFn: async () => {
+			return await apiRequest('GET', '/api/my/businesses/duplicates');
+		},
+		enabled,
+	});
+}
+
+export function useBusinessMerges(enabled: boolean) {
+	return useQuery<BusinessMerge[]>({
+		queryKey: ['/api/my/business-merges'],
+		queryFn: async () => {
+			return await apiRequest('GET', '/api/my/business-merges');
+		},
+		enabled,
+	});
+}
+
+export function useMergeBusinesses() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (input: BusinessMergeInput) => {
+			return await apiRequest('POST', '/api/my/businesses/merge', input);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+			queryClient.invalidateQueries({
+				queryKey: ['/api/my/business-merges'],
+			});
+		},
+	});
+}
+
+export function useUndoMerge() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (id: string) => {
+			return await apiRequest(
+				'POST',
+				`/api/my/business-merges/${id}/undo`
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+			queryClient.invalidateQueries({
+				queryKey: ['/api/my/business-merges'],
+			});
+		},
+	});
+}
+
+export interface CleanupPlanBusiness {
+	_id: string;
+	name: string;
+	website?: string;
+	location?: string;
+	createdAt?: string;
+}
+
+export interface CleanupPlan {
+	planId: string;
+	groups: {
+		keep: CleanupPlanBusiness;
+		keepReason: string;
+		remove: (CleanupPlanBusiness & { reason: string })[];
+	}[];
+	removeCount: number;
+	expiresAt: string;
+}
+
+// Work out what a duplicate cleanup would delete, without deleting anything
+export function usePreviewDuplicateCleanup() {
+	return useMutation({
+		mutationFn: async (): Promise<CleanupPlan> => {
+			return await apiRequest(
+				'POST',
+				'/api/my/businesses/cleanup-duplicates/preview'
+			);
+		},
+	});
+}
+
+// Delete exactly what the previewed plan listed
+export function useRunDuplicateCleanup() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (
+			planId: string
+		): Promise<{ removed: number; skippedGroups: number }> => {
+			return await apiRequest(
+				'POST',
+				'/api/my/businesses/cleanup-duplicates',
+				{ planId }
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
@@ -0,0 +1,182 @@
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { BusinessContacts } from '../lib/types';
+import { SavedBusiness, WebsiteHealth } from './useSavedBusinesses';
+
+// Which saved businesses a bulk website check runs over
+export type EnrichmentTarget = { businessIds: string[] } | { listId: string };
+
+// A bulk check runs on the server as a background job
+export interface EnrichmentJob {
+	id: string;
+	status: 'running' | 'done' | 'failed';
+	total: number;
+	checked: number;
+	failed: number; // Businesses whose check errored
+	remaining: number; // List businesses left out over the batch limit
+	// What the checks found, e.g. found, hiring or a website status
+	counts: Record<string, number>;
+	error?: string;
+}
+
+const JOB_POLL_INTERVAL = 1000; // ms
+
+// Start a bulk check and wait for its job to finish
+async function runEnrichmentJob(
+	url: string,
+	target: EnrichmentTarget
+): Promise<EnrichmentJob> {
+	let job: EnrichmentJob = await apiRequest('POST', url, target);
+	while (job.status === 'running') {
+		await new Promise((resolve) => setTimeout(resolve, JOB_POLL_INTERVAL));
+		job = await apiRequest('GET', `/api/my/enrichment-jobs/${job.id}`);
+	}
+	if (job.status === 'failed') {
+		throw new Error(job.error || 'The check failed');
+	}
+	return job;
+}
+
+export function useDiscoverCareers() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (
+			id: string
+		): Promise<{ business: SavedBusiness; found: boolean }> => {
+			return await apiRequest(
+				'POST',
+				`/api/my/businesses/${id}/discover-careers`
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
+
+export function useBulkDiscoverCareers() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: (target: EnrichmentTarget) =>
+			runEnrichmentJob('/api/my/businesses/discover-careers', target),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
+
+export function useCheckJobs() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (
+			id: string
+		): Promise<{
+			business: SavedBusiness;
+			platform?: string;
+			openJobCount?: number;
+		}> => {
+			return await apiRequest(
+				'POST',
+				`/api/my/businesses/${id}/check-jobs`
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
+
+export function useBulkCheckJobs() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: (target: EnrichmentTarget) =>
+			runEnrichmentJob('/api/my/businesses/check-jobs', target),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
+
+export function useCheckWebsite() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (
+			id: string
+		): Promise<{
+			business: SavedBusiness;
+			health: WebsiteHealth | null;
+		}> => {
+			return await apiRequest(
+				'POST',
+				`/api/my/businesses/${id}/check-website`
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
+
+export function useBulkCheckWebsites() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: (target: EnrichmentTarget) =>
+			runEnrichmentJob('/api/my/businesses/check-websites', target),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
+
+// Store the website where the last check ended up
+export function useApplyCanonicalWebsite() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (id: string): Promise<SavedBusiness> => {
+			return await apiRequest(
+				'POST',
+				`/api/my/businesses/${id}/use-canonical-website`
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
+
+export function useExtractContacts() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (
+			id: string
+		): Promise<{ business: SavedBusiness; contacts: BusinessContacts }> => {
+			return await apiRequest(
+				'POST',
+				`/api/my/businesses/${id}/extract-contacts`
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
+
+export function useBulkExtractContacts() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: (target: EnrichmentTarget) =>
+			runEnrichmentJob('/api/my/businesses/extract-contacts', target),
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
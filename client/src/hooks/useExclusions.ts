@@ -0,0 +1,41 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { ExclusionCategory } from '../lib/types';
+
+export type ExclusionRuleKind = 'name' | 'domain' | 'type';
+
+export interface ExclusionRule {
+	kind: ExclusionRuleKind;
+	pattern: string;
+	category: ExclusionCategory;
+}
+
+export interface ExclusionList {
+	mode: 'hide' | 'flag';
+	rules: ExclusionRule[];
+	updatedAt?: string;
+}
+
+// Get the current user's exclusion list
+export function useExclusionList() {
+	return useQuery<ExclusionList>({
+		queryKey: ['/api/my/exclusions'],
+		queryFn: async () => {
+			return await apiRequest('GET', '/api/my/exclusions');
+		},
+	});
+}
+
+// Replace the whole list; searches run afterwards use the new rules
+export function useSaveExclusionList() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (list: Omit<ExclusionList, 'updatedAt'>) => {
+			return await apiRequest('PUT', '/api/my/exclusions', list);
+		},
+		onSuccess: (saved: ExclusionList) => {
+			queryClient.setQueryData(['/api/my/exclusions'], saved);
+		},
+	});
+}
@@ -0,0 +1,40 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+
+export interface PipelineStage {
+	id: string;
+	name: string;
+}
+
+// The current user's pipeline stages, in board order
+export function usePipelineStages() {
+	return useQuery<{ stages: PipelineStage[] }>({
+		queryKey: ['/api/my/pipeline'],
+		queryFn: async () => {
+			return await apiRequest('GET', '/api/my/pipeline');
+		},
+	});
+}
+
+// Replace the stages; businesses in a removed stage lose their status
+export function useSavePipelineStages() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (
+			stages: PipelineStage[]
+		): Promise<{ stages: PipelineStage[]; cleared: number }> => {
+			return await apiRequest('PUT', '/api/my/pipeline', { stages });
+		},
+		onSuccess: (saved) => {
+			queryClient.setQueryData(['/api/my/pipeline'], {
+				stages: saved.stages,
+			});
+			if (saved.cleared > 0) {
+				queryClient.invalidateQueries({
+					queryKey: ['/api/my/businesses'],
+				});
+			}
+		},
+	});
+}
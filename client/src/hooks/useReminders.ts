@@ -0,0 +1,112 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+import { BusinessActivityType } from './useBusinessActivities';
+
+export interface Reminder {
+	_id: string;
+	businessId: string;
+	title: string;
+	dueAt: string;
+	completeOn: BusinessActivityType[];
+	doneAt?: string;
+	doneByActivityId?: string;
+	createdAt: string;
+	business: { name: string; website?: string; careerLink?: string };
+}
+
+export interface ReminderInput {
+	title: string;
+	dueAt: string;
+	completeOn: BusinessActivityType[];
+}
+
+// Open reminders, soonest first: those due by dueBefore, or one business's
+export function useReminders({
+	dueBefore,
+	businessId,
+}: {
+	dueBefore?: string;
+	businessId?: string;
+}) {
+	return useQuery<{ reminders: Reminder[] }>({
+		queryKey: ['/api/my/reminders', { dueBefore, businessId }],
+		queryFn: async () => {
+			const params = new URLSearchParams();
+			if (dueBefore) params.append('dueBefore', dueBefore);
+			if (businessId) params.append('businessId', businessId);
+			return await apiRequest('GET', `/api/my/reminders?${params}`);
+		},
+	});
+}
+
+export function useCreateReminder() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			businessId,
+			reminder,
+		}: {
+			businessId: string;
+			reminder: ReminderInput;
+		}): Promise<Reminder> => {
+			return await apiRequest(
+				'POST',
+				`/api/my/businesses/${businessId}/reminders`,
+				reminder
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/reminders'] });
+		},
+	});
+}
+
+export function useUpdateReminder() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			id,
+			updates,
+		}: {
+			id: string;
+			updates: Partial<ReminderInput> & { done?: boolean };
+		}) => {
+			return await apiRequest(
+				'PATCH',
+				`/api/my/reminders/${id}`,
+				updates
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/reminders'] });
+		},
+	});
+}
+
+export function useDeleteReminder() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (id: string) => {
+			return await apiRequest('DELETE', `/api/my/reminders/${id}`);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/reminders'] });
+		},
+	});
+}
+
+// The calendar feed URL; reset replaces its secret
+export function useCalendarFeed() {
+	return useMutation({
+		mutationFn: async (
+			reset: boolean = false
+		): Promise<{ url: string }> => {
+			return await apiRequest('POST', '/api/my/reminders/calendar', {
+				reset,
+			});
+		},
+	});
+}
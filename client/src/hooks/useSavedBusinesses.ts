@@ -1,36 +1,166 @@
 import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { apiRequest } from '../lib/queryClient';
-import { Business } from '../lib/types';
+import { Business, BusinessContacts, ResultFilters } from '../lib/types';
+
+// Result of the last website check
+export interface WebsiteHealth {
+	status:
+		| 'ok'
+		| 'redirected'
+		| 'blocked'
+		| 'broken'
+		| 'parked'
+		| 'unreachable';
+	httpStatus?: number;
+	finalUrl?: string;
+	canonicalUrl?: string;
+	tlsValid?: boolean;
+	parkedReason?: string;
+	error?: string;
+	checkedAt: string;
+}
 
 // Interface for saved businesses with MongoDB IDs
 export interface SavedBusiness extends Omit<Business, 'id'> {
 	_id?: string;
 	userId: string;
 	tags?: string[];
+	careerLinkConfidence?: 'high' | 'medium' | 'low';
+	careerLinkCheckedAt?: string;
+	atsPlatform?: string;
+	atsBoardUrl?: string;
+	openJobCount?: number;
+	openRoles?: string[];
+	jobsCheckedAt?: string;
+	websiteHealth?: WebsiteHealth;
+	contacts?: BusinessContacts;
+	pipelineStatus?: string;
 	createdAt?: Date;
 	updatedAt?: Date;
 }
 
-// Get all saved businesses for the current user with pagination and search
+// Matches businesses without a pipeline status in a status filter
+export const NO_PIPELINE_STATUS = 'none';
+
+export interface SavedBusinessFilters {
+	hiringOnly?: boolean;
+	roleKeyword?: string;
+	statuses?: string[];
+	tags?: string[]; // Businesses need every one of these
+	listId?: string;
+	city?: string;
+	state?: string; // As the address has it, e.g. "OH"
+	hasWebsite?: boolean;
+	// ISO dates; both ends are inclusive
+	createdFrom?: string;
+	createdTo?: string;
+	updatedFrom?: string;
+	updatedTo?: string;
+}
+
+export type SavedBusinessSortField =
+	| 'createdAt'
+	| 'updatedAt'
+	| 'name'
+	| 'website'
+	| 'location'
+	| 'openJobCount';
+
+export interface SavedBusinessSort {
+	field: SavedBusinessSortField;
+	direction: 'asc' | 'desc';
+}
+
+// How many of the listed businesses carry each tag
+export interface TagCount {
+	name: string;
+	count: number;
+}
+
+export function appendSavedBusinessFilters(
+	params: URLSearchParams,
+	{
+		hiringOnly,
+		roleKeyword,
+		statuses,
+		tags,
+		listId,
+		city,
+		state,
+		hasWebsite,
+		...dates
+	}: SavedBusinessFilters
+) {
+	if (hiringOnly) {
+		params.append('hiring', 'true');
+	}
+	if (roleKeyword && roleKeyword.trim()) {
+		params.append('role', roleKeyword.trim());
+	}
+	if (statuses && statuses.length > 0) {
+		params.append('status', statuses.join(','));
+	}
+	if (tags && tags.length > 0) {
+		params.append('tags', tags.join(','));
+	}
+	if (listId) {
+		params.append('list', listId);
+	}
+	if (city && city.trim()) {
+		params.append('city', city.trim());
+	}
+	if (state && state.trim()) {
+		params.append('state', state.trim());
+	}
+	if (hasWebsite !== undefined) {
+		params.append('hasWebsite', String(hasWebsite));
+	}
+	for (const [name, value] of Object.entries(dates)) {
+		if (value) params.append(name, value);
+	}
+}
+
+// Get all saved businesses for the current user with pagination and search.
+// With a cursor (a previous response's nextCursor) the page starts after the
+// last business that response listed, and page is ignored.
 export function useSavedBusinesses(
 	page: number = 1,
 	limit: number = 50,
 	searchTerm?: string,
-	recentOnly?: boolean
+	recentOnly?: boolean,
+	filters: SavedBusinessFilters = {},
+	{ sort, cursor }: { sort?: SavedBusinessSort; cursor?: string | null } = {}
 ) {
 	return useQuery({
-		queryKey: ['/api/my/businesses', page, limit, searchTerm, recentOnly],
+		queryKey: [
+			'/api/my/businesses',
+			page,
+			limit,
+			searchTerm,
+			recentOnly,
+			filters,
+			sort,
+			cursor,
+		],
 		queryFn: async () => {
 			const params = new URLSearchParams({
 				page: page.toString(),
 				limit: limit.toString(),
 			});
+			if (cursor) {
+				params.append('cursor', cursor);
+			}
+			if (sort) {
+				params.append('sort', sort.field);
+				params.append('order', sort.direction);
+			}
 			if (searchTerm && searchTerm.trim()) {
 				params.append('search', searchTerm.trim());
 			}
 			if (recentOnly) {
 				params.append('recentOnly', 'true');
 			}
+			appendSavedBusinessFilters(params, filters);
 			return await apiRequest('GET', `/api/my/businesses?${params}`);
 		},
 	});
@@ -57,11 +187,17 @@ export function useImportFromSearch() {
 	const queryClient = useQueryClient();
 
 	return useMutation({
-		mutationFn: async (businessIds?: number[]) => {
+		mutationFn: async ({
+			businessIds,
+			filters,
+		}: {
+			businessIds?: number[];
+			filters?: ResultFilters;
+		} = {}) => {
 			return await apiRequest(
 				'POST',
 				'/api/my/businesses/import-from-search',
-				businessIds ? { businessIds } : {}
+				{ businessIds, filters }
 			);
 		},
 		onSuccess: () => {
@@ -112,6 +248,8 @@ export function useUpdateSavedBusiness() {
 		},
 		onSuccess: () => {
 			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+			// A status change can complete reminders
+			queryClient.invalidateQueries({ queryKey: ['/api/my/reminders'] });
 		},
 	});
 }
@@ -131,6 +269,63 @@ export function useDeleteSavedBusiness() {
 }
 
 // Clear all saved businesses
+// One change applied to many saved businesses
+export type BulkOperation =
+	| { type: 'delete' }
+	| { type: 'set_status'; status: string } // Empty clears it
+	| { type: 'add_tags'; tags: string[] }
+	| { type: 'remove_tags'; tags: string[] }
+	| { type: 'add_to_list'; listId: string }
+	| { type: 'mark_bad_lead'; value: boolean }
+	| {
+			type: 'set_field';
+			field: 'notes' | 'website' | 'location' | 'phone' | 'careerLink';
+			value: string; // Empty clears it
+	  };
+
+// Which businesses a bulk operation runs over: picked ones, or every one
+// matching the list's filters
+export type BulkTarget =
+	| { businessIds: string[] }
+	| {
+			filter: Omit<SavedBusinessFilters, 'listId'> & {
+				search?: string;
+				recentOnly?: boolean;
+				listId?: string;
+			};
+	  };
+
+export interface BulkResult {
+	succeeded: number;
+	failed: number;
+	results: { id: string; ok: boolean; error?: string }[];
+}
+
+export function useBulkBusinessOperation() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			operation,
+			target,
+		}: {
+			operation: BulkOperation;
+			target: BulkTarget;
+		}): Promise<BulkResult> => {
+			return await apiRequest('POST', '/api/my/businesses/bulk', {
+				operation,
+				...target,
+			});
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+			queryClient.invalidateQueries({ queryKey: ['/api/my/lists'] });
+			queryClient.invalidateQueries({ queryKey: ['/api/my/tags'] });
+			queryClient.invalidateQueries({ queryKey: ['/api/my/reminders'] });
+		},
+	});
+}
+
 export function useClearAllSavedBusinesses() {
 	const queryClient = useQueryClient();
 
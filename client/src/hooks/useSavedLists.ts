@@ -0,0 +1,118 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+
+// A smart list rule; the businesses matching it are picked on the server
+export type SmartListRule =
+	| { kind: 'tag_contains'; value: string }
+	| { kind: 'status_equals'; value: string } // A stage id or "none"
+	| { kind: 'location_matches'; value: string }
+	| { kind: 'created_within_days'; value: number }
+	| { kind: 'has_career_link'; value: boolean }
+	| { kind: 'hiring_now'; value: boolean }
+	| { kind: 'domain_ends_with'; value: string };
+
+export type SmartListMatch = 'all' | 'any';
+
+export interface SavedList {
+	_id: string;
+	name: string;
+	description?: string;
+	businesses?: string[]; // Business ids, for static lists
+	rules?: SmartListRule[]; // Set for smart lists
+	match?: SmartListMatch;
+	count?: number; // Businesses in the list right now
+	createdAt?: string;
+	updatedAt?: string;
+}
+
+export interface SavedListInput {
+	name: string;
+	description?: string;
+	rules?: SmartListRule[];
+	match?: SmartListMatch;
+}
+
+export const isSmartList = (list: SavedList) =>
+	!!list.rules && list.rules.length > 0;
+
+// The user's lists, by name, with live counts
+export function useSavedLists() {
+	return useQuery<SavedList[]>({
+		queryKey: ['/api/my/lists'],
+		queryFn: async () => {
+			return await apiRequest('GET', '/api/my/lists');
+		},
+	});
+}
+
+export function useCreateSavedList() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (list: SavedListInput): Promise<SavedList> => {
+			return await apiRequest('POST', '/api/my/lists', list);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/lists'] });
+		},
+	});
+}
+
+export function useUpdateSavedList() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			id,
+			updates,
+		}: {
+			id: string;
+			updates: Partial<SavedListInput>;
+		}) => {
+			return await apiRequest('PATCH', `/api/my/lists/${id}`, updates);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/lists'] });
+		},
+	});
+}
+
+export function useDeleteSavedList() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (id: string) => {
+			return await apiRequest('DELETE', `/api/my/lists/${id}`);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/lists'] });
+		},
+	});
+}
+
+// Add or remove several saved businesses at once
+export function useListMembership() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			listId,
+			businessIds,
+			remove = false,
+		}: {
+			listId: string;
+			businessIds: string[];
+			remove?: boolean;
+		}): Promise<{ list: SavedList; added?: number }> => {
+			return await apiRequest(
+				remove ? 'DELETE' : 'POST',
+				`/api/my/lists/${listId}/businesses`,
+				{ businessIds }
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/lists'] });
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
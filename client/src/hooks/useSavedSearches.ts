@@ -0,0 +1,152 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+
+export type SavedSearchCadence = 'daily' | 'weekly';
+
+export interface SavedSearch {
+	_id: string;
+	name: string;
+	businessType: string;
+	location: string;
+	cadence: SavedSearchCadence;
+	enabled: boolean;
+	nextRunAt: string;
+	lastRunAt?: string;
+	lastResultCount?: number;
+	lastNewLeadCount?: number;
+	lastError?: string;
+	unseenLeadCount: number;
+}
+
+export interface SavedSearchInput {
+	name: string;
+	businessType: string;
+	location: string;
+	cadence: SavedSearchCadence;
+	enabled?: boolean;
+}
+
+export interface SavedSearchLead {
+	_id: string;
+	savedSearchId: string;
+	name: string;
+	website?: string;
+	location?: string;
+	seen: boolean;
+	createdAt: string;
+}
+
+// Get the current user's saved searches with their unseen lead counts
+export function useSavedSearches() {
+	return useQuery<SavedSearch[]>({
+		queryKey: ['/api/my/saved-searches'],
+		queryFn: async () => {
+			return await apiRequest('GET', '/api/my/saved-searches');
+		},
+	});
+}
+
+// Get the leads inbox for a saved search
+export function useSavedSearchLeads(id: string | null) {
+	return useQuery<SavedSearchLead[]>({
+		queryKey: ['/api/my/saved-searches', id, 'leads'],
+		queryFn: async () => {
+			return await apiRequest(
+				'GET',
+				`/api/my/saved-searches/${id}/leads`
+			);
+		},
+		enabled: !!id,
+	});
+}
+
+export function useCreateSavedSearch() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (search: SavedSearchInput) => {
+			return await apiRequest('POST', '/api/my/saved-searches', search);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({
+				queryKey: ['/api/my/saved-searches'],
+			});
+		},
+	});
+}
+
+export function useUpdateSavedSearch() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			id,
+			updates,
+		}: {
+			id: string;
+			updates: Partial<SavedSearchInput>;
+		}) => {
+			return await apiRequest(
+				'PATCH',
+				`/api/my/saved-searches/${id}`,
+				updates
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({
+				queryKey: ['/api/my/saved-searches'],
+			});
+		},
+	});
+}
+
+export function useDeleteSavedSearch() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (id: string) => {
+			return await apiRequest('DELETE', `/api/my/saved-searches/${id}`);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({
+				queryKey: ['/api/my/saved-searches'],
+			});
+		},
+	});
+}
+
+// Run a saved search right away instead of waiting for its schedule
+export function useRunSavedSearch() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (
+			id: string
+		): Promise<{ resultCount: number; newLeadCount: number }> => {
+			return await apiRequest('POST', `/api/my/saved-searches/${id}/run`);
+		},
+		onSettled: () => {
+			queryClient.invalidateQueries({
+				queryKey: ['/api/my/saved-searches'],
+			});
+		},
+	});
+}
+
+export function useMarkSavedSearchLeadsSeen() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (id: string) => {
+			return await apiRequest(
+				'POST',
+				`/api/my/saved-searches/${id}/leads/seen`
+			);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({
+				queryKey: ['/api/my/saved-searches'],
+			});
+		},
+	});
+}
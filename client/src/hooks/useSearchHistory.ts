@@ -0,0 +1,90 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+
+export interface SearchHistoryBusiness {
+	name: string;
+	website?: string;
+	location?: string;
+}
+
+export interface SearchHistoryEntry {
+	_id: string;
+	searchType: 'location' | 'state';
+	businessType: string;
+	location?: string;
+	state?: string;
+	cities: string[];
+	queryKey: string;
+	resultCount: number;
+	newCount: number;
+	duplicateCount: number;
+	cached: boolean;
+	businesses?: SearchHistoryBusiness[];
+	createdAt: string;
+}
+
+export interface SearchHistoryPage {
+	entries: SearchHistoryEntry[];
+	total: number;
+	page: number;
+	totalPages: number;
+}
+
+export interface SearchHistoryDiff {
+	entryId: string;
+	previousId: string | null;
+	previousRunAt: string | null;
+	added: SearchHistoryBusiness[];
+	removed: SearchHistoryBusiness[];
+	unchangedCount: number;
+}
+
+// Human-readable description of where a search looked
+export function describeSearchLocation(entry: SearchHistoryEntry): string {
+	if (entry.searchType === 'state') {
+		return entry.cities.length > 0
+			? `${entry.cities.join(', ')} (${entry.state})`
+			: entry.state || '';
+	}
+	return entry.location || '';
+}
+
+// Get the current user's search history, newest first
+export function useSearchHistory(page: number = 1, limit: number = 20) {
+	return useQuery<SearchHistoryPage>({
+		queryKey: ['/api/my/search-history', page, limit],
+		queryFn: async () => {
+			return await apiRequest(
+				'GET',
+				`/api/my/search-history?page=${page}&limit=${limit}`
+			);
+		},
+	});
+}
+
+// Compare a history entry with the previous run of the same query
+export function useSearchHistoryDiff(id: string | null) {
+	return useQuery<SearchHistoryDiff>({
+		queryKey: ['/api/my/search-history', id, 'diff'],
+		queryFn: async () => {
+			return await apiRequest('GET', `/api/my/search-history/${id}/diff`);
+		},
+		enabled: !!id,
+	});
+}
+
+// Delete a search history entry
+export function useDeleteSearchHistoryEntry() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (id: string) => {
+			return await apiRequest('DELETE', `/api/my/search-history/${id}`);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({
+				queryKey: ['/api/my/search-history'],
+			});
+		},
+	});
+}
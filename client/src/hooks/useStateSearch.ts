@@ -1,6 +1,7 @@
-import { useMutation, useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
-import { Business } from "@/lib/types";
+import { useCallback, useEffect, useRef, useState } from "react";
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { apiRequest, streamEvents } from "@/lib/queryClient";
+import { Business, ExclusionSummary } from "@/lib/types";
 
 interface StateSearchParams {
   businessType: string;
@@ -9,11 +10,27 @@ interface StateSearchParams {
   selectedCities?: string[];
 }
 
-interface StateSearchResult {
-  businesses: Business[];
-  total: number;
-  searchedCities: number;
-  totalCities: number;
+export type SearchJobStatus = "queued" | "running" | "done" | "failed" | "cancelled";
+
+export interface CityProgress {
+  city: string;
+  status: "pending" | "running" | "done" | "failed";
+  resultCount: number;
+  error?: string;
+}
+
+export interface SearchJob {
+  id: string;
+  status: SearchJobStatus;
+  cities: CityProgress[];
+  totalResults: number;
+  cached: boolean;
+  cacheAge?: number;
+  excluded?: ExclusionSummary;
+  error?: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
 }
 
 interface StateCitiesParams {
@@ -33,18 +50,72 @@ interface StateCitiesResult {
   };
 }
 
+export function isSearchJobActive(job: SearchJob | null | undefined): boolean {
+  return !!job && (job.status === "queued" || job.status === "running");
+}
+
+// Runs a state-wide search as a background job. Progress arrives over the
+// job's event stream and each city's businesses are appended to the search
+// results as soon as that city finishes.
 export function useStateSearch() {
-  return useMutation({
-    mutationFn: async (params: StateSearchParams): Promise<StateSearchResult> => {
-      return await apiRequest("POST", "/api/businesses/search/state", params);
-    },
-  });
+  const queryClient = useQueryClient();
+  const [job, setJob] = useState<SearchJob | null>(null);
+  const streamRef = useRef<AbortController | null>(null);
+
+  // Stop listening when the component using the search goes away
+  useEffect(() => () => streamRef.current?.abort(), []);
+
+  const start = useCallback(async (params: StateSearchParams): Promise<SearchJob> => {
+    streamRef.current?.abort();
+    const controller = new AbortController();
+    streamRef.current = controller;
+
+    const submitted: SearchJob = await apiRequest("POST", "/api/search-jobs", params);
+    let latest = submitted;
+    setJob(submitted);
+
+    // The job replaces the previous results, so start from an empty list
+    queryClient.setQueryData<Business[]>(["/api/businesses"], []);
+
+    try {
+      await streamEvents(`/api/search-jobs/${submitted.id}/events`, (event, data) => {
+        const payload = JSON.parse(data);
+        if (event === "job") {
+          latest = payload.job;
+          setJob(payload.job);
+        } else if (event === "results") {
+          queryClient.setQueryData<Business[]>(["/api/businesses"], (current = []) => [
+            ...current,
+            ...payload.businesses,
+          ]);
+        }
+      }, controller.signal);
+    } catch (error) {
+      // A newer search (or unmount) took over the stream
+      if (!controller.signal.aborted) throw error;
+    } finally {
+      queryClient.invalidateQueries({ queryKey: ["/api/businesses"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/my/search-history"] });
+    }
+
+    return latest;
+  }, [queryClient]);
+
+  const cancel = useCallback(async () => {
+    if (!job) return;
+    const cancelled: SearchJob = await apiRequest("POST", `/api/search-jobs/${job.id}/cancel`);
+    setJob(cancelled);
+  }, [job]);
+
+  return { job, start, cancel, isRunning: isSearchJobActive(job) };
 }
 
+export type StateSearch = ReturnType<typeof useStateSearch>;
+
 export function useStateCities() {
   return useMutation({
     mutationFn: async (params: StateCitiesParams): Promise<StateCitiesResult> => {
       return await apiRequest("POST", "/api/businesses/state-cities", params);
     },
   });
-}
\ No newline at end of file
+}
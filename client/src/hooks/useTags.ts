@@ -0,0 +1,85 @@
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { apiRequest } from '../lib/queryClient';
+
+export interface Tag {
+	_id: string;
+	name: string;
+	color: string; // Hex, e.g. #3b82f6
+	count: number; // Businesses with the tag
+}
+
+export interface TagInput {
+	name: string;
+	color?: string;
+}
+
+// The palette tags are colored from
+export const TAG_COLORS = [
+	'#64748b',
+	'#ef4444',
+	'#f97316',
+	'#eab308',
+	'#22c55e',
+	'#14b8a6',
+	'#3b82f6',
+	'#8b5cf6',
+	'#ec4899',
+];
+
+// The user's tags, by name
+export function useTags() {
+	return useQuery<Tag[]>({
+		queryKey: ['/api/my/tags'],
+		queryFn: async () => {
+			return await apiRequest('GET', '/api/my/tags');
+		},
+	});
+}
+
+export function useCreateTag() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (tag: TagInput): Promise<Tag> => {
+			return await apiRequest('POST', '/api/my/tags', tag);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/tags'] });
+		},
+	});
+}
+
+// Renaming or deleting a tag changes the businesses that carry it too
+export function useUpdateTag() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async ({
+			id,
+			updates,
+		}: {
+			id: string;
+			updates: Partial<TagInput>;
+		}) => {
+			return await apiRequest('PATCH', `/api/my/tags/${id}`, updates);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/tags'] });
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
+
+export function useDeleteTag() {
+	const queryClient = useQueryClient();
+
+	return useMutation({
+		mutationFn: async (id: string) => {
+			return await apiRequest('DELETE', `/api/my/tags/${id}`);
+		},
+		onSuccess: () => {
+			queryClient.invalidateQueries({ queryKey: ['/api/my/tags'] });
+			queryClient.invalidateQueries({ queryKey: ['/api/my/businesses'] });
+		},
+	});
+}
@@ -46,6 +46,61 @@ export async function apiRequest(
   return res.json();
 }
 
+// Reads a server-sent event stream. Uses fetch rather than EventSource so the
+// auth header can be sent along with the guest cookie.
+export async function streamEvents(
+  url: string,
+  onEvent: (event: string, data: string) => void,
+  signal?: AbortSignal
+): Promise<void> {
+  const token = localStorage.getItem('authToken');
+
+  const res = await fetch(url, {
+    headers: {
+      Accept: "text/event-stream",
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {})
+    },
+    credentials: "include",
+    signal
+  });
+
+  await throwIfResNotOk(res);
+  if (!res.body) return;
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line; comment lines (":") are keep-alives
+    let boundary = buffer.indexOf("\n\n");
+    while (boundary !== -1) {
+      const chunk = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+
+      let event = "message";
+      const data: string[] = [];
+      for (const line of chunk.split("\n")) {
+        if (line.startsWith("event:")) {
+          event = line.slice(6).trim();
+        } else if (line.startsWith("data:")) {
+          data.push(line.slice(5).trimStart());
+        }
+      }
+      if (data.length > 0) {
+        onEvent(event, data.join("\n"));
+      }
+
+      boundary = buffer.indexOf("\n\n");
+    }
+  }
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
@@ -1,4 +1,19 @@
-export interface Business {
+// Listing details captured from Google Places. Missing on businesses that
+// came from a CSV import or were saved before these were recorded.
+export interface PlaceDetails {
+  placeId?: string;
+  phone?: string;
+  lat?: number;
+  lng?: number;
+  primaryType?: string;
+  types?: string[];
+  rating?: number;
+  reviewCount?: number;
+  businessStatus?: string;
+  googleMapsUrl?: string;
+}
+
+export interface Business extends PlaceDetails {
   id?: number;
   name: string;
   website: string;
@@ -7,15 +22,69 @@ export interface Business {
   isBadLead: boolean;
   notes: string;
   isDuplicate?: boolean;
+  duplicateReason?: string; // e.g. "same domain" or "name 93% similar"
   careerLink?: string;
+  excludedBy?: string; // Exclusion rule that matched, when flagged rather than hidden
+}
+
+// A contact detail published on a company's website, with the page it was on
+export interface ContactDetail {
+  value: string;
+  sourceUrl: string;
+}
+
+export interface BusinessContacts {
+  emails: ContactDetail[];
+  phones: ContactDetail[];
+  linkedin?: ContactDetail;
+  x?: ContactDetail;
+  github?: ContactDetail;
+  checkedAt: string;
+}
+
+// Filters over the Places details of search results; see
+// shared/resultFilters.ts for how each one is applied
+export interface ResultFilters {
+  hidePermanentlyClosed?: boolean;
+  hideTemporarilyClosed?: boolean;
+  minRating?: number;
+  minReviewCount?: number;
+  websiteOnly?: boolean;
+  includeTypes?: string[];
+  excludeTypes?: string[];
 }
 
 export interface SearchParams {
   businessType: string;
   location: string;
+  radius?: number; // Miles
+  maxResults?: number;
+  // "tiled" searches the area tile by tile to get past the 60-result limit
+  searchMode?: "standard" | "tiled";
+  tileDensity?: number;
+}
+
+export interface TiledSearchEstimate {
+  tileDensity: number;
+  tiles: number;
+  maxResultsPerTile: number;
+  maxSearchCalls: number;
+  geocodeCalls: number;
+  maxApiCalls: number;
+  maxResults: number;
+}
+
+export type ExclusionCategory = "chain" | "staffing" | "do_not_contact" | "other";
+
+// How many results the user's exclusion list hid or flagged, by category
+export interface ExclusionSummary {
+  mode: "hide" | "flag";
+  total: number;
+  byCategory: Partial<Record<ExclusionCategory, number>>;
 }
 
 export interface SearchResult {
   businesses: Business[];
   total: number;
+  excluded?: ExclusionSummary;
 }
@@ -1,14 +1,42 @@
 import { type ClassValue, clsx } from "clsx";
 import { twMerge } from "tailwind-merge";
-import { Business } from "./types";
+import { Business, BusinessContacts } from "./types";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
 // Export business data as CSV
-export function exportToCSV(businesses: Business[]): string {
-  const headers = ["Bad Lead", "Company Name", "Website", "Location", "Distance", "Notes"];
+const CONTACT_HEADERS = [
+  "Emails", "Website Phones", "LinkedIn", "X", "GitHub", "Contact Sources"
+];
+
+// Contact columns for a business; sources are the pages the details came from
+function contactCells(contacts?: BusinessContacts): string[] {
+  if (!contacts) return CONTACT_HEADERS.map(() => "");
+  const socials = [contacts.linkedin, contacts.x, contacts.github];
+  const details = [...contacts.emails, ...contacts.phones, ...socials];
+  const sources = new Set(details.map(detail => detail?.sourceUrl).filter(Boolean));
+
+  return [
+    contacts.emails.map(email => email.value).join("; "),
+    contacts.phones.map(phone => phone.value).join("; "),
+    ...socials.map(social => social?.value || ""),
+    Array.from(sources).join("; ")
+  ];
+}
+
+export function exportToCSV(
+  businesses: (Business & { contacts?: BusinessContacts; tags?: string[] })[],
+  options: { includeContacts?: boolean; includeTags?: boolean } = {}
+): string {
+  const headers = [
+    "Bad Lead", "Company Name", "Website", "Location", "Distance", "Notes",
+    "Phone", "Primary Type", "Types", "Rating", "Reviews", "Business Status",
+    "Latitude", "Longitude", "Google Maps URL", "Place ID",
+    ...(options.includeTags ? ["Tags"] : []),
+    ...(options.includeContacts ? CONTACT_HEADERS : [])
+  ];
   
   const rows = businesses.map(business => [
     business.isBadLead ? "TRUE" : "FALSE",
@@ -16,12 +44,24 @@ export function exportToCSV(businesses: Business[]): string {
     business.website,
     business.location,
     business.distance,
-    business.notes
+    business.notes,
+    business.phone,
+    business.primaryType,
+    business.types?.join("; "),
+    business.rating,
+    business.reviewCount,
+    business.businessStatus,
+    business.lat,
+    business.lng,
+    business.googleMapsUrl,
+    business.placeId,
+    ...(options.includeTags ? [business.tags?.join("; ")] : []),
+    ...(options.includeContacts ? contactCells(business.contacts) : [])
   ]);
   
   const csvContent = [
     headers.join(","),
-    ...rows.map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(","))
+    ...rows.map(row => row.map(cell => `"${String(cell ?? "").replace(/"/g, '""')}"`).join(","))
   ].join("\n");
   
   return csvContent;
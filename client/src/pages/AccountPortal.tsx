@@ -9,7 +9,21 @@ import {
 	useImportFromCSV,
 	useClearAllSavedBusinesses,
 	SavedBusiness,
+	SavedBusinessFilters,
+	BulkTarget,
+	SavedBusinessSort,
+	SavedBusinessSortField,
+	TagCount,
+	appendSavedBusinessFilters,
+	NO_PIPELINE_STATUS,
 } from '../hooks/useSavedBusinesses';
+import { usePipelineStages } from '../hooks/usePipeline';
+import {
+	isSmartList,
+	SavedList,
+	useListMembership,
+	useSavedLists,
+} from '../hooks/useSavedLists';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -30,6 +44,13 @@ import {
 import { Checkbox } from '@/components/ui/checkbox';
 import { Label } from '@/components/ui/label';
 import { Badge } from '@/components/ui/badge';
+import {
+	Select,
+	SelectContent,
+	SelectItem,
+	SelectTrigger,
+	SelectValue,
+} from '@/components/ui/select';
 import { downloadCSV, exportToCSV } from '../lib/utils';
 import {
 	AlertDialog,
@@ -49,6 +70,13 @@ import {
 	Trash2,
 	Key,
 	Settings,
+	BriefcaseBusiness,
+	RefreshCw,
+	Globe,
+	UserSearch,
+	KanbanSquare,
+	List,
+	ListMinus,
 } from 'lucide-react';
 import {
 	Dialog,
@@ -59,31 +87,146 @@ import {
 	DialogTrigger,
 } from '@/components/ui/dialog';
 import ApiKeySetup from '@/components/ApiKeySetup';
+import SearchHistoryCard from '@/components/SearchHistoryCard';
+import SavedSearchesCard from '@/components/SavedSearchesCard';
+import ExclusionListCard from '@/components/ExclusionListCard';
+import DuplicateReviewDialog from '@/components/DuplicateReviewDialog';
+import DuplicateCleanupPreview from '@/components/DuplicateCleanupPreview';
+import CareersPageCell from '@/components/CareersPageCell';
+import OpenJobsCell from '@/components/OpenJobsCell';
+import WebsiteHealthBadge from '@/components/WebsiteHealthBadge';
+import ContactsCell from '@/components/ContactsCell';
+import PipelineBoard from '@/components/PipelineBoard';
+import PipelineStagesDialog from '@/components/PipelineStagesDialog';
+import BusinessTimeline, {
+	TimelineBusiness,
+} from '@/components/BusinessTimeline';
+import RemindersCard from '@/components/RemindersCard';
+import ListsSidebar from '@/components/ListsSidebar';
+import TagChip from '@/components/TagChip';
+import TagManagerDialog from '@/components/TagManagerDialog';
+import BulkActionsToolbar from '@/components/BulkActionsToolbar';
+import { useTags } from '@/hooks/useTags';
+import {
+	useBulkDiscoverCareers,
+	useBulkCheckJobs,
+	useBulkCheckWebsites,
+	useBulkExtractContacts,
+	EnrichmentJob,
+	EnrichmentTarget,
+} from '@/hooks/useEnrichment';
+import {
+	usePreviewDuplicateCleanup,
+	useRunDuplicateCleanup,
+} from '@/hooks/useBusinessMerges';
+import {
+	PlaceDetailColumnsMenu,
+	PlaceDetailValue,
+	placeDetailLabel,
+	usePlaceDetailColumns,
+} from '@/components/PlaceDetailColumns';
 import { useApiKeys } from '@/hooks/useApiKeys';
 import { useToast } from '@/hooks/use-toast';
-import { queryClient, apiRequest } from '@/lib/queryClient';
+import { apiRequest } from '@/lib/queryClient';
 
 export default function AccountPortal() {
 	const { user, isLoading: isAuthLoading, isAuthenticated } = useAuth();
-	const [currentPage, setCurrentPage] = useState(1);
+	// The cursors of the pages before this one; empty on the first page
+	const [pageCursors, setPageCursors] = useState<string[]>([]);
+	const currentPage = pageCursors.length + 1;
 	const [pageSize] = useState(50);
 	const [searchTerm, setSearchTerm] = useState('');
 	const [filterRecentOnly, setFilterRecentOnly] = useState(false);
+	const [filterHiringOnly, setFilterHiringOnly] = useState(false);
+	const [roleKeyword, setRoleKeyword] = useState('');
+	// A stage id, NO_PIPELINE_STATUS, or 'all'
+	const [statusFilter, setStatusFilter] = useState('all');
+	// Companies must carry every one of these tags
+	const [tagFilter, setTagFilter] = useState<string[]>([]);
+	const [cityFilter, setCityFilter] = useState('');
+	const [stateFilter, setStateFilter] = useState('');
+	// 'all', 'yes' or 'no'
+	const [websiteFilter, setWebsiteFilter] = useState('all');
+	// Saved between these days (yyyy-mm-dd), inclusive
+	const [savedFrom, setSavedFrom] = useState('');
+	const [savedTo, setSavedTo] = useState('');
+	const [sort, setSort] = useState<SavedBusinessSort>({
+		field: 'createdAt',
+		direction: 'desc',
+	});
+	const [viewMode, setViewMode] = useState<'table' | 'board'>('table');
+	// The saved list being shown, or null for all companies
+	const [activeListId, setActiveListId] = useState<string | null>(null);
+	// The business whose timeline is open
+	const [openBusiness, setOpenBusiness] = useState<TimelineBusiness | null>(
+		null
+	);
 
-	// Reset page when search term or filter changes
+	// Back to the first page when the search, filters or sort change
 	useEffect(() => {
-		setCurrentPage(1);
-	}, [searchTerm, filterRecentOnly]);
+		setPageCursors([]);
+		setSelectAllMatching(false);
+	}, [
+		searchTerm,
+		filterRecentOnly,
+		filterHiringOnly,
+		roleKeyword,
+		statusFilter,
+		tagFilter,
+		activeListId,
+		cityFilter,
+		stateFilter,
+		websiteFilter,
+		savedFrom,
+		savedTo,
+		sort,
+	]);
+	const listFilters: SavedBusinessFilters = {
+		hiringOnly: filterHiringOnly,
+		roleKeyword,
+		statuses: statusFilter === 'all' ? undefined : [statusFilter],
+		tags: tagFilter,
+		listId: activeListId || undefined,
+		city: cityFilter || undefined,
+		state: stateFilter || undefined,
+		hasWebsite:
+			websiteFilter === 'all' ? undefined : websiteFilter === 'yes',
+		// Whole days in the user's time zone
+		createdFrom: savedFrom
+			? new Date(`${savedFrom}T00:00:00`).toISOString()
+			: undefined,
+		createdTo: savedTo
+			? new Date(`${savedTo}T23:59:59.999`).toISOString()
+			: undefined,
+	};
 	const {
 		data: savedBusinessesData,
 		isLoading: isBusinessesLoading,
 		error,
-	} = useSavedBusinesses(currentPage, pageSize, searchTerm, filterRecentOnly);
+	} = useSavedBusinesses(
+		currentPage,
+		pageSize,
+		searchTerm,
+		filterRecentOnly,
+		listFilters,
+		{ sort, cursor: pageCursors[pageCursors.length - 1] }
+	);
+	const { data: pipeline } = usePipelineStages();
+	const { data: savedLists = [], refetch: refetchLists } = useSavedLists();
+	const listMembershipMutation = useListMembership();
+	const { data: tags = [] } = useTags();
+	const tagColors = new Map(tags.map((tag) => [tag.name, tag.color]));
+	const activeList = savedLists.find((list) => list._id === activeListId);
+	const pipelineStages = pipeline?.stages || [];
 	const { data: apiKeysStatus } = useApiKeys();
 	const updateBusinessMutation = useUpdateSavedBusiness();
 	const deleteBusinessMutation = useDeleteSavedBusiness();
 	const importFromSearchMutation = useImportFromSearch();
 	const importFromCSVMutation = useImportFromCSV();
+	const bulkDiscoverCareersMutation = useBulkDiscoverCareers();
+	const bulkCheckJobsMutation = useBulkCheckJobs();
+	const bulkCheckWebsitesMutation = useBulkCheckWebsites();
+	const bulkExtractContactsMutation = useBulkExtractContacts();
 	const clearAllBusinessesMutation = useClearAllSavedBusinesses();
 	const logout = useLogout();
 	const [, setLocation] = useLocation();
@@ -99,8 +242,6 @@ export default function AccountPortal() {
 	const [geocodingInProgress, setGeocodingInProgress] = useState<Set<string>>(
 		new Set()
 	);
-	const [sortField, setSortField] = useState<keyof SavedBusiness>('name');
-	const [sortDirection, setSortDirection] = useState<'asc' | 'desc'>('asc');
 	const [selectedFile, setSelectedFile] = useState<File | null>(null);
 	const [csvContent, setCsvContent] = useState<string>('');
 	const [skipDuplicates, setSkipDuplicates] = useState<boolean>(true);
@@ -122,6 +263,37 @@ export default function AccountPortal() {
 	);
 	const [isSelectAllChecked, setIsSelectAllChecked] =
 		useState<boolean>(false);
+	// What bulk checks run over: the selected companies or, with none
+	// selected, every company in the open list
+	const bulkTarget: EnrichmentTarget | null =
+		selectedBusinesses.size > 0
+			? { businessIds: Array.from(selectedBusinesses) }
+			: activeList
+			? { listId: activeList._id }
+			: null;
+	// Every company matching the filters is selected, not just this page
+	const [selectAllMatching, setSelectAllMatching] = useState(false);
+	// What bulk actions run over: the selected companies or every match
+	const operationTarget: BulkTarget | null = selectAllMatching
+		? {
+				filter: {
+					...listFilters,
+					search: searchTerm,
+					recentOnly: filterRecentOnly,
+				},
+		  }
+		: selectedBusinesses.size > 0
+		? { businessIds: Array.from(selectedBusinesses) }
+		: null;
+	const detailColumns = usePlaceDetailColumns();
+	const cleanupPreview = usePreviewDuplicateCleanup();
+	const cleanupPlan = cleanupPreview.data;
+	const runCleanup = useRunDuplicateCleanup();
+
+	// Smart list counts change whenever companies do
+	useEffect(() => {
+		refetchLists();
+	}, [savedBusinessesData, refetchLists]);
 
 	useEffect(() => {
 		// Redirect to home if not authenticated
@@ -133,6 +305,16 @@ export default function AccountPortal() {
 	const savedBusinesses = savedBusinessesData?.businesses || [];
 	const totalBusinesses = savedBusinessesData?.total || 0;
 	const totalPages = savedBusinessesData?.totalPages || 0;
+	const nextCursor: string | null = savedBusinessesData?.nextCursor || null;
+	// How many of the matching companies carry each tag
+	const tagCounts: TagCount[] = savedBusinessesData?.tagCounts || [];
+
+	const toggleTagFilter = (name: string) =>
+		setTagFilter((current) =>
+			current.includes(name)
+				? current.filter((tag) => tag !== name)
+				: [...current, name]
+		);
 
 	// Update select all checkbox state when individual selections change
 	useEffect(() => {
@@ -251,15 +433,26 @@ export default function AccountPortal() {
 	// No client-side filtering needed anymore - server handles filtering and sorting
 	const filteredBusinesses = savedBusinesses;
 
-	const handleSort = (field: keyof SavedBusiness) => {
-		if (sortField === field) {
-			setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
-		} else {
-			setSortField(field);
-			setSortDirection('asc');
-		}
+	const handleSort = (field: SavedBusinessSortField) => {
+		setSort(
+			sort.field === field
+				? {
+						field,
+						direction: sort.direction === 'asc' ? 'desc' : 'asc',
+				  }
+				: { field, direction: 'asc' }
+		);
+	};
+
+	const sortArrow = (field: SavedBusinessSortField) =>
+		sort.field === field ? (sort.direction === 'asc' ? ' ↑' : ' ↓') : '';
+
+	const goToNextPage = () => {
+		if (nextCursor) setPageCursors([...pageCursors, nextCursor]);
 	};
 
+	const goToPreviousPage = () => setPageCursors(pageCursors.slice(0, -1));
+
 	// Bulk selection functions
 	const handleSelectBusiness = (businessId: string) => {
 		setSelectedBusinesses((prev) => {
@@ -273,10 +466,15 @@ export default function AccountPortal() {
 		});
 	};
 
+	const clearSelection = () => {
+		setSelectedBusinesses(new Set());
+		setIsSelectAllChecked(false);
+		setSelectAllMatching(false);
+	};
+
 	const handleSelectAll = () => {
 		if (isSelectAllChecked) {
-			setSelectedBusinesses(new Set());
-			setIsSelectAllChecked(false);
+			clearSelection();
 		} else {
 			const allIds = savedBusinesses
 				.map((b: SavedBusiness) => b._id)
@@ -286,47 +484,172 @@ export default function AccountPortal() {
 		}
 	};
 
-	const handleBulkDelete = async () => {
+	const handleRemoveFromList = async (list: SavedList) => {
 		if (selectedBusinesses.size === 0) return;
 
 		try {
-			// Delete each selected business
-			const deletePromises = Array.from(selectedBusinesses).map(
-				(businessId) => deleteBusinessMutation.mutateAsync(businessId)
+			await listMembershipMutation.mutateAsync({
+				listId: list._id,
+				businessIds: Array.from(selectedBusinesses),
+				remove: true,
+			});
+			toast({
+				title: 'Removed from List',
+				description: `Removed ${selectedBusinesses.size} companies from ${list.name}.`,
+			});
+			clearSelection();
+		} catch (error) {
+			toast({
+				title: 'Error',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to update the list.',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	// Bulk checks skip companies whose check errored, and only look at the
+	// first part of a very large list
+	const jobNotes = ({ failed, remaining }: EnrichmentJob) =>
+		(failed > 0 ? ` ${failed} could not be checked.` : '') +
+		(remaining > 0
+			? ` ${remaining} more in the list were left out; split it to check the rest.`
+			: '');
+
+	const handleBulkDiscoverCareers = async () => {
+		if (!bulkTarget) return;
+
+		try {
+			const result = await bulkDiscoverCareersMutation.mutateAsync(
+				bulkTarget
 			);
-			await Promise.all(deletePromises);
+			toast({
+				title: 'Careers Pages Checked',
+				description: `Found careers pages for ${
+					result.counts.found || 0
+				} of ${result.checked} companies with a website.${jobNotes(
+					result
+				)}`,
+			});
+		} catch (error) {
+			toast({
+				title: 'Careers Check Failed',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to look for careers pages.',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const handleBulkCheckJobs = async () => {
+		if (!bulkTarget) return;
 
+		try {
+			const result = await bulkCheckJobsMutation.mutateAsync(bulkTarget);
 			toast({
-				title: 'Bulk Delete Successful',
-				description: `Deleted ${selectedBusinesses.size} companies successfully.`,
+				title: 'Open Jobs Checked',
+				description: `${result.counts.hiring || 0} of ${
+					result.checked
+				} companies with a careers link are hiring.${jobNotes(result)}`,
+			});
+		} catch (error) {
+			toast({
+				title: 'Jobs Check Failed',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to check open jobs.',
+				variant: 'destructive',
+			});
+		}
+	};
+
+	const handleBulkCheckWebsites = async () => {
+		if (!bulkTarget) return;
+
+		try {
+			const result = await bulkCheckWebsitesMutation.mutateAsync(
+				bulkTarget
+			);
+			// Counted by website status
+			const summary = Object.entries(result.counts)
+				.map(([status, count]) => `${count} ${status}`)
+				.join(', ');
+			toast({
+				title: 'Websites Checked',
+				description: `Checked ${result.checked} websites${
+					summary ? `: ${summary}` : ''
+				}.${jobNotes(result)}`,
+			});
+		} catch (error) {
+			toast({
+				title: 'Website Check Failed',
+				description:
+					error instanceof Error
+						? error.message
+						: 'Failed to check websites.',
+				variant: 'destructive',
 			});
+		}
+	};
 
-			// Clear selection
-			setSelectedBusinesses(new Set());
-			setIsSelectAllChecked(false);
+	const handleBulkExtractContacts = async () => {
+		if (!bulkTarget) return;
+
+		try {
+			const result = await bulkExtractContactsMutation.mutateAsync(
+				bulkTarget
+			);
+			toast({
+				title: 'Contacts Extracted',
+				description: `Found contact details for ${
+					result.counts.found || 0
+				} of ${result.checked} companies with a website.${jobNotes(
+					result
+				)}`,
+			});
 		} catch (error) {
 			toast({
-				title: 'Bulk Delete Failed',
+				title: 'Contact Extraction Failed',
 				description:
-					'Failed to delete some companies. Please try again.',
+					error instanceof Error
+						? error.message
+						: 'Failed to extract contacts.',
 				variant: 'destructive',
 			});
 		}
 	};
 
-	const exportCSV = async () => {
+	// Export the companies matching the current filters, or every company in
+	// one saved list
+	const exportCSV = async (list?: SavedList) => {
 		try {
 			// Create a filename based on current filters
-			const filename = filterRecentOnly
+			const filename = list
+				? `${list.name.replace(/[^a-z0-9]+/gi, '_').toLowerCase()}.csv`
+				: filterRecentOnly
 				? 'recent_businesses_24h.csv'
 				: 'all_businesses.csv';
 
 			// Use the existing API client to fetch all businesses with current filters
+			const params = new URLSearchParams({ page: '1', limit: '10000' });
+			if (list) {
+				appendSavedBusinessFilters(params, { listId: list._id });
+			} else {
+				params.append('search', searchTerm);
+				params.append('recentOnly', String(filterRecentOnly));
+				appendSavedBusinessFilters(params, listFilters);
+				// In the table's order
+				params.append('sort', sort.field);
+				params.append('order', sort.direction);
+			}
 			const data = await apiRequest(
 				'GET',
-				`/api/my/businesses?page=1&limit=10000&search=${encodeURIComponent(
-					searchTerm
-				)}&recentOnly=${filterRecentOnly}`
+				`/api/my/businesses?${params}`
 			);
 
 			const businesses = data.businesses || [];
@@ -342,7 +665,20 @@ export default function AccountPortal() {
 						isBadLead: b.isBadLead,
 						notes: b.notes || '',
 						careerLink: b.careerLink || '',
-					}))
+						placeId: b.placeId,
+						phone: b.phone,
+						lat: b.lat,
+						lng: b.lng,
+						primaryType: b.primaryType,
+						types: b.types,
+						rating: b.rating,
+						reviewCount: b.reviewCount,
+						businessStatus: b.businessStatus,
+						googleMapsUrl: b.googleMapsUrl,
+						contacts: b.contacts,
+						tags: b.tags,
+					})),
+					{ includeContacts: true, includeTags: true }
 				);
 
 				downloadCSV(csvContent, filename);
@@ -517,622 +853,1072 @@ export default function AccountPortal() {
 					</div>
 				</CardContent>
 			</Card>
+			<RemindersCard onOpen={setOpenBusiness} />
+
 			{/* Company List */}
-			<Card>
-				<CardHeader>
-					<CardTitle>My Company List</CardTitle>
-					<CardDescription>
-						Total: {totalBusinesses} companies
-						{filterRecentOnly && ` (recent only)`}
-					</CardDescription>
-				</CardHeader>
-				<CardContent>
-					<div className='mb-4 flex flex-col sm:flex-row gap-4'>
-						<div className='flex-1'>
+			<div className='flex flex-col lg:flex-row gap-6'>
+				<ListsSidebar
+					activeListId={activeListId}
+					onSelect={setActiveListId}
+					onExport={exportCSV}
+				/>
+				<Card className='flex-1 min-w-0'>
+					<CardHeader>
+						<CardTitle>
+							{activeList ? activeList.name : 'My Company List'}
+						</CardTitle>
+						<CardDescription>
+							Total: {totalBusinesses} companies
+							{filterRecentOnly && ` (recent only)`}
+						</CardDescription>
+					</CardHeader>
+					<CardContent>
+						<div className='mb-4 flex flex-col sm:flex-row gap-4'>
+							<div className='flex-1'>
+								<Input
+									placeholder='Search companies...'
+									value={searchTerm}
+									onChange={(e) =>
+										setSearchTerm(e.target.value)
+									}
+									className='w-full'
+								/>
+							</div>
+							<div className='flex items-center gap-4'>
+								<div className='flex items-center gap-2'>
+									<Checkbox
+										id='filter-recent-only'
+										checked={filterRecentOnly}
+										onCheckedChange={(checked) =>
+											setFilterRecentOnly(
+												checked === true
+											)
+										}
+									/>
+									<Label htmlFor='filter-recent-only'>
+										Show Recent Only (24h)
+									</Label>
+								</div>
+								<div className='flex items-center gap-2'>
+									<Checkbox
+										id='filter-hiring-only'
+										checked={filterHiringOnly}
+										onCheckedChange={(checked) =>
+											setFilterHiringOnly(
+												checked === true
+											)
+										}
+									/>
+									<Label htmlFor='filter-hiring-only'>
+										Hiring Now
+									</Label>
+								</div>
+								<Input
+									placeholder='Role keyword...'
+									value={roleKeyword}
+									onChange={(e) =>
+										setRoleKeyword(e.target.value)
+									}
+									className='w-40'
+									title='Only companies with an open role whose title contains this'
+								/>
+								<Select
+									value={statusFilter}
+									onValueChange={setStatusFilter}>
+									<SelectTrigger className='w-40'>
+										<SelectValue />
+									</SelectTrigger>
+									<SelectContent>
+										<SelectItem value='all'>
+											All statuses
+										</SelectItem>
+										<SelectItem value={NO_PIPELINE_STATUS}>
+											No status
+										</SelectItem>
+										{pipelineStages.map((stage) => (
+											<SelectItem
+												key={stage.id}
+												value={stage.id}>
+												{stage.name}
+											</SelectItem>
+										))}
+									</SelectContent>
+								</Select>
+								<PlaceDetailColumnsMenu
+									visible={detailColumns.visible}
+									onToggle={detailColumns.toggle}
+								/>
+							</div>
+						</div>
+
+						<div className='mb-4 flex flex-wrap items-center gap-4'>
 							<Input
-								placeholder='Search companies...'
-								value={searchTerm}
-								onChange={(e) => setSearchTerm(e.target.value)}
-								className='w-full'
+								placeholder='City...'
+								value={cityFilter}
+								onChange={(e) => setCityFilter(e.target.value)}
+								className='w-40'
 							/>
-						</div>
-						<div className='flex items-center gap-4'>
+							<Input
+								placeholder='State, e.g. OH'
+								value={stateFilter}
+								onChange={(e) => setStateFilter(e.target.value)}
+								className='w-32'
+							/>
+							<Select
+								value={websiteFilter}
+								onValueChange={setWebsiteFilter}>
+								<SelectTrigger className='w-40'>
+									<SelectValue />
+								</SelectTrigger>
+								<SelectContent>
+									<SelectItem value='all'>
+										Any website
+									</SelectItem>
+									<SelectItem value='yes'>
+										Has a website
+									</SelectItem>
+									<SelectItem value='no'>
+										No website
+									</SelectItem>
+								</SelectContent>
+							</Select>
 							<div className='flex items-center gap-2'>
-								<Checkbox
-									id='filter-recent-only'
-									checked={filterRecentOnly}
-									onCheckedChange={(checked) =>
-										setFilterRecentOnly(checked === true)
+								<Label htmlFor='saved-from'>Saved from</Label>
+								<Input
+									id='saved-from'
+									type='date'
+									value={savedFrom}
+									max={savedTo || undefined}
+									onChange={(e) =>
+										setSavedFrom(e.target.value)
 									}
+									className='w-40'
+								/>
+								<Label htmlFor='saved-to'>to</Label>
+								<Input
+									id='saved-to'
+									type='date'
+									value={savedTo}
+									min={savedFrom || undefined}
+									onChange={(e) => setSavedTo(e.target.value)}
+									className='w-40'
 								/>
-								<Label htmlFor='filter-recent-only'>
-									Show Recent Only (24h)
-								</Label>
 							</div>
 						</div>
-					</div>
 
-					{isBusinessesLoading ? (
-						<div className='flex items-center justify-center p-8'>
-							<Loader2 className='w-8 h-8 animate-spin mr-2' />
-							Loading companies...
-						</div>
-					) : error ? (
-						<div className='text-center p-8'>
-							<p className='text-red-600 mb-4'>
-								Error loading companies: {error.message}
-							</p>
-							<Button onClick={() => window.location.reload()}>
-								Retry
+						<div className='mb-4 flex items-center gap-2'>
+							<Button
+								variant={
+									viewMode === 'table' ? 'default' : 'outline'
+								}
+								size='sm'
+								onClick={() => setViewMode('table')}>
+								<List className='w-4 h-4 mr-2' />
+								Table
 							</Button>
+							<Button
+								variant={
+									viewMode === 'board' ? 'default' : 'outline'
+								}
+								size='sm'
+								onClick={() => setViewMode('board')}>
+								<KanbanSquare className='w-4 h-4 mr-2' />
+								Board
+							</Button>
+							{pipeline && (
+								<PipelineStagesDialog stages={pipelineStages} />
+							)}
+							<TagManagerDialog />
 						</div>
-					) : savedBusinesses.length === 0 ? (
-						<div className='text-center p-8'>
-							<p className='text-muted-foreground mb-4'>
-								{savedBusinesses?.length === 0
-									? 'No companies in your list yet. Import some companies to get started.'
-									: 'No companies match your current filters.'}
-							</p>
-						</div>
-					) : (
-						<div className='space-y-4'>
-							<div className='flex justify-between items-center'>
-								<div className='flex gap-2'>
+
+						{(tagCounts.length > 0 || tagFilter.length > 0) && (
+							<div className='mb-4 flex flex-wrap items-center gap-2'>
+								<span className='text-sm text-muted-foreground'>
+									Tags:
+								</span>
+								{tagCounts.map((tag) => (
+									<TagChip
+										key={tag.name}
+										name={tag.name}
+										color={tagColors.get(tag.name)}
+										count={tag.count}
+										active={tagFilter.includes(tag.name)}
+										onClick={() =>
+											toggleTagFilter(tag.name)
+										}
+									/>
+								))}
+								{tagFilter.length > 0 && (
 									<Button
-										variant='outline'
+										variant='ghost'
 										size='sm'
-										onClick={exportCSV}>
-										<Download className='w-4 h-4 mr-2' />
-										Export CSV{' '}
-										{filterRecentOnly
-											? '(Recent Only)'
-											: '(All)'}
+										className='h-6 px-2'
+										onClick={() => setTagFilter([])}>
+										Clear
 									</Button>
+								)}
+							</div>
+						)}
 
-									<Dialog>
-										<DialogTrigger asChild>
-											<Button variant='outline' size='sm'>
-												<FileUp className='w-4 h-4 mr-2' />
-												Import CSV
-											</Button>
-										</DialogTrigger>
-										<DialogContent className='max-w-md'>
-											<DialogHeader>
-												<DialogTitle>
-													Import Companies from CSV
-												</DialogTitle>
-												<DialogDescription>
-													Upload a CSV file to add
-													companies to your saved
-													list. Missing companies from
-													old exports can be restored
-													this way.
-												</DialogDescription>
-											</DialogHeader>
-
-											<div className='space-y-4'>
-												<div>
-													<Label htmlFor='csv-file'>
-														Select CSV File
-													</Label>
-													<Input
-														id='csv-file'
-														type='file'
-														accept='.csv'
-														ref={fileInputRef}
-														onChange={
-															handleFileSelect
-														}
-														className='mt-1'
-													/>
-													{selectedFile && (
-														<p className='text-sm text-muted-foreground mt-1'>
-															Selected:{' '}
-															{selectedFile.name}
-														</p>
-													)}
-												</div>
+						{viewMode === 'board' ? (
+							<PipelineBoard
+								stages={pipelineStages}
+								searchTerm={searchTerm}
+								recentOnly={filterRecentOnly}
+								filters={listFilters}
+								onOpen={setOpenBusiness}
+							/>
+						) : isBusinessesLoading ? (
+							<div className='flex items-center justify-center p-8'>
+								<Loader2 className='w-8 h-8 animate-spin mr-2' />
+								Loading companies...
+							</div>
+						) : error ? (
+							<div className='text-center p-8'>
+								<p className='text-red-600 mb-4'>
+									Error loading companies: {error.message}
+								</p>
+								<Button
+									onClick={() => window.location.reload()}>
+									Retry
+								</Button>
+							</div>
+						) : savedBusinesses.length === 0 ? (
+							<div className='text-center p-8'>
+								<p className='text-muted-foreground mb-4'>
+									{savedBusinesses?.length === 0
+										? 'No companies in your list yet. Import some companies to get started.'
+										: 'No companies match your current filters.'}
+								</p>
+							</div>
+						) : (
+							<div className='space-y-4'>
+								<div className='flex justify-between items-center'>
+									<div className='flex gap-2'>
+										<Button
+											variant='outline'
+											size='sm'
+											onClick={() => exportCSV()}>
+											<Download className='w-4 h-4 mr-2' />
+											Export CSV{' '}
+											{filterRecentOnly
+												? '(Recent Only)'
+												: '(All)'}
+										</Button>
 
-												<div className='space-y-2'>
-													<div className='flex items-center space-x-2'>
-														<Checkbox
-															id='skip-duplicates'
-															checked={
-																skipDuplicates
-															}
-															onCheckedChange={(
-																checked
-															) =>
-																setSkipDuplicates(
-																	checked ===
-																		true
-																)
+										<Dialog>
+											<DialogTrigger asChild>
+												<Button
+													variant='outline'
+													size='sm'>
+													<FileUp className='w-4 h-4 mr-2' />
+													Import CSV
+												</Button>
+											</DialogTrigger>
+											<DialogContent className='max-w-md'>
+												<DialogHeader>
+													<DialogTitle>
+														Import Companies from
+														CSV
+													</DialogTitle>
+													<DialogDescription>
+														Upload a CSV file to add
+														companies to your saved
+														list. Missing companies
+														from old exports can be
+														restored this way.
+													</DialogDescription>
+												</DialogHeader>
+
+												<div className='space-y-4'>
+													<div>
+														<Label htmlFor='csv-file'>
+															Select CSV File
+														</Label>
+														<Input
+															id='csv-file'
+															type='file'
+															accept='.csv'
+															ref={fileInputRef}
+															onChange={
+																handleFileSelect
 															}
+															className='mt-1'
 														/>
-														<Label htmlFor='skip-duplicates'>
-															Skip duplicates
-														</Label>
+														{selectedFile && (
+															<p className='text-sm text-muted-foreground mt-1'>
+																Selected:{' '}
+																{
+																	selectedFile.name
+																}
+															</p>
+														)}
+													</div>
+
+													<div className='space-y-2'>
+														<div className='flex items-center space-x-2'>
+															<Checkbox
+																id='skip-duplicates'
+																checked={
+																	skipDuplicates
+																}
+																onCheckedChange={(
+																	checked
+																) =>
+																	setSkipDuplicates(
+																		checked ===
+																			true
+																	)
+																}
+															/>
+															<Label htmlFor='skip-duplicates'>
+																Skip duplicates
+															</Label>
+														</div>
+														<div className='flex items-center space-x-2'>
+															<Checkbox
+																id='replace-duplicates'
+																checked={
+																	replaceDuplicates
+																}
+																onCheckedChange={(
+																	checked
+																) =>
+																	setReplaceDuplicates(
+																		checked ===
+																			true
+																	)
+																}
+															/>
+															<Label htmlFor='replace-duplicates'>
+																Replace
+																duplicates
+															</Label>
+														</div>
 													</div>
-													<div className='flex items-center space-x-2'>
-														<Checkbox
-															id='replace-duplicates'
-															checked={
-																replaceDuplicates
+
+													<div className='flex gap-2 pt-4'>
+														<Button
+															onClick={
+																handleImportCSV
 															}
-															onCheckedChange={(
-																checked
-															) =>
-																setReplaceDuplicates(
-																	checked ===
-																		true
-																)
+															disabled={
+																!selectedFile ||
+																importFromCSVMutation.isPending
 															}
-														/>
-														<Label htmlFor='replace-duplicates'>
-															Replace duplicates
-														</Label>
+															className='flex-1'>
+															{importFromCSVMutation.isPending ? (
+																<>
+																	<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+																	Importing...
+																</>
+															) : (
+																<>
+																	<FileUp className='w-4 h-4 mr-2' />
+																	Import CSV
+																</>
+															)}
+														</Button>
 													</div>
-												</div>
-
-												<div className='flex gap-2 pt-4'>
-													<Button
-														onClick={
-															handleImportCSV
-														}
-														disabled={
-															!selectedFile ||
-															importFromCSVMutation.isPending
-														}
-														className='flex-1'>
-														{importFromCSVMutation.isPending ? (
-															<>
-																<Loader2 className='w-4 h-4 mr-2 animate-spin' />
-																Importing...
-															</>
-														) : (
-															<>
-																<FileUp className='w-4 h-4 mr-2' />
-																Import CSV
-															</>
-														)}
-													</Button>
-												</div>
 
-												<div className='text-xs text-muted-foreground'>
-													<p>
-														<strong>
-															Expected CSV format:
-														</strong>
-													</p>
-													<p>
-														name, website, location,
-														notes
-													</p>
-													<p>
-														Company A,
-														company-a.com, City
-														State, Optional notes
-													</p>
+													<div className='text-xs text-muted-foreground'>
+														<p>
+															<strong>
+																Expected CSV
+																format:
+															</strong>
+														</p>
+														<p>
+															name, website,
+															location, notes
+														</p>
+														<p>
+															Company A,
+															company-a.com, City
+															State, Optional
+															notes
+														</p>
+													</div>
 												</div>
-											</div>
-										</DialogContent>
-									</Dialog>
-
-									<Button
-										variant='outline'
-										size='sm'
-										onClick={() => {
-											// Simple page reload to force complete refresh
-											toast({
-												title: 'Refreshing...',
-												description:
-													'Reloading page to fetch fresh data',
-											});
-
-											// Force complete page reload after short delay to show toast
-											setTimeout(() => {
-												window.location.reload();
-											}, 500);
-										}}>
-										<svg
-											className='w-4 h-4 mr-2'
-											xmlns='http://www.w3.org/2000/svg'
-											viewBox='0 0 24 24'
-											fill='none'
-											stroke='currentColor'
-											strokeWidth='2'
-											strokeLinecap='round'
-											strokeLinejoin='round'>
-											<path d='M23 4v6h-6'></path>
-											<path d='M20.49 15a9 9 0 1 1-2.12-9.36L23 10'></path>
-										</svg>
-										Refresh from Database
-									</Button>
-
-									<AlertDialog>
-										<AlertDialogTrigger asChild>
-											<Button variant='outline' size='sm'>
-												<AlertCircle className='w-4 h-4 mr-2' />
-												Cleanup Duplicates
-											</Button>
-										</AlertDialogTrigger>
-										<AlertDialogContent>
-											<AlertDialogHeader>
-												<AlertDialogTitle>
-													Cleanup Duplicate Businesses
-												</AlertDialogTitle>
-												<AlertDialogDescription>
-													This will scan all your
-													saved businesses and remove
-													duplicates based on company
-													name and website. The older
-													entry will be kept. This
-													action cannot be undone.
-												</AlertDialogDescription>
-											</AlertDialogHeader>
-											<AlertDialogFooter>
-												<AlertDialogCancel>
-													Cancel
-												</AlertDialogCancel>
-												<Button
-													variant='destructive'
-													onClick={async () => {
-														try {
-															const response =
-																await fetch(
-																	'/api/my/businesses/cleanup-duplicates',
-																	{
-																		method: 'POST',
-																		headers:
-																			{
-																				'Content-Type':
-																					'application/json',
-																			},
-																	}
-																);
+											</DialogContent>
+										</Dialog>
 
-															if (response.ok) {
-																const result =
-																	await response.json();
-																toast({
-																	title: 'Cleanup Complete',
-																	description: `Removed ${result.removed} duplicate businesses.`,
-																});
+										<Button
+											variant='outline'
+											size='sm'
+											onClick={() => {
+												// Simple page reload to force complete refresh
+												toast({
+													title: 'Refreshing...',
+													description:
+														'Reloading page to fetch fresh data',
+												});
 
-																// Refresh the data
-																queryClient.invalidateQueries(
-																	{
-																		queryKey:
-																			[
-																				'/api/my/businesses',
-																			],
-																	}
-																);
-															} else {
-																throw new Error(
-																	'Cleanup failed'
-																);
-															}
-														} catch (error) {
-															toast({
-																title: 'Cleanup Failed',
-																description:
-																	'Failed to cleanup duplicates. Please try again.',
-																variant:
-																	'destructive',
-															});
-														}
-													}}>
-													Cleanup Duplicates
-												</Button>
-											</AlertDialogFooter>
-										</AlertDialogContent>
-									</AlertDialog>
-								</div>
+												// Force complete page reload after short delay to show toast
+												setTimeout(() => {
+													window.location.reload();
+												}, 500);
+											}}>
+											<svg
+												className='w-4 h-4 mr-2'
+												xmlns='http://www.w3.org/2000/svg'
+												viewBox='0 0 24 24'
+												fill='none'
+												stroke='currentColor'
+												strokeWidth='2'
+												strokeLinecap='round'
+												strokeLinejoin='round'>
+												<path d='M23 4v6h-6'></path>
+												<path d='M20.49 15a9 9 0 1 1-2.12-9.36L23 10'></path>
+											</svg>
+											Refresh from Database
+										</Button>
 
-								<div className='text-sm text-muted-foreground'>
-									Showing {filteredBusinesses.length} of{' '}
-									{totalBusinesses} companies (Page{' '}
-									{currentPage} of {totalPages})
-								</div>
-							</div>
+										<DuplicateReviewDialog />
 
-							{/* Bulk Actions */}
-							{selectedBusinesses.size > 0 && (
-								<div className='flex items-center justify-between p-4 bg-blue-50 border border-blue-200 rounded-lg mb-4'>
-									<div className='flex items-center gap-4'>
-										<span className='text-sm font-medium text-blue-900'>
-											{selectedBusinesses.size} item
-											{selectedBusinesses.size !== 1
-												? 's'
-												: ''}{' '}
-											selected
-										</span>
-									</div>
-									<div className='flex items-center gap-2'>
-										<AlertDialog>
+										<AlertDialog
+											open={showCleanupDialog}
+											onOpenChange={(open) => {
+												setShowCleanupDialog(open);
+												if (open) {
+													cleanupPreview.mutate();
+												} else {
+													cleanupPreview.reset();
+												}
+											}}>
 											<AlertDialogTrigger asChild>
 												<Button
-													variant='destructive'
-													size='sm'
-													disabled={
-														deleteBusinessMutation.isPending
-													}>
-													<Trash2 className='w-4 h-4 mr-2' />
-													Delete Selected
+													variant='outline'
+													size='sm'>
+													<AlertCircle className='w-4 h-4 mr-2' />
+													Cleanup Duplicates
 												</Button>
 											</AlertDialogTrigger>
-											<AlertDialogContent>
+											<AlertDialogContent className='max-w-2xl'>
 												<AlertDialogHeader>
 													<AlertDialogTitle>
-														Delete Selected
-														Companies
+														Cleanup Duplicate
+														Businesses
 													</AlertDialogTitle>
 													<AlertDialogDescription>
-														Are you sure you want to
-														delete{' '}
-														{
-															selectedBusinesses.size
-														}{' '}
-														selected companies? This
-														action cannot be undone.
+														Review what will be
+														removed. The first-saved
+														copy of each company is
+														kept; only the records
+														listed below are
+														deleted, and this cannot
+														be undone.
 													</AlertDialogDescription>
 												</AlertDialogHeader>
+												{cleanupPreview.isPending ? (
+													<div className='flex items-center justify-center p-6 text-sm text-muted-foreground'>
+														<Loader2 className='w-5 h-5 mr-2 animate-spin' />
+														Scanning your saved
+														businesses...
+													</div>
+												) : cleanupPreview.isError ? (
+													<p className='text-sm text-red-600'>
+														{cleanupPreview.error
+															.message ||
+															'Failed to preview the cleanup'}
+													</p>
+												) : cleanupPlan ? (
+													<DuplicateCleanupPreview
+														plan={cleanupPlan}
+													/>
+												) : null}
 												<AlertDialogFooter>
 													<AlertDialogCancel>
 														Cancel
 													</AlertDialogCancel>
 													<Button
 														variant='destructive'
-														onClick={
-															handleBulkDelete
-														}
 														disabled={
-															deleteBusinessMutation.isPending
-														}>
-														{deleteBusinessMutation.isPending ? (
-															<>
-																<Loader2 className='w-4 h-4 mr-2 animate-spin' />
-																Deleting...
-															</>
-														) : (
-															'Delete'
+															!cleanupPlan ||
+															cleanupPlan.removeCount ===
+																0 ||
+															runCleanup.isPending
+														}
+														onClick={async () => {
+															if (!cleanupPlan)
+																return;
+															try {
+																const result =
+																	await runCleanup.mutateAsync(
+																		cleanupPlan.planId
+																	);
+																toast({
+																	title: 'Cleanup Complete',
+																	description: `Removed ${
+																		result.removed
+																	} duplicate businesses.${
+																		result.skippedGroups >
+																		0
+																			? ` ${result.skippedGroups} companies were skipped because the record to keep no longer exists.`
+																			: ''
+																	}`,
+																});
+																setShowCleanupDialog(
+																	false
+																);
+															} catch (error) {
+																toast({
+																	title: 'Cleanup Failed',
+																	description:
+																		error instanceof
+																		Error
+																			? error.message
+																			: 'Failed to cleanup duplicates. Please try again.',
+																	variant:
+																		'destructive',
+																});
+															}
+														}}>
+														{runCleanup.isPending && (
+															<Loader2 className='w-4 h-4 mr-2 animate-spin' />
 														)}
+														Delete{' '}
+														{cleanupPlan?.removeCount ||
+															''}{' '}
+														Duplicates
 													</Button>
 												</AlertDialogFooter>
 											</AlertDialogContent>
 										</AlertDialog>
 									</div>
-								</div>
-							)}
 
-							{/* Pagination Controls - Top */}
-							{totalPages > 1 && (
-								<div className='flex items-center justify-between px-2 py-2'>
-									<div className='flex items-center space-x-6 lg:space-x-8'>
-										<div className='flex items-center space-x-2'>
-											<p className='text-sm font-medium'>
-												Page {currentPage} of{' '}
-												{totalPages}
-											</p>
-										</div>
-									</div>
-									<div className='flex items-center space-x-2'>
-										<Button
-											variant='outline'
-											size='sm'
-											onClick={() =>
-												setCurrentPage(currentPage - 1)
-											}
-											disabled={currentPage <= 1}>
-											Previous
-										</Button>
-										<Button
-											variant='outline'
-											size='sm'
-											onClick={() =>
-												setCurrentPage(currentPage + 1)
-											}
-											disabled={
-												currentPage >= totalPages
-											}>
-											Next
-										</Button>
+									<div className='text-sm text-muted-foreground'>
+										Showing {filteredBusinesses.length} of{' '}
+										{totalBusinesses} companies (Page{' '}
+										{currentPage} of {totalPages})
 									</div>
 								</div>
-							)}
 
-							<div className='border rounded-lg overflow-hidden'>
-								<Table>
-									<TableHeader>
-										<TableRow>
-											<TableHead className='w-[50px]'>
-												<Checkbox
-													checked={isSelectAllChecked}
-													onCheckedChange={
-														handleSelectAll
+								{/* Bulk Actions */}
+								{bulkTarget && (
+									<div className='flex items-center justify-between p-4 bg-blue-50 border border-blue-200 rounded-lg mb-4'>
+										<div className='flex items-center gap-4'>
+											<span className='text-sm font-medium text-blue-900'>
+												{selectAllMatching
+													? `All ${totalBusinesses} matching companies selected`
+													: selectedBusinesses.size >
+													  0
+													? `${
+															selectedBusinesses.size
+													  } item${
+															selectedBusinesses.size !==
+															1
+																? 's'
+																: ''
+													  } selected`
+													: `All companies in ${activeList?.name}`}
+											</span>
+											{isSelectAllChecked &&
+												!selectAllMatching &&
+												totalBusinesses >
+													selectedBusinesses.size && (
+													<Button
+														variant='link'
+														size='sm'
+														className='h-auto p-0'
+														onClick={() =>
+															setSelectAllMatching(
+																true
+															)
+														}>
+														Select all{' '}
+														{totalBusinesses}{' '}
+														matching companies
+													</Button>
+												)}
+										</div>
+										<div className='flex items-center gap-2'>
+											{operationTarget && (
+												<BulkActionsToolbar
+													target={operationTarget}
+													count={
+														selectAllMatching
+															? totalBusinesses
+															: selectedBusinesses.size
 													}
+													stages={pipelineStages}
+													onDone={clearSelection}
 												/>
-											</TableHead>
-											<TableHead
-												className='cursor-pointer'
-												onClick={() =>
-													handleSort('name')
-												}>
-												Company Name{' '}
-												{sortField === 'name' &&
-													(sortDirection === 'asc'
-														? '↑'
-														: '↓')}
-											</TableHead>
-											<TableHead
-												className='cursor-pointer'
-												onClick={() =>
-													handleSort('website')
-												}>
-												Website{' '}
-												{sortField === 'website' &&
-													(sortDirection === 'asc'
-														? '↑'
-														: '↓')}
-											</TableHead>
-											<TableHead
-												className='cursor-pointer'
-												onClick={() =>
-													handleSort('location')
-												}>
-												Location{' '}
-												{sortField === 'location' &&
-													(sortDirection === 'asc'
-														? '↑'
-														: '↓')}
-											</TableHead>
-											<TableHead
-												className='cursor-pointer'
-												onClick={() =>
-													handleSort('createdAt')
-												}>
-												Date Added{' '}
-												{sortField === 'createdAt' &&
-													(sortDirection === 'asc'
-														? '↑'
-														: '↓')}
-											</TableHead>
-											<TableHead>Notes</TableHead>
-											<TableHead className='w-[100px] text-right'>
-												Actions
-											</TableHead>
-										</TableRow>
-									</TableHeader>
-									<TableBody>
-										{filteredBusinesses.map(
-											(business: SavedBusiness) => (
-												<TableRow key={business._id}>
-													<TableCell>
-														<Checkbox
-															checked={selectedBusinesses.has(
-																business._id ||
-																	''
+											)}
+											{selectedBusinesses.size > 0 &&
+												!selectAllMatching &&
+												activeList &&
+												!isSmartList(activeList) && (
+													<Button
+														variant='outline'
+														size='sm'
+														onClick={() =>
+															handleRemoveFromList(
+																activeList
+															)
+														}
+														disabled={
+															listMembershipMutation.isPending
+														}>
+														<ListMinus className='w-4 h-4 mr-2' />
+														Remove from List
+													</Button>
+												)}
+											{!selectAllMatching && (
+												<>
+													<Button
+														variant='outline'
+														size='sm'
+														onClick={
+															handleBulkCheckWebsites
+														}
+														disabled={
+															bulkCheckWebsitesMutation.isPending
+														}>
+														{bulkCheckWebsitesMutation.isPending ? (
+															<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+														) : (
+															<Globe className='w-4 h-4 mr-2' />
+														)}
+														Check Websites
+													</Button>
+													<Button
+														variant='outline'
+														size='sm'
+														onClick={
+															handleBulkExtractContacts
+														}
+														disabled={
+															bulkExtractContactsMutation.isPending
+														}>
+														{bulkExtractContactsMutation.isPending ? (
+															<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+														) : (
+															<UserSearch className='w-4 h-4 mr-2' />
+														)}
+														Find Contacts
+													</Button>
+													<Button
+														variant='outline'
+														size='sm'
+														onClick={
+															handleBulkDiscoverCareers
+														}
+														disabled={
+															bulkDiscoverCareersMutation.isPending
+														}>
+														{bulkDiscoverCareersMutation.isPending ? (
+															<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+														) : (
+															<BriefcaseBusiness className='w-4 h-4 mr-2' />
+														)}
+														Find Careers Pages
+													</Button>
+													<Button
+														variant='outline'
+														size='sm'
+														onClick={
+															handleBulkCheckJobs
+														}
+														disabled={
+															bulkCheckJobsMutation.isPending
+														}>
+														{bulkCheckJobsMutation.isPending ? (
+															<Loader2 className='w-4 h-4 mr-2 animate-spin' />
+														) : (
+															<RefreshCw className='w-4 h-4 mr-2' />
+														)}
+														Check Open Jobs
+													</Button>
+												</>
+											)}
+										</div>
+									</div>
+								)}
+
+								{/* Pagination Controls - Top */}
+								{totalPages > 1 && (
+									<div className='flex items-center justify-between px-2 py-2'>
+										<div className='flex items-center space-x-6 lg:space-x-8'>
+											<div className='flex items-center space-x-2'>
+												<p className='text-sm font-medium'>
+													Page {currentPage} of{' '}
+													{totalPages}
+												</p>
+											</div>
+										</div>
+										<div className='flex items-center space-x-2'>
+											<Button
+												variant='outline'
+												size='sm'
+												onClick={goToPreviousPage}
+												disabled={currentPage <= 1}>
+												Previous
+											</Button>
+											<Button
+												variant='outline'
+												size='sm'
+												onClick={goToNextPage}
+												disabled={!nextCursor}>
+												Next
+											</Button>
+										</div>
+									</div>
+								)}
+
+								<div className='border rounded-lg overflow-hidden'>
+									<Table>
+										<TableHeader>
+											<TableRow>
+												<TableHead className='w-[50px]'>
+													<Checkbox
+														checked={
+															isSelectAllChecked
+														}
+														onCheckedChange={
+															handleSelectAll
+														}
+													/>
+												</TableHead>
+												<TableHead
+													className='cursor-pointer'
+													onClick={() =>
+														handleSort('name')
+													}>
+													Company Name
+													{sortArrow('name')}
+												</TableHead>
+												<TableHead
+													className='cursor-pointer'
+													onClick={() =>
+														handleSort('website')
+													}>
+													Website
+													{sortArrow('website')}
+												</TableHead>
+												<TableHead>Careers</TableHead>
+												<TableHead
+													className='cursor-pointer'
+													onClick={() =>
+														handleSort(
+															'openJobCount'
+														)
+													}>
+													Open Jobs
+													{sortArrow('openJobCount')}
+												</TableHead>
+												<TableHead>Contacts</TableHead>
+												<TableHead>Status</TableHead>
+												<TableHead>Tags</TableHead>
+												<TableHead
+													className='cursor-pointer'
+													onClick={() =>
+														handleSort('location')
+													}>
+													Location
+													{sortArrow('location')}
+												</TableHead>
+												<TableHead
+													className='cursor-pointer'
+													onClick={() =>
+														handleSort('createdAt')
+													}>
+													Date Added
+													{sortArrow('createdAt')}
+												</TableHead>
+												{detailColumns.visible.map(
+													(column) => (
+														<TableHead key={column}>
+															{placeDetailLabel(
+																column
 															)}
-															onCheckedChange={() =>
-																handleSelectBusiness(
+														</TableHead>
+													)
+												)}
+												<TableHead>Notes</TableHead>
+												<TableHead className='w-[100px] text-right'>
+													Actions
+												</TableHead>
+											</TableRow>
+										</TableHeader>
+										<TableBody>
+											{filteredBusinesses.map(
+												(business: SavedBusiness) => (
+													<TableRow
+														key={business._id}>
+														<TableCell>
+															<Checkbox
+																checked={selectedBusinesses.has(
 																	business._id ||
 																		''
-																)
-															}
-														/>
-													</TableCell>
-													<TableCell className='font-medium'>
-														<div className='flex items-center gap-2'>
-															{business.name}
-															{isRecentlyAdded(
-																business as SavedBusiness
-															) && (
-																<span className='inline-flex items-center rounded-full bg-green-100 px-2 py-1 text-xs font-medium text-green-700'>
-																	New
+																)}
+																onCheckedChange={() =>
+																	handleSelectBusiness(
+																		business._id ||
+																			''
+																	)
+																}
+															/>
+														</TableCell>
+														<TableCell className='font-medium'>
+															<div className='flex items-center gap-2'>
+																<button
+																	type='button'
+																	className='text-left hover:underline'
+																	onClick={() =>
+																		setOpenBusiness(
+																			business
+																		)
+																	}>
+																	{
+																		business.name
+																	}
+																</button>
+																{isRecentlyAdded(
+																	business as SavedBusiness
+																) && (
+																	<span className='inline-flex items-center rounded-full bg-green-100 px-2 py-1 text-xs font-medium text-green-700'>
+																		New
+																	</span>
+																)}
+															</div>
+														</TableCell>
+														<TableCell>
+															{business.website ? (
+																<div className='space-y-1'>
+																	<a
+																		href={
+																			business.website.startsWith(
+																				'http'
+																			)
+																				? business.website
+																				: `https://${business.website}`
+																		}
+																		target='_blank'
+																		rel='noopener noreferrer'
+																		className='text-blue-600 hover:underline'>
+																		{
+																			business.website
+																		}
+																	</a>
+																	<WebsiteHealthBadge
+																		business={
+																			business
+																		}
+																	/>
+																</div>
+															) : (
+																<span className='text-muted-foreground'>
+																	No website
 																</span>
 															)}
-														</div>
-													</TableCell>
-													<TableCell>
-														{business.website ? (
-															<a
-																href={
-																	business.website.startsWith(
-																		'http'
-																	)
-																		? business.website
-																		: `https://${business.website}`
+														</TableCell>
+														<TableCell>
+															<CareersPageCell
+																business={
+																	business
 																}
-																target='_blank'
-																rel='noopener noreferrer'
-																className='text-blue-600 hover:underline'>
-																{
-																	business.website
+															/>
+														</TableCell>
+														<TableCell>
+															<OpenJobsCell
+																business={
+																	business
 																}
-															</a>
-														) : (
-															<span className='text-muted-foreground'>
-																No website
-															</span>
+															/>
+														</TableCell>
+														<TableCell>
+															<ContactsCell
+																business={
+																	business
+																}
+															/>
+														</TableCell>
+														<TableCell>
+															<Select
+																value={
+																	business.pipelineStatus ||
+																	NO_PIPELINE_STATUS
+																}
+																onValueChange={(
+																	status
+																) =>
+																	updateBusinessMutation.mutate(
+																		{
+																			id: business._id!,
+																			updates:
+																				{
+																					pipelineStatus:
+																						status ===
+																						NO_PIPELINE_STATUS
+																							? ''
+																							: status,
+																				},
+																		}
+																	)
+																}>
+																<SelectTrigger className='h-8 w-36'>
+																	<SelectValue />
+																</SelectTrigger>
+																<SelectContent>
+																	<SelectItem
+																		value={
+																			NO_PIPELINE_STATUS
+																		}>
+																		No
+																		status
+																	</SelectItem>
+																	{pipelineStages.map(
+																		(
+																			stage
+																		) => (
+																			<SelectItem
+																				key={
+																					stage.id
+																				}
+																				value={
+																					stage.id
+																				}>
+																				{
+																					stage.name
+																				}
+																			</SelectItem>
+																		)
+																	)}
+																</SelectContent>
+															</Select>
+														</TableCell>
+														<TableCell>
+															<div className='flex flex-wrap gap-1'>
+																{business.tags?.map(
+																	(tag) => (
+																		<TagChip
+																			key={
+																				tag
+																			}
+																			name={
+																				tag
+																			}
+																			color={tagColors.get(
+																				tag
+																			)}
+																			active={tagFilter.includes(
+																				tag
+																			)}
+																			onClick={() =>
+																				toggleTagFilter(
+																					tag
+																				)
+																			}
+																		/>
+																	)
+																)}
+															</div>
+														</TableCell>
+														<TableCell>
+															{business.location ||
+																'N/A'}
+														</TableCell>
+														<TableCell>
+															{business.createdAt
+																? new Date(
+																		business.createdAt
+																  ).toLocaleDateString()
+																: 'N/A'}
+														</TableCell>
+														{detailColumns.visible.map(
+															(column) => (
+																<TableCell
+																	key={
+																		column
+																	}>
+																	<PlaceDetailValue
+																		business={
+																			business
+																		}
+																		column={
+																			column
+																		}
+																	/>
+																</TableCell>
+															)
 														)}
-													</TableCell>
-													<TableCell>
-														{business.location ||
-															'N/A'}
-													</TableCell>
-													<TableCell>
-														{business.createdAt
-															? new Date(
-																	business.createdAt
-															  ).toLocaleDateString()
-															: 'N/A'}
-													</TableCell>
-													<TableCell>
-														{business.notes || ''}
-													</TableCell>
-													<TableCell className='text-right'>
-														<Button
-															variant='outline'
-															size='sm'
-															onClick={() => {
-																if (
-																	business._id
-																) {
-																	deleteBusinessMutation.mutate(
+														<TableCell>
+															{business.notes ||
+																''}
+														</TableCell>
+														<TableCell className='text-right'>
+															<Button
+																variant='outline'
+																size='sm'
+																onClick={() => {
+																	if (
 																		business._id
-																	);
-																}
-															}}>
-															<Trash2 className='w-4 h-4' />
-														</Button>
-													</TableCell>
-												</TableRow>
-											)
-										)}
-									</TableBody>
-								</Table>
-							</div>
+																	) {
+																		deleteBusinessMutation.mutate(
+																			business._id
+																		);
+																	}
+																}}>
+																<Trash2 className='w-4 h-4' />
+															</Button>
+														</TableCell>
+													</TableRow>
+												)
+											)}
+										</TableBody>
+									</Table>
+								</div>
 
-							{/* Pagination Controls */}
-							{totalPages > 1 && (
-								<div className='flex items-center justify-between px-2'>
-									<div className='flex items-center space-x-6 lg:space-x-8'>
+								{/* Pagination Controls */}
+								{totalPages > 1 && (
+									<div className='flex items-center justify-between px-2'>
+										<div className='flex items-center space-x-6 lg:space-x-8'>
+											<div className='flex items-center space-x-2'>
+												<p className='text-sm font-medium'>
+													Page {currentPage} of{' '}
+													{totalPages}
+												</p>
+											</div>
+										</div>
 										<div className='flex items-center space-x-2'>
-											<p className='text-sm font-medium'>
-												Page {currentPage} of{' '}
-												{totalPages}
-											</p>
+											<Button
+												variant='outline'
+												size='sm'
+												onClick={goToPreviousPage}
+												disabled={currentPage <= 1}>
+												Previous
+											</Button>
+											<Button
+												variant='outline'
+												size='sm'
+												onClick={goToNextPage}
+												disabled={!nextCursor}>
+												Next
+											</Button>
 										</div>
 									</div>
-									<div className='flex items-center space-x-2'>
-										<Button
-											variant='outline'
-											size='sm'
-											onClick={() =>
-												setCurrentPage(currentPage - 1)
-											}
-											disabled={currentPage <= 1}>
-											Previous
-										</Button>
-										<Button
-											variant='outline'
-											size='sm'
-											onClick={() =>
-												setCurrentPage(currentPage + 1)
-											}
-											disabled={
-												currentPage >= totalPages
-											}>
-											Next
-										</Button>
-									</div>
-								</div>
-							)}
-						</div>
-					)}
-				</CardContent>
-			</Card>
+								)}
+							</div>
+						)}
+					</CardContent>
+				</Card>
+			</div>
+
+			<BusinessTimeline
+				business={openBusiness}
+				stages={pipelineStages}
+				onClose={() => setOpenBusiness(null)}
+			/>
+
+			{/* Exclusion List */}
+			<ExclusionListCard />
+
+			{/* Saved Searches */}
+			<SavedSearchesCard />
+
+			{/* Search History */}
+			<SearchHistoryCard />
 		</div>
 	);
 }
@@ -1,22 +1,36 @@
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import AppHeader from '@/components/AppHeader';
 import AppFooter from '@/components/AppFooter';
 import SearchPanel from '@/components/SearchPanel';
 import ResultsPanel from '@/components/ResultsPanel';
 import QuotaExhaustedModal from '@/components/QuotaExhaustedModal';
 import { useBusinessSearch, useBusinesses } from '@/hooks/useBusiness';
-import { SearchParams } from '@/lib/types';
+import { useStateSearch } from '@/hooks/useStateSearch';
+import { ExclusionSummary, SearchParams } from '@/lib/types';
+import { apiRequest } from '@/lib/queryClient';
+import { SearchHistoryEntry } from '@/hooks/useSearchHistory';
 
 export default function Home() {
 	const [searchError, setSearchError] = useState<Error | null>(null);
 	const [showQuotaModal, setShowQuotaModal] = useState(false);
 	const businessSearch = useBusinessSearch();
 	const businessesQuery = useBusinesses();
+	const stateSearch = useStateSearch();
+	const [exclusions, setExclusions] = useState<ExclusionSummary | null>(null);
+
+	// A state search reports exclusions as its cities finish
+	useEffect(() => {
+		if (stateSearch.job) {
+			setExclusions(stateSearch.job.excluded || null);
+		}
+	}, [stateSearch.job]);
 
 	const handleSearch = async (params: SearchParams) => {
 		setSearchError(null);
+		setExclusions(null);
 		try {
-			await businessSearch.mutateAsync(params);
+			const result = await businessSearch.mutateAsync(params);
+			setExclusions(result.excluded || null);
 		} catch (error) {
 			// Check if this is a quota exhaustion error
 			if (error instanceof Error && error.message.includes('429:')) {
@@ -43,6 +57,39 @@ export default function Home() {
 		}
 	};
 
+	// Re-run a search picked from the account search history (/?rerun=<id>)
+	useEffect(() => {
+		const rerunId = new URLSearchParams(window.location.search).get(
+			'rerun'
+		);
+		if (!rerunId) return;
+		window.history.replaceState(null, '', window.location.pathname);
+
+		apiRequest('GET', `/api/my/search-history/${rerunId}`)
+			.then(async (entry: SearchHistoryEntry) => {
+				if (entry.searchType === 'state' && entry.state) {
+					await stateSearch.start({
+						businessType: entry.businessType,
+						state: entry.state,
+						maxCities: entry.cities.length,
+						selectedCities: entry.cities,
+					});
+				} else if (entry.location) {
+					await handleSearch({
+						businessType: entry.businessType,
+						location: entry.location,
+					});
+				}
+			})
+			.catch((error) => {
+				setSearchError(
+					error instanceof Error
+						? error
+						: new Error('Failed to re-run search')
+				);
+			});
+	}, []);
+
 	const handleRetry = () => {
 		// Retry the last search if any
 		if (businessSearch.variables) {
@@ -60,6 +107,7 @@ export default function Home() {
 						<SearchPanel
 							onSearch={handleSearch}
 							isLoading={businessSearch.isPending}
+							stateSearch={stateSearch}
 						/>
 					</div>
 
@@ -72,6 +120,8 @@ export default function Home() {
 							}
 							error={searchError}
 							onRetry={handleRetry}
+							searchJob={stateSearch.job}
+							exclusions={exclusions}
 						/>
 					</div>
 				</div>
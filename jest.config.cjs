@@ -3,6 +3,9 @@ module.exports = {
 	testEnvironment: 'node',
 	roots: ['<rootDir>/server'],
 	testMatch: ['**/__tests__/**/*.test.ts'],
+	moduleNameMapper: {
+		'^@shared/(.*)$': '<rootDir>/shared/$1',
+	},
 	collectCoverageFrom: [
 		'server/**/*.ts',
 		'!server/**/*.d.ts',
@@ -0,0 +1,160 @@
+import { detectAtsBoard, fetchJobOpenings, findAtsBoard } from '../enrichment';
+
+// Every board host looks public to the address check
+const lookup = async () => ['93.184.216.34'];
+
+// Answers every request with the given JSON, recording what was asked
+function jsonFetch(body: unknown) {
+	const requests: { url: string; method?: string; body?: string }[] = [];
+	const fetchFn = (async (url: string, init?: RequestInit) => {
+		requests.push({
+			url,
+			method: init?.method,
+			body: init?.body as string,
+		});
+		return new Response(JSON.stringify(body), {
+			status: 200,
+			headers: { 'Content-Type': 'application/json' },
+		});
+	}) as typeof fetch;
+	return { fetchFn, requests };
+}
+
+describe('detectAtsBoard', () => {
+	it('should recognise each supported job board', () => {
+		const cases: [string, string, string][] = [
+			['https://boards.greenhouse.io/acme', 'greenhouse', 'acme'],
+			[
+				'https://boards.greenhouse.io/embed/job_board/js?for=acme',
+				'greenhouse',
+				'acme',
+			],
+			['https://jobs.lever.co/globex/abc-123', 'lever', 'globex'],
+			['https://jobs.ashbyhq.com/initech', 'ashby', 'initech'],
+			['https://hooli.bamboohr.com/careers', 'bamboohr', 'hooli'],
+			[
+				'https://careers.smartrecruiters.com/Umbrella',
+				'smartrecruiters',
+				'Umbrella',
+			],
+			[
+				'https://acme.wd5.myworkdayjobs.com/en-US/External',
+				'workday',
+				'acme',
+			],
+		];
+
+		for (const [url, platform, slug] of cases) {
+			expect(detectAtsBoard(url)).toMatchObject({ platform, slug });
+		}
+		expect(detectAtsBoard('https://acme.io/careers')).toBeNull();
+		expect(detectAtsBoard('https://www.bamboohr.com/pricing')).toBeNull();
+	});
+
+	it('should take the Workday site after the locale', () => {
+		expect(
+			detectAtsBoard(
+				'https://acme.wd5.myworkdayjobs.com/en-US/External/job/1'
+			)
+		).toMatchObject({
+			site: 'External',
+			boardUrl: 'https://acme.wd5.myworkdayjobs.com/External',
+		});
+	});
+});
+
+describe('findAtsBoard', () => {
+	it('should find a board embedded in the careers page', async () => {
+		const fetchFn = (async () =>
+			new Response(
+				'<div id="grnhse_app"></div><script src="//boards.greenhouse.io/embed/job_board/js?for=acme"></script>',
+				{ status: 200, headers: { 'Content-Type': 'text/html' } }
+			)) as typeof fetch;
+
+		await expect(
+			findAtsBoard('https://acme.io/careers', { fetch: fetchFn, lookup })
+		).resolves.toMatchObject({ platform: 'greenhouse', slug: 'acme' });
+	});
+});
+
+describe('fetchJobOpenings', () => {
+	it('should read Greenhouse postings', async () => {
+		const { fetchFn, requests } = jsonFetch({
+			jobs: [
+				{ title: 'Backend Engineer', location: { name: 'Remote' } },
+				{ title: 'Account Executive' },
+			],
+		});
+
+		const openings = await fetchJobOpenings(
+			detectAtsBoard('https://boards.greenhouse.io/acme')!,
+			{ fetch: fetchFn, lookup }
+		);
+
+		expect(requests[0].url).toBe(
+			'https://boards-api.greenhouse.io/v1/boards/acme/jobs'
+		);
+		expect(openings?.total).toBe(2);
+		expect(openings?.jobs.map((job) => job.title)).toEqual([
+			'Backend Engineer',
+			'Account Executive',
+		]);
+	});
+
+	it('should report the Workday total beyond the first page', async () => {
+		const { fetchFn, requests } = jsonFetch({
+			total: 57,
+			jobPostings: [{ title: 'Nurse', externalPath: '/job/Columbus/1' }],
+		});
+
+		const openings = await fetchJobOpenings(
+			detectAtsBoard('https://acme.wd5.myworkdayjobs.com/External')!,
+			{ fetch: fetchFn, lookup }
+		);
+
+		expect(requests[0]).toMatchObject({
+			url: 'https://acme.wd5.myworkdayjobs.com/wday/cxs/acme/External/jobs',
+			method: 'POST',
+		});
+		expect(openings?.total).toBe(57);
+		expect(openings?.jobs[0].url).toBe(
+			'https://acme.wd5.myworkdayjobs.com/External/job/Columbus/1'
+		);
+	});
+
+	it('should return null when a board answers with another shape', async () => {
+		for (const body of [
+			{ jobs: null },
+			{ jobs: [{ title: 42 }] },
+			{ message: 'Board not found' },
+		]) {
+			const { fetchFn } = jsonFetch(body);
+
+			await expect(
+				fetchJobOpenings(
+					detectAtsBoard('https://boards.greenhouse.io/acme')!,
+					{ fetch: fetchFn, lookup }
+				)
+			).resolves.toBeNull();
+		}
+		const { fetchFn } = jsonFetch({ total: 3, jobPostings: 'none' });
+		await expect(
+			fetchJobOpenings(
+				detectAtsBoard('https://acme.wd5.myworkdayjobs.com/External')!,
+				{ fetch: fetchFn, lookup }
+			)
+		).resolves.toBeNull();
+	});
+
+	it('should return null when the board API fails', async () => {
+		const fetchFn = (async () =>
+			new Response('Not found', { status: 404 })) as typeof fetch;
+
+		await expect(
+			fetchJobOpenings(detectAtsBoard('https://jobs.lever.co/globex')!, {
+				fetch: fetchFn,
+				lookup,
+			})
+		).resolves.toBeNull();
+	});
+});
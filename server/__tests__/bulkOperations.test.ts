@@ -0,0 +1,99 @@
+import {
+	bulkItemResults,
+	bulkUpdateFor,
+	tagRenameWrites,
+	trackedChanges,
+} from '../bulkOperations';
+
+describe('bulkUpdateFor', () => {
+	const now = new Date('2024-05-10T12:00:00Z');
+
+	it('should delete rather than update', () => {
+		expect(bulkUpdateFor({ type: 'delete' }, now)).toBeNull();
+	});
+
+	it('should clear the status when it is empty or "none"', () => {
+		expect(
+			bulkUpdateFor({ type: 'set_status', status: 'none' }, now)
+		).toEqual({ $set: { updatedAt: now }, $unset: { pipelineStatus: '' } });
+		expect(
+			bulkUpdateFor({ type: 'set_status', status: 'applied' }, now)
+		).toEqual({ $set: { updatedAt: now, pipelineStatus: 'applied' } });
+	});
+
+	it('should add tags once and pull removed ones', () => {
+		expect(
+			bulkUpdateFor({ type: 'add_tags', tags: ['fintech'] }, now)
+		).toEqual({
+			$set: { updatedAt: now },
+			$addToSet: { tags: { $each: ['fintech'] } },
+		});
+		expect(
+			bulkUpdateFor({ type: 'remove_tags', tags: ['fintech'] }, now)
+		).toEqual({
+			$set: { updatedAt: now },
+			$pull: { tags: { $in: ['fintech'] } },
+		});
+	});
+
+	it('should unset a field set to an empty value', () => {
+		expect(
+			bulkUpdateFor({ type: 'set_field', field: 'notes', value: '' }, now)
+		).toEqual({ $set: { updatedAt: now }, $unset: { notes: '' } });
+	});
+});
+
+describe('trackedChanges', () => {
+	it('should only report the fields the timeline records', () => {
+		expect(trackedChanges({ type: 'set_status', status: '' })).toEqual({
+			pipelineStatus: undefined,
+		});
+		expect(
+			trackedChanges({
+				type: 'set_field',
+				field: 'careerLink',
+				value: 'https://acme.com/jobs',
+			})
+		).toEqual({ careerLink: 'https://acme.com/jobs' });
+		expect(
+			trackedChanges({ type: 'set_field', field: 'notes', value: 'x' })
+		).toBeNull();
+	});
+});
+
+describe('bulkItemResults', () => {
+	it('should report missing and failed businesses in request order', () => {
+		expect(
+			bulkItemResults(
+				['a', 'b', 'c'],
+				[{ _id: 'c' }, { _id: 'a' }],
+				new Map([['c', 'Write failed']])
+			)
+		).toEqual([
+			{ id: 'a', ok: true },
+			{ id: 'b', ok: false, error: 'Business not found' },
+			{ id: 'c', ok: false, error: 'Write failed' },
+		]);
+	});
+});
+
+describe('tagRenameWrites', () => {
+	it('should not duplicate the new name on businesses that already have it', () => {
+		// A business tagged ["a", "b"] renaming "a" to "b" ends up with ["b"]:
+		// $addToSet leaves the existing "b" alone, then "a" is pulled
+		expect(tagRenameWrites('alice', 'a', 'b')).toEqual([
+			{
+				updateMany: {
+					filter: { userId: 'alice', tags: 'a' },
+					update: { $addToSet: { tags: 'b' } },
+				},
+			},
+			{
+				updateMany: {
+					filter: { userId: 'alice', tags: 'a' },
+					update: { $pull: { tags: 'a' } },
+				},
+			},
+		]);
+	});
+});
@@ -0,0 +1,70 @@
+import { changeActivities, mergeActivity } from '../businessActivity';
+import type { SavedBusiness } from '@shared/schema';
+
+const author = { userId: 'user-1', email: 'pat@example.com' };
+
+const business: SavedBusiness = {
+	_id: 'biz-1',
+	userId: 'user-1',
+	name: 'Acme Plumbing',
+	careerLink: 'https://acme.io/jobs',
+	pipelineStatus: 'researching',
+};
+
+describe('changeActivities', () => {
+	it('should log status and career link changes', () => {
+		const activities = changeActivities(
+			business,
+			{ pipelineStatus: 'applied', careerLink: '', notes: 'hi' },
+			author
+		);
+
+		expect(activities).toMatchObject([
+			{
+				businessId: 'biz-1',
+				type: 'status_changed',
+				from: 'researching',
+				to: 'applied',
+				author,
+			},
+			{ type: 'career_link_changed', from: 'https://acme.io/jobs' },
+		]);
+		expect(activities[1]).not.toHaveProperty('to');
+	});
+
+	it('should log nothing for fields that did not change', () => {
+		expect(
+			changeActivities(
+				business,
+				{
+					pipelineStatus: 'researching',
+					careerLink: business.careerLink,
+				},
+				author
+			)
+		).toEqual([]);
+		expect(
+			changeActivities(
+				{ ...business, pipelineStatus: undefined },
+				{ pipelineStatus: undefined },
+				author
+			)
+		).toEqual([]);
+	});
+});
+
+describe('mergeActivity', () => {
+	it('should name the duplicates merged in', () => {
+		const activity = mergeActivity(
+			business,
+			[{ _id: 'biz-2', userId: 'user-1', name: 'ACME Plumbing LLC' }],
+			author
+		);
+
+		expect(activity).toMatchObject({
+			businessId: 'biz-1',
+			type: 'merged',
+			mergedFrom: [{ _id: 'biz-2', name: 'ACME Plumbing LLC' }],
+		});
+	});
+});
@@ -0,0 +1,140 @@
+import { type BusinessMerge, type SavedBusiness } from '@shared/schema';
+import {
+	buildCleanupGroups,
+	buildMergedFields,
+	editedSinceMerge,
+	groupDuplicates,
+	unknownMergeSources,
+} from '../businessMerge';
+
+const business = (
+	id: string,
+	fields: Partial<SavedBusiness> & { name: string }
+): SavedBusiness => ({ _id: id, userId: 'user-1', ...fields });
+
+describe('groupDuplicates', () => {
+	it('should group later copies under the oldest business', () => {
+		const groups = groupDuplicates([
+			business('a', { name: 'Acme Software', website: 'acme.io' }),
+			business('b', { name: 'Globex' }),
+			business('c', { name: 'Acme', website: 'https://www.acme.io' }),
+			business('d', { name: 'Globex, Inc.' }),
+			business('e', { name: 'Initech' }),
+		]);
+
+		expect(
+			groups.map((group) => group.businesses.map((b) => b._id))
+		).toEqual([
+			['a', 'c'],
+			['b', 'd'],
+		]);
+		expect(groups[0].reasons).toEqual({ c: 'same domain' });
+	});
+});
+
+describe('buildCleanupGroups', () => {
+	it('should keep the first-saved copy and say why the rest go', () => {
+		const [group] = buildCleanupGroups(
+			groupDuplicates([
+				business('a', { name: 'Globex', phone: '614-555-0100' }),
+				business('b', { name: 'Globex Ohio', phone: '(614) 555-0100' }),
+			])
+		);
+
+		expect(group.keep).toMatchObject({ _id: 'a', name: 'Globex' });
+		expect(group.keepReason).toBe('saved first');
+		expect(group.remove).toEqual([
+			expect.objectContaining({ _id: 'b', reason: 'same phone number' }),
+		]);
+	});
+});
+
+describe('buildMergedFields', () => {
+	const survivor = business('a', {
+		name: 'Acme Software',
+		notes: 'Called in May',
+		tags: ['warm'],
+		createdAt: new Date('2025-03-01'),
+	});
+	const duplicate = business('b', {
+		name: 'Acme Software LLC',
+		website: 'https://acme.io',
+		careerLink: 'https://acme.io/jobs',
+		notes: 'Hiring engineers',
+		rating: 4.5,
+		tags: ['warm', 'tech'],
+		createdAt: new Date('2025-01-15'),
+	});
+
+	it('should take picked fields and fill gaps from the duplicates', () => {
+		const merged = buildMergedFields(survivor, [duplicate], {
+			sources: { name: 'b' },
+			combineNotes: false,
+		});
+
+		expect(merged).toMatchObject({
+			name: 'Acme Software LLC',
+			website: 'https://acme.io',
+			careerLink: 'https://acme.io/jobs',
+			notes: 'Called in May',
+			rating: 4.5,
+			tags: ['warm', 'tech'],
+			createdAt: new Date('2025-01-15'),
+		});
+	});
+
+	it('should combine notes when asked', () => {
+		const merged = buildMergedFields(survivor, [duplicate], {
+			sources: {},
+			combineNotes: true,
+		});
+
+		expect(merged.notes).toBe('Called in May\n\nHiring engineers');
+	});
+});
+
+describe('unknownMergeSources', () => {
+	it('should reject values from businesses outside the merge', () => {
+		expect(
+			unknownMergeSources({
+				survivorId: 'a',
+				duplicateIds: ['b'],
+				sources: { name: 'b', website: 'z' },
+			})
+		).toEqual(['z']);
+	});
+});
+
+describe('editedSinceMerge', () => {
+	const mergedAt = new Date('2024-05-10T12:00:00Z');
+	const merge: BusinessMerge = {
+		userId: 'user-1',
+		survivorId: 'a',
+		survivorBefore: business('a', { name: 'Acme' }),
+		removed: [business('b', { name: 'Acme Inc' })],
+		listMemberships: [],
+		addedToLists: [],
+		survivorUpdatedAt: mergedAt,
+		createdAt: mergedAt,
+	};
+
+	it('should tell when the survivor changed after the merge', () => {
+		const survivor = (updatedAt: Date) =>
+			business('a', { name: 'Acme', updatedAt });
+
+		expect(editedSinceMerge(merge, survivor(mergedAt))).toBe(false);
+		expect(
+			editedSinceMerge(merge, survivor(new Date('2024-05-11T09:00:00Z')))
+		).toBe(true);
+	});
+
+	it('should not block undo when there is nothing to compare', () => {
+		expect(editedSinceMerge(merge, null)).toBe(false);
+		expect(
+			editedSinceMerge(
+				{ ...merge, survivorUpdatedAt: undefined },
+				business('a', { name: 'Acme', updatedAt: new Date() })
+			)
+		).toBe(false);
+	});
+});
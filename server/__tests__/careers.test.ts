@@ -0,0 +1,88 @@
+import { discoverCareersPage, type FetchPageOptions } from '../enrichment';
+
+// A fake site: path -> [status, html] or a redirect target
+type Routes = Record<string, [number, string] | { redirect: string }>;
+
+const SITE = 'https://acme.io';
+
+// Serves the routes on acme.io through an injected fetch; other hosts don't
+// resolve. Every host looks public, so the address check lets it through.
+function fakeSite(routes: Routes, fallback?: string): FetchPageOptions {
+	const fetchFn = (async (url: string) => {
+		const { origin, pathname } = new URL(url);
+		if (origin !== SITE) {
+			throw new TypeError('fetch failed', {
+				cause: Object.assign(new Error('getaddrinfo ENOTFOUND'), {
+					code: 'ENOTFOUND',
+				}),
+			});
+		}
+		const route = routes[pathname];
+		if (route && 'redirect' in route) {
+			return new Response(null, {
+				status: 302,
+				headers: { Location: route.redirect },
+			});
+		}
+		if (route || fallback !== undefined) {
+			const [status, html] = route || [200, fallback!];
+			return new Response(html, {
+				status,
+				headers: { 'Content-Type': 'text/html' },
+			});
+		}
+		return new Response('Not found', {
+			status: 404,
+			headers: { 'Content-Type': 'text/html' },
+		});
+	}) as typeof fetch;
+	return { fetch: fetchFn, lookup: async () => ['93.184.216.34'] };
+}
+
+describe('discoverCareersPage', () => {
+	it('should follow a careers link on the homepage', async () => {
+		const site = fakeSite({
+			'/': [
+				200,
+				'<nav><a href="/about">About</a><a href="/team/open-roles">Join our team</a></nav>',
+			],
+			'/team/open-roles': [200, '<h1>Open positions</h1>'],
+		});
+
+		await expect(discoverCareersPage(SITE, site)).resolves.toEqual({
+			url: `${SITE}/team/open-roles`,
+			confidence: 'high',
+			source: 'homepage link',
+		});
+	});
+
+	it('should fall back to common paths when nothing is linked', async () => {
+		const site = fakeSite({
+			'/': [200, '<a href="/contact">Contact</a>'],
+			'/careers': { redirect: '/' }, // Missing, sent home
+			'/jobs': [200, '<title>Jobs</title><p>Apply now</p>'],
+		});
+
+		await expect(discoverCareersPage(SITE, site)).resolves.toEqual({
+			url: `${SITE}/jobs`,
+			confidence: 'medium',
+			source: 'common path',
+		});
+	});
+
+	it('should not trust guesses on a site that answers every path', async () => {
+		const site = fakeSite(
+			{ '/': [200, '<a href="/contact">Contact</a>'] },
+			'<h1>Welcome</h1>'
+		);
+
+		await expect(discoverCareersPage(SITE, site)).resolves.toBeNull();
+	});
+
+	it('should give up on sites that cannot be reached', async () => {
+		await expect(
+			discoverCareersPage('https://gone.example', fakeSite({}))
+		).resolves.toBeNull();
+		await expect(discoverCareersPage('')).resolves.toBeNull();
+	});
+});
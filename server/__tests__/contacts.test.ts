@@ -0,0 +1,63 @@
+import { crawlContacts, type FetchPageOptions } from '../enrichment';
+
+const PAGES: Record<string, string> = {
+	'/': `
+		<nav><a href="/contact-us">Contact</a><a href="/pricing">Pricing</a></nav>
+		<p>Call us: <a href="tel:+1-614-555-0100">(614) 555-0100</a></p>
+		<a href="mailto:hello@acme.io?subject=Hi">Email us</a>
+		<img src="/logo@2x.png">
+		<a href="https://www.linkedin.com/company/acme-plumbing/">LinkedIn</a>
+		<a href="https://twitter.com/intent/tweet?text=hi">Share</a>`,
+	'/contact-us': `
+		<p>Sales: sales@acme.io or 614.555.0100, support 614-555-0199</p>
+		<a href="https://x.com/acmeplumbing?lang=en">Follow us</a>
+		<a href="https://github.com/acme">GitHub</a>`,
+};
+
+const site = 'https://acme.io';
+
+// Serves PAGES through an injected fetch, on a host that looks public
+const options: FetchPageOptions = {
+	fetch: (async (url: string) => {
+		const html = PAGES[new URL(url).pathname];
+		if (html === undefined) return new Response(null, { status: 404 });
+		return new Response(html, {
+			status: 200,
+			headers: { 'Content-Type': 'text/html' },
+		});
+	}) as typeof fetch,
+	lookup: async () => ['93.184.216.34'],
+};
+
+describe('crawlContacts', () => {
+	it('should collect contacts from the homepage and contact page', async () => {
+		const contacts = await crawlContacts(site, options);
+		const home = `${site}/`;
+		const contactPage = `${site}/contact-us`;
+
+		expect(contacts?.emails).toEqual([
+			{ value: 'hello@acme.io', sourceUrl: home },
+			{ value: 'sales@acme.io', sourceUrl: contactPage },
+		]);
+		// The same number in another format isn't repeated
+		expect(contacts?.phones).toEqual([
+			{ value: '+1-614-555-0100', sourceUrl: home },
+			{ value: '614-555-0199', sourceUrl: contactPage },
+		]);
+		expect(contacts?.linkedin).toEqual({
+			value: 'https://www.linkedin.com/company/acme-plumbing',
+			sourceUrl: home,
+		});
+		expect(contacts?.x).toEqual({
+			value: 'https://x.com/acmeplumbing',
+			sourceUrl: contactPage,
+		});
+		expect(contacts?.github?.value).toBe('https://github.com/acme');
+	});
+
+	it('should return null for a site that cannot be read', async () => {
+		await expect(
+			crawlContacts(`${site}/gone`, options)
+		).resolves.toBeNull();
+	});
+});
@@ -0,0 +1,30 @@
+import { parseTagCell, splitCSVLine } from '../csvImport';
+
+describe('splitCSVLine', () => {
+	it('should keep separators and quotes inside quoted cells', () => {
+		expect(
+			splitCSVLine(
+				'"FALSE","Acme, Inc.","say ""hi""",,"fintech; remote"',
+				','
+			)
+		).toEqual(['FALSE', 'Acme, Inc.', 'say "hi"', '', 'fintech; remote']);
+	});
+
+	it('should split unquoted lines on the separator', () => {
+		expect(splitCSVLine('Acme ; acme.com;Columbus', ';')).toEqual([
+			'Acme',
+			'acme.com',
+			'Columbus',
+		]);
+	});
+});
+
+describe('parseTagCell', () => {
+	it('should split, trim and dedupe tag names', () => {
+		expect(parseTagCell(' fintech; remote |fintech;; ')).toEqual([
+			'fintech',
+			'remote',
+		]);
+		expect(parseTagCell(undefined)).toEqual([]);
+	});
+});
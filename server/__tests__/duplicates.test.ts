@@ -0,0 +1,58 @@
+import { diffBusinessLists, markDuplicates } from '../duplicates';
+
+describe('markDuplicates', () => {
+	const saved = [
+		{ name: 'Acme Software, Inc.', website: 'https://www.acme.io/about' },
+		{ name: 'Globex', location: '100 Main Street, Suite 4, Columbus, OH' },
+	];
+
+	it('should match on website domain, company name or address', () => {
+		const marked = markDuplicates(
+			[
+				{ name: 'Acme (Columbus)', website: 'http://acme.io' },
+				{ name: 'acme software' },
+				{
+					name: 'Globex Holdings',
+					location: '100 Main St, Columbus, OH',
+				},
+				{ name: 'Initech', location: '200 Main St, Columbus, OH' },
+			],
+			saved
+		);
+
+		expect(marked.map((b) => b.isDuplicate)).toEqual([
+			true,
+			true,
+			true,
+			false,
+		]);
+	});
+
+	it('should not treat businesses in the same city as duplicates', () => {
+		const [business] = markDuplicates(
+			[{ name: 'Hooli', location: '1 Broad St, Columbus, OH' }],
+			saved
+		);
+
+		expect(business.isDuplicate).toBe(false);
+	});
+});
+
+describe('diffBusinessLists', () => {
+	it('should report businesses added and removed since the previous run', () => {
+		const previous = [
+			{ name: 'Acme', website: 'https://acme.io' },
+			{ name: 'Globex' },
+		];
+		const current = [
+			{ name: 'Acme Software', website: 'http://www.acme.io/' },
+			{ name: 'Initech' },
+		];
+
+		const diff = diffBusinessLists(current, previous);
+
+		expect(diff.added.map((b) => b.name)).toEqual(['Initech']);
+		expect(diff.removed.map((b) => b.name)).toEqual(['Globex']);
+		expect(diff.unchangedCount).toBe(1);
+	});
+});
@@ -0,0 +1,88 @@
+import { EnrichmentJobRegistry } from '../enrichmentJobs';
+import type { SavedBusiness } from '@shared/schema';
+
+const business = (name: string): SavedBusiness => ({
+	_id: name.toLowerCase(),
+	userId: 'alice',
+	name,
+	website: `https://${name.toLowerCase()}.com`,
+});
+
+// Polls like the client does until the job has finished
+async function waitForJob(registry: EnrichmentJobRegistry, id: string) {
+	for (;;) {
+		const job = registry.get('alice', id)!;
+		if (job.status !== 'running') return job;
+		await new Promise((resolve) => setImmediate(resolve));
+	}
+}
+
+describe('EnrichmentJobRegistry', () => {
+	let registry: EnrichmentJobRegistry;
+
+	beforeEach(() => {
+		registry = new EnrichmentJobRegistry(2);
+	});
+
+	it('should answer right away and tally the checks as they finish', async () => {
+		let release: () => void = () => {};
+		const gate = new Promise<void>((resolve) => (release = resolve));
+		const job = registry.submit(
+			'alice',
+			'check-jobs',
+			[business('Acme'), business('Globex'), business('Initech')],
+			async ({ name }) => {
+				await gate;
+				return name === 'Globex' ? ['found'] : ['found', 'hiring'];
+			},
+			12
+		);
+
+		expect(job).toMatchObject({ status: 'running', total: 3, checked: 0 });
+		expect(registry.active('alice', 'check-jobs')?.id).toBe(job.id);
+
+		release();
+		const finished = await waitForJob(registry, job.id);
+		expect(finished).toMatchObject({
+			status: 'done',
+			checked: 3,
+			failed: 0,
+			remaining: 12,
+			counts: { found: 3, hiring: 2 },
+		});
+		expect(registry.active('alice', 'check-jobs')).toBeUndefined();
+	});
+
+	it('should count a business whose check throws as failed and finish the rest', async () => {
+		const job = registry.submit(
+			'alice',
+			'check-websites',
+			[business('Acme'), business('Globex')],
+			async ({ name }) => {
+				if (name === 'Acme') throw new Error('socket hang up');
+				return ['active'];
+			}
+		);
+
+		const finished = await waitForJob(registry, job.id);
+		expect(finished).toMatchObject({
+			status: 'done',
+			checked: 1,
+			failed: 1,
+			counts: { active: 1 },
+		});
+	});
+
+	it('should hide jobs from other users', () => {
+		const job = registry.submit(
+			'alice',
+			'extract-contacts',
+			[],
+			async () => []
+		);
+
+		expect(registry.get('alice', job.id)).toBeDefined();
+		expect(registry.get('bob', job.id)).toBeUndefined();
+		expect(registry.active('bob', 'extract-contacts')).toBeUndefined();
+	});
+});
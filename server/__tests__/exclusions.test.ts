@@ -0,0 +1,89 @@
+import {
+	applyExclusions,
+	findExclusion,
+	mergeExclusionSummaries,
+} from '../exclusions';
+import { type ExclusionRule } from '@shared/schema';
+
+describe('exclusion lists', () => {
+	const rules: ExclusionRule[] = [
+		{ kind: 'name', pattern: '*staffing*', category: 'staffing' },
+		{
+			kind: 'domain',
+			pattern: 'https://www.starbucks.com/',
+			category: 'chain',
+		},
+		{ kind: 'type', pattern: 'Employment Agency', category: 'staffing' },
+		{ kind: 'name', pattern: 'Globex', category: 'do_not_contact' },
+	];
+
+	const businesses = [
+		{ name: 'Acme Software', website: 'https://acme.com' },
+		{ name: 'Midwest Staffing Solutions' },
+		{
+			name: 'Coffee Shop #42',
+			website: 'http://stores.starbucks.com/oh/42',
+		},
+		{ name: 'TalentBridge', primaryType: 'employment_agency' },
+		{ name: 'Globex Corporation', website: 'https://globex.io' },
+		{ name: 'Notstarbucks Roasters', website: 'https://notstarbucks.com' },
+	];
+
+	it('should match names, domains with subdomains and Places types', () => {
+		expect(
+			businesses.map((b) => findExclusion(b, rules)?.category ?? null)
+		).toEqual([
+			null,
+			'staffing',
+			'chain',
+			'staffing',
+			'do_not_contact',
+			null,
+		]);
+	});
+
+	it('should hide excluded businesses and count them by category', () => {
+		const { businesses: kept, summary } = applyExclusions(businesses, {
+			mode: 'hide',
+			rules,
+		});
+
+		expect(kept.map((b) => b.name)).toEqual([
+			'Acme Software',
+			'Notstarbucks Roasters',
+		]);
+		expect(summary).toEqual({
+			mode: 'hide',
+			total: 4,
+			byCategory: { staffing: 2, chain: 1, do_not_contact: 1 },
+		});
+	});
+
+	it('should keep and label excluded businesses in flag mode', () => {
+		const { businesses: kept } = applyExclusions(businesses, {
+			mode: 'flag',
+			rules,
+		});
+
+		expect(kept).toHaveLength(businesses.length);
+		expect(kept[1].excludedBy).toBe(
+			'Staffing agency: name matches "*staffing*"'
+		);
+		expect(kept[0].excludedBy).toBeUndefined();
+	});
+
+	it('should add up summaries from several batches', () => {
+		const first = applyExclusions(businesses.slice(0, 3), {
+			mode: 'hide',
+			rules,
+		}).summary;
+		const second = applyExclusions(businesses.slice(3), {
+			mode: 'hide',
+			rules,
+		}).summary;
+
+		expect(mergeExclusionSummaries(first, second)).toEqual(
+			applyExclusions(businesses, { mode: 'hide', rules }).summary
+		);
+	});
+});
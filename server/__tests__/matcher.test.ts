@@ -0,0 +1,83 @@
+import {
+	addToMatchIndex,
+	buildMatchIndex,
+	findMatch,
+	nameSimilarity,
+	normalizeCompanyName,
+	resolveMatchThresholds,
+} from '@shared/matcher';
+
+describe('findMatch', () => {
+	const saved = [
+		{ name: 'Acme Software, Inc.', website: 'https://www.acme.io/about' },
+		{ name: 'Globex', phone: '+1 (614) 555-0100' },
+		{ name: 'Initech', location: '100 Main Street, Suite 4, Columbus, OH' },
+		{ name: 'Smith Plumbing and Heating' },
+	];
+	const index = buildMatchIndex(saved);
+
+	it('should explain why a business matched', () => {
+		const explain = (business: { name: string; [key: string]: string }) =>
+			findMatch(business, index)?.explanation;
+
+		expect(explain({ name: 'Acme', website: 'acme.io' })).toBe(
+			'same domain'
+		);
+		expect(explain({ name: 'Globex Ohio', phone: '614-555-0100' })).toBe(
+			'same phone number'
+		);
+		expect(explain({ name: 'The Globex Co.' })).toBe('same name');
+		expect(
+			explain({ name: 'Hooli', location: '100 Main St, Columbus, OH' })
+		).toBe('same address');
+		expect(explain({ name: 'Smyth Plumbing & Heating' })).toMatch(
+			/^name \d+% similar$/
+		);
+	});
+
+	it('should respect the configured thresholds', () => {
+		const exactOnly = resolveMatchThresholds({
+			nameSimilarity: 1,
+			matchPhone: false,
+		});
+
+		expect(
+			findMatch({ name: 'Smyth Plumbing and Heating' }, index, exactOnly)
+		).toBeNull();
+		expect(
+			findMatch({ name: 'Other', phone: '6145550100' }, index, exactOnly)
+		).toBeNull();
+	});
+
+	it('should not match on a city alone or an unrelated short name', () => {
+		const cityIndex = buildMatchIndex([
+			{ name: 'Vandelay', location: 'Columbus, OH' },
+		]);
+
+		expect(
+			findMatch({ name: 'Pendant', location: 'Columbus, OH' }, cityIndex)
+		).toBeNull();
+		expect(
+			findMatch({ name: 'Vandelay Industries' }, cityIndex)
+		).toBeNull();
+	});
+
+	it('should match against businesses added to the index later', () => {
+		const growing = buildMatchIndex<{ name: string }>([]);
+		addToMatchIndex(growing, { name: 'Costco Wholesale' });
+
+		expect(findMatch({ name: 'costco wholesale' }, growing)?.match).toEqual(
+			{ name: 'Costco Wholesale' }
+		);
+	});
+});
+
+describe('normalizeCompanyName', () => {
+	it('should strip suffixes without eating the end of a word', () => {
+		expect(normalizeCompanyName('Acme Software, Inc.')).toBe(
+			'acme software'
+		);
+		expect(normalizeCompanyName('Costco')).toBe('costco');
+		expect(nameSimilarity('Smith-Jones LLC', 'smith jones')).toBe(1);
+	});
+});
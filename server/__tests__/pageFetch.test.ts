@@ -0,0 +1,168 @@
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import {
+	fetchJson,
+	fetchPage,
+	isPublicAddress,
+	requestPage,
+} from '../enrichment';
+
+const publicLookup = async () => ['93.184.216.34'];
+
+// Records each requested URL and answers with the given response
+function recordingFetch(respond: (url: string) => Response) {
+	const requested: string[] = [];
+	const fetchFn = (async (url: string) => {
+		requested.push(url);
+		return respond(url);
+	}) as typeof fetch;
+	return { fetchFn, requested };
+}
+
+const html = (body: string | ReadableStream, headers = {}) =>
+	new Response(body, {
+		status: 200,
+		headers: { 'Content-Type': 'text/html', ...headers },
+	});
+
+describe('isPublicAddress', () => {
+	it('should reject loopback, private, link-local and reserved addresses', () => {
+		for (const address of [
+			'127.0.0.1',
+			'10.1.2.3',
+			'172.20.0.1',
+			'192.168.1.1',
+			'169.254.169.254',
+			'100.64.0.1',
+			'0.0.0.0',
+			'::1',
+			'::ffff:127.0.0.1',
+			'fd00::1',
+			'fe80::1',
+			'localhost',
+		]) {
+			expect(isPublicAddress(address)).toBe(false);
+		}
+		expect(isPublicAddress('93.184.216.34')).toBe(true);
+		expect(isPublicAddress('2606:4700::1111')).toBe(true);
+	});
+});
+
+describe('fetchPage', () => {
+	it('should not request internal addresses', async () => {
+		const { fetchFn, requested } = recordingFetch(() => html('secret'));
+
+		for (const url of [
+			'http://169.254.169.254/latest/meta-data/',
+			'http://127.0.0.1:8080/',
+			'http://[::1]/',
+		]) {
+			await expect(
+				fetchPage(url, { fetch: fetchFn, lookup: publicLookup })
+			).resolves.toBeNull();
+		}
+		// A public-looking name that resolves inside the network
+		await expect(
+			fetchPage('https://intranet.acme.io/', {
+				fetch: fetchFn,
+				lookup: async () => ['93.184.216.34', '10.0.0.5'],
+			})
+		).resolves.toBeNull();
+		expect(requested).toEqual([]);
+	});
+
+	it('should check where each redirect goes before following it', async () => {
+		const { fetchFn, requested } = recordingFetch((url) =>
+			url.startsWith('https://acme.io')
+				? new Response(null, {
+						status: 302,
+						headers: { Location: 'http://192.168.0.1/admin' },
+				  })
+				: html('router admin')
+		);
+
+		await expect(
+			fetchPage('https://acme.io/', {
+				fetch: fetchFn,
+				lookup: publicLookup,
+			})
+		).resolves.toBeNull();
+		expect(requested).toEqual(['https://acme.io/']);
+	});
+
+	it('should not connect when the host resolves differently the second time', async () => {
+		// The check sees a public address; the connection would resolve
+		// localhost to this server
+		let requests = 0;
+		const server = createServer((req, res) => {
+			requests++;
+			res.end('internal');
+		});
+		await new Promise<void>((resolve) =>
+			server.listen(0, '127.0.0.1', resolve)
+		);
+		const { port } = server.address() as AddressInfo;
+
+		try {
+			const result = await requestPage(`http://localhost:${port}/`, {
+				lookup: publicLookup,
+			});
+			expect(result.failure?.code).toBe('BLOCKED_ADDRESS');
+			expect(requests).toBe(0);
+		} finally {
+			await new Promise((resolve) => server.close(resolve));
+		}
+	});
+
+	it('should stop reading a page at the size cap', async () => {
+		let pulls = 0;
+		const endless = new ReadableStream<Uint8Array>({
+			pull(controller) {
+				pulls++;
+				controller.enqueue(new Uint8Array(64 * 1024).fill(97));
+			},
+		});
+		const { fetchFn } = recordingFetch(() => html(endless));
+
+		const page = await fetchPage('https://acme.io/', {
+			fetch: fetchFn,
+			lookup: publicLookup,
+		});
+
+		expect(page?.html.length).toBe(500_000);
+		expect(pulls).toBeLessThan(20);
+	});
+
+	it('should skip a body that says it is too big', async () => {
+		const { fetchFn } = recordingFetch(() =>
+			html('<a href="/jobs">Jobs</a>', { 'Content-Length': '900000000' })
+		);
+
+		const page = await fetchPage('https://acme.io/', {
+			fetch: fetchFn,
+			lookup: publicLookup,
+		});
+
+		expect(page).toMatchObject({ ok: true, html: '' });
+	});
+});
+
+describe('fetchJson', () => {
+	it('should not follow a redirect to an internal address', async () => {
+		const { fetchFn, requested } = recordingFetch(
+			() =>
+				new Response(null, {
+					status: 307,
+					headers: { Location: 'http://169.254.169.254/' },
+				})
+		);
+
+		await expect(
+			fetchJson('https://boards-api.greenhouse.io/v1/boards/acme/jobs', {
+				fetch: fetchFn,
+				lookup: publicLookup,
+			})
+		).resolves.toBeNull();
+		expect(requested).toHaveLength(1);
+	});
+});
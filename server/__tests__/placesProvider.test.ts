@@ -0,0 +1,182 @@
+import {
+	FakePlacesProvider,
+	buildSearchTiles,
+	estimateTiledSearch,
+	locationBiasAround,
+	searchAllPages,
+	searchTiles,
+	toPlaceDetails,
+	pickPlaceDetails,
+} from '../places';
+
+describe('FakePlacesProvider', () => {
+	let provider: FakePlacesProvider;
+
+	beforeEach(() => {
+		provider = new FakePlacesProvider();
+	});
+
+	it('should return fixture places matching the query and city', async () => {
+		const page = await provider.searchText({
+			textQuery: 'software companies in Columbus, OH',
+		});
+
+		expect(page.places.length).toBeGreaterThan(0);
+		for (const place of page.places) {
+			expect(place.formattedAddress).toContain('Columbus');
+		}
+		expect(page.places.map((p) => p.displayName)).toContain(
+			'Buckeye Software Labs'
+		);
+	});
+
+	it('should generate the same places for the same query', async () => {
+		const query = { textQuery: 'bakeries in Boise, ID' };
+		const first = await provider.searchText(query);
+		const second = await new FakePlacesProvider().searchText(query);
+
+		expect(first.places.length).toBeGreaterThan(0);
+		expect(second.places).toEqual(first.places);
+	});
+
+	it('should page through results with offset tokens', async () => {
+		const firstPage = await provider.searchText({
+			textQuery: 'plumbers in Denver, CO',
+			maxResultCount: 2,
+		});
+		expect(firstPage.places).toHaveLength(2);
+		expect(firstPage.nextPageToken).toBe('2');
+
+		const secondPage = await provider.searchText({
+			textQuery: 'plumbers in Denver, CO',
+			maxResultCount: 2,
+			pageToken: firstPage.nextPageToken,
+		});
+		expect(secondPage.places[0].id).not.toBe(firstPage.places[0].id);
+	});
+
+	it('should collect every page up to maxResults', async () => {
+		const all = await searchAllPages(provider, 'dentists in Reno, NV', 100);
+		const capped = await searchAllPages(
+			provider,
+			'dentists in Reno, NV',
+			3
+		);
+
+		expect(capped).toEqual(all.slice(0, 3));
+		expect(new Set(all.map((p) => p.id)).size).toBe(all.length);
+	});
+
+	it('should resolve details for searched places', async () => {
+		const page = await provider.searchText({
+			textQuery: 'florists in Tulsa, OK',
+		});
+		const details = await provider.getPlaceDetails(page.places[0].id);
+
+		expect(details).toEqual(page.places[0]);
+		expect(await provider.getPlaceDetails('missing')).toBeNull();
+	});
+
+	it('should carry listing details onto the business', async () => {
+		const [place] = (
+			await provider.searchText({
+				textQuery: 'software companies in Columbus, OH',
+			})
+		).places;
+		const details = toPlaceDetails(place);
+
+		expect(details).toMatchObject({
+			placeId: place.id,
+			phone: expect.stringMatching(/^\(\d{3}\) 555-\d{4}$/),
+			lat: place.location!.latitude,
+			lng: place.location!.longitude,
+			primaryType: 'software_company',
+			businessStatus: expect.any(String),
+			googleMapsUrl: expect.stringContaining('maps.google.com'),
+		});
+		// Copying a business keeps only the details that are set
+		expect(
+			pickPlaceDetails({
+				...details,
+				rating: undefined,
+				name: 'x',
+			} as any)
+		).not.toHaveProperty('rating');
+		expect(
+			pickPlaceDetails({ ...details, name: 'x' } as any)
+		).not.toHaveProperty('name');
+	});
+
+	it('should keep biased results inside the bias circle', async () => {
+		const center = { lat: 36.1627, lng: -86.7816 };
+		const places = await searchAllPages(
+			provider,
+			'accountants in Nashville, TN',
+			60,
+			locationBiasAround(center, 8000)
+		);
+
+		expect(places.length).toBeGreaterThan(0);
+		for (const place of places) {
+			const latMiles = (place.location!.latitude - center.lat) * 69;
+			const lngMiles =
+				(place.location!.longitude - center.lng) *
+				69 *
+				Math.cos((center.lat * Math.PI) / 180);
+			expect(Math.hypot(latMiles, lngMiles)).toBeLessThanOrEqual(5.01);
+		}
+	});
+
+	it('should geocode known and unknown addresses deterministically', async () => {
+		const columbus = await provider.geocode('Columbus, OH');
+		expect(columbus?.coordinates.lat).toBeCloseTo(39.96, 1);
+
+		const unknown = await provider.geocode('Smallville, KS');
+		expect(await provider.geocode('Smallville, KS')).toEqual(unknown);
+	});
+});
+
+describe('tiled search', () => {
+	const columbus = { lat: 39.9612, lng: -82.9988 };
+
+	it('should cover the search radius with a grid of tiles', () => {
+		const tiles = buildSearchTiles(columbus, 10000, 3);
+
+		expect(tiles).toHaveLength(9);
+		const south = Math.min(...tiles.map((t) => t.low.latitude));
+		const north = Math.max(...tiles.map((t) => t.high.latitude));
+		// 20km across is roughly 0.18 degrees of latitude
+		expect(north - south).toBeCloseTo(0.18, 2);
+		expect((north + south) / 2).toBeCloseTo(columbus.lat, 6);
+	});
+
+	it('should skip corner tiles that fall outside the radius', () => {
+		expect(buildSearchTiles(columbus, 10000, 8)).toHaveLength(60);
+	});
+
+	it('should estimate the worst-case number of API calls', () => {
+		expect(estimateTiledSearch(3)).toEqual({
+			tileDensity: 3,
+			tiles: 9,
+			maxResultsPerTile: 60,
+			maxSearchCalls: 27,
+			geocodeCalls: 1,
+			maxApiCalls: 28,
+			maxResults: 540,
+		});
+		// Out-of-range densities are clamped
+		expect(estimateTiledSearch(50).tileDensity).toBe(8);
+	});
+
+	it('should merge tile results past the single-query limit', async () => {
+		const provider = new FakePlacesProvider();
+		const tiles = buildSearchTiles(columbus, 32000, 4);
+		const places = await searchTiles(provider, 'plumbers in Reno, NV', [
+			...tiles,
+			tiles[0], // Searched twice, must not produce duplicates
+		]);
+
+		expect(places.length).toBeGreaterThan(60);
+		expect(new Set(places.map((p) => p.id)).size).toBe(places.length);
+	});
+});
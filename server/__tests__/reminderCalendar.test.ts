@@ -0,0 +1,55 @@
+import { buildRemindersCalendar } from '../reminderCalendar';
+import type { ReminderWithBusiness } from '@shared/schema';
+
+const reminder: ReminderWithBusiness = {
+	_id: 'r1',
+	userId: 'user-1',
+	businessId: 'biz-1',
+	title: 'Follow up on application; ask about timeline',
+	dueAt: new Date('2026-10-20T14:00:00Z'),
+	completeOn: ['email_sent'],
+	createdAt: new Date('2026-10-01T09:00:00Z'),
+	updatedAt: new Date('2026-10-02T09:00:00Z'),
+	business: {
+		name: 'Acme, Inc.',
+		website: 'https://acme.io',
+		careerLink: 'https://boards.greenhouse.io/acme',
+	},
+};
+
+describe('buildRemindersCalendar', () => {
+	it('should write each reminder as an event with an alert', () => {
+		const ics = buildRemindersCalendar(
+			[reminder],
+			new Date('2026-10-19T08:00:00Z')
+		);
+		const lines = ics.split('\r\n');
+
+		expect(lines[0]).toBe('BEGIN:VCALENDAR');
+		expect(lines).toContain('UID:reminder-r1@companyhunter');
+		expect(lines).toContain('DTSTAMP:20261019T080000Z');
+		expect(lines).toContain('DTSTART:20261020T140000Z');
+		expect(lines).toContain('DTEND:20261020T141500Z');
+		expect(lines).toContain(
+			'SUMMARY:Follow up on application\\; ask about timeline - Acme\\, Inc.'
+		);
+		expect(lines).toContain(
+			'DESCRIPTION:https://acme.io\\nCareers: https://boards.greenhouse.io/acme'
+		);
+		expect(lines).toContain('BEGIN:VALARM');
+		expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+	});
+
+	it('should fold long lines at 75 octets', () => {
+		const ics = buildRemindersCalendar([
+			{ ...reminder, title: 'é'.repeat(100) },
+		]);
+
+		for (const line of ics.split('\r\n')) {
+			expect(Buffer.byteLength(line)).toBeLessThanOrEqual(75);
+		}
+		expect(ics.replace(/\r\n /g, '')).toContain(
+			`SUMMARY:${'é'.repeat(100)} - Acme\\, Inc.`
+		);
+	});
+});
@@ -0,0 +1,74 @@
+import {
+	applyResultFilters,
+	hasActiveResultFilters,
+} from '@shared/resultFilters';
+
+describe('result filters', () => {
+	const businesses = [
+		{
+			name: 'Open Software',
+			website: 'https://open.example.com',
+			businessStatus: 'OPERATIONAL',
+			rating: 4.6,
+			reviewCount: 120,
+			primaryType: 'software_company',
+			types: ['software_company', 'point_of_interest'],
+		},
+		{
+			name: 'Closed Diner',
+			website: 'https://diner.example.com',
+			businessStatus: 'CLOSED_PERMANENTLY',
+			rating: 4.8,
+			reviewCount: 300,
+			primaryType: 'restaurant',
+		},
+		{
+			name: 'Renovating Agency',
+			businessStatus: 'CLOSED_TEMPORARILY',
+			rating: 3.9,
+			reviewCount: 8,
+			primaryType: 'marketing_agency',
+		},
+		{ name: 'Imported From CSV', website: 'https://csv.example.com' },
+	];
+
+	const names = (filters: Parameters<typeof applyResultFilters>[1]) =>
+		applyResultFilters(businesses, filters).map((b) => b.name);
+
+	it('should keep everything when no filter is set', () => {
+		expect(names({})).toHaveLength(4);
+		expect(hasActiveResultFilters({})).toBe(false);
+		expect(hasActiveResultFilters({ includeTypes: [] })).toBe(false);
+	});
+
+	it('should hide closed businesses and ones without a website', () => {
+		expect(
+			names({ hidePermanentlyClosed: true, hideTemporarilyClosed: true })
+		).toEqual(['Open Software', 'Imported From CSV']);
+		expect(names({ websiteOnly: true })).not.toContain('Renovating Agency');
+	});
+
+	it('should require a rating and review count when minimums are set', () => {
+		expect(names({ minRating: 4 })).toEqual([
+			'Open Software',
+			'Closed Diner',
+		]);
+		expect(names({ minReviewCount: 10 })).toEqual([
+			'Open Software',
+			'Closed Diner',
+		]);
+	});
+
+	it('should match types loosely and apply excludes after includes', () => {
+		expect(
+			names({ includeTypes: ['Software Company', 'restaurant'] })
+		).toEqual(['Open Software', 'Closed Diner']);
+		expect(
+			names({
+				includeTypes: ['software_company', 'restaurant'],
+				excludeTypes: ['restaurant'],
+			})
+		).toEqual(['Open Software']);
+		expect(names({ excludeTypes: ['marketing-agency'] })).toHaveLength(3);
+	});
+});
@@ -0,0 +1,176 @@
+import {
+	buildSavedBusinessFilter,
+	buildSmartListCondition,
+	NO_PIPELINE_STATUS,
+} from '../savedBusinessFilter';
+import { smartListRuleSchema } from '@shared/schema';
+
+describe('buildSavedBusinessFilter', () => {
+	it('should only scope to the user when there are no filters', () => {
+		expect(buildSavedBusinessFilter('user-1')).toEqual({
+			userId: 'user-1',
+		});
+	});
+
+	it('should treat the search term as text, not a pattern', () => {
+		const filter = buildSavedBusinessFilter('user-1', {
+			searchTerm: ' c++ (dev) ',
+		});
+		const regex: RegExp = filter.$and[0].$or[0].name.$regex;
+
+		expect(regex.test('Acme C++ (Dev) Shop')).toBe(true);
+		expect(regex.test('ccc dev')).toBe(false);
+	});
+
+	it('should match businesses in any of the given stages', () => {
+		expect(
+			buildSavedBusinessFilter('user-1', {
+				statuses: ['applied', 'offer'],
+			})
+		).toEqual({
+			userId: 'user-1',
+			$and: [{ pipelineStatus: { $in: ['applied', 'offer'] } }],
+		});
+	});
+
+	it('should match businesses without a status alongside stages', () => {
+		expect(
+			buildSavedBusinessFilter('user-1', {
+				hiringOnly: true,
+				statuses: [NO_PIPELINE_STATUS, 'researching'],
+			})
+		).toEqual({
+			userId: 'user-1',
+			$and: [
+				{ openJobCount: { $gt: 0 } },
+				{
+					$or: [
+						{ pipelineStatus: { $in: ['researching'] } },
+						{ pipelineStatus: { $exists: false } },
+					],
+				},
+			],
+		});
+	});
+
+	it('should require every chosen tag', () => {
+		expect(
+			buildSavedBusinessFilter('user-1', { tags: ['fintech', 'remote'] })
+		).toEqual({
+			userId: 'user-1',
+			$and: [{ tags: { $all: ['fintech', 'remote'] } }],
+		});
+	});
+
+	it('should match a city or state as a whole address part', () => {
+		const filter = buildSavedBusinessFilter('user-1', {
+			city: 'Columbus',
+			state: 'oh',
+		});
+		const [city, state] = filter.$and.map(
+			({ location }: any) =>
+				new RegExp(location.$regex, location.$options)
+		);
+		const address = '1 Main St, Columbus, OH 43215, USA';
+
+		expect(city.test(address)).toBe(true);
+		expect(city.test('1 Main St, West Columbus, OH, USA')).toBe(false);
+		expect(state.test(address)).toBe(true);
+		expect(state.test('Columbus, OH')).toBe(true);
+		expect(state.test('1 Ohio Ave, Dayton, KY 41074, USA')).toBe(false);
+	});
+
+	it('should filter on having a website and inclusive date ranges', () => {
+		const from = new Date('2024-01-01T00:00:00Z');
+		const to = new Date('2024-01-31T23:59:59Z');
+
+		expect(
+			buildSavedBusinessFilter('user-1', {
+				hasWebsite: false,
+				createdFrom: from,
+				updatedTo: to,
+			})
+		).toEqual({
+			userId: 'user-1',
+			$and: [
+				{ website: { $in: [null, ''] } },
+				{ createdAt: { $gte: from } },
+				{ updatedAt: { $lte: to } },
+			],
+		});
+	});
+
+	it('should limit the results to the given businesses', () => {
+		const id = '64b7f0c2a1b2c3d4e5f60718';
+		const filter = buildSavedBusinessFilter('user-1', {
+			businessIds: [id, 'not-an-id'],
+		});
+
+		expect(filter.$and[0]._id.$in.map(String)).toEqual([id]);
+		// An empty list matches nothing rather than everything
+		expect(
+			buildSavedBusinessFilter('user-1', { businessIds: [] }).$and
+		).toEqual([{ _id: { $in: [] } }]);
+	});
+});
+
+describe('buildSmartListCondition', () => {
+	const now = new Date('2024-05-10T12:00:00Z');
+
+	it('should require every rule, or any with match "any"', () => {
+		const rules = [
+			{ kind: 'status_equals' as const, value: NO_PIPELINE_STATUS },
+			{ kind: 'hiring_now' as const, value: true },
+		];
+
+		expect(buildSmartListCondition({ rules }, now)).toEqual({
+			$and: [
+				{ pipelineStatus: { $exists: false } },
+				{ openJobCount: { $gt: 0 } },
+			],
+		});
+		expect(
+			buildSmartListCondition({ rules, match: 'any' }, now).$or
+		).toHaveLength(2);
+	});
+
+	it('should count days back from now', () => {
+		expect(
+			buildSmartListCondition(
+				{ rules: [{ kind: 'created_within_days', value: 7 }] },
+				now
+			)
+		).toEqual({
+			$and: [{ createdAt: { $gte: new Date('2024-05-03T12:00:00Z') } }],
+		});
+	});
+
+	it('should match a domain and its subdomains only', () => {
+		const rule = smartListRuleSchema.parse({
+			kind: 'domain_ends_with',
+			value: '*.Example.com',
+		});
+		const { $regex, $options } = buildSmartListCondition(
+			{ rules: [rule] },
+			now
+		).$and[0].website;
+		const regex = new RegExp($regex, $options);
+
+		expect(regex.test('https://example.com')).toBe(true);
+		expect(regex.test('http://jobs.example.com:8080/careers')).toBe(true);
+		expect(regex.test('www.EXAMPLE.com/about')).toBe(true);
+		expect(regex.test('https://notexample.com')).toBe(false);
+		expect(regex.test('https://example.com.evil.io')).toBe(false);
+	});
+
+	it('should be applied alongside the other filters', () => {
+		const filter = buildSavedBusinessFilter('user-1', {
+			searchTerm: 'acme',
+			smartList: { rules: [{ kind: 'tag_contains', value: 'c++' }] },
+		});
+
+		expect(filter.$and[1]).toEqual({
+			$and: [{ tags: { $regex: 'c\\+\\+', $options: 'i' } }],
+		});
+	});
+});
@@ -0,0 +1,76 @@
+import {
+	buildSavedBusinessSort,
+	cursorCondition,
+	encodeCursor,
+} from '../savedBusinessSort';
+import type { SavedBusinessSort } from '@shared/schema';
+
+const id = '64b7f0c2a1b2c3d4e5f60718';
+
+describe('buildSavedBusinessSort', () => {
+	it('should break ties by id in the same direction', () => {
+		expect(
+			buildSavedBusinessSort({ field: 'name', direction: 'asc' })
+		).toEqual({ name: 1, _id: 1 });
+	});
+});
+
+describe('cursorCondition', () => {
+	const byName: SavedBusinessSort = { field: 'name', direction: 'asc' };
+	const newest: SavedBusinessSort = {
+		field: 'createdAt',
+		direction: 'desc',
+	};
+
+	it('should start after the business the cursor was made from', () => {
+		const cursor = encodeCursor(
+			{ _id: id, userId: 'user-1', name: 'Acme' },
+			byName
+		);
+		const { $or } = cursorCondition(cursor, byName)!;
+
+		expect($or).toHaveLength(2);
+		expect($or[0]).toEqual({ name: { $gt: 'Acme' } });
+		expect($or[1].name).toBe('Acme');
+		expect($or[1]._id.$gt.toString()).toBe(id);
+	});
+
+	it('should keep dates and include missing values after them descending', () => {
+		const createdAt = new Date('2024-05-10T12:00:00Z');
+		const cursor = encodeCursor(
+			{ _id: id, userId: 'user-1', name: 'Acme', createdAt },
+			newest
+		);
+		const { $or } = cursorCondition(cursor, newest)!;
+
+		expect($or[0]).toEqual({ createdAt: { $lt: createdAt } });
+		expect($or[2]).toEqual({ createdAt: null });
+	});
+
+	it('should continue through businesses missing the sort value', () => {
+		const cursor = encodeCursor(
+			{ _id: id, userId: 'user-1', name: 'Acme' },
+			{
+				field: 'website',
+				direction: 'asc',
+			}
+		);
+		const { $or } = cursorCondition(cursor, {
+			field: 'website',
+			direction: 'asc',
+		})!;
+
+		expect($or[0]).toEqual({ website: { $ne: null } });
+		expect($or[1].website).toBeNull();
+	});
+
+	it('should reject malformed cursors and ones made for another sort', () => {
+		const cursor = encodeCursor(
+			{ _id: id, userId: 'user-1', name: 'Acme' },
+			byName
+		);
+
+		expect(cursorCondition(cursor, newest)).toBeNull();
+		expect(cursorCondition('not a cursor', byName)).toBeNull();
+	});
+});
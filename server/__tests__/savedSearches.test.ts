@@ -0,0 +1,52 @@
+import { getNextRunAt, selectNewLeads } from '../savedSearches';
+
+describe('saved searches', () => {
+	it('should schedule the next run from the cadence', () => {
+		const from = new Date('2025-03-01T09:00:00Z');
+
+		expect(getNextRunAt('daily', from).toISOString()).toBe(
+			'2025-03-02T09:00:00.000Z'
+		);
+		expect(getNextRunAt('weekly', from).toISOString()).toBe(
+			'2025-03-08T09:00:00.000Z'
+		);
+	});
+
+	it('should only report results that are not already saved', () => {
+		const leads = selectNewLeads(
+			[
+				{ name: 'Acme Software', website: 'https://acme.com/about' },
+				{ name: 'Globex Corporation', website: 'https://globex.io' },
+				{ name: 'Initech', location: '1 Main St, Austin, TX' },
+			],
+			[{ name: 'Globex', website: 'http://www.globex.io/' }]
+		);
+
+		expect(leads).toEqual([
+			{
+				identity: 'domain:acme.com',
+				name: 'Acme Software',
+				website: 'https://acme.com/about',
+				location: undefined,
+			},
+			{
+				identity: 'name:initech',
+				name: 'Initech',
+				website: undefined,
+				location: '1 Main St, Austin, TX',
+			},
+		]);
+	});
+
+	it('should report a company once even if it appears twice in a run', () => {
+		const leads = selectNewLeads(
+			[
+				{ name: 'Acme Downtown', website: 'https://acme.com' },
+				{ name: 'Acme Uptown', website: 'https://www.acme.com/' },
+			],
+			[]
+		);
+
+		expect(leads.map((lead) => lead.name)).toEqual(['Acme Downtown']);
+	});
+});
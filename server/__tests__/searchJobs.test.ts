@@ -0,0 +1,144 @@
+import {
+	SearchJobRegistry,
+	type SearchJobEvent,
+	type SearchJobRunner,
+} from '../searchJobs';
+import { MemStorage } from '../storage';
+
+const params = { businessType: 'software', state: 'Ohio', maxCities: 2 };
+
+describe('SearchJobRegistry', () => {
+	let registry: SearchJobRegistry;
+
+	beforeEach(() => {
+		registry = new SearchJobRegistry();
+	});
+
+	it('should report city progress and results until the job is done', async () => {
+		const job = registry.submit('user:alice', params, async (context) => {
+			context.setCities(['Columbus', 'Dayton']);
+			for (const city of ['Columbus', 'Dayton']) {
+				context.updateCity(city, { status: 'running' });
+				context.addResults([{ name: `${city} Co` }], city);
+				context.updateCity(city, { status: 'done', resultCount: 1 });
+			}
+		});
+
+		const events: SearchJobEvent[] = [];
+		registry.subscribe('user:alice', job.id, (event) => events.push(event));
+		const finished = await registry.waitForCompletion('user:alice', job.id);
+
+		expect(finished.status).toBe('done');
+		expect(finished.totalResults).toBe(2);
+		expect(finished.cities.map((c) => c.status)).toEqual(['done', 'done']);
+		expect(
+			events
+				.filter((e) => e.type === 'results')
+				.map((e) => (e.type === 'results' ? e.city : undefined))
+		).toEqual(['Columbus', 'Dayton']);
+	});
+
+	it('should mark a job failed when its runner throws', async () => {
+		const job = registry.submit('user:alice', params, async () => {
+			throw new Error('quota exceeded');
+		});
+
+		const finished = await registry.waitForCompletion('user:alice', job.id);
+		expect(finished.status).toBe('failed');
+		expect(finished.error).toBe('quota exceeded');
+	});
+
+	it('should cancel a running job and ignore later progress', async () => {
+		let release: () => void = () => {};
+		const job = registry.submit('user:alice', params, async (context) => {
+			context.setCities(['Columbus']);
+			await new Promise<void>((resolve) => (release = resolve));
+			expect(context.signal.aborted).toBe(true);
+			context.addResults([{ name: 'Late Co' }], 'Columbus');
+		});
+
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(registry.get('user:alice', job.id)?.status).toBe('running');
+
+		const cancelled = registry.cancel('user:alice', job.id);
+		expect(cancelled?.status).toBe('cancelled');
+
+		release();
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(registry.get('user:alice', job.id)?.totalResults).toBe(0);
+	});
+
+	it('should queue jobs beyond the concurrency limit', async () => {
+		const single = new SearchJobRegistry(1);
+		let release: () => void = () => {};
+		const first = single.submit('user:alice', params, async () => {
+			await new Promise<void>((resolve) => (release = resolve));
+		});
+		const second = single.submit('user:bob', params, async () => {});
+
+		await new Promise((resolve) => setImmediate(resolve));
+		expect(single.get('user:alice', first.id)?.status).toBe('running');
+		expect(single.get('user:bob', second.id)?.status).toBe('queued');
+
+		release();
+		await single.waitForCompletion('user:alice', first.id);
+		const finished = await single.waitForCompletion('user:bob', second.id);
+		expect(finished.status).toBe('done');
+	});
+
+	it('should cancel the owner previous job and hide jobs from other owners', () => {
+		const first = registry.submit('user:alice', params, async () => {
+			await new Promise(() => {});
+		});
+		registry.submit('user:alice', params, async () => {});
+
+		expect(registry.get('user:alice', first.id)?.status).toBe('cancelled');
+		expect(registry.get('user:carol', first.id)).toBeUndefined();
+		expect(registry.cancel('user:carol', first.id)).toBeUndefined();
+	});
+
+	it('should keep the newer search results when a cancelled one resumes', async () => {
+		const storage = new MemStorage();
+		// Like the state search runners: look things up, then replace the
+		// owner's stored results
+		const searchFor = (
+			name: string,
+			lookup: Promise<void>
+		): SearchJobRunner => {
+			return async (context) => {
+				await lookup;
+				if (context.signal.aborted) return;
+				await storage.clearAllBusinesses('user:alice');
+				if (context.signal.aborted) return;
+				context.addResults(
+					await storage.saveBatchBusinesses('user:alice', [{ name }])
+				);
+			};
+		};
+
+		let release: () => void = () => {};
+		const first = registry.submit(
+			'user:alice',
+			params,
+			searchFor(
+				'Old Co',
+				new Promise<void>((resolve) => (release = resolve))
+			)
+		);
+		await new Promise((resolve) => setImmediate(resolve));
+		const second = registry.submit(
+			'user:alice',
+			params,
+			searchFor('New Co', Promise.resolve())
+		);
+		await registry.waitForCompletion('user:alice', second.id);
+
+		release();
+		await new Promise((resolve) => setImmediate(resolve));
+
+		expect(registry.get('user:alice', first.id)?.status).toBe('cancelled');
+		expect(
+			(await storage.getBusinesses('user:alice')).map((b) => b.name)
+		).toEqual(['New Co']);
+	});
+});
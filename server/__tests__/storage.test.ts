@@ -0,0 +1,64 @@
+import { MemStorage } from '../storage';
+
+describe('MemStorage', () => {
+	let storage: MemStorage;
+
+	beforeEach(() => {
+		storage = new MemStorage();
+	});
+
+	it('should keep search results separate per owner', async () => {
+		await storage.saveBatchBusinesses('user:alice', [
+			{ name: 'Acme Software' },
+			{ name: 'Globex' },
+		]);
+		await storage.saveBatchBusinesses('guest:bob', [{ name: 'Initech' }]);
+
+		const aliceResults = await storage.getBusinesses('user:alice');
+		const bobResults = await storage.getBusinesses('guest:bob');
+
+		expect(aliceResults.map((b) => b.name)).toEqual([
+			'Acme Software',
+			'Globex',
+		]);
+		expect(bobResults.map((b) => b.name)).toEqual(['Initech']);
+	});
+
+	it('should only clear the calling owner results', async () => {
+		await storage.saveBatchBusinesses('user:alice', [{ name: 'Acme' }]);
+		await storage.saveBatchBusinesses('user:carol', [{ name: 'Hooli' }]);
+
+		await storage.clearAllBusinesses('user:alice');
+
+		expect(await storage.getBusinesses('user:alice')).toHaveLength(0);
+		expect(await storage.getBusinesses('user:carol')).toHaveLength(1);
+	});
+
+	it('should not update another owner business with the same id', async () => {
+		const [aliceBusiness] = await storage.saveBatchBusinesses(
+			'user:alice',
+			[{ name: 'Acme' }]
+		);
+		await storage.saveBatchBusinesses('user:carol', [{ name: 'Hooli' }]);
+
+		await storage.updateBusiness('user:carol', aliceBusiness.id!, {
+			isBadLead: true,
+		});
+
+		const [alice] = await storage.getBusinesses('user:alice');
+		const [carol] = await storage.getBusinesses('user:carol');
+		expect(alice.isBadLead).toBe(false);
+		expect(carol.isBadLead).toBe(true);
+	});
+
+	it('should drop result sets that have been idle too long', async () => {
+		const shortLived = new MemStorage(0);
+		await shortLived.saveBatchBusinesses('guest:old', [{ name: 'Acme' }]);
+
+		// Touching a new owner prunes idle result sets
+		await new Promise((resolve) => setTimeout(resolve, 5));
+		await shortLived.getBusinesses('guest:new');
+
+		expect(await shortLived.getBusinesses('guest:old')).toHaveLength(0);
+	});
+});
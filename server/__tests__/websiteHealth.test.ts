@@ -0,0 +1,87 @@
+import { checkWebsiteHealth, type FetchPageOptions } from '../enrichment';
+
+// Acme's site, answered through an injected fetch. /old has moved to
+// another host; every host looks public to the address check.
+const options: FetchPageOptions = {
+	fetch: (async (url: string) => {
+		switch (new URL(url).pathname) {
+			case '/':
+				return new Response('<h1>Acme Plumbing</h1>', {
+					status: 200,
+					headers: { 'Content-Type': 'text/html' },
+				});
+			case '/old':
+				return new Response(null, {
+					status: 301,
+					headers: { Location: 'https://acmeplumbing.com/' },
+				});
+			case '/parked':
+				return new Response(
+					'<p>This domain may be for sale. Make an offer!</p>',
+					{ status: 200, headers: { 'Content-Type': 'text/html' } }
+				);
+			case '/private':
+				return new Response(null, { status: 403 });
+			default:
+				return new Response(null, { status: 404 });
+		}
+	}) as typeof fetch,
+	lookup: async () => ['93.184.216.34'],
+};
+
+describe('checkWebsiteHealth', () => {
+	const site = (path = '') => `http://acme.io${path}`;
+
+	it('should pass a working site as it is stored', async () => {
+		const health = await checkWebsiteHealth(site(), options);
+
+		expect(health).toMatchObject({ status: 'ok', httpStatus: 200 });
+		expect(health?.canonicalUrl).toBeUndefined();
+		// Plain http has no certificate to judge
+		expect(health?.tlsValid).toBeUndefined();
+	});
+
+	it('should follow redirects and suggest the final URL', async () => {
+		await expect(
+			checkWebsiteHealth(site('/old'), options)
+		).resolves.toMatchObject({
+			status: 'redirected',
+			finalUrl: 'https://acmeplumbing.com/',
+			canonicalUrl: 'https://acmeplumbing.com',
+			tlsValid: true,
+		});
+	});
+
+	it('should tell parked, broken and blocked sites apart', async () => {
+		await expect(
+			checkWebsiteHealth(site('/parked'), options)
+		).resolves.toMatchObject({
+			status: 'parked',
+			parkedReason: 'says the domain is for sale or parked',
+		});
+		await expect(
+			checkWebsiteHealth(site('/missing'), options)
+		).resolves.toMatchObject({ status: 'broken', httpStatus: 404 });
+		await expect(
+			checkWebsiteHealth(site('/private'), options)
+		).resolves.toMatchObject({ status: 'blocked', httpStatus: 403 });
+	});
+
+	it('should report sites that do not answer', async () => {
+		const refused = (async () => {
+			throw new TypeError('fetch failed', {
+				cause: Object.assign(new Error('connect ECONNREFUSED'), {
+					code: 'ECONNREFUSED',
+				}),
+			});
+		}) as typeof fetch;
+
+		const health = await checkWebsiteHealth(site(), {
+			...options,
+			fetch: refused,
+		});
+
+		expect(health?.status).toBe('unreachable');
+		expect(health?.error).toMatch(/ECONNREFUSED/);
+	});
+});
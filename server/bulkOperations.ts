@@ -0,0 +1,91 @@
+import type {
+	BulkItemResult,
+	BulkOperation,
+	SavedBusiness,
+} from '@shared/schema';
+import { NO_PIPELINE_STATUS } from './savedBusinessFilter';
+
+// Turns a bulk operation into the MongoDB update each business gets, and the
+// writes' outcome into a result per business. Kept apart from routes.ts so
+// they can be tested without a database.
+
+type BusinessUpdate = Record<string, any>;
+
+const clears = (value: string) => !value || value === NO_PIPELINE_STATUS;
+
+// The update applied to every business, or null when they're deleted.
+// add_to_list changes the list rather than the businesses.
+export function bulkUpdateFor(
+	operation: Exclude<BulkOperation, { type: 'add_to_list' }>,
+	now: Date = new Date()
+): BusinessUpdate | null {
+	const touched = { updatedAt: now };
+
+	switch (operation.type) {
+		case 'delete':
+			return null;
+		case 'set_status':
+			return clears(operation.status)
+				? { $set: touched, $unset: { pipelineStatus: '' } }
+				: { $set: { ...touched, pipelineStatus: operation.status } };
+		case 'add_tags':
+			return {
+				$set: touched,
+				$addToSet: { tags: { $each: operation.tags } },
+			};
+		case 'remove_tags':
+			return { $set: touched, $pull: { tags: { $in: operation.tags } } };
+		case 'mark_bad_lead':
+			return { $set: { ...touched, isBadLead: operation.value } };
+		case 'set_field':
+			return operation.value
+				? { $set: { ...touched, [operation.field]: operation.value } }
+				: { $set: touched, $unset: { [operation.field]: '' } };
+	}
+}
+
+// Renames a tag on every business that has it. Businesses can carry a name
+// without a tag document, so the new name may already be there: adding it
+// with $addToSet before pulling the old one leaves a single copy.
+export function tagRenameWrites(userId: string, from: string, to: string) {
+	const filter = { userId, tags: from };
+	return [
+		{ updateMany: { filter, update: { $addToSet: { tags: to } } } },
+		{ updateMany: { filter, update: { $pull: { tags: from } } } },
+	];
+}
+
+// The fields an operation changes that the activity timeline records
+export function trackedChanges(
+	operation: BulkOperation
+): Partial<SavedBusiness> | null {
+	if (operation.type === 'set_status') {
+		return {
+			pipelineStatus: clears(operation.status)
+				? undefined
+				: operation.status,
+		};
+	}
+	if (operation.type === 'set_field' && operation.field === 'careerLink') {
+		return { careerLink: operation.value || undefined };
+	}
+	return null;
+}
+
+// A result for each requested business, in the order asked for. Ones that
+// weren't found (or aren't the user's) and ones whose write failed aren't ok.
+export function bulkItemResults(
+	requestedIds: string[],
+	found: Pick<SavedBusiness, '_id'>[],
+	failed: Map<string, string> // Business id -> write error
+): BulkItemResult[] {
+	const foundIds = new Set(found.map((business) => business._id));
+
+	return requestedIds.map((id) => {
+		if (!foundIds.has(id)) {
+			return { id, ok: false, error: 'Business not found' };
+		}
+		const error = failed.get(id);
+		return error ? { id, ok: false, error } : { id, ok: true };
+	});
+}
@@ -0,0 +1,57 @@
+// The activities recorded when a saved business changes. Kept apart from
+// routes.ts so what gets logged can be tested without a database.
+import type { BusinessActivity, SavedBusiness } from '@shared/schema';
+
+export type ActivityAuthor = BusinessActivity['author'];
+
+// Status and career link changes made by an update. Fields the update
+// doesn't touch, or sets to what they already were, log nothing.
+export function changeActivities(
+	before: SavedBusiness,
+	updates: Partial<SavedBusiness>,
+	author: ActivityAuthor
+): BusinessActivity[] {
+	const activities: BusinessActivity[] = [];
+	const base = {
+		businessId: before._id!,
+		userId: before.userId,
+		author,
+		createdAt: new Date(),
+	};
+
+	const tracked = [
+		['pipelineStatus', 'status_changed'],
+		['careerLink', 'career_link_changed'],
+	] as const;
+	for (const [field, type] of tracked) {
+		if (!(field in updates)) continue;
+		const from = before[field] || undefined;
+		const to = updates[field] || undefined;
+		if (from !== to) {
+			activities.push({
+				...base,
+				type,
+				...(from && { from }),
+				...(to && { to }),
+			});
+		}
+	}
+
+	return activities;
+}
+
+// Logged on the business the duplicates were merged into
+export function mergeActivity(
+	survivor: SavedBusiness,
+	duplicates: SavedBusiness[],
+	author: ActivityAuthor
+): BusinessActivity {
+	return {
+		businessId: survivor._id!,
+		userId: survivor.userId,
+		type: 'merged',
+		mergedFrom: duplicates.map((b) => ({ _id: b._id!, name: b.name })),
+		author,
+		createdAt: new Date(),
+	};
+}
@@ -0,0 +1,189 @@
+import {
+	type BusinessMerge,
+	type BusinessMergeInput,
+	type CleanupPlanBusiness,
+	type CleanupPlanGroup,
+	type MergeableField,
+	type SavedBusiness,
+} from '@shared/schema';
+import {
+	addToMatchIndex,
+	buildMatchIndex,
+	findMatch,
+	type MatchThresholds,
+} from '@shared/matcher';
+import { PLACE_DETAIL_KEYS } from './places';
+
+// Grouping, cleanup plans and field-level merging of duplicate saved
+// businesses. The review dialog shows each group side by side;
+// mergeSavedBusinesses() in mongodb.ts applies the result and records it for
+// undo.
+
+export interface DuplicateGroup<T> {
+	businesses: T[]; // Oldest first; the first is the suggested survivor
+	// Why each later business matched the group, by business id
+	reasons: Record<string, string>;
+}
+
+const MERGEABLE_FIELDS: MergeableField[] = [
+	'name',
+	'website',
+	'location',
+	'phone',
+	'careerLink',
+	'notes',
+];
+
+const businessId = (business: SavedBusiness) => business._id!.toString();
+
+// Group businesses, given oldest first, with the earlier ones they duplicate
+export function groupDuplicates<T extends SavedBusiness>(
+	businesses: T[],
+	thresholds?: MatchThresholds
+): DuplicateGroup<T>[] {
+	const groups = new Map<string, DuplicateGroup<T>>();
+	const index = buildMatchIndex<T>([]);
+
+	for (const business of businesses) {
+		const match = findMatch(business, index, thresholds);
+		if (!match) {
+			addToMatchIndex(index, business);
+			continue;
+		}
+
+		const key = businessId(match.match);
+		const group = groups.get(key) || {
+			businesses: [match.match],
+			reasons: {},
+		};
+		group.businesses.push(business);
+		group.reasons[businessId(business)] = match.explanation;
+		groups.set(key, group);
+	}
+
+	return Array.from(groups.values());
+}
+
+function toPlanBusiness(business: SavedBusiness): CleanupPlanBusiness {
+	return {
+		_id: businessId(business),
+		name: business.name,
+		website: business.website,
+		location: business.location,
+		createdAt: business.createdAt,
+	};
+}
+
+// Cleanup keeps the first-saved copy of each company and deletes the rest
+export function buildCleanupGroups(
+	groups: DuplicateGroup<SavedBusiness>[]
+): CleanupPlanGroup[] {
+	return groups.map(({ businesses: [keep, ...remove], reasons }) => ({
+		keep: toPlanBusiness(keep),
+		keepReason: 'saved first',
+		remove: remove.map((business) => ({
+			...toPlanBusiness(business),
+			reason: reasons[businessId(business)],
+		})),
+	}));
+}
+
+// Each copy's notes once, in order
+export function combineNotes(businesses: SavedBusiness[]): string {
+	const notes: string[] = [];
+	for (const business of businesses) {
+		const note = business.notes?.trim();
+		if (note && !notes.includes(note)) {
+			notes.push(note);
+		}
+	}
+	return notes.join('\n\n');
+}
+
+// Source ids that aren't part of the merge
+export function unknownMergeSources(
+	input: Pick<BusinessMergeInput, 'survivorId' | 'duplicateIds' | 'sources'>
+): string[] {
+	const ids = [input.survivorId, ...input.duplicateIds];
+	return Object.values(input.sources).filter(
+		(id): id is string => !!id && !ids.includes(id)
+	);
+}
+
+// Copy one field over; the key ties the value's type to the target's
+function copyField<K extends keyof SavedBusiness>(
+	target: Partial<SavedBusiness>,
+	source: SavedBusiness,
+	key: K
+) {
+	target[key] = source[key];
+}
+
+// The survivor's updated fields. Place details and dates the survivor lacks
+// are filled from the duplicates, tags are combined and the earliest
+// createdAt is kept, so nothing known about the company is lost.
+export function buildMergedFields(
+	survivor: SavedBusiness,
+	duplicates: SavedBusiness[],
+	input: Pick<BusinessMergeInput, 'sources' | 'combineNotes'>
+): Partial<SavedBusiness> {
+	const all = [survivor, ...duplicates];
+	const byId = new Map(
+		all.map((business) => [businessId(business), business])
+	);
+	const merged: Partial<SavedBusiness> = {};
+
+	for (const field of MERGEABLE_FIELDS) {
+		const sourceId = input.sources[field];
+		const source = sourceId
+			? byId.get(sourceId)
+			: all.find((business) => business[field]?.trim());
+		const value = (source || survivor)[field];
+		if (value !== undefined) {
+			merged[field] = value;
+		}
+	}
+
+	if (input.combineNotes) {
+		merged.notes = combineNotes(all);
+	}
+
+	for (const key of PLACE_DETAIL_KEYS) {
+		if (key === 'phone' || survivor[key] !== undefined) continue;
+		const source = duplicates.find(
+			(business) => business[key] !== undefined
+		);
+		if (source) {
+			copyField(merged, source, key);
+		}
+	}
+
+	const tags = new Set(all.flatMap((business) => business.tags || []));
+	if (tags.size > 0) {
+		merged.tags = Array.from(tags);
+	}
+
+	const createdDates = all
+		.map((business) => business.createdAt)
+		.filter((date): date is Date => !!date)
+		.map((date) => new Date(date).getTime());
+	if (createdDates.length > 0) {
+		merged.createdAt = new Date(Math.min(...createdDates));
+	}
+
+	return merged;
+}
+
+// Whether the survivor was edited after the merge. Undoing puts back the
+// survivor as it was before the merge, so those edits would be lost.
+// Merges recorded without the survivor's update time can't tell.
+export function editedSinceMerge(
+	merge: BusinessMerge,
+	survivor: SavedBusiness | null
+): boolean {
+	if (!survivor?.updatedAt || !merge.survivorUpdatedAt) return false;
+	return (
+		new Date(survivor.updatedAt).getTime() >
+		new Date(merge.survivorUpdatedAt).getTime()
+	);
+}
@@ -0,0 +1,44 @@
+// Helpers for reading uploaded CSV files. Kept apart from routes.ts so they
+// can be tested without a server.
+
+// The cells of one CSV line. Quoted cells may hold the separator and "" for
+// a literal quote, as in the Account Portal's own exports.
+export function splitCSVLine(line: string, separator: string): string[] {
+	const cells: string[] = [];
+	let cell = '';
+	let quoted = false;
+
+	for (let i = 0; i < line.length; i++) {
+		const char = line[i];
+		if (quoted) {
+			if (char === '"' && line[i + 1] === '"') {
+				cell += '"';
+				i++;
+			} else if (char === '"') {
+				quoted = false;
+			} else {
+				cell += char;
+			}
+		} else if (char === '"' && cell.trim() === '') {
+			cell = '';
+			quoted = true;
+		} else if (char === separator) {
+			cells.push(cell.trim());
+			cell = '';
+		} else {
+			cell += char;
+		}
+	}
+	cells.push(cell.trim());
+	return cells;
+}
+
+// Tag names from a Tags cell, e.g. "fintech; remote"
+export function parseTagCell(cell: string | undefined): string[] {
+	if (!cell) return [];
+	const names = cell
+		.split(/[;,|]/)
+		.map((name) => name.trim().slice(0, 40))
+		.filter(Boolean);
+	return Array.from(new Set(names));
+}
@@ -0,0 +1,65 @@
+import {
+	buildMatchIndex,
+	findMatch,
+	normalizeCompanyName,
+	normalizeWebsiteDomain,
+	type MatchableBusiness,
+	type MatchThresholds,
+} from '@shared/matcher';
+
+// Duplicate flags for search results. Every search flow (fresh, cached and
+// state-wide) flags results against the user's saved companies with these
+// helpers; the matching itself lives in shared/matcher.ts.
+
+export type ComparableBusiness = MatchableBusiness;
+
+// duplicateReason explains the match, e.g. "same domain" or "name 93% similar"
+export function markDuplicates<T extends ComparableBusiness>(
+	businesses: T[],
+	savedBusinesses: ComparableBusiness[],
+	thresholds?: MatchThresholds
+): (T & { isDuplicate: boolean; duplicateReason?: string })[] {
+	const index = buildMatchIndex(savedBusinesses);
+	return businesses.map((business) => {
+		const match =
+			savedBusinesses.length > 0
+				? findMatch(business, index, thresholds)
+				: null;
+		return match
+			? {
+					...business,
+					isDuplicate: true,
+					duplicateReason: match.explanation,
+			  }
+			: { ...business, isDuplicate: false };
+	});
+}
+
+// Stable identity for comparing results between two runs of the same search
+export function businessIdentity(business: ComparableBusiness): string {
+	const domain = normalizeWebsiteDomain(business.website);
+	if (domain.includes('.')) {
+		return `domain:${domain}`;
+	}
+	return `name:${normalizeCompanyName(business.name)}`;
+}
+
+// Compare two runs of the same search: what showed up and what dropped out
+export function diffBusinessLists<T extends ComparableBusiness>(
+	current: T[],
+	previous: T[]
+): { added: T[]; removed: T[]; unchangedCount: number } {
+	const previousKeys = new Set(previous.map(businessIdentity));
+	const currentKeys = new Set(current.map(businessIdentity));
+
+	const added = current.filter((b) => !previousKeys.has(businessIdentity(b)));
+	const removed = previous.filter(
+		(b) => !currentKeys.has(businessIdentity(b))
+	);
+
+	return {
+		added,
+		removed,
+		unchangedCount: current.length - added.length,
+	};
+}
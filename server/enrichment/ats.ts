@@ -0,0 +1,376 @@
+import { type AtsPlatform } from '@shared/schema';
+import { z } from 'zod';
+import { fetchJson, fetchPage, type FetchPageOptions } from './http';
+
+// Open postings from the job boards companies host their careers pages on.
+// A board is recognised from its URL, either the careers link itself or a
+// board URL linked or embedded in the careers page, and each platform's
+// public job-board JSON is read for the postings.
+
+export interface AtsBoard {
+	platform: AtsPlatform;
+	slug: string; // The company's board token/name on the platform
+	host: string; // e.g. boards.greenhouse.io or acme.wd5.myworkdayjobs.com
+	site?: string; // Workday career site name
+	boardUrl: string; // Public board page
+}
+
+export interface JobOpening {
+	title: string;
+	url?: string;
+	location?: string;
+}
+
+export interface JobOpenings {
+	board: AtsBoard;
+	total: number;
+	jobs: JobOpening[];
+}
+
+// Postings kept per company; counts still reflect every open posting
+export const MAX_OPENINGS = 100;
+
+// Workday only pages 20 at a time
+const WORKDAY_PAGE_SIZE = 20;
+
+const firstPathSegment = (url: URL) =>
+	url.pathname.split('/').filter(Boolean)[0];
+
+// The job board a URL belongs to, if it's one we can read
+export function detectAtsBoard(link: string): AtsBoard | null {
+	let url: URL;
+	try {
+		url = new URL(link);
+	} catch {
+		return null;
+	}
+	const host = url.hostname.toLowerCase();
+	const segment = firstPathSegment(url);
+
+	// boards.greenhouse.io/acme, job-boards.greenhouse.io/acme, or the
+	// embed script boards.greenhouse.io/embed/job_board/js?for=acme
+	if (/^(job-)?boards(\.eu)?\.greenhouse\.io$/.test(host)) {
+		const slug =
+			segment === 'embed' ? url.searchParams.get('for') : segment;
+		return slug
+			? {
+					platform: 'greenhouse',
+					slug,
+					host,
+					boardUrl: `https://${host}/${slug}`,
+			  }
+			: null;
+	}
+
+	if (/^jobs(\.eu)?\.lever\.co$/.test(host) && segment) {
+		return {
+			platform: 'lever',
+			slug: segment,
+			host,
+			boardUrl: `https://${host}/${segment}`,
+		};
+	}
+
+	if (host === 'jobs.ashbyhq.com' && segment) {
+		return {
+			platform: 'ashby',
+			slug: segment,
+			host,
+			boardUrl: `https://${host}/${segment}`,
+		};
+	}
+
+	if (/^(careers|jobs)\.smartrecruiters\.com$/.test(host) && segment) {
+		return {
+			platform: 'smartrecruiters',
+			slug: segment,
+			host,
+			boardUrl: `https://${host}/${segment}`,
+		};
+	}
+
+	const bamboo = host.match(/^([a-z0-9-]+)\.bamboohr\.com$/);
+	if (bamboo && bamboo[1] !== 'www' && bamboo[1] !== 'api') {
+		return {
+			platform: 'bamboohr',
+			slug: bamboo[1],
+			host,
+			boardUrl: `https://${host}/careers`,
+		};
+	}
+
+	// acme.wd5.myworkdayjobs.com/en-US/External/...
+	const workday = host.match(/^([a-z0-9-]+)\.wd\d+\.myworkdayjobs\.com$/);
+	if (workday) {
+		const segments = url.pathname.split('/').filter(Boolean);
+		const site = segments.find((part) => !/^[a-z]{2}-[A-Z]{2}$/.test(part));
+		return site && site !== 'wday'
+			? {
+					platform: 'workday',
+					slug: workday[1],
+					host,
+					site,
+					boardUrl: `https://${host}/${site}`,
+			  }
+			: null;
+	}
+
+	return null;
+}
+
+// Absolute and protocol-relative URLs anywhere in the HTML, so embed
+// scripts and iframes are found as well as links
+const URL_PATTERN = /(?:https?:)?\/\/[a-z0-9.-]+\.[a-z]{2,}[^\s"'<>)\\]*/gi;
+
+// The job board behind a careers page: the link itself, where it redirects,
+// or a board linked or embedded in the page
+export async function findAtsBoard(
+	careerLink: string,
+	options: FetchPageOptions = {}
+): Promise<AtsBoard | null> {
+	const direct = detectAtsBoard(careerLink);
+	if (direct) return direct;
+
+	const page = await fetchPage(careerLink, options);
+	if (!page?.ok) return null;
+
+	const landed = detectAtsBoard(page.url);
+	if (landed) return landed;
+
+	for (const [match] of Array.from(page.html.matchAll(URL_PATTERN))) {
+		const board = detectAtsBoard(
+			match.startsWith('//')
+				? `https:${match}`
+				: match.replace(/&amp;/g, '&')
+		);
+		if (board) return board;
+	}
+
+	return null;
+}
+
+// The parts of each board API's response we read. Boards are outside our
+// control, so a response that doesn't match is treated like a failed one.
+const optionalText = z
+	.string()
+	.nullish()
+	.transform((value) => value ?? undefined);
+
+const greenhouseSchema = z.object({
+	jobs: z.array(
+		z.object({
+			title: z.string(),
+			absolute_url: optionalText,
+			location: z.object({ name: optionalText }).nullish(),
+		})
+	),
+});
+
+const leverSchema = z.array(
+	z.object({
+		text: z.string(),
+		hostedUrl: optionalText,
+		categories: z.object({ location: optionalText }).nullish(),
+	})
+);
+
+const ashbySchema = z.object({
+	jobs: z.array(
+		z.object({
+			title: z.string(),
+			jobUrl: optionalText,
+			location: optionalText,
+			isListed: z.boolean().nullish(),
+		})
+	),
+});
+
+const bambooSchema = z.object({
+	result: z.array(
+		z.object({
+			id: z.union([z.string(), z.number()]).nullish(),
+			jobOpeningName: z.string(),
+			location: z
+				.object({ city: optionalText, state: optionalText })
+				.nullish(),
+		})
+	),
+});
+
+const smartRecruitersSchema = z.object({
+	totalFound: z.number(),
+	content: z.array(
+		z.object({
+			id: optionalText,
+			name: z.string(),
+			location: z
+				.object({ city: optionalText, region: optionalText })
+				.nullish(),
+		})
+	),
+});
+
+const workdaySchema = z.object({
+	total: z.number().optional(), // Only on the first page
+	jobPostings: z.array(
+		z.object({
+			title: z.string(),
+			externalPath: optionalText,
+			locationsText: optionalText,
+		})
+	),
+});
+
+// Fetch a board API response, or null when it fails or has another shape
+async function fetchBoard<T extends z.ZodTypeAny>(
+	schema: T,
+	url: string,
+	options: Parameters<typeof fetchJson>[1]
+): Promise<z.infer<T> | null> {
+	const parsed = schema.safeParse(await fetchJson<unknown>(url, options));
+	return parsed.success ? parsed.data : null;
+}
+
+const joinLocation = (...parts: (string | undefined)[]) =>
+	parts.filter(Boolean).join(', ') || undefined;
+
+async function fetchWorkdayOpenings(
+	board: AtsBoard,
+	options: FetchPageOptions
+): Promise<JobOpenings | null> {
+	const apiUrl = `https://${board.host}/wday/cxs/${board.slug}/${board.site}/jobs`;
+	const jobs: JobOpening[] = [];
+	let total = 0;
+
+	for (let offset = 0; offset < MAX_OPENINGS; offset += WORKDAY_PAGE_SIZE) {
+		const data = await fetchBoard(workdaySchema, apiUrl, {
+			...options,
+			method: 'POST',
+			body: {
+				appliedFacets: {},
+				limit: WORKDAY_PAGE_SIZE,
+				offset,
+				searchText: '',
+			},
+		});
+		if (!data) return offset === 0 ? null : { board, total, jobs };
+
+		// Workday only reports the total on the first page
+		if (offset === 0) total = data.total ?? data.jobPostings.length;
+		jobs.push(
+			...data.jobPostings.map((job) => ({
+				title: job.title,
+				url: job.externalPath
+					? `${board.boardUrl}${job.externalPath}`
+					: undefined,
+				location: job.locationsText,
+			}))
+		);
+		if (jobs.length >= total || data.jobPostings.length === 0) break;
+	}
+
+	return { board, total, jobs };
+}
+
+// The board's open postings, or null when its API couldn't be read
+export async function fetchJobOpenings(
+	board: AtsBoard,
+	options: FetchPageOptions = {}
+): Promise<JobOpenings | null> {
+	const slug = encodeURIComponent(board.slug);
+	let jobs: JobOpening[];
+	let total: number | undefined;
+
+	switch (board.platform) {
+		case 'greenhouse': {
+			const data = await fetchBoard(
+				greenhouseSchema,
+				`https://boards-api.greenhouse.io/v1/boards/${slug}/jobs`,
+				options
+			);
+			if (!data) return null;
+			jobs = data.jobs.map((job) => ({
+				title: job.title,
+				url: job.absolute_url,
+				location: job.location?.name,
+			}));
+			break;
+		}
+		case 'lever': {
+			const apiHost = board.host.replace(/^jobs\./, 'api.');
+			const data = await fetchBoard(
+				leverSchema,
+				`https://${apiHost}/v0/postings/${slug}?mode=json`,
+				options
+			);
+			if (!data) return null;
+			jobs = data.map((job) => ({
+				title: job.text,
+				url: job.hostedUrl,
+				location: job.categories?.location,
+			}));
+			break;
+		}
+		case 'ashby': {
+			const data = await fetchBoard(
+				ashbySchema,
+				`https://api.ashbyhq.com/posting-api/job-board/${slug}`,
+				options
+			);
+			if (!data) return null;
+			jobs = data.jobs
+				.filter((job) => job.isListed !== false)
+				.map((job) => ({
+					title: job.title,
+					url: job.jobUrl,
+					location: job.location,
+				}));
+			break;
+		}
+		case 'bamboohr': {
+			const data = await fetchBoard(
+				bambooSchema,
+				`https://${board.host}/careers/list`,
+				options
+			);
+			if (!data) return null;
+			jobs = data.result.map((job) => ({
+				title: job.jobOpeningName,
+				url:
+					job.id != null
+						? `https://${board.host}/careers/${job.id}`
+						: undefined,
+				location: joinLocation(job.location?.city, job.location?.state),
+			}));
+			break;
+		}
+		case 'smartrecruiters': {
+			const data = await fetchBoard(
+				smartRecruitersSchema,
+				`https://api.smartrecruiters.com/v1/companies/${slug}/postings?limit=${MAX_OPENINGS}`,
+				options
+			);
+			if (!data) return null;
+			total = data.totalFound;
+			jobs = data.content.map((job) => ({
+				title: job.name,
+				url: job.id
+					? `https://jobs.smartrecruiters.com/${slug}/${job.id}`
+					: undefined,
+				location: joinLocation(
+					job.location?.city,
+					job.location?.region
+				),
+			}));
+			break;
+		}
+		case 'workday':
+			return fetchWorkdayOpenings(board, options);
+	}
+
+	return {
+		board,
+		total: total ?? jobs.length,
+		jobs: jobs.slice(0, MAX_OPENINGS),
+	};
+}
@@ -0,0 +1,216 @@
+import { type CareerLinkConfidence } from '@shared/schema';
+import {
+	extractLinks,
+	fetchPage,
+	htmlToText,
+	toWebsiteUrl,
+	type FetchedPage,
+	type FetchPageOptions,
+	type PageLink,
+} from './http';
+
+// Finds a company's real careers page. The homepage's own links are the best
+// evidence, so those are tried first; after that we guess the usual paths
+// and careers./jobs. subdomains. A candidate only counts when it responds
+// and didn't just redirect back to the homepage.
+
+export interface CareersPage {
+	url: string;
+	confidence: CareerLinkConfidence;
+	source: 'homepage link' | 'common path' | 'subdomain';
+}
+
+export const CAREER_PATHS = [
+	'/careers',
+	'/jobs',
+	'/join-us',
+	'/work-with-us',
+	'/about/careers',
+	'/company/careers',
+	'/about-us/careers',
+	'/employment',
+];
+
+const CAREER_SUBDOMAINS = ['careers', 'jobs'];
+
+// Hosted job boards companies link to instead of their own careers page
+const ATS_HOST_PATTERN =
+	/(^|\.)(greenhouse\.io|lever\.co|myworkdayjobs\.com|ashbyhq\.com|bamboohr\.com|smartrecruiters\.com|workable\.com|jobvite\.com|recruitee\.com|breezy\.hr|applytojob\.com)$/i;
+
+// Sites whose "jobs" links aren't the company's careers page
+const IGNORED_HOST_PATTERN =
+	/(^|\.)(linkedin\.com|facebook\.com|twitter\.com|x\.com|instagram\.com|youtube\.com|indeed\.com|glassdoor\.com|ziprecruiter\.com)$/i;
+
+const CAREER_TEXT_PATTERN =
+	/\b(careers?|jobs?|join\s+(us|our\s+team|the\s+team)|work\s+with\s+us|work\s+for\s+us|we'?re\s+hiring|hiring|employment|vacancies|open\s+positions)\b/i;
+
+const CAREER_HREF_PATTERN =
+	/\/(careers?|jobs?|join-?us|work-?with-?us|work-?for-?us|employment|vacancies|hiring)(\/|\.html?$|$)/i;
+
+// Wording that shows a page is about jobs, not just a page with a
+// "Careers" link in its nav
+const CAREER_CONTENT_PATTERN =
+	/\b(open\s+(positions|roles)|job\s+(openings|listings)|current\s+(openings|vacancies)|apply\s+now|we'?re\s+hiring|join\s+our\s+team|vacancies|view\s+(all\s+)?jobs|positions\s+available)\b/i;
+
+// Homepage links worth checking, at most
+const MAX_LINK_CANDIDATES = 5;
+
+const stripWww = (hostname: string) => hostname.replace(/^www\./i, '');
+
+const isIpOrLocal = (hostname: string) =>
+	hostname === 'localhost' ||
+	/^[\d.]+$/.test(hostname) ||
+	hostname.includes(':');
+
+export function isAtsUrl(url: string): boolean {
+	try {
+		return ATS_HOST_PATTERN.test(new URL(url).hostname);
+	} catch {
+		return false;
+	}
+}
+
+// Where a redirect landed back on the homepage, i.e. the path doesn't exist
+function isHomepage(url: string, home: URL): boolean {
+	const landed = new URL(url);
+	const path = landed.pathname.replace(/\/+$/, '');
+	return (
+		stripWww(landed.hostname) === stripWww(home.hostname) &&
+		(path === '' || path === home.pathname.replace(/\/+$/, ''))
+	);
+}
+
+function looksLikeCareersPage(page: FetchedPage): boolean {
+	const title = page.html.match(/<title[^>]*>([\s\S]*?)<\/title>/i)?.[1];
+	return (
+		(!!title && CAREER_TEXT_PATTERN.test(title)) ||
+		CAREER_CONTENT_PATTERN.test(htmlToText(page.html))
+	);
+}
+
+// Homepage links that look like they lead to jobs, best first
+export function findCareerLinks(links: PageLink[], home: URL): PageLink[] {
+	const scored = links
+		.map((link) => {
+			const url = new URL(link.url);
+			if (IGNORED_HOST_PATTERN.test(url.hostname)) return null;
+			if (isHomepage(link.url, home)) return null;
+
+			const score =
+				(ATS_HOST_PATTERN.test(url.hostname) ? 4 : 0) +
+				(CAREER_TEXT_PATTERN.test(link.text) ? 2 : 0) +
+				(CAREER_HREF_PATTERN.test(url.pathname) ? 1 : 0) +
+				(CAREER_SUBDOMAINS.some((sub) =>
+					url.hostname.startsWith(`${sub}.`)
+				)
+					? 1
+					: 0);
+			return score > 0 ? { link, score } : null;
+		})
+		.filter((c): c is { link: PageLink; score: number } => c !== null);
+
+	// Stable sort keeps page order among equal scores
+	return scored
+		.sort((a, b) => b.score - a.score)
+		.slice(0, MAX_LINK_CANDIDATES)
+		.map(({ link }) => link);
+}
+
+// Guessed careers URLs for a site: common paths, then subdomains
+export function guessCareerUrls(home: URL): {
+	url: string;
+	source: CareersPage['source'];
+}[] {
+	const guesses = CAREER_PATHS.map(
+		(path): { url: string; source: CareersPage['source'] } => ({
+			url: new URL(path, home.origin).toString(),
+			source: 'common path',
+		})
+	);
+
+	if (!isIpOrLocal(home.hostname)) {
+		const domain = stripWww(home.hostname);
+		for (const sub of CAREER_SUBDOMAINS) {
+			guesses.push({
+				url: `${home.protocol}//${sub}.${domain}/`,
+				source: 'subdomain',
+			});
+		}
+	}
+
+	return guesses;
+}
+
+// The company's careers page, or null when none could be confirmed
+export async function discoverCareersPage(
+	website: string | undefined,
+	options: FetchPageOptions = {}
+): Promise<CareersPage | null> {
+	const site = toWebsiteUrl(website);
+	if (!site) return null;
+
+	// An unreachable site has nothing to find
+	const homePage = await fetchPage(site.toString(), options);
+	if (!homePage) return null;
+	const home = new URL(homePage.url);
+
+	const verify = async (url: string) => {
+		const page = await fetchPage(url, options);
+		return page?.ok && !isHomepage(page.url, home) ? page : null;
+	};
+
+	if (homePage.ok) {
+		for (const link of findCareerLinks(
+			extractLinks(homePage.html, homePage.url),
+			home
+		)) {
+			const page = await verify(link.url);
+			if (!page) continue;
+
+			// A link found only by its URL shape is weaker than one that
+			// says "Careers" or goes to a job board
+			const strong =
+				isAtsUrl(page.url) ||
+				CAREER_TEXT_PATTERN.test(link.text) ||
+				looksLikeCareersPage(page);
+			return {
+				url: page.url,
+				confidence: strong ? 'high' : 'medium',
+				source: 'homepage link',
+			};
+		}
+	}
+
+	// Sites that answer 200 for any path make an unverified guess worthless
+	const probe = await fetchPage(
+		new URL(
+			`/careers-check-${Date.now().toString(36)}`,
+			home.origin
+		).toString(),
+		options
+	);
+	const answersEverything = !!probe?.ok;
+
+	let fallback: CareersPage | null = null;
+	for (const guess of guessCareerUrls(home)) {
+		const page = await verify(guess.url);
+		if (!page) continue;
+
+		if (looksLikeCareersPage(page)) {
+			return {
+				url: page.url,
+				confidence: 'medium',
+				source: guess.source,
+			};
+		}
+		if (!fallback && !answersEverything) {
+			fallback = {
+				url: page.url,
+				confidence: 'low',
+				source: guess.source,
+			};
+		}
+	}
+
+	return fallback;
+}
@@ -0,0 +1,194 @@
+import { type BusinessContacts, type ContactDetail } from '@shared/schema';
+import { normalizePhone } from '@shared/matcher';
+import {
+	extractLinks,
+	fetchPage,
+	htmlToText,
+	toWebsiteUrl,
+	type FetchedPage,
+	type FetchPageOptions,
+} from './http';
+
+// Published contact details from a company's own website: the homepage and
+// up to a few contact/about pages it links to. Every detail keeps the URL
+// of the page it was found on.
+
+// Contact and about pages checked after the homepage, at most
+const MAX_CONTACT_PAGES = 3;
+
+// Details kept per business; real sites list a handful
+const MAX_EMAILS = 10;
+const MAX_PHONES = 5;
+
+const CONTACT_PAGE_PATTERN =
+	/\b(contact|about|team|impressum|locations?|get\s+in\s+touch|reach\s+us)\b|\/(contact|about|team|impressum|locations?)/i;
+
+const EMAIL_PATTERN = /[a-z0-9._%+-]+@[a-z0-9.-]+\.[a-z]{2,}/gi;
+
+// Addresses from site builders, monitoring and placeholder text, and
+// "image@2x.png" style asset names that look like emails
+const IGNORED_EMAIL_PATTERN =
+	/(@(example|sentry|wixpress|domain|email|yourdomain|sentry-next)\.|\.(png|jpe?g|gif|svg|webp|css|js)$|^(your|name|email|user)@)/i;
+
+// US-style numbers in page text; tel: links catch the rest
+const PHONE_PATTERN =
+	/(?:\+?1[\s.-]?)?\(?\b[2-9]\d{2}\)?[\s.-]\d{3}[\s.-]\d{4}\b/g;
+
+type SocialNetwork = 'linkedin' | 'x' | 'github';
+
+// Profile URLs, not share buttons or the networks' own pages
+const SOCIAL_PATTERNS: [SocialNetwork, RegExp][] = [
+	[
+		'linkedin',
+		/^https?:\/\/([a-z]{2,3}\.)?linkedin\.com\/(company|school|in)\/[^/?#]+/i,
+	],
+	[
+		'x',
+		/^https?:\/\/(www\.)?(twitter|x)\.com\/(?!share|intent|home|search|hashtag|i\/)[a-z0-9_]{1,15}\/?(\?.*)?$/i,
+	],
+	[
+		'github',
+		/^https?:\/\/(www\.)?github\.com\/(?!features|about|pricing|login|sponsors)[a-z0-9-]+\/?$/i,
+	],
+];
+
+const safeDecode = (value: string) => {
+	try {
+		return decodeURIComponent(value);
+	} catch {
+		return value;
+	}
+};
+
+interface PageContacts {
+	emails: string[];
+	phones: string[];
+	socials: Partial<Record<SocialNetwork, string>>;
+}
+
+// Contact details published on a single page
+export function extractContacts(page: FetchedPage): PageContacts {
+	const links = extractLinks(page.html, page.url);
+	const text = htmlToText(page.html);
+
+	// mailto: and tel: aren't http links, so read them from the HTML
+	const mailtos = Array.from(
+		page.html.matchAll(/href\s*=\s*["']mailto:([^"'?]+)/gi),
+		([, address]) => safeDecode(address)
+	);
+	const tels = Array.from(
+		page.html.matchAll(/href\s*=\s*["']tel:([^"']+)/gi),
+		([, number]) => safeDecode(number)
+	);
+
+	const emails = new Map<string, string>();
+	for (const email of [...mailtos, ...(text.match(EMAIL_PATTERN) || [])]) {
+		const trimmed = email.trim().replace(/\.$/, '');
+		if (!IGNORED_EMAIL_PATTERN.test(trimmed)) {
+			emails.set(trimmed.toLowerCase(), trimmed);
+		}
+	}
+
+	const phones = new Map<string, string>();
+	for (const phone of [...tels, ...(text.match(PHONE_PATTERN) || [])]) {
+		const digits = normalizePhone(phone);
+		if (digits.length >= 10 && !phones.has(digits)) {
+			phones.set(digits, phone.trim());
+		}
+	}
+
+	const socials: PageContacts['socials'] = {};
+	for (const link of links) {
+		for (const [network, pattern] of SOCIAL_PATTERNS) {
+			if (!socials[network] && pattern.test(link.url)) {
+				const url = new URL(link.url);
+				url.search = '';
+				socials[network] = url.toString().replace(/\/$/, '');
+			}
+		}
+	}
+
+	return {
+		emails: Array.from(emails.values()),
+		phones: Array.from(phones.values()),
+		socials,
+	};
+}
+
+// Same-site pages likely to list contact details
+export function findContactPages(page: FetchedPage): string[] {
+	const host = new URL(page.url).hostname.replace(/^www\./, '');
+	return extractLinks(page.html, page.url)
+		.filter((link) => {
+			const url = new URL(link.url);
+			return (
+				url.hostname.replace(/^www\./, '') === host &&
+				link.url !== page.url &&
+				(CONTACT_PAGE_PATTERN.test(link.text) ||
+					CONTACT_PAGE_PATTERN.test(url.pathname))
+			);
+		})
+		.map((link) => link.url)
+		.slice(0, MAX_CONTACT_PAGES);
+}
+
+// Crawl the homepage and its contact/about pages. Null when the site
+// couldn't be read at all.
+export async function crawlContacts(
+	website: string | undefined,
+	options: FetchPageOptions = {}
+): Promise<BusinessContacts | null> {
+	const site = toWebsiteUrl(website);
+	if (!site) return null;
+
+	const home = await fetchPage(site.toString(), options);
+	if (!home?.ok) return null;
+
+	const pages = [home];
+	for (const url of findContactPages(home)) {
+		const page = await fetchPage(url, options);
+		if (page?.ok) pages.push(page);
+	}
+
+	const contacts: BusinessContacts = {
+		emails: [],
+		phones: [],
+		checkedAt: new Date(),
+	};
+	const seen = new Set<string>();
+	const add = (list: ContactDetail[], key: string, detail: ContactDetail) => {
+		if (!seen.has(key)) {
+			seen.add(key);
+			list.push(detail);
+		}
+	};
+
+	// The first page a detail appears on is its source
+	for (const page of pages) {
+		const found = extractContacts(page);
+		for (const email of found.emails) {
+			add(contacts.emails, `email:${email.toLowerCase()}`, {
+				value: email,
+				sourceUrl: page.url,
+			});
+		}
+		for (const phone of found.phones) {
+			add(contacts.phones, `phone:${normalizePhone(phone)}`, {
+				value: phone,
+				sourceUrl: page.url,
+			});
+		}
+		for (const [network, url] of Object.entries(found.socials) as [
+			SocialNetwork,
+			string
+		][]) {
+			if (!contacts[network]) {
+				contacts[network] = { value: url, sourceUrl: page.url };
+			}
+		}
+	}
+
+	contacts.emails = contacts.emails.slice(0, MAX_EMAILS);
+	contacts.phones = contacts.phones.slice(0, MAX_PHONES);
+	return contacts;
+}
@@ -0,0 +1,130 @@
+import { type WebsiteHealth } from '@shared/schema';
+import {
+	requestPage,
+	toWebsiteUrl,
+	type FetchedPage,
+	type FetchFailure,
+	type FetchPageOptions,
+} from './http';
+
+// Whether a stored website still works: where it ends up after redirects,
+// whether its certificate is valid, and whether the domain is just parked
+// or for sale.
+
+// Handshake failures Node reports for bad certificates
+const TLS_ERROR_PATTERN =
+	/^(CERT_|ERR_TLS_|ERR_SSL_|UNABLE_TO_(GET|VERIFY)_|DEPTH_ZERO_SELF_SIGNED_CERT|SELF_SIGNED_CERT_IN_CHAIN|HOSTNAME_MISMATCH)/;
+
+// Statuses from sites that exist but turned the checker away
+const BLOCKED_STATUSES = [401, 403, 429];
+
+// Domain marketplaces and parking services
+const PARKING_HOST_PATTERN =
+	/(^|\.)(sedo\.com|sedoparking\.com|dan\.com|afternic\.com|hugedomains\.com|bodis\.com|parkingcrew\.net|above\.com|undeveloped\.com|buydomains\.com|domainmarket\.com|squadhelp\.com|atom\.com|parklogic\.com)$/i;
+
+const PARKING_SCRIPT_PATTERN =
+	/(sedoparking\.com|parkingcrew\.net|bodis\.com|parklogic\.com|img\.sedoparking|domainparking)/i;
+
+const FOR_SALE_PATTERN =
+	/(this domain (name )?(is|may be) for sale|buy this domain|make an offer on this domain|domain is available for (sale|purchase)|this domain has (been registered|expired)|this (web )?page is parked|parked free|domain parking)/i;
+
+const stripWww = (hostname: string) => hostname.replace(/^www\./i, '');
+
+const isTlsFailure = (failure: FetchFailure) =>
+	TLS_ERROR_PATTERN.test(failure.code);
+
+// Why a page looks like a parked or for-sale domain, if it does
+export function detectParkedDomain(page: FetchedPage): string | undefined {
+	const host = new URL(page.url).hostname;
+	if (PARKING_HOST_PATTERN.test(host)) {
+		return `redirects to ${stripWww(host)}`;
+	}
+	if (FOR_SALE_PATTERN.test(page.html)) {
+		return 'says the domain is for sale or parked';
+	}
+	if (PARKING_SCRIPT_PATTERN.test(page.html)) {
+		return 'uses a domain parking service';
+	}
+	return undefined;
+}
+
+// The form a website is stored in: scheme, host and path, without a
+// trailing slash, query or fragment
+export function canonicalWebsite(url: string): string {
+	const parsed = new URL(url);
+	return `${parsed.protocol}//${parsed.host}${parsed.pathname.replace(
+		/\/+$/,
+		''
+	)}`;
+}
+
+// Check a stored website, or null when it isn't a URL at all
+export async function checkWebsiteHealth(
+	website: string | undefined,
+	options: FetchPageOptions = {}
+): Promise<WebsiteHealth | null> {
+	const site = toWebsiteUrl(website);
+	if (!site) return null;
+
+	let result = await requestPage(site.toString(), options);
+	let tlsValid: boolean | undefined;
+
+	// A bad certificate doesn't mean the site is down; see whether it
+	// answers without TLS
+	if (
+		!result.page &&
+		site.protocol === 'https:' &&
+		isTlsFailure(result.failure)
+	) {
+		tlsValid = false;
+		const plain = new URL(site.toString());
+		plain.protocol = 'http:';
+		const retry = await requestPage(plain.toString(), options);
+		if (retry.page) result = retry;
+	}
+
+	const checkedAt = new Date();
+	if (!result.page) {
+		return {
+			status: 'unreachable',
+			...(tlsValid !== undefined && { tlsValid }),
+			error: `${result.failure.code}: ${result.failure.message}`,
+			checkedAt,
+		};
+	}
+
+	const page = result.page;
+	const final = new URL(page.url);
+	if (tlsValid === undefined && final.protocol === 'https:') {
+		tlsValid = true;
+	}
+
+	const parkedReason = detectParkedDomain(page);
+	const status: WebsiteHealth['status'] = parkedReason
+		? 'parked'
+		: BLOCKED_STATUSES.includes(page.status)
+		? 'blocked'
+		: !page.ok
+		? 'broken'
+		: stripWww(final.hostname) !== stripWww(site.hostname)
+		? 'redirected'
+		: 'ok';
+
+	// Only worth offering for a working page that differs from what's stored
+	const canonical = canonicalWebsite(page.url);
+	const canonicalUrl =
+		(status === 'ok' || status === 'redirected') &&
+		canonical !== website!.trim().replace(/\/+$/, '')
+			? canonical
+			: undefined;
+
+	return {
+		status,
+		httpStatus: page.status,
+		finalUrl: page.url,
+		...(canonicalUrl && { canonicalUrl }),
+		...(tlsValid !== undefined && { tlsValid }),
+		...(parkedReason && { parkedReason }),
+		checkedAt,
+	};
+}
@@ -0,0 +1,447 @@
+// Small HTTP helpers for looking at company websites. Pages are fetched with
+// a timeout and a size cap, and links are pulled out of the HTML with a
+// regex; we only need hrefs and link text, not a full DOM.
+//
+// Websites come from users, so every request (and every redirect) must go
+// to a public address; otherwise a stored "website" could make the server
+// read its own network and hand the page back.
+import { BlockList, isIP, type LookupFunction } from 'net';
+import { lookup as dnsLookupAll } from 'dns';
+import { lookup as dnsLookup } from 'dns/promises';
+import { Agent } from 'undici';
+
+export type FetchLike = typeof fetch;
+
+// Every address a hostname resolves to
+export type HostLookup = (hostname: string) => Promise<string[]>;
+
+export interface FetchPageOptions {
+	timeoutMs?: number;
+	fetch?: FetchLike;
+	lookup?: HostLookup;
+}
+
+export interface FetchedPage {
+	url: string; // Final URL after redirects
+	status: number;
+	ok: boolean;
+	redirected: boolean;
+	contentType: string;
+	html: string;
+}
+
+export interface PageLink {
+	url: string; // Absolute
+	text: string;
+}
+
+export const DEFAULT_FETCH_TIMEOUT_MS = 8000;
+
+// Enough for the links on any real homepage, in bytes
+const MAX_HTML_LENGTH = 500_000;
+
+// Job board APIs list every posting in one response
+const MAX_JSON_LENGTH = 5_000_000;
+
+const MAX_REDIRECTS = 5;
+
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+const USER_AGENT = 'Mozilla/5.0 (compatible; CompanyHunter/1.0)';
+
+// Turn a stored website ("acme.io", "https://acme.io/about") into a URL we
+// can fetch, or null when it isn't one
+export function toWebsiteUrl(website: string | undefined): URL | null {
+	const trimmed = website?.trim();
+	if (!trimmed) return null;
+
+	try {
+		const url = new URL(
+			/^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`
+		);
+		return url.hostname.includes('.') ? url : null;
+	} catch {
+		return null;
+	}
+}
+
+// Loopback, private, link-local (including cloud metadata at
+// 169.254.169.254), shared, multicast and reserved ranges
+const NON_PUBLIC = new BlockList();
+for (const [network, prefix] of [
+	['0.0.0.0', 8],
+	['10.0.0.0', 8],
+	['100.64.0.0', 10],
+	['127.0.0.0', 8],
+	['169.254.0.0', 16],
+	['172.16.0.0', 12],
+	['192.0.0.0', 24],
+	['192.0.2.0', 24],
+	['192.168.0.0', 16],
+	['198.18.0.0', 15],
+	['198.51.100.0', 24],
+	['203.0.113.0', 24],
+	['224.0.0.0', 4],
+	['240.0.0.0', 4],
+] as const) {
+	NON_PUBLIC.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+	// IPv4-mapped addresses (::ffff:a.b.c.d) are checked against the IPv4
+	// ranges by BlockList itself
+	['::', 96], // Unspecified, loopback and IPv4-compatible
+	['64:ff9b::', 96], // IPv4/IPv6 translation
+	['100::', 64],
+	['2001:db8::', 32],
+	['fc00::', 7],
+	['fe80::', 10],
+	['ff00::', 8],
+] as const) {
+	NON_PUBLIC.addSubnet(network, prefix, 'ipv6');
+}
+
+export function isPublicAddress(address: string): boolean {
+	const family = isIP(address);
+	if (family === 0) return false;
+	return !NON_PUBLIC.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+const blocked = (message: string) =>
+	Object.assign(new Error(message), { code: 'BLOCKED_ADDRESS' });
+
+const defaultLookup: HostLookup = async (hostname) =>
+	(await dnsLookup(hostname, { all: true })).map((entry) => entry.address);
+
+// The lookup sockets connect through. A host could answer the check in
+// assertPublicUrl() with a public address and the connection's own lookup
+// with a private one, so the addresses are checked again here, on the
+// answer the connection actually uses.
+const publicOnlyLookup: LookupFunction = (hostname, options, callback) => {
+	dnsLookupAll(hostname, { ...options, all: true }, (error, addresses) => {
+		if (error) return callback(error, '');
+		if (
+			addresses.length === 0 ||
+			!addresses.every(({ address }) => isPublicAddress(address))
+		) {
+			return callback(blocked(`${hostname} is not a public address`), '');
+		}
+		if (options.all) return callback(null, addresses);
+		callback(null, addresses[0].address, addresses[0].family);
+	});
+};
+
+const publicOnlyAgent = new Agent({ connect: { lookup: publicOnlyLookup } });
+
+// Throws unless the URL is http(s) on a host whose addresses are all public
+async function assertPublicUrl(url: URL, lookup: HostLookup): Promise<void> {
+	if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+		throw blocked(`${url.protocol} URLs are not fetched`);
+	}
+	const hostname = url.hostname.replace(/^\[|\]$/g, '');
+	const addresses = isIP(hostname) ? [hostname] : await lookup(hostname);
+	if (addresses.length === 0 || !addresses.every(isPublicAddress)) {
+		throw blocked(`${hostname} is not a public address`);
+	}
+}
+
+// Fetch a URL, following redirects ourselves so each hop's host is checked
+// before it's requested
+async function fetchPublic(
+	url: string,
+	init: RequestInit,
+	options: FetchPageOptions
+): Promise<{ response: Response; url: string; redirected: boolean }> {
+	const fetchFn = options.fetch || fetch;
+	const lookup = options.lookup || defaultLookup;
+	let current = new URL(url);
+	let request = init;
+
+	for (let hop = 0; ; hop++) {
+		await assertPublicUrl(current, lookup);
+		// Node's fetch takes an undici dispatcher, which RequestInit doesn't
+		// declare
+		const hopInit: RequestInit & { dispatcher: Agent } = {
+			...request,
+			redirect: 'manual',
+			dispatcher: publicOnlyAgent,
+		};
+		const response = await fetchFn(current.toString(), hopInit);
+		const location = response.headers.get('location');
+		if (!REDIRECT_STATUSES.includes(response.status) || !location) {
+			return { response, url: current.toString(), redirected: hop > 0 };
+		}
+
+		await response.body?.cancel();
+		if (hop >= MAX_REDIRECTS) {
+			throw Object.assign(new Error('Too many redirects'), {
+				code: 'TOO_MANY_REDIRECTS',
+			});
+		}
+		current = new URL(location, current);
+		// Like browsers, a 303 (or a 301/302 after a POST) becomes a GET
+		if (
+			response.status === 303 ||
+			(request.method === 'POST' &&
+				response.status !== 307 &&
+				response.status !== 308)
+		) {
+			request = { ...request, method: 'GET', body: undefined };
+		}
+	}
+}
+
+// The body as text, reading no more than maxBytes: null when the response
+// says it's longer, otherwise cut off at the limit
+async function readCapped(
+	response: Response,
+	maxBytes: number
+): Promise<{ text: string; truncated: boolean } | null> {
+	const declared = Number(response.headers.get('content-length'));
+	if (declared > maxBytes) {
+		await response.body?.cancel();
+		return null;
+	}
+	if (!response.body) return { text: '', truncated: false };
+
+	const reader = response.body.getReader();
+	const chunks: Uint8Array[] = [];
+	let length = 0;
+	let truncated = false;
+	while (true) {
+		const { done, value } = await reader.read();
+		if (done) break;
+		const room = maxBytes - length;
+		if (value.length > room) {
+			chunks.push(value.subarray(0, room));
+			truncated = true;
+			await reader.cancel();
+			break;
+		}
+		chunks.push(value);
+		length += value.length;
+	}
+	return { text: Buffer.concat(chunks).toString('utf8'), truncated };
+}
+
+// The parts of a thrown value a fetch failure is described with
+function errorDetails(error: unknown): {
+	code?: string;
+	message?: string;
+	cause?: unknown;
+} {
+	if (typeof error !== 'object' || error === null) return {};
+	const { code, message, cause } = error as Record<string, unknown>;
+	return {
+		code: typeof code === 'string' ? code : undefined,
+		message: typeof message === 'string' ? message : undefined,
+		cause,
+	};
+}
+
+// Why a page couldn't be fetched at all: a timeout, a DNS or connection
+// failure, a certificate the TLS handshake rejected, or an address that
+// isn't public
+export interface FetchFailure {
+	code: string; // e.g. TIMEOUT, ENOTFOUND, CERT_HAS_EXPIRED, BLOCKED_ADDRESS
+	message: string;
+}
+
+export type PageRequestResult =
+	| { page: FetchedPage; failure?: undefined }
+	| { page: null; failure: FetchFailure };
+
+// Fetch a page, following redirects, and say why when there's no response.
+// HTTP error statuses are still a page, with ok: false.
+export async function requestPage(
+	url: string,
+	options: FetchPageOptions = {}
+): Promise<PageRequestResult> {
+	const controller = new AbortController();
+	const timer = setTimeout(
+		() => controller.abort(),
+		options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS
+	);
+
+	try {
+		const {
+			response,
+			url: finalUrl,
+			redirected,
+		} = await fetchPublic(
+			url,
+			{
+				signal: controller.signal,
+				headers: {
+					'User-Agent': USER_AGENT,
+					Accept: 'text/html,application/xhtml+xml,*/*;q=0.8',
+				},
+			},
+			options
+		);
+		const contentType = response.headers.get('content-type') || '';
+		let html = '';
+		if (contentType.includes('html')) {
+			// A page too big to read is still a page, just without links
+			html = (await readCapped(response, MAX_HTML_LENGTH))?.text || '';
+		} else {
+			await response.body?.cancel();
+		}
+
+		return {
+			page: {
+				url: finalUrl,
+				status: response.status,
+				ok: response.ok,
+				redirected,
+				contentType,
+				html,
+			},
+		};
+	} catch (error) {
+		// Node's fetch puts the network error code on the cause
+		const reason = errorDetails(error);
+		const cause = errorDetails(reason.cause);
+		const code = controller.signal.aborted
+			? 'TIMEOUT'
+			: cause.code || reason.code || 'FETCH_FAILED';
+		return {
+			page: null,
+			failure: {
+				code,
+				message: cause.message || reason.message || code,
+			},
+		};
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+// Fetch a page, following redirects. Network errors and timeouts return
+// null; HTTP error statuses come back with ok: false.
+export async function fetchPage(
+	url: string,
+	options: FetchPageOptions = {}
+): Promise<FetchedPage | null> {
+	return (await requestPage(url, options)).page;
+}
+
+// Fetch and parse a JSON API response. Anything but a 2xx JSON body,
+// including network errors and timeouts, returns null.
+export async function fetchJson<T>(
+	url: string,
+	options: FetchPageOptions & { method?: 'GET' | 'POST'; body?: unknown } = {}
+): Promise<T | null> {
+	const controller = new AbortController();
+	const timer = setTimeout(
+		() => controller.abort(),
+		options.timeoutMs ?? DEFAULT_FETCH_TIMEOUT_MS
+	);
+
+	try {
+		const { response } = await fetchPublic(
+			url,
+			{
+				method: options.method || 'GET',
+				signal: controller.signal,
+				headers: {
+					'User-Agent': USER_AGENT,
+					Accept: 'application/json',
+					...(options.body !== undefined && {
+						'Content-Type': 'application/json',
+					}),
+				},
+				body:
+					options.body !== undefined
+						? JSON.stringify(options.body)
+						: undefined,
+			},
+			options
+		);
+		if (!response.ok) {
+			await response.body?.cancel();
+			return null;
+		}
+		const body = await readCapped(response, MAX_JSON_LENGTH);
+		if (!body || body.truncated) return null;
+		return JSON.parse(body.text) as T;
+	} catch {
+		return null;
+	} finally {
+		clearTimeout(timer);
+	}
+}
+
+const ANCHOR_PATTERN =
+	/<a\b[^>]*?\bhref\s*=\s*(["'])(.*?)\1[^>]*>([\s\S]*?)<\/a>/gi;
+
+const decodeEntities = (text: string) =>
+	text
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&amp;/g, '&')
+		.replace(/&#39;|&apos;/g, "'")
+		.replace(/&quot;/g, '"');
+
+// Visible text of an HTML fragment
+export function htmlToText(html: string): string {
+	return decodeEntities(
+		html
+			.replace(/<(script|style)\b[\s\S]*?<\/\1>/gi, ' ')
+			.replace(/<[^>]+>/g, ' ')
+	)
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+// Every http(s) link on a page, resolved against the page URL
+export function extractLinks(html: string, baseUrl: string): PageLink[] {
+	const links: PageLink[] = [];
+	const seen = new Set<string>();
+
+	for (const [, , href, inner] of Array.from(html.matchAll(ANCHOR_PATTERN))) {
+		let url: URL;
+		try {
+			url = new URL(decodeEntities(href.trim()), baseUrl);
+		} catch {
+			continue;
+		}
+		if (url.protocol !== 'http:' && url.protocol !== 'https:') continue;
+
+		url.hash = '';
+		const key = url.toString();
+		if (seen.has(key)) continue;
+		seen.add(key);
+
+		// Image-only links still say where they go through alt/title text
+		const label = inner.match(
+			/\b(?:alt|title|aria-label)\s*=\s*(["'])(.*?)\1/i
+		);
+		links.push({
+			url: key,
+			text: htmlToText(inner) || label?.[2] || '',
+		});
+	}
+
+	return links;
+}
+
+// Run fn over items with at most `limit` running at once, keeping order
+export async function mapWithConcurrency<T, R>(
+	items: T[],
+	limit: number,
+	fn: (item: T) => Promise<R>
+): Promise<R[]> {
+	const results: R[] = new Array(items.length);
+	let next = 0;
+
+	const worker = async () => {
+		while (next < items.length) {
+			const i = next++;
+			results[i] = await fn(items[i]);
+		}
+	};
+
+	await Promise.all(
+		Array.from({ length: Math.min(limit, items.length) }, worker)
+	);
+	return results;
+}
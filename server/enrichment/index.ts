@@ -0,0 +1,13 @@
+// Enrichment looks at a saved business's own website to fill in what the
+// Places listing doesn't have. Each check is a pure function of the site, so
+// routes decide what to store and tests run against a local server.
+
+export * from './http';
+export * from './careers';
+export * from './ats';
+export * from './health';
+export * from './contacts';
+
+// Bulk checks look at up to this many businesses per job, this many at a time
+export const ENRICHMENT_BATCH_LIMIT = 500;
+export const ENRICHMENT_CONCURRENCY = 4;
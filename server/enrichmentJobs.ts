@@ -0,0 +1,147 @@
+import { randomUUID } from 'crypto';
+import { type SavedBusiness } from '@shared/schema';
+import { ENRICHMENT_CONCURRENCY, mapWithConcurrency } from './enrichment';
+
+// Background bulk enrichment. Checking a list's websites can take minutes, so
+// the bulk routes submit a job and answer right away; the client polls the
+// job until it's finished. Jobs live in memory, like search jobs.
+
+export type EnrichmentJobKind =
+	| 'discover-careers'
+	| 'check-jobs'
+	| 'check-websites'
+	| 'extract-contacts';
+
+export type EnrichmentJobStatus = 'running' | 'done' | 'failed';
+
+export interface EnrichmentJob {
+	id: string;
+	userId: string;
+	kind: EnrichmentJobKind;
+	status: EnrichmentJobStatus;
+	total: number; // Businesses the job checks
+	checked: number;
+	failed: number; // Businesses whose check errored
+	// Businesses left out because the list was over the batch limit
+	remaining: number;
+	// Tallies the checks report, e.g. how many careers pages were found
+	counts: Record<string, number>;
+	error?: string;
+	createdAt: string;
+	finishedAt?: string;
+}
+
+// Checks one business and returns what to tally for it
+export type EnrichmentCheck = (business: SavedBusiness) => Promise<string[]>;
+
+// Finished jobs stay around long enough for the client's last poll
+const FINISHED_JOB_TTL = 60 * 60 * 1000; // 1 hour
+
+export class EnrichmentJobRegistry {
+	private jobs: Map<string, EnrichmentJob>;
+	private concurrency: number;
+	private finishedTtl: number;
+
+	constructor(
+		concurrency: number = ENRICHMENT_CONCURRENCY,
+		finishedTtl: number = FINISHED_JOB_TTL
+	) {
+		this.jobs = new Map();
+		this.concurrency = concurrency;
+		this.finishedTtl = finishedTtl;
+	}
+
+	// Start checking the businesses in the background
+	submit(
+		userId: string,
+		kind: EnrichmentJobKind,
+		businesses: SavedBusiness[],
+		check: EnrichmentCheck,
+		remaining: number = 0
+	): EnrichmentJob {
+		this.pruneFinishedJobs();
+
+		const job: EnrichmentJob = {
+			id: randomUUID(),
+			userId,
+			kind,
+			status: 'running',
+			total: businesses.length,
+			checked: 0,
+			failed: 0,
+			remaining,
+			counts: {},
+			createdAt: new Date().toISOString(),
+		};
+		this.jobs.set(job.id, job);
+		this.run(job, businesses, check);
+
+		return { ...job, counts: { ...job.counts } };
+	}
+
+	get(userId: string, id: string): EnrichmentJob | undefined {
+		const job = this.jobs.get(id);
+		return job && job.userId === userId
+			? { ...job, counts: { ...job.counts } }
+			: undefined;
+	}
+
+	// The user's unfinished job of this kind, if any. One runs at a time so
+	// repeated clicks don't check the same sites over and over.
+	active(userId: string, kind: EnrichmentJobKind): EnrichmentJob | undefined {
+		const job = Array.from(this.jobs.values()).find(
+			(j) =>
+				j.userId === userId && j.kind === kind && j.status === 'running'
+		);
+		return job && this.get(userId, job.id);
+	}
+
+	private async run(
+		job: EnrichmentJob,
+		businesses: SavedBusiness[],
+		check: EnrichmentCheck
+	): Promise<void> {
+		try {
+			// A business whose check throws is logged and counted as failed;
+			// the others still finish
+			await mapWithConcurrency(
+				businesses,
+				this.concurrency,
+				async (business) => {
+					try {
+						const tallies = await check(business);
+						job.checked++;
+						for (const key of tallies) {
+							job.counts[key] = (job.counts[key] || 0) + 1;
+						}
+					} catch (error) {
+						console.error(
+							`Error enriching business ${business._id}:`,
+							error
+						);
+						job.failed++;
+					}
+				}
+			);
+			job.status = 'done';
+		} catch (error) {
+			console.error(`Enrichment job ${job.id} failed:`, error);
+			job.status = 'failed';
+			job.error =
+				error instanceof Error ? error.message : 'Enrichment failed';
+		}
+		job.finishedAt = new Date().toISOString();
+	}
+
+	private pruneFinishedJobs(): void {
+		const cutoff = Date.now() - this.finishedTtl;
+		const entries = Array.from(this.jobs.entries());
+		for (const [id, job] of entries) {
+			if (job.finishedAt && new Date(job.finishedAt).getTime() < cutoff) {
+				this.jobs.delete(id);
+			}
+		}
+	}
+}
+
+export const enrichmentJobs = new EnrichmentJobRegistry();
@@ -0,0 +1,141 @@
+import {
+	type ExclusionCategory,
+	type ExclusionList,
+	type ExclusionRule,
+	type PlaceDetails,
+} from '@shared/schema';
+import { normalizePlaceType } from '@shared/resultFilters';
+
+// Applies a user's exclusion list to search results. Hidden businesses never
+// reach the owner's results; flagged ones are kept with excludedBy set. Either
+// way they're counted, so the UI can say how many were filtered and why.
+
+type ExcludableBusiness = PlaceDetails & { name: string; website?: string };
+
+export interface ExclusionSummary {
+	mode: ExclusionList['mode'];
+	total: number;
+	byCategory: Partial<Record<ExclusionCategory, number>>;
+}
+
+const CATEGORY_LABELS: Record<ExclusionCategory, string> = {
+	chain: 'Chain',
+	staffing: 'Staffing agency',
+	do_not_contact: 'Do not contact',
+	other: 'Excluded',
+};
+
+const KIND_LABELS: Record<ExclusionRule['kind'], string> = {
+	name: 'name matches',
+	domain: 'domain',
+	type: 'type',
+};
+
+function domainOf(url: string): string {
+	return url
+		.trim()
+		.toLowerCase()
+		.replace(/^[a-z]+:\/\//, '')
+		.replace(/^www\./, '')
+		.split(/[/?#:]/)[0];
+}
+
+function namePatternRegex(pattern: string): RegExp {
+	const escaped = pattern
+		.trim()
+		.split('*')
+		.map((part) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'))
+		.join('.*');
+	return new RegExp(escaped, 'i');
+}
+
+function ruleMatches(
+	business: ExcludableBusiness,
+	rule: ExclusionRule
+): boolean {
+	switch (rule.kind) {
+		case 'name':
+			return namePatternRegex(rule.pattern).test(business.name);
+		case 'domain': {
+			const domain = business.website ? domainOf(business.website) : '';
+			const excluded = domainOf(rule.pattern);
+			return (
+				!!domain &&
+				!!excluded &&
+				(domain === excluded || domain.endsWith(`.${excluded}`))
+			);
+		}
+		case 'type': {
+			const type = normalizePlaceType(rule.pattern);
+			return [...(business.types || []), business.primaryType || '']
+				.map(normalizePlaceType)
+				.includes(type);
+		}
+	}
+}
+
+// First rule that matches the business, in list order
+export function findExclusion(
+	business: ExcludableBusiness,
+	rules: ExclusionRule[]
+): ExclusionRule | undefined {
+	return rules.find((rule) => ruleMatches(business, rule));
+}
+
+// e.g. "Staffing agency: name matches "*staffing*""
+export function describeExclusion(rule: ExclusionRule): string {
+	return `${CATEGORY_LABELS[rule.category]}: ${KIND_LABELS[rule.kind]} "${
+		rule.pattern
+	}"`;
+}
+
+export function emptyExclusionSummary(
+	mode: ExclusionList['mode'] = 'hide'
+): ExclusionSummary {
+	return { mode, total: 0, byCategory: {} };
+}
+
+// Running total across several applyExclusions calls (a state search's cities)
+export function mergeExclusionSummaries(
+	a: ExclusionSummary | undefined,
+	b: ExclusionSummary
+): ExclusionSummary {
+	const merged: ExclusionSummary = {
+		mode: b.mode,
+		total: (a?.total || 0) + b.total,
+		byCategory: { ...a?.byCategory },
+	};
+	for (const [category, count] of Object.entries(b.byCategory)) {
+		const key = category as ExclusionCategory;
+		merged.byCategory[key] = (merged.byCategory[key] || 0) + count;
+	}
+	return merged;
+}
+
+export function applyExclusions<T extends ExcludableBusiness>(
+	businesses: T[],
+	list: Pick<ExclusionList, 'mode' | 'rules'> | null
+): { businesses: (T & { excludedBy?: string })[]; summary: ExclusionSummary } {
+	const summary = emptyExclusionSummary(list?.mode);
+	if (!list || list.rules.length === 0) {
+		return { businesses, summary };
+	}
+
+	const kept: (T & { excludedBy?: string })[] = [];
+	for (const business of businesses) {
+		const rule = findExclusion(business, list.rules);
+		if (!rule) {
+			kept.push(business);
+			continue;
+		}
+
+		summary.total++;
+		summary.byCategory[rule.category] =
+			(summary.byCategory[rule.category] || 0) + 1;
+		if (list.mode === 'flag') {
+			kept.push({ ...business, excludedBy: describeExclusion(rule) });
+		}
+	}
+
+	return { businesses: kept, summary };
+}
@@ -8,6 +8,7 @@ import cors from 'cors';
 import rateLimit from 'express-rate-limit';
 import cookieParser from 'cookie-parser';
 import { registerRoutes } from './routes';
+import { startSavedSearchScheduler } from './savedSearchScheduler';
 import { setupVite, serveStatic, log } from './vite';
 
 const app = express();
@@ -123,6 +124,13 @@ app.use((req, res, next) => {
 				logLine += ` :: ${JSON.stringify(capturedJsonResponse)}`;
 			}
 
+			// Calendar feed URLs carry the feed's secret, in the path or in the
+			// response that hands the URL out; keep it out of the logs
+			logLine = logLine.replace(
+				/\/api\/calendar\/[^/"]+/g,
+				'/api/calendar/[token]'
+			);
+
 			if (logLine.length > 80) {
 				logLine = logLine.slice(0, 79) + '…';
 			}
@@ -177,4 +185,7 @@ app.use((req, res, next) => {
 			log(`serving on port ${port}`);
 		}
 	);
+
+	// Re-run users' saved searches on their daily/weekly schedule
+	startSavedSearchScheduler();
 })();
@@ -164,3 +164,15 @@ export const optionalUserOrGuest = (
 	// Try guest authentication
 	createGuestAuth(req, res, next);
 };
+
+// Key for the caller's in-memory search results (see server/storage.ts).
+// Users and guests live in separate namespaces so IDs can never collide.
+export const getResultOwnerId = (req: Request): string | undefined => {
+	if (req.user?.userId) {
+		return `user:${req.user.userId}`;
+	}
+	if (req.guest?.guestId) {
+		return `guest:${req.guest.guestId}`;
+	}
+	return undefined;
+};
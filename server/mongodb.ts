@@ -2,7 +2,14 @@
 import dotenv from 'dotenv';
 dotenv.config();
 
-import { MongoClient, Db, ObjectId } from 'mongodb';
+import {
+	MongoClient,
+	Db,
+	ObjectId,
+	MongoBulkWriteError,
+	type Filter,
+	type WithId,
+} from 'mongodb';
 import bcrypt from 'bcrypt';
 import jwt from 'jsonwebtoken';
 import {
@@ -14,8 +21,42 @@ import {
 	CachedSearchResult,
 	DemoSearch,
 	GuestResult,
+	SearchHistoryEntry,
+	SavedSearch,
+	SavedSearchLead,
+	ExclusionList,
+	BusinessMerge,
+	CleanupPlanGroup,
+	DuplicateCleanupPlan,
+	Pipeline,
+	PipelineStage,
+	BusinessActivity,
+	Reminder,
+	ReminderWithBusiness,
+	Tag,
+	DEFAULT_PIPELINE_STAGES,
+	DEFAULT_TAG_COLOR,
+	SavedBusinessSort,
 } from '@shared/schema';
+import {
+	addToMatchIndex,
+	buildMatchIndex,
+	findMatch,
+	type MatchableBusiness,
+	type MatchThresholds,
+} from '@shared/matcher';
 import crypto from 'crypto';
+import {
+	buildSavedBusinessFilter,
+	type SavedBusinessFilters,
+} from './savedBusinessFilter';
+import {
+	buildSavedBusinessSort,
+	cursorCondition,
+	encodeCursor,
+	sortCollation,
+} from './savedBusinessSort';
+import { tagRenameWrites } from './bulkOperations';
 
 // MongoDB connection string - REQUIRED for application to function
 const MONGODB_URI = process.env.MONGODB_URI || process.env.DATABASE_URL;
@@ -68,8 +109,22 @@ const COLLECTIONS = {
 	CACHED_SEARCHES: 'cachedSearches',
 	DEMO_SEARCHES: 'demoSearches',
 	GUEST_RESULTS: 'guestResults',
+	SEARCH_HISTORY: 'searchHistory',
+	SAVED_SEARCHES: 'savedSearches',
+	SAVED_SEARCH_LEADS: 'savedSearchLeads',
+	EXCLUSION_LISTS: 'exclusionLists',
+	BUSINESS_MERGES: 'businessMerges',
+	CLEANUP_PLANS: 'cleanupPlans',
+	PIPELINES: 'pipelines',
+	BUSINESS_ACTIVITIES: 'businessActivities',
+	REMINDERS: 'reminders',
+	TAGS: 'tags',
 };
 
+// A document as it's stored. The shared types carry ids as strings for the
+// client; in the database _id is an ObjectId.
+type Stored<T extends { _id?: string }> = Omit<T, '_id'> & { _id?: ObjectId };
+
 // MongoDB connection client
 let client: MongoClient | null = null;
 let db: Db | null = null;
@@ -115,6 +170,57 @@ export async function connectToMongoDB(): Promise<Db> {
 		await db
 			.collection(COLLECTIONS.GUEST_RESULTS)
 			.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+		await db
+			.collection(COLLECTIONS.SEARCH_HISTORY)
+			.createIndex({ userId: 1, createdAt: -1 });
+		await db
+			.collection(COLLECTIONS.SEARCH_HISTORY)
+			.createIndex({ userId: 1, queryKey: 1, createdAt: -1 });
+		await db
+			.collection(COLLECTIONS.SAVED_SEARCHES)
+			.createIndex({ userId: 1 });
+		await db
+			.collection(COLLECTIONS.SAVED_SEARCHES)
+			.createIndex({ enabled: 1, nextRunAt: 1 });
+		await db
+			.collection(COLLECTIONS.SAVED_SEARCH_LEADS)
+			.createIndex({ savedSearchId: 1, identity: 1 }, { unique: true });
+		await db
+			.collection(COLLECTIONS.SAVED_SEARCH_LEADS)
+			.createIndex({ userId: 1, seen: 1 });
+		await db
+			.collection(COLLECTIONS.EXCLUSION_LISTS)
+			.createIndex({ userId: 1 }, { unique: true });
+		await db
+			.collection(COLLECTIONS.BUSINESS_MERGES)
+			.createIndex({ userId: 1, createdAt: -1 });
+		await db
+			.collection(COLLECTIONS.CLEANUP_PLANS)
+			.createIndex({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+		await db
+			.collection(COLLECTIONS.PIPELINES)
+			.createIndex({ userId: 1 }, { unique: true });
+		await db
+			.collection(COLLECTIONS.BUSINESS_ACTIVITIES)
+			.createIndex({ businessId: 1, createdAt: -1 });
+		await db
+			.collection(COLLECTIONS.REMINDERS)
+			.createIndex({ userId: 1, doneAt: 1, dueAt: 1 });
+		await db
+			.collection(COLLECTIONS.REMINDERS)
+			.createIndex({ businessId: 1 });
+		await db
+			.collection(COLLECTIONS.USERS)
+			.createIndex({ calendarToken: 1 }, { unique: true, sparse: true });
+		await db
+			.collection(COLLECTIONS.SAVED_BUSINESSES)
+			.createIndex({ userId: 1, pipelineStatus: 1 });
+		await db
+			.collection(COLLECTIONS.SAVED_BUSINESSES)
+			.createIndex({ userId: 1, tags: 1 });
+		await db
+			.collection(COLLECTIONS.TAGS)
+			.createIndex({ userId: 1, name: 1 }, { unique: true });
 
 		return db;
 	} catch (error) {
@@ -289,17 +395,34 @@ export async function saveBusiness(
 	return { ...businessWithTimestamps, _id: result.insertedId.toString() };
 }
 
+export interface SavedBusinessPageOptions {
+	page?: number; // Ignored with a cursor
+	limit?: number;
+	filters?: SavedBusinessFilters;
+	sort?: SavedBusinessSort; // Newest first by default
+	// A previous page's nextCursor; the page starts after its last business
+	cursor?: string;
+	withFacets?: boolean; // Also count the matches' tags, for filter chips
+}
+
+// A page of the user's businesses. nextCursor is null on the last page.
 export async function getSavedBusinesses(
 	userId: string,
-	page: number = 1,
-	limit: number = 50,
-	searchTerm?: string,
-	recentOnly?: boolean
+	{
+		page = 1,
+		limit = 50,
+		filters = {},
+		sort = { field: 'createdAt', direction: 'desc' },
+		cursor,
+		withFacets = false,
+	}: SavedBusinessPageOptions = {}
 ): Promise<{
 	businesses: SavedBusiness[];
 	total: number;
 	page: number;
 	totalPages: number;
+	tagCounts?: TagCount[]; // With facets
+	nextCursor: string | null;
 }> {
 	const database = await connectToMongoDB();
 	const businessCollection = database.collection<SavedBusiness>(
@@ -308,46 +431,127 @@ export async function getSavedBusinesses(
 
 	const skip = (page - 1) * limit;
 
-	// Build search filter
-	let filter: any = { userId };
-	if (searchTerm && searchTerm.trim()) {
-		const searchRegex = new RegExp(searchTerm.trim(), 'i');
-		filter.$or = [
-			{ name: { $regex: searchRegex } },
-			{ website: { $regex: searchRegex } },
-			{ location: { $regex: searchRegex } },
-		];
-	}
-
-	// Add recent only filter (last 24 hours)
-	if (recentOnly) {
-		const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
-		filter.createdAt = { $gte: twentyFourHoursAgo };
-	}
+	const filter = buildSavedBusinessFilter(userId, filters);
 
 	// Get total count for pagination with search filter
 	const total = await businessCollection.countDocuments(filter);
 	const totalPages = Math.ceil(total / limit);
 
-	// Find all businesses for this user with pagination and search, sorted by date (newest first)
-	const businesses = await businessCollection
-		.find(filter)
-		.sort({ createdAt: -1 }) // Sort by date added, newest first
-		.skip(skip)
-		.limit(limit)
+	let pageFilter = filter;
+	if (cursor) {
+		const after = cursorCondition(cursor, sort);
+		if (!after) throw new Error('Invalid cursor');
+		pageFilter = { $and: [filter, after] };
+	}
+	const collation = sortCollation(sort);
+	// One extra tells whether there's a next page
+	const found = await businessCollection
+		.find(pageFilter, collation && { collation })
+		.sort(buildSavedBusinessSort(sort))
+		.skip(cursor ? 0 : skip)
+		.limit(limit + 1)
 		.toArray();
+	const businesses = found
+		.slice(0, limit)
+		.map((b) => ({ ...b, _id: b._id!.toString() }));
+	const nextCursor =
+		found.length > limit
+			? encodeCursor(businesses[businesses.length - 1], sort)
+			: null;
 
 	return {
-		businesses: businesses.map((b) => ({
-			...b,
-			_id: b._id!.toString(),
-		})),
+		businesses,
 		total,
 		page,
 		totalPages,
+		// Facets: how many of the matching businesses carry each tag
+		...(withFacets && { tagCounts: await countTags(filter) }),
+		nextCursor,
 	};
 }
 
+// Every one of the user's businesses matching the filters, up to limit,
+// newest first
+export async function findSavedBusinesses(
+	userId: string,
+	filters: SavedBusinessFilters,
+	limit: number
+): Promise<SavedBusiness[]> {
+	const database = await connectToMongoDB();
+	const businesses = await database
+		.collection<SavedBusiness>(COLLECTIONS.SAVED_BUSINESSES)
+		.find(buildSavedBusinessFilter(userId, filters))
+		.sort({ createdAt: -1 })
+		.limit(limit)
+		.toArray();
+	return businesses.map((b) => ({ ...b, _id: b._id!.toString() }));
+}
+
+// Apply one update to each business (or delete them all, for a null update)
+// in a single unordered bulk write. Returns the write error for each
+// business whose write failed; the others still go through.
+export async function bulkWriteSavedBusinesses(
+	businessIds: string[],
+	update: Record<string, any> | null
+): Promise<Map<string, string>> {
+	const database = await connectToMongoDB();
+	const failed = new Map<string, string>();
+	if (businessIds.length === 0) return failed;
+
+	const writes = businessIds.map((id) => {
+		const filter = { _id: new ObjectId(id) };
+		return update
+			? { updateOne: { filter, update } }
+			: { deleteOne: { filter } };
+	});
+	try {
+		await database
+			.collection<Stored<SavedBusiness>>(COLLECTIONS.SAVED_BUSINESSES)
+			.bulkWrite(writes, { ordered: false });
+	} catch (error) {
+		if (!(error instanceof MongoBulkWriteError)) throw error;
+		const writeErrors = Array.isArray(error.writeErrors)
+			? error.writeErrors
+			: [error.writeErrors];
+		for (const writeError of writeErrors) {
+			failed.set(
+				businessIds[writeError.index],
+				writeError.errmsg || 'Write failed'
+			);
+		}
+	}
+
+	// Deleted businesses take their timeline, reminders and list places along
+	if (!update) {
+		const deletedIds = businessIds.filter((id) => !failed.has(id));
+		await database
+			.collection(COLLECTIONS.BUSINESS_ACTIVITIES)
+			.deleteMany({ businessId: { $in: deletedIds } });
+		await database
+			.collection(COLLECTIONS.REMINDERS)
+			.deleteMany({ businessId: { $in: deletedIds } });
+		await database
+			.collection<SavedList>(COLLECTIONS.SAVED_LISTS)
+			.updateMany(
+				{ businesses: { $in: deletedIds } },
+				{ $pull: { businesses: { $in: deletedIds } } }
+			);
+	}
+
+	return failed;
+}
+
+// How many of the user's businesses match, e.g. a smart list's live count
+export async function countSavedBusinesses(
+	userId: string,
+	filters: SavedBusinessFilters = {}
+): Promise<number> {
+	const database = await connectToMongoDB();
+	return database
+		.collection<SavedBusiness>(COLLECTIONS.SAVED_BUSINESSES)
+		.countDocuments(buildSavedBusinessFilter(userId, filters));
+}
+
 export async function getSavedBusinessById(
 	id: string
 ): Promise<SavedBusiness | null> {
@@ -378,28 +582,36 @@ export async function updateSavedBusiness(
 	updates: Partial<SavedBusiness>
 ): Promise<SavedBusiness | null> {
 	const database = await connectToMongoDB();
-	const businessCollection = database.collection<SavedBusiness>(
+	const businessCollection = database.collection<Stored<SavedBusiness>>(
 		COLLECTIONS.SAVED_BUSINESSES
 	);
 
 	// Make sure userId cannot be changed
 	const { userId, _id, ...updateData } = updates;
 
+	// Fields explicitly set to undefined are removed (e.g. stale job counts
+	// after a careers page stops pointing at a job board)
+	const entries = Object.entries(updateData);
+	const set = Object.fromEntries(entries.filter(([, v]) => v !== undefined));
+	const unset = entries
+		.filter(([, v]) => v === undefined)
+		.map(([key]) => [key, '']);
+
 	try {
-		// Use type assertion to handle MongoDB typing issues with ObjectId
-		const filter = { _id: new ObjectId(id) } as any;
+		const filter = { _id: new ObjectId(id) };
 
 		// Update business
-		const result = (await businessCollection.findOneAndUpdate(
+		const result = await businessCollection.findOneAndUpdate(
 			filter,
 			{
 				$set: {
-					...updateData,
+					...set,
 					updatedAt: new Date(),
 				},
+				...(unset.length > 0 && { $unset: Object.fromEntries(unset) }),
 			},
 			{ returnDocument: 'after' }
-		)) as any;
+		);
 
 		if (!result) return null;
 
@@ -424,6 +636,15 @@ export async function deleteSavedBusiness(id: string): Promise<boolean> {
 		const result = await businessCollection.deleteOne({
 			_id: new ObjectId(id),
 		});
+		await database
+			.collection(COLLECTIONS.BUSINESS_ACTIVITIES)
+			.deleteMany({ businessId: id });
+		await database
+			.collection(COLLECTIONS.REMINDERS)
+			.deleteMany({ businessId: id });
+		await database
+			.collection<SavedList>(COLLECTIONS.SAVED_LISTS)
+			.updateMany({ businesses: id }, { $pull: { businesses: id } });
 		return result.deletedCount > 0;
 	} catch (error) {
 		console.error(`Error deleting business ${id}:`, error);
@@ -442,6 +663,13 @@ export async function deleteAllSavedBusinesses(
 	try {
 		// Delete all businesses for this user
 		const result = await businessCollection.deleteMany({ userId });
+		await database
+			.collection(COLLECTIONS.BUSINESS_ACTIVITIES)
+			.deleteMany({ userId });
+		await database.collection(COLLECTIONS.REMINDERS).deleteMany({ userId });
+		await database
+			.collection<SavedList>(COLLECTIONS.SAVED_LISTS)
+			.updateMany({ userId }, { $set: { businesses: [] } });
 		return result.deletedCount || 0;
 	} catch (error) {
 		console.error(
@@ -478,7 +706,10 @@ export async function getSavedLists(userId: string): Promise<SavedList[]> {
 	);
 
 	// Find all lists for this user
-	const lists = await listCollection.find({ userId }).toArray();
+	const lists = await listCollection
+		.find({ userId })
+		.sort({ name: 1 })
+		.toArray();
 	return lists.map((l) => ({
 		...l,
 		_id: l._id!.toString(),
@@ -631,6 +862,48 @@ export async function removeBusinessFromList(
 	}
 }
 
+// Add or remove several businesses at once; a business is only ever in a
+// list once
+export async function addBusinessesToList(
+	listId: string,
+	businessIds: string[]
+): Promise<SavedList | null> {
+	const database = await connectToMongoDB();
+	const result = await database
+		.collection<Stored<SavedList>>(COLLECTIONS.SAVED_LISTS)
+		.findOneAndUpdate(
+			{ _id: new ObjectId(listId) },
+			{
+				$addToSet: { businesses: { $each: businessIds } },
+				$set: { updatedAt: new Date() },
+			},
+			{ returnDocument: 'after' }
+		);
+	if (!result) return null;
+
+	return { ...result, _id: result._id!.toString() };
+}
+
+export async function removeBusinessesFromList(
+	listId: string,
+	businessIds: string[]
+): Promise<SavedList | null> {
+	const database = await connectToMongoDB();
+	const result = await database
+		.collection<Stored<SavedList>>(COLLECTIONS.SAVED_LISTS)
+		.findOneAndUpdate(
+			{ _id: new ObjectId(listId) },
+			{
+				$pull: { businesses: { $in: businessIds } },
+				$set: { updatedAt: new Date() },
+			},
+			{ returnDocument: 'after' }
+		);
+	if (!result) return null;
+
+	return { ...result, _id: result._id!.toString() };
+}
+
 // Get businesses for a specific list
 export async function getBusinessesForList(
 	listId: string
@@ -678,159 +951,49 @@ export async function importBusinessesForUser(
 	options?: {
 		skipDuplicates?: boolean;
 		replaceDuplicates?: boolean;
+		thresholds?: MatchThresholds;
 	}
-): Promise<{ count: number; businesses: SavedBusiness[] }> {
+): Promise<{ count: number; skipped: number; businesses: SavedBusiness[] }> {
 	const database = await connectToMongoDB();
 	const businessCollection = database.collection<SavedBusiness>(
 		COLLECTIONS.SAVED_BUSINESSES
 	);
 
 	// Default options
-	const { skipDuplicates = true, replaceDuplicates = false } = options || {};
+	const {
+		skipDuplicates = true,
+		replaceDuplicates = false,
+		thresholds,
+	} = options || {};
 
 	// First, get existing businesses for this user to check for duplicates
 	const existingBusinesses = await businessCollection
 		.find({ userId })
 		.toArray();
+	const index = buildMatchIndex(existingBusinesses);
+
+	// Saved businesses the imported ones replace
+	const replacedIds = new Set<string>();
+	let skipped = 0;
 
-	// Check for duplicates by website or name
 	const businessesToProcess = businesses.filter((newBusiness) => {
 		// If not checking for duplicates, include all
-		if (!skipDuplicates) {
+		if (!skipDuplicates && !replaceDuplicates) {
 			return true;
 		}
 
-		// Look for duplicate by website first
-		const duplicateByWebsite = existingBusinesses.find((existing) => {
-			if (!existing.website || !newBusiness.website) {
-				return false;
-			}
-
-			// Normalize websites by removing protocol, www, and trailing slashes
-			const normalizedExisting = existing.website
-				.toLowerCase()
-				.replace(/^https?:\/\//i, '')
-				.replace(/^www\./i, '')
-				.replace(/\/+$/, '');
-
-			const normalizedNew = newBusiness.website
-				.toLowerCase()
-				.replace(/^https?:\/\//i, '')
-				.replace(/^www\./i, '')
-				.replace(/\/+$/, '');
-
-			return normalizedExisting === normalizedNew;
-		});
-
-		// If found duplicate by website
-		if (duplicateByWebsite) {
-			// If replacing duplicates, we'll handle it later
-			if (replaceDuplicates) {
-				return true;
-			}
-			// Otherwise skip this business
-			return false;
+		const match = findMatch(newBusiness, index, thresholds);
+		if (!match) {
+			return true;
 		}
 
-		// Look for duplicate by name as fallback with enhanced matching
-		const duplicateByName = existingBusinesses.find((existing) => {
-			if (!existing.name || !newBusiness.name) {
-				return false;
-			}
-
-			// Enhanced normalization that's more thorough:
-			// 1. Convert to lowercase
-			// 2. Remove legal suffixes (Inc, LLC, etc.)
-			// 3. Remove special characters including quotes and parentheses
-			// 4. Normalize whitespace
-			// 5. Replace common abbreviations
-			// 6. Remove filler words like "the", "and", etc.
-			const normalizeNameEnhanced = (name: string): string => {
-				return (
-					name
-						.toLowerCase()
-						// Replace common abbreviations
-						.replace(/\b(mktg|mrktg)\b/g, 'marketing')
-						.replace(/\b(co|comp)\b/g, 'company')
-						.replace(/\b(tech)\b/g, 'technology')
-						.replace(/\b(svcs)\b/g, 'services')
-						.replace(/\b(intl)\b/g, 'international')
-						.replace(/\b(grp)\b/g, 'group')
-						// Remove legal entity types and common suffixes
-						.replace(
-							/\s*(inc|incorporated|llc|ltd|limited|corp|corporation|company|co|group|grp|holdings|partners|agency|associates|solutions|technologies|technology|digital|media|marketing|services|svcs|consultants|consultancy|international|intl|global)\.?\s*$/i,
-							''
-						)
-						// Remove "The" from beginning
-						.replace(/^the\s+/i, '')
-						// Remove special characters, leaving only alphanumeric and spaces
-						.replace(/[^\w\s]/g, '')
-						// Normalize whitespace (collapse multiple spaces to single space and trim)
-						.replace(/\s+/g, ' ')
-						.trim()
-				);
-			};
-
-			// Apply enhanced normalization
-			const normalizedExisting = normalizeNameEnhanced(existing.name);
-			const normalizedNew = normalizeNameEnhanced(newBusiness.name);
-
-			// Try exact match first
-			if (normalizedExisting === normalizedNew) {
-				return true;
-			}
-
-			// If names are short (less than 3 words), require exact match
-			// Otherwise try additional fuzzy matching techniques
-			const wordCountExisting = normalizedExisting.split(' ').length;
-			const wordCountNew = normalizedNew.split(' ').length;
-
-			if (wordCountExisting <= 2 && wordCountNew <= 2) {
-				return false; // Require exact match for short names
-			}
-
-			// For longer names, check if one name contains the other completely
-			if (
-				normalizedExisting.includes(normalizedNew) ||
-				normalizedNew.includes(normalizedExisting)
-			) {
-				return true;
-			}
-
-			// Check if there's significant word overlap for multi-word names
-			const wordsExisting = normalizedExisting.split(' ');
-			const wordsNew = normalizedNew.split(' ');
-
-			// Count common words
-			const commonWords = wordsExisting.filter((word) =>
-				wordsNew.includes(word)
-			);
-
-			// If at least 2 significant words match and they represent at least 50% of the shorter name's words
-			if (
-				commonWords.length >= 2 &&
-				commonWords.length /
-					Math.min(wordsExisting.length, wordsNew.length) >=
-					0.5
-			) {
-				return true;
-			}
-
-			return false;
-		});
-
-		// If found duplicate by name
-		if (duplicateByName) {
-			// If replacing duplicates, we'll handle it later
-			if (replaceDuplicates) {
-				return true;
-			}
-			// Otherwise skip this business
-			return false;
+		// Replaced duplicates are deleted below; otherwise skip this business
+		if (replaceDuplicates) {
+			replacedIds.add(match.match._id!.toString());
+			return true;
 		}
-
-		// No duplicate found, include this business
-		return true;
+		skipped++;
+		return false;
 	});
 
 	// Add userId and timestamps to all businesses
@@ -845,56 +1008,17 @@ export async function importBusinessesForUser(
 	if (businessesToInsert.length === 0) {
 		return {
 			count: 0,
+			skipped,
 			businesses: [],
 		};
 	}
 
-	// Handle replacing duplicates if needed
-	if (replaceDuplicates) {
-		// First delete any duplicates
-		for (const business of businessesToInsert) {
-			if (!business.website && !business.name) continue;
-
-			// Build query to find duplicates
-			const query: any = { userId };
-
-			if (business.website) {
-				// Normalize website for search
-				const normalizedWebsite = business.website
-					.toLowerCase()
-					.replace(/^https?:\/\//i, '')
-					.replace(/^www\./i, '')
-					.replace(/\/+$/, '');
-
-				query.website = {
-					$regex: new RegExp(
-						`^(https?:\/\/)?(www\\.)?${normalizedWebsite.replace(
-							/[-\/\\^$*+?.()|[\]{}]/g,
-							'\\$&'
-						)}\\/?$`,
-						'i'
-					),
-				};
-			} else if (business.name) {
-				// Normalize name for search
-				const normalizedName = business.name
-					.toLowerCase()
-					.replace(/\s*(inc|llc|ltd|corp|corporation)\s*\.?$/i, '');
-
-				query.name = {
-					$regex: new RegExp(
-						`^${normalizedName.replace(
-							/[-\/\\^$*+?.()|[\]{}]/g,
-							'\\$&'
-						)}(\\s*(inc|llc|ltd|corp|corporation)\\s*\\.?)?$`,
-						'i'
-					),
-				};
-			}
-
-			// Delete duplicates
-			await businessCollection.deleteMany(query);
-		}
+	if (replacedIds.size > 0) {
+		await database
+			.collection<Stored<SavedBusiness>>(COLLECTIONS.SAVED_BUSINESSES)
+			.deleteMany({
+				_id: { $in: Array.from(replacedIds, (id) => new ObjectId(id)) },
+			});
 	}
 
 	// Insert all businesses
@@ -909,6 +1033,7 @@ export async function importBusinessesForUser(
 
 	return {
 		count: insertedBusinesses.length,
+		skipped,
 		businesses: insertedBusinesses.map((b) => ({
 			...b,
 			_id: b._id!.toString(),
@@ -1029,6 +1154,7 @@ export function generateSearchFingerprint(params: {
 	selectedCities?: string[];
 	radius?: string;
 	maxResults?: number;
+	tileDensity?: number;
 }): string {
 	// Normalize parameters for consistent fingerprinting
 	const normalized = {
@@ -1040,6 +1166,7 @@ export function generateSearchFingerprint(params: {
 			.sort(),
 		radius: params.radius,
 		maxResults: params.maxResults,
+		tileDensity: params.tileDensity,
 	};
 
 	// Create deterministic hash
@@ -1118,233 +1245,1083 @@ export async function cleanupExpiredCachedResults(): Promise<number> {
 	}
 }
 
-export async function cleanupDuplicateBusinesses(
-	userId: string
-): Promise<{ removed: number; duplicates: any[] }> {
-	try {
-		const database = await connectToMongoDB();
-		const businessCollection = database.collection<SavedBusiness>(
-			COLLECTIONS.SAVED_BUSINESSES
-		);
-
-		// Get all businesses for this user
-		const allBusinesses = await businessCollection
-			.find({ userId })
-			.toArray();
-
-		// Enhanced normalization functions
-		const normalizeUrl = (url: string) => {
-			if (!url) return '';
-			return url
-				.toLowerCase()
-				.replace(/^https?:\/\//i, '')
-				.replace(/^www\./i, '')
-				.replace(/\/+$/, '')
-				.split('/')[0] // Get just the domain part
-				.split('?')[0] // Remove query parameters
-				.split('#')[0]; // Remove fragments
-		};
-
-		const normalizeName = (name: string) => {
-			if (!name) return '';
-			return name
-				.toLowerCase()
-				.replace(/[,\.]/g, '') // Remove commas and periods
-				.replace(/\s+/g, ' ') // Normalize spaces
-				.replace(
-					/\s*(inc|llc|ltd|corp|corporation|co|company)\s*\.?$/i,
-					''
-				) // Remove business suffixes
-				.trim();
-		};
-
-		const duplicates: any[] = [];
-		const toRemove: string[] = [];
-
-		// Find duplicates
-		for (let i = 0; i < allBusinesses.length; i++) {
-			const business = allBusinesses[i];
-			if (toRemove.includes(business._id!.toString())) continue;
-
-			for (let j = i + 1; j < allBusinesses.length; j++) {
-				const otherBusiness = allBusinesses[j];
-				if (toRemove.includes(otherBusiness._id!.toString())) continue;
-
-				let isDuplicate = false;
-
-				// Check website match - compare all possible website fields
-				const businessWebsites = [
-					business.website,
-					business.location,
-				].filter(Boolean);
-				const otherWebsites = [
-					otherBusiness.website,
-					otherBusiness.location,
-				].filter(Boolean);
-
-				for (const businessUrl of businessWebsites) {
-					for (const otherUrl of otherWebsites) {
-						const businessDomain = normalizeUrl(businessUrl);
-						const otherDomain = normalizeUrl(otherUrl);
-
-						if (
-							businessDomain.includes('.') &&
-							otherDomain.includes('.') &&
-							businessDomain === otherDomain
-						) {
-							isDuplicate = true;
-							break;
-						}
-					}
-					if (isDuplicate) break;
-				}
-
-				// Check name match if not already duplicate
-				if (!isDuplicate && business.name && otherBusiness.name) {
-					const businessName = normalizeName(business.name);
-					const otherName = normalizeName(otherBusiness.name);
+// Search history functions
 
-					if (businessName === otherName && businessName.length > 0) {
-						isDuplicate = true;
-					}
-				}
+export async function saveSearchHistoryEntry(
+	entry: Omit<SearchHistoryEntry, '_id' | 'createdAt'>
+): Promise<SearchHistoryEntry> {
+	const database = await connectToMongoDB();
+	const historyCollection = database.collection<SearchHistoryEntry>(
+		COLLECTIONS.SEARCH_HISTORY
+	);
 
-				if (isDuplicate) {
-					// Keep the older one (smaller createdAt or _id)
-					const keepBusiness =
-						business.createdAt && otherBusiness.createdAt
-							? business.createdAt < otherBusiness.createdAt
-								? business
-								: otherBusiness
-							: business._id! < otherBusiness._id!
-							? business
-							: otherBusiness;
-
-					const removeBusiness =
-						keepBusiness === business ? otherBusiness : business;
-
-					duplicates.push({
-						keep: keepBusiness,
-						remove: removeBusiness,
-						reason: 'Duplicate detected',
-					});
-
-					toRemove.push(removeBusiness._id!.toString());
-				}
-			}
-		}
+	const entryWithTimestamp = { ...entry, createdAt: new Date() };
+	const result = await historyCollection.insertOne(entryWithTimestamp);
+	return { ...entryWithTimestamp, _id: result.insertedId.toString() };
+}
 
-		// Remove duplicates
-		if (toRemove.length > 0) {
-			const result = await businessCollection.deleteMany({
-				_id: { $in: toRemove.map((id) => new ObjectId(id)) },
-			});
+// List a user's searches, newest first. The stored result list is left out;
+// fetch a single entry to get it.
+export async function getSearchHistory(
+	userId: string,
+	page: number = 1,
+	limit: number = 20
+): Promise<{
+	entries: Omit<SearchHistoryEntry, 'businesses'>[];
+	total: number;
+	page: number;
+	totalPages: number;
+}> {
+	const database = await connectToMongoDB();
+	const historyCollection = database.collection<SearchHistoryEntry>(
+		COLLECTIONS.SEARCH_HISTORY
+	);
 
-			console.log(
-				`Removed ${result.deletedCount} duplicate businesses for user ${userId}`
-			);
-			return { removed: result.deletedCount, duplicates };
-		}
+	const total = await historyCollection.countDocuments({ userId });
+	const entries = await historyCollection
+		.find({ userId }, { projection: { businesses: 0 } })
+		.sort({ createdAt: -1 })
+		.skip((page - 1) * limit)
+		.limit(limit)
+		.toArray();
 
-		return { removed: 0, duplicates };
-	} catch (error) {
-		console.error('Error cleaning up duplicate businesses:', error);
-		return { removed: 0, duplicates: [] };
-	}
+	return {
+		entries: entries.map((e) => ({ ...e, _id: e._id!.toString() })),
+		total,
+		page,
+		totalPages: Math.ceil(total / limit),
+	};
 }
 
-// Get all cached searches for debugging (admin function)
-export async function getAllCachedSearches(
-	limit: number = 50
-): Promise<CachedSearchResult[]> {
+export async function getSearchHistoryEntry(
+	id: string
+): Promise<SearchHistoryEntry | null> {
+	const database = await connectToMongoDB();
+	const historyCollection = database.collection(COLLECTIONS.SEARCH_HISTORY);
+
 	try {
-		const database = await connectToMongoDB();
-		const results = await database
-			.collection(COLLECTIONS.CACHED_SEARCHES)
-			.find({})
-			.sort({ createdAt: -1 })
-			.limit(limit)
-			.toArray();
+		const entry = (await historyCollection.findOne({
+			_id: new ObjectId(id),
+		})) as SearchHistoryEntry | null;
+		if (!entry) return null;
 
-		return results as CachedSearchResult[];
+		return { ...entry, _id: entry._id!.toString() };
 	} catch (error) {
-		console.error('Error getting all cached searches:', error);
-		return [];
+		console.error(`Error getting search history entry ${id}:`, error);
+		return null;
 	}
 }
 
-// Guest Demo System Functions
-
-// Demo Search Quota Management
-export async function incrementDemoSearchCount(
-	guestId: string
-): Promise<{ count: number; remaining: number }> {
+// The run of the same query that came right before the given entry
+export async function getPreviousSearchRun(
+	entry: SearchHistoryEntry
+): Promise<SearchHistoryEntry | null> {
 	const database = await connectToMongoDB();
-	const demoSearchesCollection = database.collection<DemoSearch>(
-		COLLECTIONS.DEMO_SEARCHES
+	const historyCollection = database.collection<SearchHistoryEntry>(
+		COLLECTIONS.SEARCH_HISTORY
 	);
 
-	const now = new Date();
-	const expiresAt = new Date(now.getTime() + 90 * 24 * 60 * 60 * 1000); // 90 days from now
-
-	// Upsert the demo search record
-	const result = await demoSearchesCollection.findOneAndUpdate(
-		{ guestId },
+	const previous = await historyCollection.findOne(
 		{
-			$inc: { count: 1 },
-			$set: { lastSearchAt: now },
-			$setOnInsert: {
-				firstSearchAt: now,
-				createdAt: now,
-				expiresAt: expiresAt,
-			},
+			userId: entry.userId,
+			queryKey: entry.queryKey,
+			createdAt: { $lt: entry.createdAt },
 		},
-		{
-			upsert: true,
-			returnDocument: 'after',
-		}
+		{ sort: { createdAt: -1 } }
 	);
+	if (!previous) return null;
 
-	const count = result?.count || 1;
-	const remaining = Math.max(0, 20 - count); // 20 search limit
-
-	return { count, remaining };
+	return { ...previous, _id: previous._id!.toString() };
 }
 
-export async function getDemoSearchStatus(
-	guestId: string
-): Promise<{ count: number; remaining: number; canSearch: boolean }> {
+export async function deleteSearchHistoryEntry(id: string): Promise<boolean> {
 	const database = await connectToMongoDB();
-	const demoSearchesCollection = database.collection<DemoSearch>(
-		COLLECTIONS.DEMO_SEARCHES
-	);
+	const historyCollection = database.collection(COLLECTIONS.SEARCH_HISTORY);
 
-	const demoSearch = await demoSearchesCollection.findOne({ guestId });
+	const result = await historyCollection.deleteOne({
+		_id: new ObjectId(id),
+	});
+	return result.deletedCount === 1;
+}
 
-	if (!demoSearch) {
-		return { count: 0, remaining: 20, canSearch: true };
-	}
+// Saved search functions
 
-	const count = demoSearch.count;
-	const remaining = Math.max(0, 20 - count);
-	const canSearch = count < 20;
+export async function createSavedSearch(
+	search: Omit<SavedSearch, '_id' | 'createdAt' | 'updatedAt'>
+): Promise<SavedSearch> {
+	const database = await connectToMongoDB();
+	const searchCollection = database.collection<SavedSearch>(
+		COLLECTIONS.SAVED_SEARCHES
+	);
 
-	return { count, remaining, canSearch };
+	const now = new Date();
+	const searchWithTimestamps = { ...search, createdAt: now, updatedAt: now };
+	const result = await searchCollection.insertOne(searchWithTimestamps);
+	return { ...searchWithTimestamps, _id: result.insertedId.toString() };
 }
 
-// Guest Results Management
-export async function saveGuestResults(
-	guestResult: Omit<GuestResult, 'createdAt' | 'expiresAt'>
-): Promise<GuestResult> {
+export async function getSavedSearches(userId: string): Promise<SavedSearch[]> {
 	const database = await connectToMongoDB();
-	const guestResultsCollection = database.collection<GuestResult>(
-		COLLECTIONS.GUEST_RESULTS
+	const searchCollection = database.collection<SavedSearch>(
+		COLLECTIONS.SAVED_SEARCHES
 	);
 
-	const now = new Date();
-	const expiresAt = new Date(now.getTime() + 90 * 24 * 60 * 60 * 1000); // 90 days from now
+	const searches = await searchCollection
+		.find({ userId })
+		.sort({ createdAt: -1 })
+		.toArray();
 
-	const newGuestResult: GuestResult = {
+	return searches.map((s) => ({ ...s, _id: s._id!.toString() }));
+}
+
+export async function getSavedSearchById(
+	id: string
+): Promise<SavedSearch | null> {
+	const database = await connectToMongoDB();
+	const searchCollection = database.collection(COLLECTIONS.SAVED_SEARCHES);
+
+	try {
+		const search = (await searchCollection.findOne({
+			_id: new ObjectId(id),
+		})) as SavedSearch | null;
+		if (!search) return null;
+
+		return { ...search, _id: search._id!.toString() };
+	} catch (error) {
+		console.error(`Error getting saved search ${id}:`, error);
+		return null;
+	}
+}
+
+export async function updateSavedSearch(
+	id: string,
+	updates: Partial<SavedSearch>
+): Promise<SavedSearch | null> {
+	const database = await connectToMongoDB();
+	const searchCollection = database.collection(COLLECTIONS.SAVED_SEARCHES);
+
+	// Make sure userId cannot be changed
+	const { userId, _id, ...updateData } = updates;
+
+	try {
+		const result = (await searchCollection.findOneAndUpdate(
+			{ _id: new ObjectId(id) },
+			{ $set: { ...updateData, updatedAt: new Date() } },
+			{ returnDocument: 'after' }
+		)) as SavedSearch | null;
+		if (!result) return null;
+
+		return { ...result, _id: result._id!.toString() };
+	} catch (error) {
+		console.error(`Error updating saved search ${id}:`, error);
+		return null;
+	}
+}
+
+// Deleting a saved search also clears its leads inbox
+export async function deleteSavedSearch(id: string): Promise<boolean> {
+	const database = await connectToMongoDB();
+	const searchCollection = database.collection(COLLECTIONS.SAVED_SEARCHES);
+
+	try {
+		const result = await searchCollection.deleteOne({
+			_id: new ObjectId(id),
+		});
+		await database
+			.collection(COLLECTIONS.SAVED_SEARCH_LEADS)
+			.deleteMany({ savedSearchId: id });
+		return result.deletedCount > 0;
+	} catch (error) {
+		console.error(`Error deleting saved search ${id}:`, error);
+		return false;
+	}
+}
+
+// Atomically take the next due saved search, pushing its nextRunAt out by
+// the lease so another scheduler tick (or server instance) won't pick it up
+// while it runs. The caller sets the real nextRunAt when the run finishes.
+export async function claimDueSavedSearch(
+	now: Date,
+	leaseMs: number
+): Promise<SavedSearch | null> {
+	const database = await connectToMongoDB();
+	const searchCollection = database.collection(COLLECTIONS.SAVED_SEARCHES);
+
+	const result = (await searchCollection.findOneAndUpdate(
+		{ enabled: true, nextRunAt: { $lte: now } },
+		{ $set: { nextRunAt: new Date(now.getTime() + leaseMs) } },
+		{ sort: { nextRunAt: 1 }, returnDocument: 'after' }
+	)) as SavedSearch | null;
+	if (!result) return null;
+
+	return { ...result, _id: result._id!.toString() };
+}
+
+// Add leads to a saved search's inbox, skipping companies it has already
+// reported. Returns how many were actually new.
+export async function addSavedSearchLeads(
+	leads: Omit<SavedSearchLead, '_id' | 'seen' | 'createdAt'>[]
+): Promise<number> {
+	if (leads.length === 0) return 0;
+
+	const database = await connectToMongoDB();
+	const leadCollection = database.collection<SavedSearchLead>(
+		COLLECTIONS.SAVED_SEARCH_LEADS
+	);
+
+	const now = new Date();
+	const result = await leadCollection.bulkWrite(
+		leads.map((lead) => ({
+			updateOne: {
+				filter: {
+					savedSearchId: lead.savedSearchId,
+					identity: lead.identity,
+				},
+				update: {
+					$setOnInsert: { ...lead, seen: false, createdAt: now },
+				},
+				upsert: true,
+			},
+		})),
+		{ ordered: false }
+	);
+
+	return result.upsertedCount;
+}
+
+export async function getSavedSearchLeads(
+	savedSearchId: string,
+	unseenOnly: boolean = false
+): Promise<SavedSearchLead[]> {
+	const database = await connectToMongoDB();
+	const leadCollection = database.collection<SavedSearchLead>(
+		COLLECTIONS.SAVED_SEARCH_LEADS
+	);
+
+	const filter: any = { savedSearchId };
+	if (unseenOnly) filter.seen = false;
+
+	const leads = await leadCollection
+		.find(filter)
+		.sort({ createdAt: -1 })
+		.toArray();
+
+	return leads.map((l) => ({ ...l, _id: l._id!.toString() }));
+}
+
+export async function markSavedSearchLeadsSeen(
+	savedSearchId: string
+): Promise<number> {
+	const database = await connectToMongoDB();
+	const result = await database
+		.collection(COLLECTIONS.SAVED_SEARCH_LEADS)
+		.updateMany({ savedSearchId, seen: false }, { $set: { seen: true } });
+
+	return result.modifiedCount;
+}
+
+// Unseen lead counts for each of a user's saved searches, keyed by search ID
+export async function getUnseenLeadCounts(
+	userId: string
+): Promise<Record<string, number>> {
+	const database = await connectToMongoDB();
+	const counts = await database
+		.collection(COLLECTIONS.SAVED_SEARCH_LEADS)
+		.aggregate<{ _id: string; count: number }>([
+			{ $match: { userId, seen: false } },
+			{ $group: { _id: '$savedSearchId', count: { $sum: 1 } } },
+		])
+		.toArray();
+
+	return Object.fromEntries(counts.map((c) => [c._id, c.count]));
+}
+
+// Exclusion list functions
+
+export async function getExclusionList(
+	userId: string
+): Promise<ExclusionList | null> {
+	const database = await connectToMongoDB();
+	const list = await database
+		.collection<ExclusionList>(COLLECTIONS.EXCLUSION_LISTS)
+		.findOne({ userId });
+	if (!list) return null;
+
+	return { ...list, _id: list._id!.toString() };
+}
+
+// Replace a user's exclusion list, creating it on first save
+export async function saveExclusionList(
+	userId: string,
+	list: Pick<ExclusionList, 'mode' | 'rules'>
+): Promise<ExclusionList> {
+	const database = await connectToMongoDB();
+	const saved = await database
+		.collection<ExclusionList>(COLLECTIONS.EXCLUSION_LISTS)
+		.findOneAndUpdate(
+			{ userId },
+			{ $set: { ...list, userId, updatedAt: new Date() } },
+			{ upsert: true, returnDocument: 'after' }
+		);
+
+	return { ...saved!, _id: saved!._id!.toString() };
+}
+
+// The user's pipeline stages, or the default stages until they customise them
+export async function getPipelineStages(
+	userId: string
+): Promise<PipelineStage[]> {
+	const database = await connectToMongoDB();
+	const pipeline = await database
+		.collection<Pipeline>(COLLECTIONS.PIPELINES)
+		.findOne({ userId });
+	return pipeline?.stages || DEFAULT_PIPELINE_STAGES;
+}
+
+// Replace a user's stages. Businesses in a stage that was removed go back to
+// having no status, so none are stranded in a stage the board can't show.
+export async function savePipelineStages(
+	userId: string,
+	stages: PipelineStage[]
+): Promise<{ stages: PipelineStage[]; cleared: number }> {
+	const database = await connectToMongoDB();
+	await database
+		.collection<Pipeline>(COLLECTIONS.PIPELINES)
+		.updateOne(
+			{ userId },
+			{ $set: { userId, stages, updatedAt: new Date() } },
+			{ upsert: true }
+		);
+
+	const result = await database
+		.collection<SavedBusiness>(COLLECTIONS.SAVED_BUSINESSES)
+		.updateMany(
+			{
+				userId,
+				pipelineStatus: {
+					$exists: true,
+					$nin: stages.map((stage) => stage.id),
+				},
+			},
+			{ $unset: { pipelineStatus: '' } }
+		);
+
+	return { stages, cleared: result.modifiedCount };
+}
+
+export interface TagCount {
+	name: string;
+	count: number;
+}
+
+// How many of the businesses matching the filter carry each tag, most used
+// first
+export async function countTags(
+	filter: Record<string, any>
+): Promise<TagCount[]> {
+	const database = await connectToMongoDB();
+	const counts = await database
+		.collection<SavedBusiness>(COLLECTIONS.SAVED_BUSINESSES)
+		.aggregate<{ _id: string; count: number }>([
+			{ $match: filter },
+			{ $unwind: '$tags' },
+			{ $group: { _id: '$tags', count: { $sum: 1 } } },
+			{ $sort: { count: -1, _id: 1 } },
+		])
+		.toArray();
+	return counts.map(({ _id, count }) => ({ name: _id, count }));
+}
+
+// The user's tags, by name
+export async function getTags(userId: string): Promise<Tag[]> {
+	const database = await connectToMongoDB();
+	const tags = await database
+		.collection<Tag>(COLLECTIONS.TAGS)
+		.find({ userId })
+		.sort({ name: 1 })
+		.toArray();
+	return tags.map((tag) => ({ ...tag, _id: tag._id!.toString() }));
+}
+
+export async function getTagById(id: string): Promise<Tag | null> {
+	const database = await connectToMongoDB();
+
+	try {
+		const tag = await database
+			.collection<Stored<Tag>>(COLLECTIONS.TAGS)
+			.findOne({ _id: new ObjectId(id) });
+		if (!tag) return null;
+
+		return { ...tag, _id: tag._id!.toString() };
+	} catch (error) {
+		console.error(`Error getting tag by ID ${id}:`, error);
+		return null;
+	}
+}
+
+const isDuplicateKeyError = (error: unknown) =>
+	(error as { code?: number })?.code === 11000;
+
+export async function createTag(
+	userId: string,
+	input: Pick<Tag, 'name' | 'color'>
+): Promise<Tag> {
+	const database = await connectToMongoDB();
+	const now = new Date();
+	const tag: Tag = { ...input, userId, createdAt: now, updatedAt: now };
+
+	try {
+		const result = await database
+			.collection<Tag>(COLLECTIONS.TAGS)
+			.insertOne(tag);
+		return { ...tag, _id: result.insertedId.toString() };
+	} catch (error) {
+		if (isDuplicateKeyError(error)) throw new Error('Tag already exists');
+		throw error;
+	}
+}
+
+// Make sure each named tag exists, e.g. after tagging businesses or an
+// import. New ones get the default color.
+export async function ensureTags(
+	userId: string,
+	names: string[]
+): Promise<void> {
+	if (names.length === 0) return;
+	const database = await connectToMongoDB();
+	const now = new Date();
+	await database.collection<Tag>(COLLECTIONS.TAGS).bulkWrite(
+		Array.from(new Set(names), (name) => ({
+			updateOne: {
+				filter: { userId, name },
+				update: {
+					$setOnInsert: {
+						userId,
+						name,
+						color: DEFAULT_TAG_COLOR,
+						createdAt: now,
+						updatedAt: now,
+					},
+				},
+				upsert: true,
+			},
+		})),
+		{ ordered: false }
+	);
+}
+
+// Rename or recolor a tag. A new name is carried over to every business
+// with the tag.
+export async function updateTag(
+	tag: Tag,
+	updates: Partial<Pick<Tag, 'name' | 'color'>>
+): Promise<Tag | null> {
+	const database = await connectToMongoDB();
+
+	let result: WithId<Stored<Tag>> | null;
+	try {
+		result = await database
+			.collection<Stored<Tag>>(COLLECTIONS.TAGS)
+			.findOneAndUpdate(
+				{ _id: new ObjectId(tag._id) },
+				{ $set: { ...updates, updatedAt: new Date() } },
+				{ returnDocument: 'after' }
+			);
+	} catch (error) {
+		if (isDuplicateKeyError(error)) throw new Error('Tag already exists');
+		throw error;
+	}
+	if (!result) return null;
+
+	if (updates.name && updates.name !== tag.name) {
+		await database
+			.collection<SavedBusiness>(COLLECTIONS.SAVED_BUSINESSES)
+			.bulkWrite(tagRenameWrites(tag.userId, tag.name, updates.name));
+	}
+
+	return { ...result, _id: result._id!.toString() };
+}
+
+// Delete a tag and take it off every business
+export async function deleteTag(tag: Tag): Promise<void> {
+	const database = await connectToMongoDB();
+	await database
+		.collection<Stored<Tag>>(COLLECTIONS.TAGS)
+		.deleteOne({ _id: new ObjectId(tag._id) });
+	await database
+		.collection<SavedBusiness>(COLLECTIONS.SAVED_BUSINESSES)
+		.updateMany(
+			{ userId: tag.userId, tags: tag.name },
+			{ $pull: { tags: tag.name } }
+		);
+}
+
+// Keep a previewed cleanup until it's confirmed, for up to an hour
+export async function saveCleanupPlan(
+	userId: string,
+	groups: CleanupPlanGroup[]
+): Promise<DuplicateCleanupPlan> {
+	const database = await connectToMongoDB();
+	const now = new Date();
+	const plan: DuplicateCleanupPlan = {
+		userId,
+		groups,
+		removeCount: groups.reduce((sum, g) => sum + g.remove.length, 0),
+		createdAt: now,
+		expiresAt: new Date(now.getTime() + 60 * 60 * 1000),
+	};
+
+	const result = await database
+		.collection<DuplicateCleanupPlan>(COLLECTIONS.CLEANUP_PLANS)
+		.insertOne(plan);
+	return { ...plan, _id: result.insertedId.toString() };
+}
+
+export async function getCleanupPlan(
+	id: string
+): Promise<DuplicateCleanupPlan | null> {
+	const database = await connectToMongoDB();
+
+	try {
+		const plan = await database
+			.collection<Stored<DuplicateCleanupPlan>>(COLLECTIONS.CLEANUP_PLANS)
+			.findOne({
+				_id: new ObjectId(id),
+				expiresAt: { $gt: new Date() },
+			});
+		if (!plan) return null;
+
+		return { ...plan, _id: plan._id!.toString() };
+	} catch (error) {
+		console.error(`Error getting cleanup plan ${id}:`, error);
+		return null;
+	}
+}
+
+// Delete exactly the records the plan listed. A group whose kept record has
+// since been deleted is skipped, so a company is never removed entirely.
+// Plans are single use.
+export async function executeCleanupPlan(
+	plan: DuplicateCleanupPlan
+): Promise<{ removed: number; skippedGroups: number }> {
+	const database = await connectToMongoDB();
+	const businessCollection = database.collection<Stored<SavedBusiness>>(
+		COLLECTIONS.SAVED_BUSINESSES
+	);
+
+	const keptIds = plan.groups.map((g) => new ObjectId(g.keep._id));
+	const stillKept = new Set(
+		(
+			await businessCollection
+				.find(
+					{ _id: { $in: keptIds }, userId: plan.userId },
+					{
+						projection: { _id: 1 },
+					}
+				)
+				.toArray()
+		).map((b) => b._id!.toString())
+	);
+
+	const groups = plan.groups.filter((g) => stillKept.has(g.keep._id));
+	const toRemove = groups.flatMap((g) =>
+		g.remove.map((b) => new ObjectId(b._id))
+	);
+
+	let removed = 0;
+	if (toRemove.length > 0) {
+		const result = await businessCollection.deleteMany({
+			_id: { $in: toRemove },
+			userId: plan.userId,
+		});
+		removed = result.deletedCount;
+		const removedIds = toRemove.map((id) => id.toString());
+		await database
+			.collection(COLLECTIONS.BUSINESS_ACTIVITIES)
+			.deleteMany({ businessId: { $in: removedIds } });
+		await database
+			.collection(COLLECTIONS.REMINDERS)
+			.deleteMany({ businessId: { $in: removedIds } });
+		await database
+			.collection<SavedList>(COLLECTIONS.SAVED_LISTS)
+			.updateMany(
+				{ userId: plan.userId, businesses: { $in: removedIds } },
+				{
+					$pull: { businesses: { $in: removedIds } },
+				}
+			);
+		console.log(
+			`Removed ${removed} duplicate businesses for user ${plan.userId}`
+		);
+	}
+
+	await database
+		.collection<Stored<DuplicateCleanupPlan>>(COLLECTIONS.CLEANUP_PLANS)
+		.deleteOne({ _id: new ObjectId(plan._id!) });
+
+	return { removed, skippedGroups: plan.groups.length - groups.length };
+}
+
+// Merge duplicates into the survivor: apply the merged fields, move list
+// memberships over and delete the duplicates. The merge is recorded first,
+// with everything undoBusinessMerge() needs to put things back.
+export async function mergeSavedBusinesses(
+	userId: string,
+	survivor: SavedBusiness,
+	duplicates: SavedBusiness[],
+	mergedFields: Partial<SavedBusiness>
+): Promise<{ business: SavedBusiness | null; merge: BusinessMerge }> {
+	const database = await connectToMongoDB();
+	const listCollection = database.collection<Stored<SavedList>>(
+		COLLECTIONS.SAVED_LISTS
+	);
+	const survivorId = survivor._id!;
+	const duplicateIds = duplicates.map((b) => b._id!);
+
+	const lists = await listCollection
+		.find({ userId, businesses: { $in: duplicateIds } })
+		.toArray();
+	const listMemberships = lists.flatMap((list) =>
+		(list.businesses || [])
+			.filter((id) => duplicateIds.includes(id))
+			.map((businessId) => ({
+				listId: list._id!.toString(),
+				businessId,
+			}))
+	);
+	const addedToLists = lists
+		.filter((list) => !(list.businesses || []).includes(survivorId))
+		.map((list) => list._id!.toString());
+
+	const merge: BusinessMerge = {
+		userId,
+		survivorId,
+		survivorBefore: survivor,
+		removed: duplicates,
+		listMemberships,
+		addedToLists,
+		createdAt: new Date(),
+	};
+	const result = await database
+		.collection<BusinessMerge>(COLLECTIONS.BUSINESS_MERGES)
+		.insertOne(merge);
+
+	const business = await updateSavedBusiness(survivorId, mergedFields);
+	if (business?.updatedAt) {
+		merge.survivorUpdatedAt = business.updatedAt;
+		await database
+			.collection<Stored<BusinessMerge>>(COLLECTIONS.BUSINESS_MERGES)
+			.updateOne(
+				{ _id: new ObjectId(result.insertedId.toString()) },
+				{ $set: { survivorUpdatedAt: business.updatedAt } }
+			);
+	}
+
+	if (addedToLists.length > 0) {
+		await listCollection.updateMany(
+			{ _id: { $in: addedToLists.map((id) => new ObjectId(id)) } },
+			{ $addToSet: { businesses: survivorId } }
+		);
+	}
+	await listCollection.updateMany(
+		{ userId, businesses: { $in: duplicateIds } },
+		{
+			$pull: { businesses: { $in: duplicateIds } },
+			$set: { updatedAt: new Date() },
+		}
+	);
+
+	await database
+		.collection<Stored<SavedBusiness>>(COLLECTIONS.SAVED_BUSINESSES)
+		.deleteMany({
+			_id: { $in: duplicateIds.map((id) => new ObjectId(id)) },
+		});
+
+	return {
+		business,
+		merge: { ...merge, _id: result.insertedId.toString() },
+	};
+}
+
+export async function getBusinessMerges(
+	userId: string,
+	limit: number = 20
+): Promise<BusinessMerge[]> {
+	const database = await connectToMongoDB();
+	const merges = await database
+		.collection<BusinessMerge>(COLLECTIONS.BUSINESS_MERGES)
+		.find({ userId })
+		.sort({ createdAt: -1 })
+		.limit(limit)
+		.toArray();
+
+	return merges.map((m) => ({ ...m, _id: m._id!.toString() }));
+}
+
+export async function getBusinessMergeById(
+	id: string
+): Promise<BusinessMerge | null> {
+	const database = await connectToMongoDB();
+
+	try {
+		const merge = await database
+			.collection<Stored<BusinessMerge>>(COLLECTIONS.BUSINESS_MERGES)
+			.findOne({ _id: new ObjectId(id) });
+		if (!merge) return null;
+
+		return { ...merge, _id: merge._id!.toString() };
+	} catch (error) {
+		console.error(`Error getting merge by ID ${id}:`, error);
+		return null;
+	}
+}
+
+// Activities are only ever added, never edited. They're deleted along with
+// their business. Open reminders waiting on one of the logged activity types
+// are marked done.
+export async function addBusinessActivities(
+	activities: BusinessActivity[]
+): Promise<BusinessActivity[]> {
+	if (activities.length === 0) return [];
+
+	const database = await connectToMongoDB();
+	const result = await database
+		.collection<BusinessActivity>(COLLECTIONS.BUSINESS_ACTIVITIES)
+		.insertMany(activities);
+	const added = activities.map((activity, index) => ({
+		...activity,
+		_id: result.insertedIds[index].toString(),
+	}));
+
+	for (const activity of added) {
+		await database.collection<Reminder>(COLLECTIONS.REMINDERS).updateMany(
+			{
+				businessId: activity.businessId,
+				doneAt: { $exists: false },
+				completeOn: activity.type,
+				createdAt: { $lte: activity.createdAt },
+			},
+			{
+				$set: {
+					doneAt: activity.createdAt,
+					doneByActivityId: activity._id,
+					updatedAt: new Date(),
+				},
+			}
+		);
+	}
+
+	return added;
+}
+
+// A business's timeline, newest first
+export async function getBusinessActivities(
+	businessId: string,
+	limit: number = 200
+): Promise<BusinessActivity[]> {
+	const database = await connectToMongoDB();
+	const activities = await database
+		.collection<BusinessActivity>(COLLECTIONS.BUSINESS_ACTIVITIES)
+		.find({ businessId })
+		.sort({ createdAt: -1, _id: -1 })
+		.limit(limit)
+		.toArray();
+
+	return activities.map((a) => ({ ...a, _id: a._id!.toString() }));
+}
+
+// Reminders Functions
+export async function createReminder(
+	reminder: Omit<Reminder, '_id'>
+): Promise<Reminder> {
+	const database = await connectToMongoDB();
+	const result = await database
+		.collection<Reminder>(COLLECTIONS.REMINDERS)
+		.insertOne(reminder);
+
+	return { ...reminder, _id: result.insertedId.toString() };
+}
+
+export async function getReminderById(id: string): Promise<Reminder | null> {
+	const database = await connectToMongoDB();
+
+	try {
+		const reminder = await database
+			.collection<Stored<Reminder>>(COLLECTIONS.REMINDERS)
+			.findOne({ _id: new ObjectId(id) });
+		if (!reminder) return null;
+
+		return { ...reminder, _id: reminder._id!.toString() };
+	} catch (error) {
+		console.error(`Error getting reminder by ID ${id}:`, error);
+		return null;
+	}
+}
+
+// A user's reminders, soonest first, with the business each one is for.
+// Reminders whose business has since been merged away are left out.
+export async function getReminders(
+	userId: string,
+	options: {
+		businessId?: string;
+		dueBefore?: Date;
+		includeDone?: boolean;
+	} = {}
+): Promise<ReminderWithBusiness[]> {
+	const database = await connectToMongoDB();
+	const filter: Filter<Reminder> = { userId };
+	if (options.businessId) filter.businessId = options.businessId;
+	if (options.dueBefore) filter.dueAt = { $lte: options.dueBefore };
+	if (!options.includeDone) filter.doneAt = { $exists: false };
+
+	const reminders = await database
+		.collection<Reminder>(COLLECTIONS.REMINDERS)
+		.find(filter)
+		.sort({ dueAt: 1 })
+		.limit(500)
+		.toArray();
+
+	const businessIds = Array.from(new Set(reminders.map((r) => r.businessId)));
+	const businesses = await database
+		.collection<Stored<SavedBusiness>>(COLLECTIONS.SAVED_BUSINESSES)
+		.find(
+			{ _id: { $in: businessIds.map((id) => new ObjectId(id)) } },
+			{ projection: { name: 1, website: 1, careerLink: 1 } }
+		)
+		.toArray();
+	const byId = new Map(businesses.map((b) => [b._id!.toString(), b]));
+
+	return reminders
+		.filter((r) => byId.has(r.businessId))
+		.map((r) => {
+			const business = byId.get(r.businessId)!;
+			return {
+				...r,
+				_id: r._id!.toString(),
+				business: {
+					name: business.name,
+					website: business.website,
+					careerLink: business.careerLink,
+				},
+			};
+		});
+}
+
+export async function updateReminder(
+	id: string,
+	set: Partial<Omit<Reminder, '_id'>>,
+	unset: (keyof Reminder)[] = []
+): Promise<Reminder | null> {
+	const database = await connectToMongoDB();
+	const result = await database
+		.collection<Stored<Reminder>>(COLLECTIONS.REMINDERS)
+		.findOneAndUpdate(
+			{ _id: new ObjectId(id) },
+			{
+				$set: { ...set, updatedAt: new Date() },
+				...(unset.length > 0 && {
+					$unset: Object.fromEntries(unset.map((key) => [key, ''])),
+				}),
+			},
+			{ returnDocument: 'after' }
+		);
+	if (!result) return null;
+
+	return { ...result, _id: result._id!.toString() };
+}
+
+export async function deleteReminder(id: string): Promise<boolean> {
+	const database = await connectToMongoDB();
+	const result = await database
+		.collection<Stored<Reminder>>(COLLECTIONS.REMINDERS)
+		.deleteOne({ _id: new ObjectId(id) });
+	return result.deletedCount > 0;
+}
+
+// The secret in a user's calendar feed URL. Made on first use; resetting it
+// stops the old URL from working.
+export async function getCalendarToken(
+	userId: string,
+	reset: boolean = false
+): Promise<string> {
+	const database = await connectToMongoDB();
+	const usersCollection = database.collection<Stored<User>>(
+		COLLECTIONS.USERS
+	);
+
+	if (!reset) {
+		const user = await usersCollection.findOne(
+			{ _id: new ObjectId(userId) },
+			{ projection: { calendarToken: 1 } }
+		);
+		if (user?.calendarToken) return user.calendarToken;
+	}
+
+	const calendarToken = crypto.randomBytes(24).toString('hex');
+	await usersCollection.updateOne(
+		{ _id: new ObjectId(userId) },
+		{
+			$set: { calendarToken, updatedAt: new Date() },
+		}
+	);
+	return calendarToken;
+}
+
+export async function getUserIdByCalendarToken(
+	calendarToken: string
+): Promise<string | null> {
+	const database = await connectToMongoDB();
+	const user = await database
+		.collection<User>(COLLECTIONS.USERS)
+		.findOne({ calendarToken }, { projection: { _id: 1 } });
+	return user ? user._id!.toString() : null;
+}
+
+// Put the survivor back as it was, restore the removed businesses under
+// their original ids and undo the list changes
+export async function undoBusinessMerge(
+	merge: BusinessMerge
+): Promise<SavedBusiness[]> {
+	const database = await connectToMongoDB();
+	const businessCollection = database.collection<Stored<SavedBusiness>>(
+		COLLECTIONS.SAVED_BUSINESSES
+	);
+	const listCollection = database.collection<Stored<SavedList>>(
+		COLLECTIONS.SAVED_LISTS
+	);
+
+	const restored = [merge.survivorBefore, ...merge.removed];
+	for (const business of restored) {
+		const { _id, ...fields } = business;
+		await businessCollection.replaceOne(
+			{ _id: new ObjectId(_id!) },
+			fields,
+			{ upsert: true }
+		);
+	}
+
+	if (merge.addedToLists.length > 0) {
+		await listCollection.updateMany(
+			{
+				_id: { $in: merge.addedToLists.map((id) => new ObjectId(id)) },
+			},
+			{ $pull: { businesses: merge.survivorId } }
+		);
+	}
+	for (const { listId, businessId } of merge.listMemberships) {
+		await listCollection.updateOne(
+			{ _id: new ObjectId(listId) },
+			{
+				$addToSet: { businesses: businessId },
+				$set: { updatedAt: new Date() },
+			}
+		);
+	}
+
+	await database
+		.collection<Stored<BusinessMerge>>(COLLECTIONS.BUSINESS_MERGES)
+		.updateOne(
+			{ _id: new ObjectId(merge._id!) },
+			{
+				$set: { undoneAt: new Date() },
+			}
+		);
+
+	return restored;
+}
+
+// Get all cached searches for debugging (admin function)
+export async function getAllCachedSearches(
+	limit: number = 50
+): Promise<CachedSearchResult[]> {
+	try {
+		const database = await connectToMongoDB();
+		const results = await database
+			.collection(COLLECTIONS.CACHED_SEARCHES)
+			.find({})
+			.sort({ createdAt: -1 })
+			.limit(limit)
+			.toArray();
+
+		return results as CachedSearchResult[];
+	} catch (error) {
+		console.error('Error getting all cached searches:', error);
+		return [];
+	}
+}
+
+// Guest Demo System Functions
+
+// Demo Search Quota Management
+export async function incrementDemoSearchCount(
+	guestId: string
+): Promise<{ count: number; remaining: number }> {
+	const database = await connectToMongoDB();
+	const demoSearchesCollection = database.collection<DemoSearch>(
+		COLLECTIONS.DEMO_SEARCHES
+	);
+
+	const now = new Date();
+	const expiresAt = new Date(now.getTime() + 90 * 24 * 60 * 60 * 1000); // 90 days from now
+
+	// Upsert the demo search record
+	const result = await demoSearchesCollection.findOneAndUpdate(
+		{ guestId },
+		{
+			$inc: { count: 1 },
+			$set: { lastSearchAt: now },
+			$setOnInsert: {
+				firstSearchAt: now,
+				createdAt: now,
+				expiresAt: expiresAt,
+			},
+		},
+		{
+			upsert: true,
+			returnDocument: 'after',
+		}
+	);
+
+	const count = result?.count || 1;
+	const remaining = Math.max(0, 20 - count); // 20 search limit
+
+	return { count, remaining };
+}
+
+export async function getDemoSearchStatus(
+	guestId: string
+): Promise<{ count: number; remaining: number; canSearch: boolean }> {
+	const database = await connectToMongoDB();
+	const demoSearchesCollection = database.collection<DemoSearch>(
+		COLLECTIONS.DEMO_SEARCHES
+	);
+
+	const demoSearch = await demoSearchesCollection.findOne({ guestId });
+
+	if (!demoSearch) {
+		return { count: 0, remaining: 20, canSearch: true };
+	}
+
+	const count = demoSearch.count;
+	const remaining = Math.max(0, 20 - count);
+	const canSearch = count < 20;
+
+	return { count, remaining, canSearch };
+}
+
+// Guest Results Management
+export async function saveGuestResults(
+	guestResult: Omit<GuestResult, 'createdAt' | 'expiresAt'>
+): Promise<GuestResult> {
+	const database = await connectToMongoDB();
+	const guestResultsCollection = database.collection<GuestResult>(
+		COLLECTIONS.GUEST_RESULTS
+	);
+
+	const now = new Date();
+	const expiresAt = new Date(now.getTime() + 90 * 24 * 60 * 60 * 1000); // 90 days from now
+
+	const newGuestResult: GuestResult = {
 		...guestResult,
 		createdAt: now,
 		expiresAt,
@@ -1442,21 +2419,24 @@ export async function migrateGuestDataToUser(
 		COLLECTIONS.SAVED_BUSINESSES
 	);
 
+	// Skip companies the user already has, and repeats across guest searches
+	const existingBusinesses = await savedBusinessesCollection
+		.find({ userId })
+		.toArray();
+	const index = buildMatchIndex<MatchableBusiness>(existingBusinesses);
 	const businessesToSave: SavedBusiness[] = [];
-	const seenBusinesses = new Set<string>();
 
 	for (const result of guestResults) {
 		for (const business of result.businesses) {
-			const businessKey = `${business.name}:${business.location}`;
-			if (!seenBusinesses.has(businessKey)) {
-				seenBusinesses.add(businessKey);
-				businessesToSave.push({
-					...business,
-					userId, // Assign to the new user
-					createdAt: new Date(),
-					updatedAt: new Date(),
-				});
-			}
+			if (findMatch(business, index)) continue;
+
+			addToMatchIndex(index, business);
+			businessesToSave.push({
+				...business,
+				userId, // Assign to the new user
+				createdAt: new Date(),
+				updatedAt: new Date(),
+			});
 		}
 	}
 
@@ -0,0 +1,330 @@
+import {
+	CITY_FIXTURES,
+	PLACE_FIXTURES,
+	type CityFixture,
+	type PlaceFixture,
+} from './fixtures';
+import {
+	type GeocodeResult,
+	type LatLng,
+	type Place,
+	type PlacesProvider,
+	type TextSearchPage,
+	type TextSearchRequest,
+} from './types';
+
+// Google never returns more than 60 results across pages for one query
+const MAX_TOTAL_RESULTS = 60;
+const MAX_PAGE_SIZE = 20;
+
+const NAME_PREFIXES = [
+	'Summit',
+	'Keystone',
+	'Riverbend',
+	'Northstar',
+	'Bluebird',
+	'Ironwood',
+	'Lantern',
+	'Cardinal',
+	'Harbor',
+	'Maple',
+	'Granite',
+	'Meridian',
+];
+const NAME_SUFFIXES = ['Group', 'Co.', 'LLC', 'Partners', 'Inc', 'Studio'];
+
+// Stable 32-bit hash so the same query always yields the same places
+function hashString(value: string): number {
+	let hash = 2166136261;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 16777619);
+	}
+	return hash >>> 0;
+}
+
+function slugify(value: string): string {
+	return value
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '');
+}
+
+function titleCase(value: string): string {
+	return value
+		.split(/\s+/)
+		.filter(Boolean)
+		.map((word) => word[0].toUpperCase() + word.slice(1))
+		.join(' ');
+}
+
+// Split "software companies in Columbus, OH" into its two halves
+function parseTextQuery(textQuery: string): {
+	keywords: string[];
+	location: string;
+} {
+	const [what, ...rest] = textQuery.toLowerCase().split(/\s+in\s+/);
+	return {
+		keywords: what.split(/[^a-z0-9]+/).filter((word) => word.length > 2),
+		location: rest.join(' in ').trim(),
+	};
+}
+
+function fixtureMatches(
+	fixture: PlaceFixture,
+	keywords: string[],
+	location: string
+): boolean {
+	const address = fixture.formattedAddress.toLowerCase();
+	const city = location.split(',')[0].trim();
+	if (city && !address.includes(city)) {
+		return false;
+	}
+
+	const haystack = [fixture.displayName.toLowerCase(), ...fixture.keywords];
+	return (
+		keywords.length === 0 ||
+		keywords.some((keyword) =>
+			haystack.some((value) => value.includes(keyword))
+		)
+	);
+}
+
+const MILES_PER_DEGREE = 69;
+
+// A stable point up to maxMiles from center, picked by the hash
+function pointNear(center: LatLng, hash: number, maxMiles: number): LatLng {
+	const angle = ((hash % 360) * Math.PI) / 180;
+	const degrees =
+		((((hash >>> 9) % 1000) / 1000) * maxMiles) / MILES_PER_DEGREE;
+	return {
+		latitude: center.latitude + degrees * Math.sin(angle),
+		longitude:
+			center.longitude +
+			(degrees * Math.cos(angle)) /
+				Math.cos((center.latitude * Math.PI) / 180),
+	};
+}
+
+const BUSINESS_STATUSES = [
+	'OPERATIONAL',
+	'OPERATIONAL',
+	'OPERATIONAL',
+	'OPERATIONAL',
+	'OPERATIONAL',
+	'OPERATIONAL',
+	'OPERATIONAL',
+	'OPERATIONAL',
+	'CLOSED_TEMPORARILY',
+	'CLOSED_PERMANENTLY',
+];
+
+// Phone, type, rating and status for a place, all picked by the hash
+function listingDetails(
+	hash: number,
+	keyword: string | undefined
+): Partial<Place> {
+	const primaryType = `${slugify(keyword || 'business').replace(
+		/-/g,
+		'_'
+	)}_company`;
+	const reviewed = hash % 7 !== 0;
+
+	return {
+		phone: `(${200 + (hash % 800)}) 555-${String(
+			1000 + ((hash >>> 7) % 9000)
+		)}`,
+		primaryType,
+		types: [primaryType, 'point_of_interest', 'establishment'],
+		rating: reviewed ? 3 + ((hash >>> 5) % 21) / 10 : undefined,
+		userRatingCount: reviewed ? 1 + ((hash >>> 13) % 400) : undefined,
+		businessStatus: BUSINESS_STATUSES[(hash >>> 17) % 10],
+		googleMapsUri: `https://maps.google.com/?cid=${hash}`,
+	};
+}
+
+// Deterministic offline implementation used for local development and tests.
+// Page tokens are plain offsets into the query's result list. Places get
+// coordinates near the searched city, inside the locationRestriction
+// rectangle or locationBias circle when one is given.
+export class FakePlacesProvider implements PlacesProvider {
+	readonly name = 'fake';
+	readonly pageTokenDelayMs = 0;
+	private fixtures: PlaceFixture[];
+	private cities: CityFixture[];
+	private generated: Map<string, Place>;
+
+	constructor(
+		fixtures: PlaceFixture[] = PLACE_FIXTURES,
+		cities: CityFixture[] = CITY_FIXTURES
+	) {
+		this.fixtures = fixtures;
+		this.cities = cities;
+		this.generated = new Map();
+	}
+
+	async searchText(request: TextSearchRequest): Promise<TextSearchPage> {
+		const results = this.resultsForQuery(request);
+		const offset = request.pageToken ? Number(request.pageToken) || 0 : 0;
+		const pageSize = Math.max(
+			1,
+			Math.min(request.maxResultCount || MAX_PAGE_SIZE, MAX_PAGE_SIZE)
+		);
+		const end = offset + pageSize;
+
+		return {
+			places: results.slice(offset, end),
+			nextPageToken: end < results.length ? String(end) : undefined,
+		};
+	}
+
+	async getPlaceDetails(placeId: string): Promise<Place | null> {
+		const fixture = this.fixtures.find((f) => f.id === placeId);
+		if (fixture) {
+			return this.toPlace(fixture);
+		}
+		return this.generated.get(placeId) || null;
+	}
+
+	async geocode(address: string): Promise<GeocodeResult | null> {
+		return this.locate(address);
+	}
+
+	private locate(address: string): GeocodeResult | null {
+		const normalized = address.toLowerCase().trim();
+		if (!normalized) {
+			return null;
+		}
+
+		const city = this.cities.find((c) => normalized.includes(c.name));
+		if (city) {
+			return {
+				coordinates: { lat: city.lat, lng: city.lng },
+				formatted_address: city.formattedAddress,
+			};
+		}
+
+		// Unknown places land somewhere stable inside the continental US
+		const hash = hashString(normalized);
+		return {
+			coordinates: {
+				lat: 30 + (hash % 1700) / 100,
+				lng: -120 + ((hash >>> 11) % 4500) / 100,
+			},
+			formatted_address: titleCase(address),
+		};
+	}
+
+	private cityCenter(address: string): LatLng {
+		const { coordinates } = this.locate(address || 'Springfield')!;
+		return { latitude: coordinates.lat, longitude: coordinates.lng };
+	}
+
+	private toPlace(fixture: PlaceFixture): Place {
+		return {
+			...listingDetails(hashString(fixture.id), fixture.keywords[0]),
+			id: fixture.id,
+			displayName: fixture.displayName,
+			websiteUri: fixture.websiteUri,
+			formattedAddress: fixture.formattedAddress,
+			location: pointNear(
+				this.cityCenter(fixture.formattedAddress),
+				hashString(fixture.id),
+				5
+			),
+		};
+	}
+
+	// Fixtures ignore the search area, so they match every tile of a
+	// restricted search; generated places are seeded per tile instead
+	private resultsForQuery(request: TextSearchRequest): Place[] {
+		const { keywords, location } = parseTextQuery(request.textQuery);
+		const matched = this.fixtures
+			.filter((fixture) => fixtureMatches(fixture, keywords, location))
+			.map((fixture) => this.toPlace(fixture));
+
+		if (matched.length > 0) {
+			return matched.slice(0, MAX_TOTAL_RESULTS);
+		}
+
+		const rectangle = request.locationRestriction?.rectangle;
+		const tileKey = rectangle
+			? `@${rectangle.low.latitude.toFixed(
+					4
+			  )},${rectangle.low.longitude.toFixed(4)}`
+			: '';
+		return this.generatePlaces(
+			request.textQuery + tileKey,
+			keywords,
+			location,
+			request
+		);
+	}
+
+	private placeLocation(
+		request: TextSearchRequest,
+		location: string,
+		hash: number
+	): LatLng {
+		const rectangle = request.locationRestriction?.rectangle;
+		if (rectangle) {
+			const x = (hash % 1000) / 1000;
+			const y = ((hash >>> 10) % 1000) / 1000;
+			return {
+				latitude:
+					rectangle.low.latitude +
+					(rectangle.high.latitude - rectangle.low.latitude) * y,
+				longitude:
+					rectangle.low.longitude +
+					(rectangle.high.longitude - rectangle.low.longitude) * x,
+			};
+		}
+
+		const circle = request.locationBias?.circle;
+		if (circle) {
+			return pointNear(circle.center, hash, circle.radius / 1609.34);
+		}
+
+		return pointNear(this.cityCenter(location), hash, 10);
+	}
+
+	private generatePlaces(
+		seedText: string,
+		keywords: string[],
+		location: string,
+		request: TextSearchRequest
+	): Place[] {
+		const seed = hashString(seedText.toLowerCase());
+		const count = 5 + (seed % 36);
+		const label = titleCase(keywords[0] || 'business');
+		const where = titleCase(location || 'Springfield');
+		const places: Place[] = [];
+
+		for (let i = 0; i < count; i++) {
+			const variant = hashString(`${seed}:${i}`);
+			const prefix = NAME_PREFIXES[variant % NAME_PREFIXES.length];
+			const suffix =
+				NAME_SUFFIXES[(variant >>> 8) % NAME_SUFFIXES.length];
+			const displayName = `${prefix} ${label} ${suffix} ${i + 1}`;
+			const id = `fake-${seed.toString(36)}-${i}`;
+			const place: Place = {
+				...listingDetails(variant, keywords[0]),
+				id,
+				displayName,
+				// Roughly one in five generated places has no website
+				websiteUri:
+					variant % 5 === 0
+						? undefined
+						: `https://${slugify(
+								`${prefix}-${label}-${i + 1}`
+						  )}.example.com`,
+				formattedAddress: `${100 + (variant % 9000)} Main St, ${where}`,
+				location: this.placeLocation(request, location, variant),
+			};
+			this.generated.set(place.id, place);
+			places.push(place);
+		}
+
+		return places;
+	}
+}
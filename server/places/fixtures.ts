@@ -0,0 +1,123 @@
+// Hand-written places served by the fake provider. Queries that don't match
+// any fixture fall back to generated places, so every search returns data.
+
+export interface PlaceFixture {
+	id: string;
+	displayName: string;
+	websiteUri?: string;
+	formattedAddress: string;
+	keywords: string[];
+}
+
+export interface CityFixture {
+	name: string;
+	lat: number;
+	lng: number;
+	formattedAddress: string;
+}
+
+export const PLACE_FIXTURES: PlaceFixture[] = [
+	{
+		id: 'fixture-columbus-1',
+		displayName: 'Buckeye Software Labs',
+		websiteUri: 'https://www.buckeyesoftwarelabs.com/',
+		formattedAddress: '150 E Gay St, Columbus, OH 43215, USA',
+		keywords: ['software', 'tech', 'development'],
+	},
+	{
+		id: 'fixture-columbus-2',
+		displayName: 'Scioto Digital, LLC',
+		websiteUri: 'https://sciotodigital.com',
+		formattedAddress: '41 S High St, Columbus, OH 43215, USA',
+		keywords: ['software', 'marketing', 'agency', 'tech'],
+	},
+	{
+		id: 'fixture-columbus-3',
+		displayName: 'Short North Web Works',
+		websiteUri: 'http://shortnorthwebworks.com/contact',
+		formattedAddress: '1000 N High St, Columbus, OH 43201, USA',
+		keywords: ['web', 'design', 'software', 'agency'],
+	},
+	{
+		id: 'fixture-columbus-4',
+		displayName: 'German Village Analytics',
+		formattedAddress: '588 S Third St, Columbus, OH 43215, USA',
+		keywords: ['data', 'analytics', 'consulting', 'tech'],
+	},
+	{
+		id: 'fixture-columbus-5',
+		displayName: 'Olentangy Health Partners',
+		websiteUri: 'https://olentangyhealth.org',
+		formattedAddress: '3545 Olentangy River Rd, Columbus, OH 43214, USA',
+		keywords: ['health', 'healthcare', 'clinic', 'medical'],
+	},
+	{
+		id: 'fixture-columbus-6',
+		displayName: 'Arena District Marketing Co.',
+		websiteUri: 'https://arenadistrictmarketing.com',
+		formattedAddress: '375 N Front St, Columbus, OH 43215, USA',
+		keywords: ['marketing', 'agency', 'advertising'],
+	},
+	{
+		id: 'fixture-cleveland-1',
+		displayName: 'Lakefront Software Group',
+		websiteUri: 'https://lakefrontsoftware.com',
+		formattedAddress: '1100 Superior Ave E, Cleveland, OH 44114, USA',
+		keywords: ['software', 'tech', 'development'],
+	},
+	{
+		id: 'fixture-cleveland-2',
+		displayName: 'Cuyahoga Cloud Services Inc',
+		websiteUri: 'https://www.cuyahogacloud.com',
+		formattedAddress: '1375 E 9th St, Cleveland, OH 44114, USA',
+		keywords: ['cloud', 'software', 'tech', 'it'],
+	},
+	{
+		id: 'fixture-cincinnati-1',
+		displayName: 'Queen City Code',
+		websiteUri: 'https://queencitycode.io',
+		formattedAddress: '1311 Vine St, Cincinnati, OH 45202, USA',
+		keywords: ['software', 'development', 'tech'],
+	},
+	{
+		id: 'fixture-austin-1',
+		displayName: 'Barton Creek Systems',
+		websiteUri: 'https://bartoncreeksystems.com',
+		formattedAddress: '600 Congress Ave, Austin, TX 78701, USA',
+		keywords: ['software', 'tech', 'it'],
+	},
+	{
+		id: 'fixture-austin-2',
+		displayName: 'Lady Bird Labs',
+		websiteUri: 'https://ladybirdlabs.com',
+		formattedAddress: '301 Congress Ave, Austin, TX 78701, USA',
+		keywords: ['software', 'startup', 'tech'],
+	},
+];
+
+export const CITY_FIXTURES: CityFixture[] = [
+	{
+		name: 'columbus',
+		lat: 39.9612,
+		lng: -82.9988,
+		formattedAddress: 'Columbus, OH, USA',
+	},
+	{
+		name: 'cleveland',
+		lat: 41.4993,
+		lng: -81.6944,
+		formattedAddress: 'Cleveland, OH, USA',
+	},
+	{
+		name: 'cincinnati',
+		lat: 39.1031,
+		lng: -84.512,
+		formattedAddress: 'Cincinnati, OH, USA',
+	},
+	{
+		name: 'austin',
+		lat: 30.2672,
+		lng: -97.7431,
+		formattedAddress: 'Austin, TX, USA',
+	},
+];
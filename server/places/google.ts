@@ -0,0 +1,159 @@
+import {
+	PlacesApiError,
+	type GeocodeResult,
+	type Place,
+	type PlacesProvider,
+	type TextSearchPage,
+	type TextSearchRequest,
+} from './types';
+
+const GOOGLE_PLACES_API_URL = 'https://places.googleapis.com/v1/places';
+const GOOGLE_GEOCODING_API_URL =
+	'https://maps.googleapis.com/maps/api/geocode/json';
+
+// Place fields requested from the Places (New) API. Phone, rating and
+// opening status are billed at a higher tier than the basic fields.
+const PLACE_FIELDS = [
+	'id',
+	'displayName',
+	'websiteUri',
+	'formattedAddress',
+	'location',
+	'nationalPhoneNumber',
+	'primaryType',
+	'types',
+	'rating',
+	'userRatingCount',
+	'businessStatus',
+	'googleMapsUri',
+];
+
+const SEARCH_FIELD_MASK = [
+	...PLACE_FIELDS.map((field) => `places.${field}`),
+	'nextPageToken',
+].join(',');
+const DETAILS_FIELD_MASK = PLACE_FIELDS.join(',');
+
+// Convert a raw Places (New) API place into the provider-neutral shape
+function toPlace(raw: any): Place {
+	return {
+		id: raw.id,
+		displayName: raw.displayName?.text || 'Unknown Business',
+		websiteUri: raw.websiteUri || undefined,
+		formattedAddress: raw.formattedAddress || undefined,
+		location: raw.location
+			? {
+					latitude: raw.location.latitude,
+					longitude: raw.location.longitude,
+			  }
+			: undefined,
+		phone: raw.nationalPhoneNumber || undefined,
+		primaryType: raw.primaryType || undefined,
+		types: raw.types,
+		rating: raw.rating,
+		userRatingCount: raw.userRatingCount,
+		businessStatus: raw.businessStatus || undefined,
+		googleMapsUri: raw.googleMapsUri || undefined,
+	};
+}
+
+// Turn an error payload or non-2xx response into a PlacesApiError
+async function parsePlacesResponse(response: Response): Promise<any> {
+	const data = await response.json().catch(() => ({}));
+
+	if (data.error) {
+		console.log(`Google Places API error: ${JSON.stringify(data.error)}`);
+		throw new PlacesApiError(
+			data.error.message || 'Unknown Google Places API error',
+			response.status
+		);
+	}
+
+	if (!response.ok) {
+		throw new PlacesApiError(
+			`HTTP ${response.status}: ${response.statusText}`,
+			response.status
+		);
+	}
+
+	return data;
+}
+
+export class GooglePlacesProvider implements PlacesProvider {
+	readonly name = 'google';
+	readonly pageTokenDelayMs = 2000;
+	private apiKey: string;
+
+	constructor(apiKey: string) {
+		this.apiKey = apiKey;
+	}
+
+	async searchText(request: TextSearchRequest): Promise<TextSearchPage> {
+		console.log(
+			`Making Google Places API (New) call with query: "${request.textQuery}"`
+		);
+		const response = await fetch(`${GOOGLE_PLACES_API_URL}:searchText`, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+				'X-Goog-Api-Key': this.apiKey,
+				'X-Goog-FieldMask': SEARCH_FIELD_MASK,
+			},
+			body: JSON.stringify(request),
+		});
+		console.log(
+			`Google Places API (New) response status: ${response.status}`
+		);
+
+		const data = await parsePlacesResponse(response);
+
+		return {
+			places: (data.places || []).map(toPlace),
+			nextPageToken: data.nextPageToken || undefined,
+		};
+	}
+
+	async getPlaceDetails(placeId: string): Promise<Place | null> {
+		const response = await fetch(
+			`${GOOGLE_PLACES_API_URL}/${encodeURIComponent(placeId)}`,
+			{
+				headers: {
+					'X-Goog-Api-Key': this.apiKey,
+					'X-Goog-FieldMask': DETAILS_FIELD_MASK,
+				},
+			}
+		);
+
+		if (response.status === 404) {
+			return null;
+		}
+
+		return toPlace(await parsePlacesResponse(response));
+	}
+
+	async geocode(address: string): Promise<GeocodeResult | null> {
+		const response = await fetch(
+			`${GOOGLE_GEOCODING_API_URL}?address=${encodeURIComponent(
+				address
+			)}&key=${this.apiKey}`
+		);
+		const data = await response.json();
+
+		if (data.status === 'OK' && data.results.length > 0) {
+			const location = data.results[0].geometry.location;
+			return {
+				coordinates: {
+					lat: location.lat,
+					lng: location.lng,
+				},
+				formatted_address: data.results[0].formatted_address,
+			};
+		}
+
+		if (data.status !== 'ZERO_RESULTS') {
+			console.log(`Google Geocoding API status: ${data.status}`);
+		}
+
+		return null;
+	}
+}
@@ -0,0 +1,190 @@
+import type { PlaceDetails } from '@shared/schema';
+import { FakePlacesProvider } from './fake';
+import { GooglePlacesProvider } from './google';
+import { MAX_RESULTS_PER_TILE } from './tiling';
+import {
+	type GeocodeResult,
+	type LocationRectangle,
+	type Place,
+	type PlacesProvider,
+	type SearchArea,
+	type TextSearchRequest,
+} from './types';
+
+export * from './types';
+export * from './tiling';
+export { FakePlacesProvider } from './fake';
+export { GooglePlacesProvider } from './google';
+
+// PLACES_PROVIDER=fake runs every search against local fixtures, with no
+// API key or network access. Anything else uses Google.
+export function getPlacesProviderName(): 'google' | 'fake' {
+	return process.env.PLACES_PROVIDER?.toLowerCase() === 'fake'
+		? 'fake'
+		: 'google';
+}
+
+// True when searches don't need a Google Places API key
+export function isOfflinePlacesProvider(): boolean {
+	return getPlacesProviderName() === 'fake';
+}
+
+let fakeProvider: FakePlacesProvider | null = null;
+
+export function createPlacesProvider(apiKey: string): PlacesProvider {
+	if (isOfflinePlacesProvider()) {
+		// Shared so place details resolve for places generated by earlier searches
+		if (!fakeProvider) {
+			fakeProvider = new FakePlacesProvider();
+		}
+		return fakeProvider;
+	}
+	return new GooglePlacesProvider(apiKey);
+}
+
+// Listing fields a business keeps from the place it was found as
+export function toPlaceDetails(place: Place): PlaceDetails {
+	return {
+		placeId: place.id,
+		phone: place.phone,
+		lat: place.location?.latitude,
+		lng: place.location?.longitude,
+		primaryType: place.primaryType,
+		types: place.types,
+		rating: place.rating,
+		reviewCount: place.userRatingCount,
+		businessStatus: place.businessStatus,
+		googleMapsUrl: place.googleMapsUri,
+	};
+}
+
+export const PLACE_DETAIL_KEYS: (keyof PlaceDetails)[] = [
+	'placeId',
+	'phone',
+	'lat',
+	'lng',
+	'primaryType',
+	'types',
+	'rating',
+	'reviewCount',
+	'businessStatus',
+	'googleMapsUrl',
+];
+
+// Copy one detail over; the key ties the value's type to the target's
+function copyDetail<K extends keyof PlaceDetails>(
+	target: PlaceDetails,
+	source: PlaceDetails,
+	key: K
+) {
+	target[key] = source[key];
+}
+
+// Copy the place details off a business record, for the places that rebuild
+// businesses field by field (caching, imports)
+export function pickPlaceDetails(business: PlaceDetails): PlaceDetails {
+	const details: PlaceDetails = {};
+	for (const key of PLACE_DETAIL_KEYS) {
+		if (business[key] !== undefined) {
+			copyDetail(details, business, key);
+		}
+	}
+	return details;
+}
+
+// Largest locationBias circle the Places API accepts
+const MAX_LOCATION_BIAS_METERS = 50000;
+
+// Search area that prefers places within radiusMeters of center
+export function locationBiasAround(
+	center: GeocodeResult['coordinates'],
+	radiusMeters: number
+): SearchArea {
+	return {
+		locationBias: {
+			circle: {
+				center: { latitude: center.lat, longitude: center.lng },
+				radius: Math.min(radiusMeters, MAX_LOCATION_BIAS_METERS),
+			},
+		},
+	};
+}
+
+// Follow page tokens until maxResults places are collected or results run out
+export async function searchAllPages(
+	provider: PlacesProvider,
+	textQuery: string,
+	maxResults: number,
+	area: SearchArea = {}
+): Promise<Place[]> {
+	const places: Place[] = [];
+	let nextPageToken: string | undefined;
+
+	do {
+		const request: TextSearchRequest = {
+			...area,
+			textQuery,
+			maxResultCount: Math.min(20, maxResults - places.length),
+		};
+
+		if (nextPageToken) {
+			request.pageToken = nextPageToken;
+			if (provider.pageTokenDelayMs > 0) {
+				await new Promise((resolve) =>
+					setTimeout(resolve, provider.pageTokenDelayMs)
+				);
+			}
+		}
+
+		const page = await provider.searchText(request);
+		console.log(`Found ${page.places.length} places in this page`);
+
+		places.push(...page.places);
+		nextPageToken = page.nextPageToken;
+	} while (nextPageToken && places.length < maxResults);
+
+	return places;
+}
+
+// Tiles searched at once; each tile still pages sequentially
+const TILE_BATCH_SIZE = 3;
+
+// Run the query once per tile and merge the results by place ID, stopping
+// once maxResults places are found. Places near tile edges can come back from
+// more than one tile.
+export async function searchTiles(
+	provider: PlacesProvider,
+	textQuery: string,
+	tiles: LocationRectangle[],
+	maxResults: number = Infinity
+): Promise<Place[]> {
+	const placesById = new Map<string, Place>();
+
+	for (
+		let i = 0;
+		i < tiles.length && placesById.size < maxResults;
+		i += TILE_BATCH_SIZE
+	) {
+		const batch = tiles.slice(i, i + TILE_BATCH_SIZE);
+		const results = await Promise.all(
+			batch.map((tile) =>
+				searchAllPages(provider, textQuery, MAX_RESULTS_PER_TILE, {
+					locationRestriction: { rectangle: tile },
+				})
+			)
+		);
+
+		for (const place of results.flat()) {
+			if (!placesById.has(place.id)) {
+				placesById.set(place.id, place);
+			}
+		}
+		console.log(
+			`Searched ${Math.min(i + TILE_BATCH_SIZE, tiles.length)}/${
+				tiles.length
+			} tiles, ${placesById.size} unique places so far`
+		);
+	}
+
+	return Array.from(placesById.values()).slice(0, maxResults);
+}
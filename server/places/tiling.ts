@@ -0,0 +1,113 @@
+import { type GeocodeResult, type LocationRectangle } from './types';
+
+// Grid tiling for searches that need more than one query's worth of results.
+// Text Search stops at 60 places per query, so a tiled search splits the
+// square around the search radius into density x density rectangles and runs
+// the query once per rectangle with a locationRestriction.
+
+export const MIN_TILE_DENSITY = 2;
+export const MAX_TILE_DENSITY = 8;
+export const DEFAULT_TILE_DENSITY = 3;
+
+// Text Search returns 20 places per page and at most 3 pages per query
+const PAGE_SIZE = 20;
+export const MAX_RESULTS_PER_TILE = 60;
+
+const METERS_PER_DEGREE = 111320;
+
+interface GridCell {
+	// Cell bounds on a unit grid spanning -1..1 on both axes
+	minX: number;
+	maxX: number;
+	minY: number;
+	maxY: number;
+}
+
+// Cells of the grid that overlap the search circle. Dense grids have corner
+// cells entirely outside the radius, and searching those would only waste
+// calls.
+function gridCells(density: number): GridCell[] {
+	const step = 2 / density;
+	const cells: GridCell[] = [];
+
+	for (let row = 0; row < density; row++) {
+		for (let col = 0; col < density; col++) {
+			const cell = {
+				minX: -1 + col * step,
+				maxX: -1 + (col + 1) * step,
+				minY: -1 + row * step,
+				maxY: -1 + (row + 1) * step,
+			};
+			// Point of the cell closest to the center of the circle
+			const nearestX = Math.min(Math.max(0, cell.minX), cell.maxX);
+			const nearestY = Math.min(Math.max(0, cell.minY), cell.maxY);
+			if (nearestX * nearestX + nearestY * nearestY < 1) {
+				cells.push(cell);
+			}
+		}
+	}
+
+	return cells;
+}
+
+export function clampTileDensity(density: number): number {
+	return Math.min(
+		MAX_TILE_DENSITY,
+		Math.max(MIN_TILE_DENSITY, Math.round(density))
+	);
+}
+
+export function buildSearchTiles(
+	center: GeocodeResult['coordinates'],
+	radiusMeters: number,
+	density: number
+): LocationRectangle[] {
+	const latRadius = radiusMeters / METERS_PER_DEGREE;
+	const lngRadius =
+		radiusMeters /
+		(METERS_PER_DEGREE * Math.cos((center.lat * Math.PI) / 180));
+
+	return gridCells(clampTileDensity(density)).map((cell) => ({
+		low: {
+			latitude: center.lat + cell.minY * latRadius,
+			longitude: center.lng + cell.minX * lngRadius,
+		},
+		high: {
+			latitude: center.lat + cell.maxY * latRadius,
+			longitude: center.lng + cell.maxX * lngRadius,
+		},
+	}));
+}
+
+export interface TiledSearchEstimate {
+	tileDensity: number;
+	tiles: number;
+	maxResultsPerTile: number;
+	// Worst case: every tile fills all of its pages
+	maxSearchCalls: number;
+	geocodeCalls: number;
+	maxApiCalls: number;
+	maxResults: number;
+}
+
+// Upper bound on what a tiled search costs, known before anything runs
+export function estimateTiledSearch(
+	density: number,
+	maxResultsPerTile: number = MAX_RESULTS_PER_TILE
+): TiledSearchEstimate {
+	const tileDensity = clampTileDensity(density);
+	const perTile = Math.min(maxResultsPerTile, MAX_RESULTS_PER_TILE);
+	const tiles = gridCells(tileDensity).length;
+	const maxSearchCalls = tiles * Math.ceil(perTile / PAGE_SIZE);
+	const geocodeCalls = 1;
+
+	return {
+		tileDensity,
+		tiles,
+		maxResultsPerTile: perTile,
+		maxSearchCalls,
+		geocodeCalls,
+		maxApiCalls: maxSearchCalls + geocodeCalls,
+		maxResults: tiles * perTile,
+	};
+}
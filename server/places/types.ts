@@ -0,0 +1,79 @@
+// Provider-neutral shapes for the Places data the app consumes. Both the
+// Google implementation and the offline fake return these, so routes never
+// deal with raw Places (New) API payloads.
+
+export interface LatLng {
+	latitude: number;
+	longitude: number;
+}
+
+export interface Place {
+	id: string;
+	displayName: string;
+	websiteUri?: string;
+	formattedAddress?: string;
+	location?: LatLng;
+	phone?: string;
+	primaryType?: string;
+	types?: string[];
+	rating?: number;
+	userRatingCount?: number;
+	businessStatus?: string;
+	googleMapsUri?: string;
+}
+
+// Rectangle given by its south-west (low) and north-east (high) corners
+export interface LocationRectangle {
+	low: LatLng;
+	high: LatLng;
+}
+
+export interface TextSearchRequest {
+	textQuery: string;
+	maxResultCount?: number;
+	pageToken?: string;
+	// Only return places inside this area
+	locationRestriction?: { rectangle: LocationRectangle };
+	// Prefer places near this point; radius is in meters (Google allows up
+	// to 50km). Can't be combined with locationRestriction.
+	locationBias?: { circle: { center: LatLng; radius: number } };
+}
+
+// The part of a search request that says where to look
+export type SearchArea = Pick<
+	TextSearchRequest,
+	'locationRestriction' | 'locationBias'
+>;
+
+export interface TextSearchPage {
+	places: Place[];
+	nextPageToken?: string;
+}
+
+export interface GeocodeResult {
+	coordinates: {
+		lat: number;
+		lng: number;
+	};
+	formatted_address: string;
+}
+
+export interface PlacesProvider {
+	readonly name: string;
+	// Delay required before a page token becomes valid (Google needs ~2s)
+	readonly pageTokenDelayMs: number;
+	searchText(request: TextSearchRequest): Promise<TextSearchPage>;
+	getPlaceDetails(placeId: string): Promise<Place | null>;
+	geocode(address: string): Promise<GeocodeResult | null>;
+}
+
+// Raised when the upstream Places service rejects a request
+export class PlacesApiError extends Error {
+	status: number;
+
+	constructor(message: string, status: number = 400) {
+		super(message);
+		this.name = 'PlacesApiError';
+		this.status = status;
+	}
+}
@@ -0,0 +1,86 @@
+// Open reminders as an iCalendar (RFC 5545) feed that calendar apps can
+// subscribe to. Each reminder is a short event at its due time with an alert.
+import type { ReminderWithBusiness } from '@shared/schema';
+
+const EVENT_MINUTES = 15;
+
+// 20241005T140000Z
+const formatUtc = (date: Date) =>
+	date
+		.toISOString()
+		.replace(/[-:]/g, '')
+		.replace(/\.\d{3}/, '');
+
+const escapeText = (text: string) =>
+	text
+		.replace(/\\/g, '\\\\')
+		.replace(/;/g, '\\;')
+		.replace(/,/g, '\\,')
+		.replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets continue on the next line after a space
+function foldLine(line: string): string {
+	const chunks: string[] = [];
+	let chunk = '';
+	let octets = 0;
+	for (const char of line) {
+		const size = Buffer.byteLength(char);
+		if (octets + size > (chunks.length === 0 ? 75 : 74)) {
+			chunks.push(chunk);
+			chunk = '';
+			octets = 0;
+		}
+		chunk += char;
+		octets += size;
+	}
+	chunks.push(chunk);
+	return chunks.join('\r\n ');
+}
+
+export function buildRemindersCalendar(
+	reminders: ReminderWithBusiness[],
+	now: Date = new Date()
+): string {
+	const lines = [
+		'BEGIN:VCALENDAR',
+		'VERSION:2.0',
+		'PRODID:-//CompanyHunter//Reminders//EN',
+		'CALSCALE:GREGORIAN',
+		'METHOD:PUBLISH',
+		'X-WR-CALNAME:CompanyHunter follow-ups',
+	];
+
+	for (const reminder of reminders) {
+		const start = new Date(reminder.dueAt);
+		const end = new Date(start.getTime() + EVENT_MINUTES * 60 * 1000);
+		const details = [
+			reminder.business.website,
+			reminder.business.careerLink &&
+				`Careers: ${reminder.business.careerLink}`,
+		].filter(Boolean);
+
+		lines.push(
+			'BEGIN:VEVENT',
+			`UID:reminder-${reminder._id}@companyhunter`,
+			`DTSTAMP:${formatUtc(now)}`,
+			`LAST-MODIFIED:${formatUtc(new Date(reminder.updatedAt))}`,
+			`DTSTART:${formatUtc(start)}`,
+			`DTEND:${formatUtc(end)}`,
+			`SUMMARY:${escapeText(
+				`${reminder.title} - ${reminder.business.name}`
+			)}`,
+			...(details.length > 0
+				? [`DESCRIPTION:${escapeText(details.join('\n'))}`]
+				: []),
+			'BEGIN:VALARM',
+			'ACTION:DISPLAY',
+			`DESCRIPTION:${escapeText(reminder.title)}`,
+			'TRIGGER:PT0M',
+			'END:VALARM',
+			'END:VEVENT'
+		);
+	}
+
+	lines.push('END:VCALENDAR');
+	return lines.map(foldLine).join('\r\n') + '\r\n';
+}
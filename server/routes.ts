@@ -12,7 +12,41 @@ import {
 	savedListSchema,
 	apiKeysSchema,
 	stateSearchParamsSchema,
+	type Business,
+	type SavedBusiness,
+	type SearchHistoryEntry,
+	savedSearchInputSchema,
+	type SavedSearch,
+	resultFiltersSchema,
+	matchThresholdsSchema,
+	businessMergeInputSchema,
+	bulkEnrichmentInputSchema,
+	type BulkEnrichmentInput,
+	type ResultFilters,
+	exclusionListInputSchema,
+	type ExclusionList,
+	pipelineInputSchema,
+	businessActivityInputSchema,
+	reminderInputSchema,
+	reminderUpdateSchema,
+	type Reminder,
+	type SavedList,
+	savedListInputSchema,
+	isSmartList,
+	tagInputSchema,
+	bulkBusinessInputSchema,
+	BULK_OPERATION_LIMIT,
+	savedBusinessQuerySchema,
+	savedBusinessSortSchema,
+	listMembershipInputSchema,
 } from '@shared/schema';
+import { applyResultFilters } from '@shared/resultFilters';
+import {
+	buildMatchIndex,
+	findMatch,
+	resolveMatchThresholds,
+	type MatchThresholds,
+} from '@shared/matcher';
 import { ZodError } from 'zod';
 import { fromZodError } from 'zod-validation-error';
 import OpenAI from 'openai';
@@ -34,6 +68,16 @@ import {
 	addBusinessToList,
 	removeBusinessFromList,
 	getBusinessesForList,
+	countSavedBusinesses,
+	countTags,
+	getTags,
+	getTagById,
+	createTag,
+	ensureTags,
+	updateTag,
+	deleteTag,
+	findSavedBusinesses,
+	bulkWriteSavedBusinesses,
 	saveApiKeys,
 	getApiKeys,
 	getApiKeysStatus,
@@ -42,7 +86,9 @@ import {
 	saveCachedSearchResult,
 	getCachedSearchResult,
 	cleanupExpiredCachedResults,
-	cleanupDuplicateBusinesses,
+	saveCleanupPlan,
+	getCleanupPlan,
+	executeCleanupPlan,
 	getDemoApiKeys,
 	isDemoModeEnabled,
 	incrementDemoSearchCount,
@@ -51,11 +97,61 @@ import {
 	getGuestBusinesses,
 	getGuestResults,
 	migrateGuestDataToUser,
+	saveSearchHistoryEntry,
+	getSearchHistory,
+	getSearchHistoryEntry,
+	getPreviousSearchRun,
+	deleteSearchHistoryEntry,
+	createSavedSearch,
+	getSavedSearches,
+	getSavedSearchById,
+	updateSavedSearch,
+	deleteSavedSearch,
+	getSavedSearchLeads,
+	markSavedSearchLeadsSeen,
+	getUnseenLeadCounts,
+	getExclusionList,
+	saveExclusionList,
+	getSavedBusinessById,
+	mergeSavedBusinesses,
+	getBusinessMerges,
+	getBusinessMergeById,
+	undoBusinessMerge,
+	getPipelineStages,
+	savePipelineStages,
+	addBusinessActivities,
+	getBusinessActivities,
+	createReminder,
+	getReminderById,
+	getReminders,
+	updateReminder,
+	deleteReminder,
+	getCalendarToken,
+	getUserIdByCalendarToken,
+	addBusinessesToList,
+	removeBusinessesFromList,
 } from './mongodb';
+import { buildRemindersCalendar } from './reminderCalendar';
+import {
+	NO_PIPELINE_STATUS,
+	type SavedBusinessFilters,
+} from './savedBusinessFilter';
+import {
+	bulkItemResults,
+	bulkUpdateFor,
+	trackedChanges,
+} from './bulkOperations';
+import { parseTagCell, splitCSVLine } from './csvImport';
+import {
+	changeActivities,
+	mergeActivity,
+	type ActivityAuthor,
+} from './businessActivity';
 import {
 	authenticate,
 	optionalAuth,
 	optionalUserOrGuest,
+	getResultOwnerId,
 } from './middleware/auth';
 import { verifyGuestToken } from './mongodb';
 import {
@@ -63,6 +159,54 @@ import {
 	sanitizeSearchTerm,
 	sanitizeInput,
 } from './utils/security.js';
+import {
+	createPlacesProvider,
+	isOfflinePlacesProvider,
+	PlacesApiError,
+	searchAllPages,
+	searchTiles,
+	buildSearchTiles,
+	clampTileDensity,
+	estimateTiledSearch,
+	DEFAULT_TILE_DENSITY,
+	locationBiasAround,
+	toPlaceDetails,
+	pickPlaceDetails,
+	type GeocodeResult,
+	type Place,
+	type PlacesProvider,
+} from './places';
+import {
+	isFinishedStatus,
+	searchJobs,
+	type SearchJob,
+	type SearchJobEvent,
+	type SearchJobParams,
+} from './searchJobs';
+import { diffBusinessLists, markDuplicates } from './duplicates';
+import { getNextRunAt } from './savedSearches';
+import { applyExclusions } from './exclusions';
+import {
+	buildCleanupGroups,
+	buildMergedFields,
+	editedSinceMerge,
+	groupDuplicates,
+	unknownMergeSources,
+} from './businessMerge';
+import {
+	discoverCareersPage,
+	findAtsBoard,
+	fetchJobOpenings,
+	checkWebsiteHealth,
+	crawlContacts,
+	ENRICHMENT_BATCH_LIMIT,
+} from './enrichment';
+import {
+	enrichmentJobs,
+	type EnrichmentCheck,
+	type EnrichmentJobKind,
+} from './enrichmentJobs';
+import { runSavedSearch } from './savedSearchScheduler';
 
 // OpenAI client will be initialized per-request with user's API key
 
@@ -1191,35 +1335,27 @@ async function getExpandedOhioCities(openaiClient: OpenAI): Promise<string[]> {
 	return getTopCitiesForState('Ohio', 80, openaiClient);
 }
 
-// Helper functions for comparing businesses
-function normalizeDomain(url: string): string {
-	try {
-		if (!url) return '';
-
-		// Extract just the main domain (example.com) for comparison
-		const domainMatch = url
-			.toLowerCase()
-			.replace(/^https?:\/\//i, '')
-			.replace(/^www\./i, '')
-			.match(/([a-z0-9-]+\.[a-z0-9-]+)/i);
-
-		return domainMatch ? domainMatch[0] : '';
-	} catch {
-		return url.toLowerCase();
-	}
-}
-
-function normalizeName(name: string): string {
-	if (!name) return '';
-
-	// Remove common business suffixes and lowercase
-	return name
-		.toLowerCase()
-		.replace(
-			/,?\s+(inc|llc|corporation|corp|co|company|ltd|limited)\.?$/i,
-			''
-		)
-		.trim();
+// Result filters given as query parameters, e.g.
+// ?minRating=4&websiteOnly=true&excludeTypes=hotel,restaurant
+function resultFiltersFromQuery(query: Request['query']): ResultFilters {
+	const flag = (name: string) =>
+		query[name] === undefined ? undefined : query[name] === 'true';
+	const number = (name: string) =>
+		query[name] === undefined ? undefined : Number(query[name]);
+	const list = (name: string) =>
+		typeof query[name] === 'string'
+			? (query[name] as string).split(',').filter(Boolean)
+			: undefined;
+
+	return resultFiltersSchema.parse({
+		hidePermanentlyClosed: flag('hidePermanentlyClosed'),
+		hideTemporarilyClosed: flag('hideTemporarilyClosed'),
+		minRating: number('minRating'),
+		minReviewCount: number('minReviewCount'),
+		websiteOnly: flag('websiteOnly'),
+		includeTypes: list('includeTypes'),
+		excludeTypes: list('excludeTypes'),
+	});
 }
 
 export async function registerRoutes(app: Express): Promise<Server> {
@@ -1231,10 +1367,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 		console.error('Failed to connect to MongoDB:', error);
 	}
 
-	// Google Places API endpoint
-	const GOOGLE_PLACES_API_URL = 'https://places.googleapis.com/v1/places';
-	const GOOGLE_GEOCODING_API_URL =
-		'https://maps.googleapis.com/maps/api/geocode/json';
+	// Server-wide Google key, used for geocoding
 	const API_KEY = process.env.GOOGLE_PLACES_API_KEY || '';
 
 	// Initialize default OpenAI client if system key is available
@@ -1252,6 +1385,265 @@ export async function registerRoutes(app: Express): Promise<Server> {
 	const geocodeCache = new Map<string, any>();
 	const businessDetailsCache = new Map<string, any>();
 
+	// Geocode an address, sharing the cache with /api/geocode
+	const geocodeLocation = async (
+		provider: PlacesProvider,
+		address: string
+	): Promise<GeocodeResult | null> => {
+		const addressKey = address.toLowerCase();
+		if (geocodeCache.has(addressKey)) {
+			return geocodeCache.get(addressKey);
+		}
+
+		const result = await provider.geocode(address);
+		if (result) {
+			geocodeCache.set(addressKey, result);
+		}
+		return result;
+	};
+
+	// All of a user's saved companies, for flagging duplicates in search results
+	const getSavedBusinessesForDuplicateCheck = async (
+		userId?: string
+	): Promise<SavedBusiness[]> => {
+		if (!userId) return [];
+
+		try {
+			const { businesses } = await getSavedBusinesses(userId, {
+				limit: 10000, // Get all businesses for duplicate detection
+			});
+			console.log(
+				`Found ${businesses.length} saved businesses for user ${userId}`
+			);
+			return businesses;
+		} catch (err) {
+			console.error(
+				'Error fetching saved businesses for duplicate check:',
+				err
+			);
+			return [];
+		}
+	};
+
+	// A user's saved businesses grouped with the earlier copies they duplicate
+	const getDuplicateGroupsForUser = async (
+		userId: string,
+		thresholds?: MatchThresholds
+	) => {
+		const { businesses } = await getSavedBusinesses(userId, {
+			limit: 10000,
+		});
+		// Saved businesses come back newest first; grouping wants oldest first
+		return groupDuplicates(businesses.reverse(), thresholds);
+	};
+
+	// Which businesses a list holds: a static list's ids, or a smart list's
+	// rules, which are matched afresh on every read
+	const listFilters = (list: SavedList): SavedBusinessFilters =>
+		isSmartList(list)
+			? { smartList: { rules: list.rules, match: list.match } }
+			: { businessIds: list.businesses || [] };
+
+	// The businesses a bulk website check runs over, or null when any of them
+	// (or the list) isn't the user's. Lists are capped at the batch limit;
+	// remaining is how many were left out.
+	const getBusinessesForEnrichment = async (
+		userId: string,
+		input: BulkEnrichmentInput
+	): Promise<{ businesses: SavedBusiness[]; remaining: number } | null> => {
+		if (input.listId) {
+			const list = await getSavedListById(input.listId);
+			if (!list || list.userId !== userId) return null;
+			if (isSmartList(list)) {
+				const { businesses, total } = await getSavedBusinesses(userId, {
+					limit: ENRICHMENT_BATCH_LIMIT,
+					filters: listFilters(list),
+				});
+				return { businesses, remaining: total - businesses.length };
+			}
+			const businesses = (
+				await getBusinessesForList(input.listId)
+			).filter((b) => b.userId === userId);
+			return {
+				businesses: businesses.slice(0, ENRICHMENT_BATCH_LIMIT),
+				remaining: Math.max(
+					businesses.length - ENRICHMENT_BATCH_LIMIT,
+					0
+				),
+			};
+		}
+
+		const businesses = await Promise.all(
+			input.businessIds!.map((id) => getSavedBusinessById(id))
+		);
+		if (businesses.some((b) => !b || b.userId !== userId)) return null;
+		return { businesses: businesses as SavedBusiness[], remaining: 0 };
+	};
+
+	// Start a bulk check over the businesses that have the field it reads, as
+	// a background job. Sends the response itself: 202 with the job, or why
+	// it couldn't start.
+	const submitEnrichmentJob = async (
+		req: Request,
+		res: Response,
+		kind: EnrichmentJobKind,
+		field: 'website' | 'careerLink',
+		check: EnrichmentCheck
+	) => {
+		const userId = req.user!.userId;
+		const input = bulkEnrichmentInputSchema.parse(req.body);
+		const target = await getBusinessesForEnrichment(userId, input);
+		if (!target) {
+			return res
+				.status(404)
+				.json({ message: 'Business or list not found' });
+		}
+		if (enrichmentJobs.active(userId, kind)) {
+			return res
+				.status(409)
+				.json({ message: 'This check is already running' });
+		}
+
+		const job = enrichmentJobs.submit(
+			userId,
+			kind,
+			target.businesses.filter((b) => b[field]),
+			check,
+			target.remaining
+		);
+		res.status(202).json(job);
+	};
+
+	// Who an activity is logged as
+	const activityAuthor = (req: Request): ActivityAuthor => ({
+		userId: req.user!.userId,
+		email: req.user!.email,
+	});
+
+	// Look for the business's careers page and store what was found. A miss
+	// only records the check, so an earlier or hand-entered link survives.
+	const discoverCareersForBusiness = async (
+		business: SavedBusiness,
+		author: ActivityAuthor
+	) => {
+		const page = await discoverCareersPage(business.website);
+		const updates: Partial<SavedBusiness> = {
+			careerLinkCheckedAt: new Date(),
+		};
+		if (page) {
+			updates.careerLink = page.url;
+			updates.careerLinkConfidence = page.confidence;
+		}
+
+		const updated = await updateSavedBusiness(business._id!, updates);
+		await addBusinessActivities(
+			changeActivities(business, updates, author)
+		);
+		return { business: updated || business, page };
+	};
+
+	// Read open postings from the job board behind the business's careers
+	// link. When no supported board is found the old job fields are cleared;
+	// when the board can't be read they're left as they were.
+	const checkJobsForBusiness = async (business: SavedBusiness) => {
+		const board = await findAtsBoard(business.careerLink!);
+		const openings = board ? await fetchJobOpenings(board) : null;
+		const updates: Partial<SavedBusiness> = { jobsCheckedAt: new Date() };
+
+		if (!board) {
+			Object.assign(updates, {
+				atsPlatform: undefined,
+				atsBoardUrl: undefined,
+				openJobCount: undefined,
+				openRoles: undefined,
+			});
+		} else if (openings) {
+			Object.assign(updates, {
+				atsPlatform: board.platform,
+				atsBoardUrl: board.boardUrl,
+				openJobCount: openings.total,
+				openRoles: openings.jobs.map((job) => job.title),
+			});
+		}
+
+		const updated = await updateSavedBusiness(business._id!, updates);
+		return { business: updated || business, board, openings };
+	};
+
+	const checkWebsiteForBusiness = async (business: SavedBusiness) => {
+		const health = await checkWebsiteHealth(business.website);
+		if (!health) return { business, health };
+
+		const updated = await updateSavedBusiness(business._id!, {
+			websiteHealth: health,
+		});
+		return { business: updated || business, health };
+	};
+
+	// Crawl the business's website for contact details. A site that can't be
+	// read leaves earlier contacts in place.
+	const extractContactsForBusiness = async (business: SavedBusiness) => {
+		const contacts = await crawlContacts(business.website);
+		if (!contacts) return { business, contacts };
+
+		const updated = await updateSavedBusiness(business._id!, { contacts });
+		return { business: updated || business, contacts };
+	};
+
+	// The user's exclusion list, if they have one; searches go ahead without it
+	// if it can't be loaded
+	const getExclusionListForUser = async (
+		userId?: string
+	): Promise<ExclusionList | null> => {
+		if (!userId) return null;
+
+		try {
+			return await getExclusionList(userId);
+		} catch (err) {
+			console.error('Error fetching exclusion list:', err);
+			return null;
+		}
+	};
+
+	// Add a finished search to the user's history. Guests have no history, and
+	// a failure here never fails the search itself.
+	const recordSearchHistory = async (
+		userId: string | undefined,
+		search: Pick<
+			SearchHistoryEntry,
+			| 'searchType'
+			| 'businessType'
+			| 'location'
+			| 'state'
+			| 'cities'
+			| 'queryKey'
+			| 'cached'
+		>,
+		businesses: Business[]
+	) => {
+		if (!userId) return;
+
+		try {
+			const duplicateCount = businesses.filter(
+				(b) => b.isDuplicate
+			).length;
+			await saveSearchHistoryEntry({
+				...search,
+				userId,
+				resultCount: businesses.length,
+				newCount: businesses.length - duplicateCount,
+				duplicateCount,
+				businesses: businesses.map((b) => ({
+					name: b.name,
+					website: b.website || undefined,
+					location: b.location || undefined,
+				})),
+			});
+		} catch (error) {
+			console.error('Error recording search history:', error);
+		}
+	};
+
 	// Authentication routes
 
 	// Register a new user
@@ -1552,16 +1944,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
 			const limit = parseInt(req.query.limit as string) || 50;
 			const searchTerm = req.query.search as string;
 			const recentOnly = req.query.recentOnly === 'true';
+			const cursor =
+				typeof req.query.cursor === 'string' && req.query.cursor
+					? req.query.cursor
+					: undefined;
+			const sort = savedBusinessSortSchema.parse({
+				field: req.query.sort || undefined,
+				direction: req.query.order || undefined,
+			});
+			// Address parts, whether there's a website, and date ranges as
+			// ISO dates (createdFrom, createdTo, updatedFrom, updatedTo)
+			const { city, state, hasWebsite, ...dates } =
+				savedBusinessQuerySchema.parse({
+					city: req.query.city || undefined,
+					state: req.query.state || undefined,
+					hasWebsite:
+						req.query.hasWebsite === undefined
+							? undefined
+							: req.query.hasWebsite === 'true',
+					createdFrom: req.query.createdFrom || undefined,
+					createdTo: req.query.createdTo || undefined,
+					updatedFrom: req.query.updatedFrom || undefined,
+					updatedTo: req.query.updatedTo || undefined,
+				});
 
-			const result = await getSavedBusinesses(
-				userId,
+			// Only the businesses in one of the user's lists
+			let inList: SavedBusinessFilters = {};
+			if (typeof req.query.list === 'string' && req.query.list) {
+				const list = await getSavedListById(req.query.list);
+				if (!list || list.userId !== userId) {
+					return res.status(404).json({ message: 'List not found' });
+				}
+				inList = listFilters(list);
+			}
+
+			const result = await getSavedBusinesses(userId, {
 				page,
 				limit,
-				searchTerm,
-				recentOnly
-			);
+				filters: {
+					searchTerm,
+					recentOnly,
+					hiringOnly: req.query.hiring === 'true',
+					roleKeyword: req.query.role as string | undefined,
+					// Comma-separated stage ids; "none" for no status
+					statuses:
+						typeof req.query.status === 'string' &&
+						req.query.status.length > 0
+							? req.query.status.split(',')
+							: undefined,
+					// Comma-separated tag names; businesses need all of them
+					tags:
+						typeof req.query.tags === 'string' &&
+						req.query.tags.length > 0
+							? req.query.tags.split(',')
+							: undefined,
+					city,
+					state,
+					hasWebsite,
+					...dates,
+					...inList,
+				},
+				sort,
+				cursor,
+				withFacets: true,
+			});
 			res.json(result);
 		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
+			if ((error as Error).message === 'Invalid cursor') {
+				return res.status(400).json({ message: 'Invalid cursor' });
+			}
+
 			console.error('Error fetching saved businesses:', error);
 			res.status(500).json({
 				message: 'An error occurred while fetching saved businesses',
@@ -1602,17 +2060,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
 			const businessId = req.params.id;
 
 			// Make sure business belongs to this user
-			// Get user's businesses and find the one with matching ID
-			const userBusinessesResult = await getSavedBusinesses(userId);
-			const business = userBusinessesResult.businesses.find(
-				(b) => b._id === businessId
-			);
+			const business = await getSavedBusinessById(businessId);
 
 			if (!business) {
 				return res.status(404).json({ message: 'Business not found' });
 			}
 
-			// Check is redundant now since we filtered by userId, but keeping for clarity
 			if (business.userId !== userId) {
 				return res.status(403).json({
 					message:
@@ -1620,11 +2073,33 @@ export async function registerRoutes(app: Express): Promise<Server> {
 				});
 			}
 
-			const updates = req.body;
+			const updates = { ...req.body };
+
+			// Moving between pipeline stages; an empty status clears it
+			if ('pipelineStatus' in updates) {
+				if (!updates.pipelineStatus) {
+					updates.pipelineStatus = undefined;
+				} else {
+					const stages = await getPipelineStages(userId);
+					if (
+						!stages.some(
+							(stage) => stage.id === updates.pipelineStatus
+						)
+					) {
+						return res.status(400).json({
+							message: `Unknown pipeline stage: ${updates.pipelineStatus}`,
+						});
+					}
+				}
+			}
+
 			const updatedBusiness = await updateSavedBusiness(
 				businessId,
 				updates
 			);
+			await addBusinessActivities(
+				changeActivities(business, updates, activityAuthor(req))
+			);
 
 			res.json(updatedBusiness);
 		} catch (error) {
@@ -1635,6 +2110,230 @@ export async function registerRoutes(app: Express): Promise<Server> {
 		}
 	});
 
+	// A saved business's activity timeline, newest first
+	app.get(
+		'/api/my/businesses/:id/activities',
+		authenticate,
+		async (req, res) => {
+			try {
+				const business = await getSavedBusinessById(req.params.id);
+				if (!business || business.userId !== req.user!.userId) {
+					return res
+						.status(404)
+						.json({ message: 'Business not found' });
+				}
+
+				const activities = await getBusinessActivities(business._id!);
+				res.json({ activities });
+			} catch (error) {
+				console.error('Error fetching business activities:', error);
+				res.status(500).json({
+					message: 'An error occurred while fetching activities',
+				});
+			}
+		}
+	);
+
+	// Log a note, email or call against a saved business
+	app.post(
+		'/api/my/businesses/:id/activities',
+		authenticate,
+		async (req, res) => {
+			try {
+				const input = businessActivityInputSchema.parse(req.body);
+				const business = await getSavedBusinessById(req.params.id);
+				if (!business || business.userId !== req.user!.userId) {
+					return res
+						.status(404)
+						.json({ message: 'Business not found' });
+				}
+
+				const [activity] = await addBusinessActivities([
+					{
+						businessId: business._id!,
+						userId: business.userId,
+						type: input.type,
+						...(input.body && { body: input.body }),
+						author: activityAuthor(req),
+						createdAt: new Date(),
+					},
+				]);
+				res.status(201).json(activity);
+			} catch (error) {
+				if (error instanceof ZodError) {
+					const validationError = fromZodError(error);
+					return res
+						.status(400)
+						.json({ message: validationError.message });
+				}
+
+				console.error('Error logging business activity:', error);
+				res.status(500).json({
+					message: 'An error occurred while logging the activity',
+				});
+			}
+		}
+	);
+
+	// The user's open reminders, soonest first. dueBefore narrows them to
+	// what's due by then (the portal sends the end of the user's day).
+	app.get('/api/my/reminders', authenticate, async (req, res) => {
+		try {
+			let dueBefore: Date | undefined;
+			if (typeof req.query.dueBefore === 'string') {
+				dueBefore = new Date(req.query.dueBefore);
+				if (isNaN(dueBefore.getTime())) {
+					return res
+						.status(400)
+						.json({ message: 'dueBefore must be a date' });
+				}
+			}
+
+			const reminders = await getReminders(req.user!.userId, {
+				businessId: req.query.businessId as string | undefined,
+				dueBefore,
+				includeDone: req.query.includeDone === 'true',
+			});
+			res.json({ reminders });
+		} catch (error) {
+			console.error('Error fetching reminders:', error);
+			res.status(500).json({
+				message: 'An error occurred while fetching reminders',
+			});
+		}
+	});
+
+	// Add a follow-up reminder to a saved business
+	app.post(
+		'/api/my/businesses/:id/reminders',
+		authenticate,
+		async (req, res) => {
+			try {
+				const input = reminderInputSchema.parse(req.body);
+				const business = await getSavedBusinessById(req.params.id);
+				if (!business || business.userId !== req.user!.userId) {
+					return res
+						.status(404)
+						.json({ message: 'Business not found' });
+				}
+
+				const now = new Date();
+				const reminder = await createReminder({
+					...input,
+					userId: business.userId,
+					businessId: business._id!,
+					createdAt: now,
+					updatedAt: now,
+				});
+				res.status(201).json(reminder);
+			} catch (error) {
+				if (error instanceof ZodError) {
+					const validationError = fromZodError(error);
+					return res
+						.status(400)
+						.json({ message: validationError.message });
+				}
+
+				console.error('Error creating reminder:', error);
+				res.status(500).json({
+					message: 'An error occurred while creating the reminder',
+				});
+			}
+		}
+	);
+
+	// Reschedule, edit, or tick off a reminder (done: false reopens it)
+	app.patch('/api/my/reminders/:id', authenticate, async (req, res) => {
+		try {
+			const { done, ...changes } = reminderUpdateSchema.parse(req.body);
+			const reminder = await getReminderById(req.params.id);
+			if (!reminder || reminder.userId !== req.user!.userId) {
+				return res.status(404).json({ message: 'Reminder not found' });
+			}
+
+			const set: Partial<Reminder> = { ...changes };
+			const unset: (keyof Reminder)[] = [];
+			if (done === true && !reminder.doneAt) {
+				set.doneAt = new Date();
+			} else if (done === false) {
+				unset.push('doneAt', 'doneByActivityId');
+			}
+
+			const updated = await updateReminder(reminder._id!, set, unset);
+			res.json(updated);
+		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
+
+			console.error('Error updating reminder:', error);
+			res.status(500).json({
+				message: 'An error occurred while updating the reminder',
+			});
+		}
+	});
+
+	app.delete('/api/my/reminders/:id', authenticate, async (req, res) => {
+		try {
+			const reminder = await getReminderById(req.params.id);
+			if (!reminder || reminder.userId !== req.user!.userId) {
+				return res.status(404).json({ message: 'Reminder not found' });
+			}
+
+			await deleteReminder(reminder._id!);
+			res.json({ message: 'Reminder deleted' });
+		} catch (error) {
+			console.error('Error deleting reminder:', error);
+			res.status(500).json({
+				message: 'An error occurred while deleting the reminder',
+			});
+		}
+	});
+
+	// The URL of the user's reminders calendar feed. reset=true replaces the
+	// secret in it, so anyone holding the old URL loses access.
+	app.post('/api/my/reminders/calendar', authenticate, async (req, res) => {
+		try {
+			const token = await getCalendarToken(
+				req.user!.userId,
+				req.body?.reset === true
+			);
+			res.json({
+				url: `${req.protocol}://${req.get(
+					'host'
+				)}/api/calendar/${token}/reminders.ics`,
+			});
+		} catch (error) {
+			console.error('Error getting calendar feed:', error);
+			res.status(500).json({
+				message: 'An error occurred while getting the calendar feed',
+			});
+		}
+	});
+
+	// Calendar apps can't log in, so the feed is found by the secret alone
+	app.get('/api/calendar/:token/reminders.ics', async (req, res) => {
+		try {
+			const userId = await getUserIdByCalendarToken(req.params.token);
+			if (!userId) {
+				return res.status(404).json({ message: 'Calendar not found' });
+			}
+
+			const reminders = await getReminders(userId);
+			res.set('Content-Type', 'text/calendar; charset=utf-8');
+			res.set('Cache-Control', 'private, max-age=300');
+			res.send(buildRemindersCalendar(reminders));
+		} catch (error) {
+			console.error('Error building calendar feed:', error);
+			res.status(500).json({
+				message: 'An error occurred while building the calendar',
+			});
+		}
+	});
+
 	// Delete all saved businesses for a user - using a completely different endpoint to avoid route conflicts
 	app.delete(
 		'/api/my/clear-all-businesses',
@@ -1664,11 +2363,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
 			const businessId = req.params.id;
 
 			// Get user's businesses and find the one with matching ID
-			const userBusinessesData = await getSavedBusinesses(
-				userId,
-				1,
-				10000
-			); // Get all businesses
+			const userBusinessesData = await getSavedBusinesses(userId, {
+				limit: 10000,
+			}); // Get all businesses
 			const business = userBusinessesData.businesses.find(
 				(b) => b._id === businessId
 			);
@@ -1700,1037 +2397,1957 @@ export async function registerRoutes(app: Express): Promise<Server> {
 		}
 	});
 
-	// Cleanup duplicate businesses for authenticated user
+	// Preview a duplicate cleanup: which record of each company is kept and
+	// why, and what would be deleted. Nothing changes until the plan is run.
 	app.post(
-		'/api/my/businesses/cleanup-duplicates',
+		'/api/my/businesses/cleanup-duplicates/preview',
 		authenticate,
 		async (req, res) => {
 			try {
 				const userId = req.user!.userId;
-				const result = await cleanupDuplicateBusinesses(userId);
+				const thresholds = resolveMatchThresholds(
+					matchThresholdsSchema.parse(req.body?.thresholds || {})
+				);
+				const groups = await getDuplicateGroupsForUser(
+					userId,
+					thresholds
+				);
+				const plan = await saveCleanupPlan(
+					userId,
+					buildCleanupGroups(groups)
+				);
+
 				res.json({
-					message: `Cleanup completed. Removed ${result.removed} duplicate businesses.`,
-					removed: result.removed,
-					duplicates: result.duplicates,
+					planId: plan._id,
+					groups: plan.groups,
+					removeCount: plan.removeCount,
+					expiresAt: plan.expiresAt,
 				});
 			} catch (error) {
-				console.error('Error cleaning up duplicates:', error);
+				if (error instanceof ZodError) {
+					const validationError = fromZodError(error);
+					return res
+						.status(400)
+						.json({ message: validationError.message });
+				}
+
+				console.error('Error previewing duplicate cleanup:', error);
 				res.status(500).json({
-					message: 'An error occurred while cleaning up duplicates',
+					message: 'An error occurred while previewing the cleanup',
 				});
 			}
 		}
 	);
 
-	// Import businesses from search results (works for both authenticated users and guests)
+	// Run a previewed cleanup plan
 	app.post(
-		'/api/my/businesses/import-from-search',
-		optionalUserOrGuest,
+		'/api/my/businesses/cleanup-duplicates',
+		authenticate,
 		async (req, res) => {
 			try {
-				// Get the businesses from the search results
-				const allSearchBusinesses = await storage.getBusinesses();
-
-				// Check if specific business IDs were provided (for filtered imports)
-				const { businessIds } = req.body;
-				let searchBusinesses = allSearchBusinesses;
+				const { planId } = req.body || {};
+				if (!planId || typeof planId !== 'string') {
+					return res.status(400).json({
+						message:
+							'Preview the cleanup first and confirm its plan',
+					});
+				}
 
-				if (businessIds && Array.isArray(businessIds)) {
-					// Filter to only include the specified business IDs
-					searchBusinesses = allSearchBusinesses.filter(
-						(business) =>
-							business.id && businessIds.includes(business.id)
-					);
-					console.log(
-						`Filtering to ${
-							searchBusinesses.length
-						} businesses from ${
-							allSearchBusinesses.length
-						} total (IDs: ${businessIds.join(', ')})`
-					);
+				const plan = await getCleanupPlan(planId);
+				if (!plan || plan.userId !== req.user!.userId) {
+					return res.status(404).json({
+						message:
+							'Cleanup plan not found or expired. Preview the cleanup again.',
+					});
 				}
 
-				console.log(
-					`Found ${searchBusinesses.length} businesses in search results`
-				);
+				const result = await executeCleanupPlan(plan);
+				res.json({
+					message: `Cleanup completed. Removed ${result.removed} duplicate businesses.`,
+					removed: result.removed,
+					skippedGroups: result.skippedGroups,
+				});
+			} catch (error) {
+				console.error('Error cleaning up duplicates:', error);
+				res.status(500).json({
+					message: 'An error occurred while cleaning up duplicates',
+				});
+			}
+		}
+	);
 
-				if (searchBusinesses.length === 0) {
-					return res.status(400).json({
-						message: 'No businesses to import from search results',
-					});
-				}
+	// Suspected duplicates among the user's saved businesses, grouped for review
+	app.get('/api/my/businesses/duplicates', authenticate, async (req, res) => {
+		try {
+			const groups = await getDuplicateGroupsForUser(req.user!.userId);
+			res.json({ groups });
+		} catch (error) {
+			console.error('Error finding duplicate businesses:', error);
+			res.status(500).json({
+				message: 'An error occurred while finding duplicates',
+			});
+		}
+	});
 
-				if (req.user?.userId) {
-					// Authenticated user - save to their personal list
-					const userId = req.user.userId;
-					console.log(
-						`Import request from authenticated user: ${userId}`
-					);
+	// Merge duplicates into one business, field by field
+	app.post('/api/my/businesses/merge', authenticate, async (req, res) => {
+		try {
+			const userId = req.user!.userId;
+			const input = businessMergeInputSchema.parse(req.body);
 
-					// Convert them to saved businesses format
-					const businessesToImport = searchBusinesses.map((b) => ({
-						name: b.name,
-						website: b.website || '',
-						location: b.location || '',
-						distance: b.distance || '',
-						notes: b.notes || '',
-						careerLink: b.careerLink || '',
-						userId,
-					}));
+			if (input.duplicateIds.includes(input.survivorId)) {
+				return res.status(400).json({
+					message: 'A business cannot be merged into itself',
+				});
+			}
+			if (unknownMergeSources(input).length > 0) {
+				return res.status(400).json({
+					message:
+						'Field values must come from the businesses being merged',
+				});
+			}
 
-					const result = await importBusinessesForUser(
-						userId,
-						businessesToImport,
-						{
-							skipDuplicates: false,
-							replaceDuplicates: false,
-						}
-					);
+			const [survivor, ...duplicates] = await Promise.all(
+				[input.survivorId, ...input.duplicateIds].map((id) =>
+					getSavedBusinessById(id)
+				)
+			);
+			if (
+				!survivor ||
+				survivor.userId !== userId ||
+				duplicates.some((b) => !b || b.userId !== userId)
+			) {
+				return res.status(404).json({ message: 'Business not found' });
+			}
 
-					console.log(
-						`Import result: ${result.count} businesses imported for user`
-					);
+			const result = await mergeSavedBusinesses(
+				userId,
+				survivor,
+				duplicates as SavedBusiness[],
+				buildMergedFields(
+					survivor,
+					duplicates as SavedBusiness[],
+					input
+				)
+			);
 
-					res.status(201).json({
-						message: `Successfully imported ${result.count} businesses`,
-						businesses: result.businesses,
-					});
-				} else if (req.guest?.guestId) {
-					// Guest user - save to guest results
-					console.log(
-						`Import request from guest: ${req.guest.guestId}`
-					);
+			await addBusinessActivities([
+				mergeActivity(
+					survivor,
+					duplicates as SavedBusiness[],
+					activityAuthor(req)
+				),
+			]);
 
-					// Create search fingerprint based on current search
-					const searchFingerprint = generateSearchFingerprint({
-						businessType: 'imported',
-						location: 'search results',
-						radius: 20,
-						maxResults: searchBusinesses.length,
+			res.json({
+				business: result.business,
+				mergeId: result.merge._id,
+				removed: duplicates.length,
+			});
+		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
+
+			console.error('Error merging businesses:', error);
+			res.status(500).json({
+				message: 'An error occurred while merging businesses',
+			});
+		}
+	});
+
+	// Apply one operation to many businesses: the given ones, or every one
+	// matching the list filters. Each business gets its own result.
+	app.post('/api/my/businesses/bulk', authenticate, async (req, res) => {
+		try {
+			const userId = req.user!.userId;
+			const { operation, businessIds, filter } =
+				bulkBusinessInputSchema.parse(req.body);
+
+			let businesses: SavedBusiness[];
+			if (businessIds) {
+				businesses = await findSavedBusinesses(
+					userId,
+					{ businessIds },
+					BULK_OPERATION_LIMIT
+				);
+			} else {
+				const { search, listId, ...filters } = filter!;
+				let inList: SavedBusinessFilters = {};
+				if (listId) {
+					const list = await getSavedListById(listId);
+					if (!list || list.userId !== userId) {
+						return res
+							.status(404)
+							.json({ message: 'List not found' });
+					}
+					inList = listFilters(list);
+				}
+				const query = { ...filters, searchTerm: search, ...inList };
+				const matching = await countSavedBusinesses(userId, query);
+				if (matching > BULK_OPERATION_LIMIT) {
+					return res.status(400).json({
+						message: `${matching} companies match; bulk operations are limited to ${BULK_OPERATION_LIMIT}`,
 					});
+				}
+				businesses = await findSavedBusinesses(
+					userId,
+					query,
+					BULK_OPERATION_LIMIT
+				);
+			}
+			const ids = businesses.map((b) => b._id!);
 
-					// Save guest results
-					await saveGuestResults({
-						guestId: req.guest.guestId,
-						businesses: searchBusinesses.map((b) => ({
-							name: b.name,
-							website: b.website || '',
-							location: b.location,
-							distance: b.distance,
-							isBadLead: b.isBadLead,
-							notes: b.notes,
-							careerLink: b.careerLink,
-						})),
-						searchParams: {
-							businessType: 'imported',
-							location: 'search results',
-						},
-						searchFingerprint,
-						totalResults: searchBusinesses.length,
+			let failed = new Map<string, string>();
+			if (operation.type === 'add_to_list') {
+				const list = await getSavedListById(operation.listId);
+				if (!list || list.userId !== userId) {
+					return res.status(404).json({ message: 'List not found' });
+				}
+				if (isSmartList(list)) {
+					return res.status(400).json({
+						message:
+							"A smart list's businesses come from its rules",
 					});
+				}
+				await addBusinessesToList(list._id!, ids);
+			} else {
+				if (
+					operation.type === 'set_status' &&
+					operation.status &&
+					operation.status !== NO_PIPELINE_STATUS
+				) {
+					const stages = await getPipelineStages(userId);
+					if (
+						!stages.some((stage) => stage.id === operation.status)
+					) {
+						return res.status(400).json({
+							message: `Unknown pipeline stage: ${operation.status}`,
+						});
+					}
+				}
+				if (operation.type === 'add_tags') {
+					await ensureTags(userId, operation.tags);
+				}
+				failed = await bulkWriteSavedBusinesses(
+					ids,
+					bulkUpdateFor(operation)
+				);
+			}
 
-					console.log(
-						`Guest results saved: ${searchBusinesses.length} businesses`
-					);
+			const changes = trackedChanges(operation);
+			if (changes) {
+				await addBusinessActivities(
+					businesses
+						.filter((b) => !failed.has(b._id!))
+						.flatMap((b) =>
+							changeActivities(b, changes, activityAuthor(req))
+						)
+				);
+			}
 
-					res.status(201).json({
-						message: `Successfully saved ${searchBusinesses.length} businesses to demo list`,
-						businesses: searchBusinesses,
+			const results = bulkItemResults(
+				businessIds || ids,
+				businesses,
+				failed
+			);
+			const succeeded = results.filter((r) => r.ok).length;
+			res.json({
+				succeeded,
+				failed: results.length - succeeded,
+				results,
+			});
+		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
+
+			console.error('Error running bulk operation:', error);
+			res.status(500).json({
+				message: 'An error occurred while updating businesses',
+			});
+		}
+	});
+
+	// Recent merges, newest first, for undo
+	app.get('/api/my/business-merges', authenticate, async (req, res) => {
+		try {
+			const merges = await getBusinessMerges(req.user!.userId);
+			res.json(merges);
+		} catch (error) {
+			console.error('Error fetching merges:', error);
+			res.status(500).json({
+				message: 'An error occurred while fetching merges',
+			});
+		}
+	});
+
+	app.post(
+		'/api/my/business-merges/:id/undo',
+		authenticate,
+		async (req, res) => {
+			try {
+				const merge = await getBusinessMergeById(req.params.id);
+				if (!merge || merge.userId !== req.user!.userId) {
+					return res.status(404).json({ message: 'Merge not found' });
+				}
+				if (merge.undoneAt) {
+					return res.status(409).json({
+						message: 'This merge has already been undone',
 					});
-				} else {
-					return res.status(401).json({
-						message: 'Authentication required to save businesses',
+				}
+				const survivor = await getSavedBusinessById(merge.survivorId);
+				if (editedSinceMerge(merge, survivor)) {
+					return res.status(409).json({
+						message:
+							'The merged business has been edited since the merge; undoing it would lose those changes',
 					});
 				}
+
+				const businesses = await undoBusinessMerge(merge);
+				res.json({ restored: businesses.length });
 			} catch (error) {
-				console.error('Error importing businesses:', error);
+				console.error('Error undoing merge:', error);
 				res.status(500).json({
-					message: 'An error occurred while saving businesses',
+					message: 'An error occurred while undoing the merge',
 				});
 			}
 		}
 	);
 
-	// Import businesses from CSV
+	// Find one saved business's careers page
 	app.post(
-		'/api/my/businesses/import-from-csv',
+		'/api/my/businesses/:id/discover-careers',
 		authenticate,
 		async (req, res) => {
 			try {
-				const userId = req.user!.userId;
-				const {
-					csvData,
-					skipDuplicates = true,
-					replaceDuplicates = false,
-				} = req.body;
-
-				if (!csvData) {
+				const business = await getSavedBusinessById(req.params.id);
+				if (!business || business.userId !== req.user!.userId) {
 					return res
-						.status(400)
-						.json({ message: 'CSV data is required' });
+						.status(404)
+						.json({ message: 'Business not found' });
 				}
-
-				// Parse CSV data
-				const csvBusinesses = parseCSV(csvData);
-
-				if (csvBusinesses.length === 0) {
+				if (!business.website) {
 					return res.status(400).json({
-						message: 'No valid businesses found in CSV data',
+						message: 'This business has no website to check',
 					});
 				}
 
-				// Convert to saved businesses format
-				const businessesToImport = csvBusinesses.map((b) => ({
-					...b,
-					userId,
-				}));
-
-				// Get duplicate handling options
-				const importOptions = {
-					skipDuplicates,
-					replaceDuplicates,
-				};
-
-				const result = await importBusinessesForUser(
-					userId,
-					businessesToImport,
-					{
-						skipDuplicates,
-						replaceDuplicates,
-					}
+				const result = await discoverCareersForBusiness(
+					business,
+					activityAuthor(req)
 				);
-
-				res.status(201).json({
-					message: `Successfully imported ${result.count} businesses from CSV`,
-					businesses: result.businesses,
+				res.json({
+					business: result.business,
+					found: !!result.page,
+					source: result.page?.source,
 				});
 			} catch (error) {
-				console.error('Error importing businesses from CSV:', error);
+				console.error('Error discovering careers page:', error);
 				res.status(500).json({
 					message:
-						'An error occurred while importing businesses from CSV',
+						'An error occurred while looking for a careers page',
 				});
 			}
 		}
 	);
 
-	// Parse CSV data from string format with intelligent column detection
-	// Focusing only on company name, website, and address
-	function parseCSV(csvContent: string): ImportBusiness[] {
-		const lines = csvContent.split('\n');
+	// Find careers pages for picked businesses or a saved list
+	app.post(
+		'/api/my/businesses/discover-careers',
+		authenticate,
+		async (req, res) => {
+			try {
+				const author = activityAuthor(req);
+				await submitEnrichmentJob(
+					req,
+					res,
+					'discover-careers',
+					'website',
+					async (business) => {
+						const { page } = await discoverCareersForBusiness(
+							business,
+							author
+						);
+						return page ? ['found'] : [];
+					}
+				);
+			} catch (error) {
+				if (error instanceof ZodError) {
+					const validationError = fromZodError(error);
+					return res
+						.status(400)
+						.json({ message: validationError.message });
+				}
 
-		// Handle various CSV formats - commas, semicolons, or tabs
-		let separator = ',';
-		if (lines[0].includes(';')) separator = ';';
-		else if (lines[0].includes('\t')) separator = '\t';
+				console.error('Error discovering careers pages:', error);
+				res.status(500).json({
+					message:
+						'An error occurred while looking for careers pages',
+				});
+			}
+		}
+	);
 
-		const headers = lines[0]
-			.split(separator)
-			.map((h) => h.trim().replace(/^"|"$/g, ''));
-
-		// Intelligent column detection - focusing only on essential columns
-		const columnMap = {
-			name: -1,
-			website: -1,
-			location: -1,
-		};
-
-		// Map column names to their index
-		headers.forEach((header, index) => {
-			const headerLower = header.toLowerCase();
-
-			// Company name detection
-			if (
-				columnMap.name === -1 &&
-				(headerLower.includes('company') ||
-					headerLower.includes('name') ||
-					headerLower.includes('business') ||
-					headerLower === 'organization')
-			) {
-				columnMap.name = index;
-			}
+	// Read one saved business's open postings from its job board
+	app.post(
+		'/api/my/businesses/:id/check-jobs',
+		authenticate,
+		async (req, res) => {
+			try {
+				const business = await getSavedBusinessById(req.params.id);
+				if (!business || business.userId !== req.user!.userId) {
+					return res
+						.status(404)
+						.json({ message: 'Business not found' });
+				}
+				if (!business.careerLink) {
+					return res.status(400).json({
+						message:
+							'This business has no careers link; find its careers page first',
+					});
+				}
 
-			// Website detection
-			if (
-				columnMap.website === -1 &&
-				(headerLower.includes('website') ||
-					headerLower.includes('url') ||
-					headerLower.includes('site') ||
-					headerLower.includes('web'))
-			) {
-				columnMap.website = index;
-			}
+				const result = await checkJobsForBusiness(business);
+				if (result.board && !result.openings) {
+					return res.status(502).json({
+						message: `Couldn't read the ${result.board.platform} job board`,
+					});
+				}
 
-			// Location detection
-			if (
-				columnMap.location === -1 &&
-				(headerLower.includes('location') ||
-					headerLower.includes('address') ||
-					headerLower.includes('street') ||
-					headerLower.includes('city') ||
-					headerLower.includes('state'))
-			) {
-				columnMap.location = index;
+				res.json({
+					business: result.business,
+					platform: result.board?.platform,
+					openJobCount: result.openings?.total,
+				});
+			} catch (error) {
+				console.error('Error checking open jobs:', error);
+				res.status(500).json({
+					message: 'An error occurred while checking open jobs',
+				});
 			}
-		});
-
-		// If name column wasn't found, try to determine it by examining data
-		if (columnMap.name === -1) {
-			// If we couldn't find a good header, just use the first column as name
-			columnMap.name = 0;
+		}
+	);
 
-			// Unless we already identified that column as something else
-			if (Object.values(columnMap).includes(0)) {
-				// Try to find an unused column
-				for (let i = 0; i < headers.length; i++) {
-					if (!Object.values(columnMap).includes(i)) {
-						columnMap.name = i;
-						break;
+	// Read open postings for picked businesses or a saved list
+	app.post(
+		'/api/my/businesses/check-jobs',
+		authenticate,
+		async (req, res) => {
+			try {
+				await submitEnrichmentJob(
+					req,
+					res,
+					'check-jobs',
+					'careerLink',
+					async (business) => {
+						const { openings } = await checkJobsForBusiness(
+							business
+						);
+						if (!openings) return [];
+						return openings.total > 0
+							? ['found', 'hiring']
+							: ['found'];
 					}
+				);
+			} catch (error) {
+				if (error instanceof ZodError) {
+					const validationError = fromZodError(error);
+					return res
+						.status(400)
+						.json({ message: validationError.message });
 				}
+
+				console.error('Error checking open jobs:', error);
+				res.status(500).json({
+					message: 'An error occurred while checking open jobs',
+				});
 			}
 		}
+	);
 
-		// If website column wasn't found but we have URLs in the data, find them
-		if (columnMap.website === -1) {
-			// Look at a sample row to try to identify website column
-			for (let i = 1; i < Math.min(5, lines.length); i++) {
-				if (!lines[i].trim()) continue;
-
-				const values = lines[i]
-					.split(separator)
-					.map((v) => v.trim().replace(/^"|"$/g, ''));
-				for (let j = 0; j < values.length; j++) {
-					// Skip columns we've already identified
-					if (Object.values(columnMap).includes(j)) continue;
-
-					// Check if column contains what looks like a URL
-					if (
-						values[j].match(/^https?:\/\//i) ||
-						values[j].match(/^www\./i) ||
-						values[j].match(/\.(com|org|net|io|co)/i)
-					) {
-						columnMap.website = j;
-						break;
-					}
+	// Check whether one saved business's website still works
+	app.post(
+		'/api/my/businesses/:id/check-website',
+		authenticate,
+		async (req, res) => {
+			try {
+				const business = await getSavedBusinessById(req.params.id);
+				if (!business || business.userId !== req.user!.userId) {
+					return res
+						.status(404)
+						.json({ message: 'Business not found' });
 				}
-				if (columnMap.website !== -1) break;
+				if (!business.website) {
+					return res.status(400).json({
+						message: 'This business has no website to check',
+					});
+				}
+
+				const result = await checkWebsiteForBusiness(business);
+				res.json({ business: result.business, health: result.health });
+			} catch (error) {
+				console.error('Error checking website:', error);
+				res.status(500).json({
+					message: 'An error occurred while checking the website',
+				});
 			}
 		}
+	);
 
-		// If location column wasn't found, look for text that might contain address patterns
-		if (columnMap.location === -1) {
-			// Look at sample rows to find address-like patterns
-			const addressRegex =
-				/\b\d+\s+\w+\s+(st|street|ave|avenue|blvd|boulevard|rd|road|drive|dr|lane|ln|way)\b/i;
-			const cityStateRegex = /\b(columbus|ohio|oh),?\s+\d{5}(-\d{4})?\b/i;
-
-			for (let i = 1; i < Math.min(5, lines.length); i++) {
-				if (!lines[i].trim()) continue;
-
-				const values = lines[i]
-					.split(separator)
-					.map((v) => v.trim().replace(/^"|"$/g, ''));
-				for (let j = 0; j < values.length; j++) {
-					// Skip columns we've already identified
-					if (Object.values(columnMap).includes(j)) continue;
-
-					// Check if column contains what looks like an address
-					if (
-						addressRegex.test(values[j]) ||
-						cityStateRegex.test(values[j])
-					) {
-						columnMap.location = j;
-						break;
+	// Check the websites of picked businesses or a saved list
+	app.post(
+		'/api/my/businesses/check-websites',
+		authenticate,
+		async (req, res) => {
+			try {
+				// Counts how many sites ended up in each state
+				await submitEnrichmentJob(
+					req,
+					res,
+					'check-websites',
+					'website',
+					async (business) => {
+						const { health } = await checkWebsiteForBusiness(
+							business
+						);
+						return [health?.status || 'invalid'];
 					}
+				);
+			} catch (error) {
+				if (error instanceof ZodError) {
+					const validationError = fromZodError(error);
+					return res
+						.status(400)
+						.json({ message: validationError.message });
 				}
-				if (columnMap.location !== -1) break;
+
+				console.error('Error checking websites:', error);
+				res.status(500).json({
+					message: 'An error occurred while checking websites',
+				});
 			}
 		}
+	);
 
-		console.log('Column mapping:', columnMap);
-		console.log('CSV Headers:', headers);
-		console.log('Total lines in CSV:', lines.length);
+	// Replace the stored website with where the last check said it ends up
+	app.post(
+		'/api/my/businesses/:id/use-canonical-website',
+		authenticate,
+		async (req, res) => {
+			try {
+				const business = await getSavedBusinessById(req.params.id);
+				if (!business || business.userId !== req.user!.userId) {
+					return res
+						.status(404)
+						.json({ message: 'Business not found' });
+				}
 
-		const businesses: ImportBusiness[] = [];
+				if (!business.websiteHealth?.canonicalUrl) {
+					return res.status(400).json({
+						message:
+							'No canonical website to switch to; check the website first',
+					});
+				}
+				const { canonicalUrl, ...health } = business.websiteHealth;
 
-		// Skip header row
-		for (let i = 1; i < lines.length; i++) {
-			if (!lines[i].trim()) continue; // Skip empty lines
+				const updated = await updateSavedBusiness(business._id!, {
+					website: canonicalUrl,
+					websiteHealth: health,
+				});
+				res.json(updated);
+			} catch (error) {
+				console.error('Error updating website:', error);
+				res.status(500).json({
+					message: 'An error occurred while updating the website',
+				});
+			}
+		}
+	);
 
-			const values = lines[i]
-				.split(separator)
-				.map((v) => v.trim().replace(/^"|"$/g, ''));
+	// Collect one saved business's published contact details
+	app.post(
+		'/api/my/businesses/:id/extract-contacts',
+		authenticate,
+		async (req, res) => {
+			try {
+				const business = await getSavedBusinessById(req.params.id);
+				if (!business || business.userId !== req.user!.userId) {
+					return res
+						.status(404)
+						.json({ message: 'Business not found' });
+				}
+				if (!business.website) {
+					return res.status(400).json({
+						message: 'This business has no website to read',
+					});
+				}
 
-			// Only add if we can extract a name (columnMap.name should always be valid)
-			if (values[columnMap.name] && values[columnMap.name].trim()) {
-				const business: ImportBusiness = {
-					name: values[columnMap.name].trim(),
-					website:
-						columnMap.website >= 0
-							? (values[columnMap.website] || '').trim()
-							: undefined,
-					location:
-						columnMap.location >= 0
-							? (values[columnMap.location] || '').trim()
-							: undefined,
-					isBadLead: false, // Default values for other fields
-					notes: '',
-					distance: '',
-					careerLink: undefined,
-				};
+				const result = await extractContactsForBusiness(business);
+				if (!result.contacts) {
+					return res.status(502).json({
+						message: "Couldn't read the business's website",
+					});
+				}
 
-				businesses.push(business);
+				res.json({
+					business: result.business,
+					contacts: result.contacts,
+				});
+			} catch (error) {
+				console.error('Error extracting contacts:', error);
+				res.status(500).json({
+					message: 'An error occurred while extracting contacts',
+				});
+			}
+		}
+	);
 
-				// Log FYVE specifically to debug
-				if (business.name.toLowerCase().includes('fyve')) {
-					console.log('Found FYVE Marketing in CSV:', business);
+	// Collect contact details for picked businesses or a saved list
+	app.post(
+		'/api/my/businesses/extract-contacts',
+		authenticate,
+		async (req, res) => {
+			try {
+				await submitEnrichmentJob(
+					req,
+					res,
+					'extract-contacts',
+					'website',
+					async (business) => {
+						const { contacts } = await extractContactsForBusiness(
+							business
+						);
+						const found =
+							contacts &&
+							(contacts.emails.length > 0 ||
+								contacts.phones.length > 0 ||
+								contacts.linkedin ||
+								contacts.x ||
+								contacts.github);
+						return found ? ['found'] : [];
+					}
+				);
+			} catch (error) {
+				if (error instanceof ZodError) {
+					const validationError = fromZodError(error);
+					return res
+						.status(400)
+						.json({ message: validationError.message });
 				}
-			} else {
-				console.log(`Skipped row ${i}: missing name. Values:`, values);
+
+				console.error('Error extracting contacts:', error);
+				res.status(500).json({
+					message: 'An error occurred while extracting contacts',
+				});
 			}
 		}
+	);
 
-		console.log(`Parsed ${businesses.length} businesses from CSV`);
-
-		return businesses;
-	}
+	// Get the progress of one of the user's bulk checks
+	app.get('/api/my/enrichment-jobs/:id', authenticate, (req, res) => {
+		const job = enrichmentJobs.get(req.user!.userId, req.params.id);
+		if (!job) {
+			return res.status(404).json({ message: 'Check not found' });
+		}
+		res.json(job);
+	});
 
-	// Regular location-based search with intelligent caching (supports both users and guests)
+	// Import businesses from search results (works for both authenticated users and guests)
 	app.post(
-		'/api/businesses/search',
+		'/api/my/businesses/import-from-search',
 		optionalUserOrGuest,
 		async (req, res) => {
 			try {
-				const searchParams = searchParamsSchema.parse(req.body);
-				const { businessType, location } = searchParams;
-
-				// Use fixed values for radius and maxResults since they're not user-configurable
-				const radius = '20'; // 20 miles default radius
-				const maxResults = '100'; // 100 results default
+				const ownerId = getResultOwnerId(req);
+				if (!ownerId) {
+					return res.status(401).json({
+						message: 'Authentication required to save businesses',
+					});
+				}
 
-				// Generate search fingerprint for caching
-				const searchFingerprint = generateSearchFingerprint({
-					businessType,
-					location,
-					radius: Number(radius),
-					maxResults: Number(maxResults),
-				});
+				// Get the businesses from this caller's search results
+				const allSearchBusinesses = await storage.getBusinesses(
+					ownerId
+				);
 
-				// Check for cached results first
-				console.log(
-					`Checking cache for search fingerprint: ${searchFingerprint}`
+				// Check if specific business IDs were provided (for filtered imports)
+				const { businessIds } = req.body;
+				const filters = resultFiltersSchema.parse(
+					req.body.filters || {}
 				);
-				const cachedResult = await getCachedSearchResult(
-					searchFingerprint
+				let searchBusinesses = applyResultFilters(
+					allSearchBusinesses,
+					filters
 				);
 
-				if (cachedResult) {
-					console.log(
-						`Found cached results for ${businessType} in ${location}. Returning ${cachedResult.businesses.length} cached businesses.`
+				if (businessIds && Array.isArray(businessIds)) {
+					// Filter to only include the specified business IDs
+					searchBusinesses = searchBusinesses.filter(
+						(business) =>
+							business.id && businessIds.includes(business.id)
 					);
-
-					// For guest users, check quota but don't auto-save
-					if (req.guest?.guestId) {
-						const quotaStatus = await getDemoSearchStatus(
-							req.guest.guestId
-						);
-						if (!quotaStatus.canSearch) {
-							return res.status(429).json({
-								message:
-									'Demo search limit reached. Please sign up to continue searching.',
-								quotaExhausted: true,
-								searchesUsed: quotaStatus.count,
-								searchesRemaining: quotaStatus.remaining,
-							});
-						}
-
-						// Increment quota for guest search (even for cached results)
-						const quotaResult = await incrementDemoSearchCount(
-							req.guest.guestId
-						);
-
-						console.log(
-							`Guest search: ${quotaResult.remaining} searches remaining`
-						);
-					}
-
-					// Get user's saved businesses for duplicate detection (even for cached results)
-					let userSavedBusinesses: any[] = [];
-					if (req.user && req.user.userId) {
-						try {
-							const savedBusinessesData =
-								await getSavedBusinesses(
-									req.user.userId,
-									1,
-									10000 // Get all businesses for duplicate detection
-								);
-							userSavedBusinesses =
-								savedBusinessesData.businesses;
-							console.log(
-								`Found ${userSavedBusinesses.length} saved businesses for user ${req.user.userId} (cached results)`
-							);
-						} catch (err) {
-							console.error(
-								'Error fetching saved businesses for cached duplicate check:',
-								err
-							);
-						}
-					}
-
-					// Clear existing in-memory storage and load cached results with duplicate detection
-					await storage.clearAllBusinesses();
-
-					// Apply duplicate detection to cached results
-					const businessesWithDuplicates =
-						cachedResult.businesses.map((b) => {
-							let isDuplicate = false;
-
-							if (userSavedBusinesses.length > 0) {
-								isDuplicate = userSavedBusinesses.some(
-									(savedBusiness) => {
-										// Enhanced normalization functions (same as fresh search)
-										const normalizeUrl = (url: string) => {
-											if (!url) return '';
-											return url
-												.toLowerCase()
-												.replace(/^https?:\/\//i, '')
-												.replace(/^www\./i, '')
-												.replace(/\/+$/, '')
-												.split('/')[0] // Get just the domain part
-												.split('?')[0] // Remove query parameters
-												.split('#')[0]; // Remove fragments
-										};
-
-										const normalizeName = (
-											name: string
-										) => {
-											if (!name) return '';
-											return name
-												.toLowerCase()
-												.replace(/[,\.]/g, '') // Remove commas and periods
-												.replace(/\s+/g, ' ') // Normalize spaces
-												.replace(
-													/\s*(inc|llc|ltd|corp|corporation|co|company)\s*\.?$/i,
-													''
-												) // Remove business suffixes
-												.trim();
-										};
-
-										// Check website match - compare all possible website fields
-										const businessWebsites = [
-											b.website,
-											b.location,
-										].filter(Boolean);
-										const savedWebsites = [
-											savedBusiness.website,
-											savedBusiness.location,
-										].filter(Boolean);
-
-										for (const businessUrl of businessWebsites) {
-											for (const savedUrl of savedWebsites) {
-												const businessDomain =
-													normalizeUrl(businessUrl);
-												const savedDomain =
-													normalizeUrl(savedUrl);
-
-												if (
-													businessDomain.includes(
-														'.'
-													) &&
-													savedDomain.includes('.') &&
-													businessDomain ===
-														savedDomain
-												) {
-													return true;
-												}
-											}
-										}
-
-										// Check name match if not already duplicate
-										if (b.name && savedBusiness.name) {
-											const businessName = normalizeName(
-												b.name
-											);
-											const savedName = normalizeName(
-												savedBusiness.name
-											);
-
-											if (
-												businessName === savedName &&
-												businessName.length > 0
-											) {
-												return true;
-											}
-										}
-
-										return false;
-									}
-								);
-							}
-
-							return {
-								name: b.name,
-								website: b.website || '',
-								location: b.location,
-								distance: b.distance,
-								isBadLead: b.isBadLead,
-								notes: b.notes,
-								careerLink: b.careerLink,
-								isDuplicate: isDuplicate,
-							};
-						});
-
-					const savedBusinesses = await storage.saveBatchBusinesses(
-						businessesWithDuplicates
+					console.log(
+						`Filtering to ${
+							searchBusinesses.length
+						} businesses from ${
+							allSearchBusinesses.length
+						} total (IDs: ${businessIds.join(', ')})`
 					);
-
-					return res.json({
-						businesses: savedBusinesses,
-						total: cachedResult.totalResults,
-						cached: true,
-						cacheAge: Math.round(
-							(Date.now() -
-								new Date(cachedResult.createdAt).getTime()) /
-								(1000 * 60)
-						), // Age in minutes
-						isGuest: !!req.guest?.guestId,
-						searchesRemaining: req.guest?.guestId
-							? (await getDemoSearchStatus(req.guest.guestId))
-									.remaining
-							: undefined,
-					});
 				}
 
 				console.log(
-					`No cached results found. Proceeding with fresh API search.`
+					`Found ${searchBusinesses.length} businesses in search results`
 				);
 
-				// Clear all existing businesses before performing a new search
-				await storage.clearAllBusinesses();
-
-				// Determine API keys to use (user keys vs demo keys)
-				let googleApiKey: string;
-				let openaiApiKey: string;
+				if (searchBusinesses.length === 0) {
+					return res.status(400).json({
+						message: 'No businesses to import from search results',
+					});
+				}
 
 				if (req.user?.userId) {
-					// Authenticated user - use their API keys
-					const userApiKeys = await getApiKeys(req.user.userId);
-					googleApiKey = userApiKeys?.googlePlacesApiKey;
-					openaiApiKey = userApiKeys?.openaiApiKey;
+					// Authenticated user - save to their personal list
+					const userId = req.user.userId;
+					console.log(
+						`Import request from authenticated user: ${userId}`
+					);
 
-					if (!googleApiKey) {
-						return res.status(400).json({
-							message:
-								'Google Places API key is required. Please configure your API keys in Account Portal.',
-						});
-					}
+					// Convert them to saved businesses format
+					const businessesToImport = searchBusinesses.map((b) => ({
+						...pickPlaceDetails(b),
+						name: b.name,
+						website: b.website || '',
+						location: b.location || '',
+						distance: b.distance || '',
+						notes: b.notes || '',
+						careerLink: b.careerLink || '',
+						userId,
+					}));
 
-					if (!openaiApiKey) {
-						return res.status(400).json({
-							message:
-								'OpenAI API key is required. Please configure your API keys in Account Portal.',
-						});
-					}
+					const result = await importBusinessesForUser(
+						userId,
+						businessesToImport,
+						{
+							skipDuplicates: false,
+							replaceDuplicates: false,
+						}
+					);
+
+					console.log(
+						`Import result: ${result.count} businesses imported for user`
+					);
+
+					res.status(201).json({
+						message: `Successfully imported ${result.count} businesses`,
+						businesses: result.businesses,
+					});
 				} else if (req.guest?.guestId) {
-					// Guest user - check quota and use demo keys
-					const quotaStatus = await getDemoSearchStatus(
-						req.guest.guestId
+					// Guest user - save to guest results
+					console.log(
+						`Import request from guest: ${req.guest.guestId}`
 					);
-					if (!quotaStatus.canSearch) {
-						return res.status(429).json({
-							message:
-								'Demo search limit reached. Please sign up to continue searching.',
-							quotaExhausted: true,
-							searchesUsed: quotaStatus.count,
-							searchesRemaining: quotaStatus.remaining,
-						});
-					}
 
-					// Use demo API keys
-					const demoKeys = getDemoApiKeys();
-					if (!demoKeys) {
-						return res.status(503).json({
-							message:
-								'Demo mode is currently unavailable. Please sign up to use your own API keys.',
-						});
-					}
+					// Create search fingerprint based on current search
+					const searchFingerprint = generateSearchFingerprint({
+						businessType: 'imported',
+						location: 'search results',
+						radius: 20,
+						maxResults: searchBusinesses.length,
+					});
 
-					googleApiKey = demoKeys.googlePlacesApiKey;
-					openaiApiKey = demoKeys.openaiApiKey;
+					// Save guest results
+					await saveGuestResults({
+						guestId: req.guest.guestId,
+						businesses: searchBusinesses.map((b) => ({
+							...pickPlaceDetails(b),
+							name: b.name,
+							website: b.website || '',
+							location: b.location,
+							distance: b.distance,
+							isBadLead: b.isBadLead,
+							notes: b.notes,
+							careerLink: b.careerLink,
+						})),
+						searchParams: {
+							businessType: 'imported',
+							location: 'search results',
+						},
+						searchFingerprint,
+						totalResults: searchBusinesses.length,
+					});
 
-					// Increment quota for guest search
-					const quotaResult = await incrementDemoSearchCount(
-						req.guest.guestId
-					);
 					console.log(
-						`Guest search: ${quotaResult.remaining} searches remaining`
+						`Guest results saved: ${searchBusinesses.length} businesses`
 					);
+
+					res.status(201).json({
+						message: `Successfully saved ${searchBusinesses.length} businesses to demo list`,
+						businesses: searchBusinesses,
+					});
 				} else {
-					// No authentication at all
 					return res.status(401).json({
-						message:
-							'Authentication required. Please log in or try our demo mode.',
+						message: 'Authentication required to save businesses',
 					});
 				}
+			} catch (error) {
+				if (error instanceof ZodError) {
+					const validationError = fromZodError(error);
+					return res
+						.status(400)
+						.json({ message: validationError.message });
+				}
 
-				const maxResultsNum = Number(maxResults);
-				const businesses = [];
-				let nextPageToken = null;
+				console.error('Error importing businesses:', error);
+				res.status(500).json({
+					message: 'An error occurred while saving businesses',
+				});
+			}
+		}
+	);
 
-				// Use Text Search API for all searches - much better coverage and reliability
-				const textQuery = `${businessType} in ${location}`;
-				console.log(`Searching for: "${textQuery}"`);
+	// Import businesses from CSV
+	app.post(
+		'/api/my/businesses/import-from-csv',
+		authenticate,
+		async (req, res) => {
+			try {
+				const userId = req.user!.userId;
+				const {
+					csvData,
+					skipDuplicates = true,
+					replaceDuplicates = false,
+					thresholds,
+				} = req.body;
 
-				do {
-					const requestBody = {
-						textQuery: textQuery,
-						maxResultCount: Math.min(
-							20,
-							maxResultsNum - businesses.length
-						),
-					};
+				if (!csvData) {
+					return res
+						.status(400)
+						.json({ message: 'CSV data is required' });
+				}
 
-					if (nextPageToken) {
-						requestBody.pageToken = nextPageToken;
-						await new Promise((resolve) =>
-							setTimeout(resolve, 2000)
-						);
-					}
+				// Parse CSV data
+				const csvBusinesses = parseCSV(csvData);
 
-					console.log(
-						`Making Google Places API (New) call with query: "${textQuery}"`
-					);
-					const placesResponse = await fetch(
-						`${GOOGLE_PLACES_API_URL}:searchText`,
-						{
-							method: 'POST',
-							headers: {
-								'Content-Type': 'application/json',
-								'X-Goog-Api-Key': googleApiKey,
-								'X-Goog-FieldMask':
-									'places.id,places.displayName,places.websiteUri,places.formattedAddress,nextPageToken',
-							},
-							body: JSON.stringify(requestBody),
-						}
-					);
-					const placesData = await placesResponse.json();
+				if (csvBusinesses.length === 0) {
+					return res.status(400).json({
+						message: 'No valid businesses found in CSV data',
+					});
+				}
 
+				// Convert to saved businesses format
+				const businessesToImport = csvBusinesses.map((b) => ({
+					...b,
+					userId,
+				}));
+
+				const result = await importBusinessesForUser(
+					userId,
+					businessesToImport,
+					{
+						skipDuplicates,
+						replaceDuplicates,
+						thresholds: resolveMatchThresholds(
+							matchThresholdsSchema.parse(thresholds || {})
+						),
+					}
+				);
+				await ensureTags(
+					userId,
+					result.businesses.flatMap((b) => b.tags || [])
+				);
+
+				res.status(201).json({
+					message: `Successfully imported ${result.count} businesses from CSV`,
+					businesses: result.businesses,
+					skipped: result.skipped,
+				});
+			} catch (error) {
+				if (error instanceof ZodError) {
+					const validationError = fromZodError(error);
+					return res
+						.status(400)
+						.json({ message: validationError.message });
+				}
+
+				console.error('Error importing businesses from CSV:', error);
+				res.status(500).json({
+					message:
+						'An error occurred while importing businesses from CSV',
+				});
+			}
+		}
+	);
+
+	// Parse CSV data from string format with intelligent column detection
+	// Focusing only on company name, website, and address
+	function parseCSV(csvContent: string): ImportBusiness[] {
+		const lines = csvContent.split('\n');
+
+		// Handle various CSV formats - commas, semicolons, or tabs
+		let separator = ',';
+		if (lines[0].includes(';')) separator = ';';
+		else if (lines[0].includes('\t')) separator = '\t';
+
+		const headers = splitCSVLine(lines[0], separator);
+
+		// Intelligent column detection - focusing only on essential columns
+		const columnMap = {
+			name: -1,
+			website: -1,
+			location: -1,
+			tags: -1,
+		};
+
+		// Map column names to their index
+		headers.forEach((header, index) => {
+			const headerLower = header.toLowerCase();
+
+			// Tags, as the Account Portal exports them
+			if (
+				columnMap.tags === -1 &&
+				['tags', 'tag', 'labels'].includes(headerLower)
+			) {
+				columnMap.tags = index;
+				return;
+			}
+
+			// Company name detection
+			if (
+				columnMap.name === -1 &&
+				(headerLower.includes('company') ||
+					headerLower.includes('name') ||
+					headerLower.includes('business') ||
+					headerLower === 'organization')
+			) {
+				columnMap.name = index;
+			}
+
+			// Website detection
+			if (
+				columnMap.website === -1 &&
+				(headerLower.includes('website') ||
+					headerLower.includes('url') ||
+					headerLower.includes('site') ||
+					headerLower.includes('web'))
+			) {
+				columnMap.website = index;
+			}
+
+			// Location detection
+			if (
+				columnMap.location === -1 &&
+				(headerLower.includes('location') ||
+					headerLower.includes('address') ||
+					headerLower.includes('street') ||
+					headerLower.includes('city') ||
+					headerLower.includes('state'))
+			) {
+				columnMap.location = index;
+			}
+		});
+
+		// If name column wasn't found, try to determine it by examining data
+		if (columnMap.name === -1) {
+			// If we couldn't find a good header, just use the first column as name
+			columnMap.name = 0;
+
+			// Unless we already identified that column as something else
+			if (Object.values(columnMap).includes(0)) {
+				// Try to find an unused column
+				for (let i = 0; i < headers.length; i++) {
+					if (!Object.values(columnMap).includes(i)) {
+						columnMap.name = i;
+						break;
+					}
+				}
+			}
+		}
+
+		// If website column wasn't found but we have URLs in the data, find them
+		if (columnMap.website === -1) {
+			// Look at a sample row to try to identify website column
+			for (let i = 1; i < Math.min(5, lines.length); i++) {
+				if (!lines[i].trim()) continue;
+
+				const values = splitCSVLine(lines[i], separator);
+				for (let j = 0; j < values.length; j++) {
+					// Skip columns we've already identified
+					if (Object.values(columnMap).includes(j)) continue;
+
+					// Check if column contains what looks like a URL
+					if (
+						values[j].match(/^https?:\/\//i) ||
+						values[j].match(/^www\./i) ||
+						values[j].match(/\.(com|org|net|io|co)/i)
+					) {
+						columnMap.website = j;
+						break;
+					}
+				}
+				if (columnMap.website !== -1) break;
+			}
+		}
+
+		// If location column wasn't found, look for text that might contain address patterns
+		if (columnMap.location === -1) {
+			// Look at sample rows to find address-like patterns
+			const addressRegex =
+				/\b\d+\s+\w+\s+(st|street|ave|avenue|blvd|boulevard|rd|road|drive|dr|lane|ln|way)\b/i;
+			const cityStateRegex = /\b(columbus|ohio|oh),?\s+\d{5}(-\d{4})?\b/i;
+
+			for (let i = 1; i < Math.min(5, lines.length); i++) {
+				if (!lines[i].trim()) continue;
+
+				const values = splitCSVLine(lines[i], separator);
+				for (let j = 0; j < values.length; j++) {
+					// Skip columns we've already identified
+					if (Object.values(columnMap).includes(j)) continue;
+
+					// Check if column contains what looks like an address
+					if (
+						addressRegex.test(values[j]) ||
+						cityStateRegex.test(values[j])
+					) {
+						columnMap.location = j;
+						break;
+					}
+				}
+				if (columnMap.location !== -1) break;
+			}
+		}
+
+		console.log('Column mapping:', columnMap);
+		console.log('CSV Headers:', headers);
+		console.log('Total lines in CSV:', lines.length);
+
+		const businesses: ImportBusiness[] = [];
+
+		// Skip header row
+		for (let i = 1; i < lines.length; i++) {
+			if (!lines[i].trim()) continue; // Skip empty lines
+
+			const values = splitCSVLine(lines[i], separator);
+
+			// Only add if we can extract a name (columnMap.name should always be valid)
+			if (values[columnMap.name] && values[columnMap.name].trim()) {
+				const business: ImportBusiness = {
+					name: values[columnMap.name].trim(),
+					website:
+						columnMap.website >= 0
+							? (values[columnMap.website] || '').trim()
+							: undefined,
+					location:
+						columnMap.location >= 0
+							? (values[columnMap.location] || '').trim()
+							: undefined,
+					isBadLead: false, // Default values for other fields
+					notes: '',
+					distance: '',
+					careerLink: undefined,
+					tags:
+						columnMap.tags >= 0
+							? parseTagCell(values[columnMap.tags])
+							: undefined,
+				};
+
+				businesses.push(business);
+
+				// Log FYVE specifically to debug
+				if (business.name.toLowerCase().includes('fyve')) {
+					console.log('Found FYVE Marketing in CSV:', business);
+				}
+			} else {
+				console.log(`Skipped row ${i}: missing name. Values:`, values);
+			}
+		}
+
+		console.log(`Parsed ${businesses.length} businesses from CSV`);
+
+		return businesses;
+	}
+
+	// Regular location-based search with intelligent caching (supports both users and guests)
+	app.post(
+		'/api/businesses/search',
+		optionalUserOrGuest,
+		async (req, res) => {
+			try {
+				const searchParams = searchParamsSchema.parse(req.body);
+				const {
+					businessType,
+					location,
+					radius,
+					maxResults,
+					searchMode,
+				} = searchParams;
+				const tileDensity =
+					searchMode === 'tiled'
+						? clampTileDensity(
+								searchParams.tileDensity ?? DEFAULT_TILE_DENSITY
+						  )
+						: undefined;
+				const ownerId = getResultOwnerId(req);
+
+				if (!ownerId) {
+					return res.status(401).json({
+						message:
+							'Authentication required. Please log in or try our demo mode.',
+					});
+				}
+
+				// Generate search fingerprint for caching
+				const searchFingerprint = generateSearchFingerprint({
+					businessType,
+					location,
+					radius: String(radius),
+					maxResults,
+					tileDensity,
+				});
+
+				// Check for cached results first
+				console.log(
+					`Checking cache for search fingerprint: ${searchFingerprint}`
+				);
+				const cachedResult = await getCachedSearchResult(
+					searchFingerprint
+				);
+
+				if (cachedResult) {
 					console.log(
-						`Google Places API (New) response status: ${placesResponse.status}`
+						`Found cached results for ${businessType} in ${location}. Returning ${cachedResult.businesses.length} cached businesses.`
 					);
-					if (placesData.error) {
-						console.log(
-							`Google Places API error: ${JSON.stringify(
-								placesData.error
-							)}`
+
+					// For guest users, check quota but don't auto-save
+					if (req.guest?.guestId) {
+						const quotaStatus = await getDemoSearchStatus(
+							req.guest.guestId
 						);
-						return res.status(400).json({
-							message: 'Failed to search businesses',
-							details:
-								placesData.error.message ||
-								'Unknown Google Places API error',
-						});
-					}
+						if (!quotaStatus.canSearch) {
+							return res.status(429).json({
+								message:
+									'Demo search limit reached. Please sign up to continue searching.',
+								quotaExhausted: true,
+								searchesUsed: quotaStatus.count,
+								searchesRemaining: quotaStatus.remaining,
+							});
+						}
+
+						// Increment quota for guest search (even for cached results)
+						const quotaResult = await incrementDemoSearchCount(
+							req.guest.guestId
+						);
+
+						console.log(
+							`Guest search: ${quotaResult.remaining} searches remaining`
+						);
+					}
+
+					// Get user's saved businesses for duplicate detection (even for cached results)
+					const userSavedBusinesses =
+						await getSavedBusinessesForDuplicateCheck(
+							req.user?.userId
+						);
+
+					// Replace this caller's previous results with the cached ones, with duplicate detection
+					searchJobs.cancelActive(ownerId);
+					await storage.clearAllBusinesses(ownerId);
+
+					const {
+						businesses: includedBusinesses,
+						summary: excluded,
+					} = applyExclusions(
+						cachedResult.businesses.map((b) => ({
+							...pickPlaceDetails(b),
+							name: b.name,
+							website: b.website || '',
+							location: b.location,
+							distance: b.distance,
+							isBadLead: b.isBadLead,
+							notes: b.notes,
+							careerLink: b.careerLink,
+						})),
+						await getExclusionListForUser(req.user?.userId)
+					);
+
+					const businessesWithDuplicates = markDuplicates(
+						includedBusinesses,
+						userSavedBusinesses
+					);
+
+					const savedBusinesses = await storage.saveBatchBusinesses(
+						ownerId,
+						businessesWithDuplicates
+					);
+
+					await recordSearchHistory(
+						req.user?.userId,
+						{
+							searchType: 'location',
+							businessType,
+							location,
+							cities: [],
+							queryKey: searchFingerprint,
+							cached: true,
+						},
+						savedBusinesses
+					);
+
+					return res.json({
+						businesses: savedBusinesses,
+						total: cachedResult.totalResults,
+						excluded,
+						cached: true,
+						cacheAge: Math.round(
+							(Date.now() -
+								new Date(cachedResult.createdAt).getTime()) /
+								(1000 * 60)
+						), // Age in minutes
+						isGuest: !!req.guest?.guestId,
+						searchesRemaining: req.guest?.guestId
+							? (await getDemoSearchStatus(req.guest.guestId))
+									.remaining
+							: undefined,
+					});
+				}
+
+				console.log(
+					`No cached results found. Proceeding with fresh API search.`
+				);
+
+				// Clear this caller's previous results before performing a new search,
+				// stopping any state search still adding to them
+				searchJobs.cancelActive(ownerId);
+				await storage.clearAllBusinesses(ownerId);
+
+				// Determine API keys to use (user keys vs demo keys)
+				let googleApiKey: string;
+				let openaiApiKey: string;
+
+				if (req.user?.userId) {
+					// Authenticated user - use their API keys
+					const userApiKeys = await getApiKeys(req.user.userId);
+					googleApiKey = userApiKeys?.googlePlacesApiKey;
+					openaiApiKey = userApiKeys?.openaiApiKey;
+
+					if (!googleApiKey && !isOfflinePlacesProvider()) {
+						return res.status(400).json({
+							message:
+								'Google Places API key is required. Please configure your API keys in Account Portal.',
+						});
+					}
+
+					if (!openaiApiKey) {
+						return res.status(400).json({
+							message:
+								'OpenAI API key is required. Please configure your API keys in Account Portal.',
+						});
+					}
+				} else if (req.guest?.guestId) {
+					// Guest user - check quota and use demo keys
+					const quotaStatus = await getDemoSearchStatus(
+						req.guest.guestId
+					);
+					if (!quotaStatus.canSearch) {
+						return res.status(429).json({
+							message:
+								'Demo search limit reached. Please sign up to continue searching.',
+							quotaExhausted: true,
+							searchesUsed: quotaStatus.count,
+							searchesRemaining: quotaStatus.remaining,
+						});
+					}
+
+					// Use demo API keys
+					const demoKeys = getDemoApiKeys();
+					if (!demoKeys && !isOfflinePlacesProvider()) {
+						return res.status(503).json({
+							message:
+								'Demo mode is currently unavailable. Please sign up to use your own API keys.',
+						});
+					}
+
+					googleApiKey = demoKeys?.googlePlacesApiKey || '';
+					openaiApiKey = demoKeys?.openaiApiKey || '';
+
+					// Increment quota for guest search
+					const quotaResult = await incrementDemoSearchCount(
+						req.guest.guestId
+					);
+					console.log(
+						`Guest search: ${quotaResult.remaining} searches remaining`
+					);
+				} else {
+					// No authentication at all
+					return res.status(401).json({
+						message:
+							'Authentication required. Please log in or try our demo mode.',
+					});
+				}
+
+				// Use Text Search API for all searches - much better coverage and reliability
+				const textQuery = `${businessType} in ${location}`;
+				console.log(`Searching for: "${textQuery}"`);
+
+				const placesProvider = createPlacesProvider(googleApiKey);
+				let geocoded: GeocodeResult | null;
+				let places: Place[];
+				try {
+					geocoded = await geocodeLocation(placesProvider, location);
+
+					if (tileDensity) {
+						if (!geocoded) {
+							return res.status(400).json({
+								message: `Could not find location "${location}"`,
+							});
+						}
+
+						const tiles = buildSearchTiles(
+							geocoded.coordinates,
+							milesToMeters(radius),
+							tileDensity
+						);
+						console.log(
+							`Tiled search over ${tiles.length} tiles (${tileDensity}x${tileDensity} grid)`
+						);
+						places = await searchTiles(
+							placesProvider,
+							textQuery,
+							tiles,
+							maxResults
+						);
+					} else {
+						// Without coordinates the query text alone sets the area
+						places = await searchAllPages(
+							placesProvider,
+							textQuery,
+							maxResults,
+							geocoded
+								? locationBiasAround(
+										geocoded.coordinates,
+										milesToMeters(radius)
+								  )
+								: {}
+						);
+					}
+				} catch (error) {
+					if (error instanceof PlacesApiError) {
+						return res.status(400).json({
+							message: 'Failed to search businesses',
+							details: error.message,
+						});
+					}
+					throw error;
+				}
+
+				// Miles from the searched location, when both points are known
+				const distanceTo = (place: Place): number | undefined =>
+					geocoded && place.location
+						? calculateDistance(
+								geocoded.coordinates.lat,
+								geocoded.coordinates.lng,
+								place.location.latitude,
+								place.location.longitude
+						  )
+						: undefined;
+
+				// A location bias only prefers nearby places, so drop the ones
+				// outside the requested radius
+				const businesses = places
+					.map((place) => ({ place, miles: distanceTo(place) }))
+					.filter(
+						({ miles }) => miles === undefined || miles <= radius
+					)
+					.map(({ place, miles }) => ({
+						...toPlaceDetails(place),
+						name: place.displayName,
+						website: place.websiteUri || '',
+						location: place.formattedAddress || '',
+						distance:
+							miles !== undefined ? `${miles.toFixed(1)} mi` : '',
+						isBadLead: false,
+						notes: '',
+						careerLink: '',
+					}));
+
+				// Get user's saved businesses if user is logged in
+				const userSavedBusinesses =
+					await getSavedBusinessesForDuplicateCheck(req.user?.userId);
+
+				// Clear this caller's previous search results before saving new ones
+				await storage.clearAllBusinesses(ownerId);
+
+				// Drop or flag what the user's exclusion list matches, then mark
+				// duplicates BEFORE storing them
+				const { businesses: includedBusinesses, summary: excluded } =
+					applyExclusions(
+						businesses,
+						await getExclusionListForUser(req.user?.userId)
+					);
+				const businessesWithDuplicates = markDuplicates(
+					includedBusinesses,
+					userSavedBusinesses
+				);
+
+				// Store the results with duplicate flags
+				const savedBusinesses = await storage.saveBatchBusinesses(
+					ownerId,
+					businessesWithDuplicates
+				);
+
+				// Save results to persistent cache for future searches. The cache is
+				// shared, so it holds the results from before exclusions.
+				try {
+					await saveCachedSearchResult({
+						searchFingerprint,
+						searchParams: {
+							businessType,
+							location,
+							radius: String(radius),
+							maxResults,
+						},
+						businesses: businesses.map((b) => ({
+							...pickPlaceDetails(b),
+							name: b.name,
+							website: b.website || '',
+							location: b.location,
+							distance: b.distance,
+							isBadLead: b.isBadLead,
+							notes: b.notes,
+							careerLink: b.careerLink,
+						})),
+						totalResults: businesses.length,
+						userId: req.user?.userId, // Optional user association
+					});
+					console.log(
+						`Cached search results for fingerprint: ${searchFingerprint}`
+					);
+				} catch (cacheError) {
+					console.error(
+						'Error saving search results to cache:',
+						cacheError
+					);
+					// Don't fail the request if caching fails
+				}
+
+				await recordSearchHistory(
+					req.user?.userId,
+					{
+						searchType: 'location',
+						businessType,
+						location,
+						cities: [],
+						queryKey: searchFingerprint,
+						cached: false,
+					},
+					savedBusinesses
+				);
+
+				// Guest results will only be saved when "Add to my company list" is clicked
+
+				res.json({
+					businesses: savedBusinesses,
+					total: savedBusinesses.length,
+					excluded,
+					cached: false,
+					isGuest: !!req.guest?.guestId,
+					searchesRemaining: req.guest?.guestId
+						? (await getDemoSearchStatus(req.guest.guestId))
+								.remaining
+						: undefined,
+				});
+			} catch (error) {
+				if (error instanceof ZodError) {
+					const validationError = fromZodError(error);
+					return res
+						.status(400)
+						.json({ message: validationError.message });
+				}
+
+				console.error('Error searching businesses:', error);
+				res.status(500).json({
+					message: 'An error occurred while searching for businesses',
+				});
+			}
+		}
+	);
+
+	// Worst-case API cost of a tiled search, shown before the user runs it
+	app.get('/api/businesses/search/estimate', (req, res) => {
+		const tileDensity =
+			parseInt(req.query.tileDensity as string) || DEFAULT_TILE_DENSITY;
+		res.json(estimateTiledSearch(tileDensity));
+	});
+
+	// Get guest businesses for duplicate detection
+	app.get('/api/guest/businesses', optionalUserOrGuest, async (req, res) => {
+		try {
+			if (req.guest?.guestId) {
+				const guestBusinesses = await getGuestBusinesses(
+					req.guest.guestId
+				);
+				res.json({ businesses: guestBusinesses });
+			} else {
+				// No guest session, return empty array
+				res.json({ businesses: [] });
+			}
+		} catch (error) {
+			console.error('Error fetching guest businesses:', error);
+			res.status(500).json({
+				message: 'An error occurred while fetching guest businesses',
+			});
+		}
+	});
+
+	// Generate search suggestions based on current search
+	app.post('/api/businesses/suggestions', optionalAuth, async (req, res) => {
+		try {
+			const { jobRole } = req.body;
+
+			if (!jobRole || !jobRole.trim()) {
+				return res.status(400).json({
+					message: 'Job role is required for generating suggestions',
+				});
+			}
+
+			// Get OpenAI API key from user, system, or demo keys
+			let openaiApiKey: string | undefined;
+
+			if (req.user?.userId) {
+				// Authenticated user - get their API keys
+				const userApiKeys = await getApiKeys(req.user.userId);
+				openaiApiKey = userApiKeys?.openaiApiKey;
+			}
+
+			// Fall back to system key if no user key
+			if (!openaiApiKey) {
+				openaiApiKey = process.env.OPENAI_API_KEY;
+			}
+
+			// Check for demo keys if no user or system key
+			if (!openaiApiKey) {
+				const demoKeys = getDemoApiKeys();
+				if (demoKeys?.openaiApiKey) {
+					openaiApiKey = demoKeys.openaiApiKey;
+				}
+			}
+
+			if (!openaiApiKey) {
+				return res.status(400).json({
+					message:
+						'OpenAI API key is required. Please set up your API keys in Account Portal or use demo mode.',
+				});
+			}
+
+			// Create OpenAI client with the resolved API key
+			const openaiToUse = new OpenAI({
+				apiKey: openaiApiKey,
+			});
+
+			console.log('Generating search suggestions...');
+
+			// Generate job-focused search terms using OpenAI
+			const searchTerms = await generateJobFocusedSearchTerms(
+				jobRole,
+				openaiToUse
+			);
+			console.log(
+				`Generated ${searchTerms.length} search suggestions for "${jobRole}":`,
+				searchTerms
+			);
+
+			res.json({
+				suggestions: searchTerms,
+			});
+		} catch (error) {
+			console.error('Error generating suggestions:', error);
+			res.status(500).json({
+				message: 'Failed to generate suggestions',
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	});
+
+	// Search saved businesses for debugging
+	app.get('/api/my/businesses/search', authenticate, async (req, res) => {
+		try {
+			const userId = req.user!.userId;
+			const query = req.query.q as string;
+
+			if (!query) {
+				return res
+					.status(400)
+					.json({ message: 'Search query required' });
+			}
+
+			const result = await getSavedBusinesses(userId, { limit: 1000 }); // Get all businesses
+			const filteredBusinesses = result.businesses.filter(
+				(business) =>
+					business.name
+						?.toLowerCase()
+						.includes(query.toLowerCase()) ||
+					business.website
+						?.toLowerCase()
+						.includes(query.toLowerCase()) ||
+					business.location
+						?.toLowerCase()
+						.includes(query.toLowerCase())
+			);
+
+			console.log(
+				`Search for "${query}": found ${filteredBusinesses.length} matches out of ${result.total} total businesses`
+			);
+
+			res.json({
+				businesses: filteredBusinesses,
+				total: filteredBusinesses.length,
+				searchQuery: query,
+				totalInDatabase: result.total,
+			});
+		} catch (error) {
+			console.error('Error searching saved businesses:', error);
+			res.status(500).json({
+				message: 'An error occurred while searching businesses',
+			});
+		}
+	});
+
+	// Find FYVE Marketing specifically
+	app.get('/api/my/businesses/find-fyve', authenticate, async (req, res) => {
+		try {
+			const userId = req.user!.userId;
+
+			// Search through all pages to find FYVE Marketing
+			let pageFound = -1;
+			let fyveMarketingBusiness = null;
+
+			// Check up to 100 pages (5000 businesses)
+			for (let page = 1; page <= 100; page++) {
+				const result = await getSavedBusinesses(userId, {
+					page,
+					limit: 50,
+				});
+
+				const fyveFound = result.businesses.find(
+					(b) =>
+						b.name === 'FYVE Marketing' ||
+						b.name?.toLowerCase() === 'fyve marketing' ||
+						b.name?.includes('FYVE') ||
+						b.name?.includes('fyve')
+				);
+
+				if (fyveFound) {
+					pageFound = page;
+					fyveMarketingBusiness = fyveFound;
+					console.log(
+						`FYVE Marketing found on page ${page}: ${fyveFound.name}`
+					);
+					break;
+				}
+
+				// If we've checked all businesses, stop
+				if (result.businesses.length < 50) break;
+			}
+
+			res.json({
+				found: !!fyveMarketingBusiness,
+				pageFound,
+				business: fyveMarketingBusiness,
+				message: fyveMarketingBusiness
+					? `FYVE Marketing found on page ${pageFound}`
+					: 'FYVE Marketing not found in any page',
+			});
+		} catch (error) {
+			console.error('Error finding FYVE Marketing:', error);
+			res.status(500).json({
+				message: 'An error occurred while searching for FYVE Marketing',
+			});
+		}
+	});
+
+	// Search history for the current user, newest first
+	app.get('/api/my/search-history', authenticate, async (req, res) => {
+		try {
+			const userId = req.user!.userId;
+			const page = parseInt(req.query.page as string) || 1;
+			const limit = Math.min(
+				parseInt(req.query.limit as string) || 20,
+				100
+			);
+
+			const history = await getSearchHistory(userId, page, limit);
+			res.json(history);
+		} catch (error) {
+			console.error('Error fetching search history:', error);
+			res.status(500).json({ message: 'Failed to fetch search history' });
+		}
+	});
+
+	// A single history entry, including the businesses that run returned
+	app.get('/api/my/search-history/:id', authenticate, async (req, res) => {
+		try {
+			const entry = await getSearchHistoryEntry(req.params.id);
+			if (!entry || entry.userId !== req.user!.userId) {
+				return res
+					.status(404)
+					.json({ message: 'Search history entry not found' });
+			}
+
+			res.json(entry);
+		} catch (error) {
+			console.error('Error fetching search history entry:', error);
+			res.status(500).json({
+				message: 'Failed to fetch search history entry',
+			});
+		}
+	});
+
+	// Businesses that are new (or gone) compared to the previous run of the
+	// same query
+	app.get(
+		'/api/my/search-history/:id/diff',
+		authenticate,
+		async (req, res) => {
+			try {
+				const entry = await getSearchHistoryEntry(req.params.id);
+				if (!entry || entry.userId !== req.user!.userId) {
+					return res
+						.status(404)
+						.json({ message: 'Search history entry not found' });
+				}
+
+				const previous = await getPreviousSearchRun(entry);
+				const { added, removed, unchangedCount } = diffBusinessLists(
+					entry.businesses,
+					previous?.businesses || []
+				);
+
+				res.json({
+					entryId: entry._id,
+					previousId: previous?._id || null,
+					previousRunAt: previous?.createdAt || null,
+					added,
+					removed,
+					unchangedCount,
+				});
+			} catch (error) {
+				console.error('Error diffing search history entry:', error);
+				res.status(500).json({ message: 'Failed to compare searches' });
+			}
+		}
+	);
+
+	app.delete('/api/my/search-history/:id', authenticate, async (req, res) => {
+		try {
+			const entry = await getSearchHistoryEntry(req.params.id);
+			if (!entry || entry.userId !== req.user!.userId) {
+				return res
+					.status(404)
+					.json({ message: 'Search history entry not found' });
+			}
+
+			await deleteSearchHistoryEntry(req.params.id);
+			res.json({ message: 'Search history entry deleted successfully' });
+		} catch (error) {
+			console.error('Error deleting search history entry:', error);
+			res.status(500).json({
+				message: 'Failed to delete search history entry',
+			});
+		}
+	});
+
+	// Saved lists endpoints
+
+	// The user's lists, by name. Each carries its business ids (or rules, for
+	// smart lists) and how many businesses are in it right now.
+	app.get('/api/my/lists', authenticate, async (req, res) => {
+		try {
+			const userId = req.user!.userId;
+			const lists = await getSavedLists(userId);
+			const withCounts = await Promise.all(
+				lists.map(async (list) => ({
+					...list,
+					count: isSmartList(list)
+						? await countSavedBusinesses(userId, listFilters(list))
+						: (list.businesses || []).length,
+				}))
+			);
+			res.json(withCounts);
+		} catch (error) {
+			console.error('Error fetching saved lists:', error);
+			res.status(500).json({ message: 'Failed to fetch lists' });
+		}
+	});
+
+	app.post('/api/my/lists', authenticate, async (req, res) => {
+		try {
+			const { match, ...input } = savedListInputSchema.parse(req.body);
+			const list = await createSavedList({
+				...input,
+				userId: req.user!.userId,
+				...(input.rules
+					? { match: match || 'all' }
+					: { businesses: [] }),
+			});
+			res.status(201).json(list);
+		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
+
+			console.error('Error creating saved list:', error);
+			res.status(500).json({ message: 'Failed to create list' });
+		}
+	});
 
-					if (!placesResponse.ok) {
-						return res.status(400).json({
-							message: 'Failed to search businesses',
-							details: `HTTP ${placesResponse.status}: ${placesResponse.statusText}`,
-						});
-					}
+	// A list with its businesses
+	app.get('/api/my/lists/:id', authenticate, async (req, res) => {
+		try {
+			const list = await getSavedListById(req.params.id);
+			if (!list || list.userId !== req.user!.userId) {
+				return res.status(404).json({ message: 'List not found' });
+			}
 
-					nextPageToken = placesData.nextPageToken || null;
-					const pageResults = placesData.places || [];
+			const businesses = isSmartList(list)
+				? (
+						await getSavedBusinesses(list.userId, {
+							limit: 10000,
+							filters: listFilters(list),
+						})
+				  ).businesses
+				: await getBusinessesForList(list._id!);
+			res.json({ ...list, businesses });
+		} catch (error) {
+			console.error('Error fetching saved list:', error);
+			res.status(500).json({ message: 'Failed to fetch list' });
+		}
+	});
 
-					console.log(
-						`Found ${pageResults.length} places in this page`
-					);
+	// Rename a list or change its description, or a smart list's rules
+	app.patch('/api/my/lists/:id', authenticate, async (req, res) => {
+		try {
+			const updates = savedListInputSchema.partial().parse(req.body);
+			const list = await getSavedListById(req.params.id);
+			if (!list || list.userId !== req.user!.userId) {
+				return res.status(404).json({ message: 'List not found' });
+			}
+			if (
+				!isSmartList(list) &&
+				(updates.rules !== undefined || updates.match !== undefined)
+			) {
+				return res.status(400).json({
+					message: 'Only smart lists have rules',
+				});
+			}
 
-					// Process results for new API format
-					for (const place of pageResults) {
-						businesses.push({
-							name: place.displayName?.text || 'Unknown Business',
-							website: place.websiteUri || '',
-							location: place.formattedAddress || '',
-							distance: `${radius} mi radius`,
-							isBadLead: false,
-							notes: '',
-							careerLink: place.websiteUri
-								? `${place.websiteUri.replace(
-										/\/+$/,
-										''
-								  )}/careers`
-								: '',
-						});
-					}
-				} while (nextPageToken && businesses.length < maxResultsNum);
+			const updated = await updateSavedList(list._id!, updates);
+			res.json(updated);
+		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
 
-				// Get user's saved businesses if user is logged in
-				let userSavedBusinesses: any[] = [];
-				if (req.user && req.user.userId) {
-					try {
-						const savedBusinessesData = await getSavedBusinesses(
-							req.user.userId,
-							1,
-							10000 // Get all businesses for duplicate detection
-						);
-						userSavedBusinesses = savedBusinessesData.businesses;
-						console.log(
-							`Found ${userSavedBusinesses.length} saved businesses for user ${req.user.userId}`
-						);
-					} catch (err) {
-						console.error(
-							'Error fetching saved businesses for duplicate check:',
-							err
-						);
-					}
-				}
+			console.error('Error updating saved list:', error);
+			res.status(500).json({ message: 'Failed to update list' });
+		}
+	});
 
-				// Clear ALL previous search results before saving new ones
-				await storage.clearAllBusinesses();
-
-				// Mark duplicates BEFORE storing them
-				const businessesWithDuplicates = businesses.map((business) => {
-					let isDuplicate = false;
-
-					if (userSavedBusinesses.length > 0) {
-						isDuplicate = userSavedBusinesses.some(
-							(savedBusiness) => {
-								// Check website match (normalize domains first)
-								const normalizeUrl = (url: string) => {
-									if (!url) return '';
-									return url
-										.toLowerCase()
-										.replace(/^https?:\/\//i, '')
-										.replace(/^www\./i, '')
-										.replace(/\/+$/, '')
-										.split('/')[0] // Get just the domain part
-										.split('?')[0] // Remove query parameters
-										.split('#')[0]; // Remove fragments
-								};
-
-								// Check website match - compare all possible website fields
-								const businessWebsites = [
-									business.website,
-									business.location, // Sometimes website is in location field
-								].filter(Boolean);
-
-								const savedWebsites = [
-									savedBusiness.website,
-									savedBusiness.location, // Sometimes website is in location field
-								].filter(Boolean);
-
-								for (const businessUrl of businessWebsites) {
-									for (const savedUrl of savedWebsites) {
-										const businessDomain =
-											normalizeUrl(businessUrl);
-										const savedDomain =
-											normalizeUrl(savedUrl);
-
-										// Check if both are valid domains (contain a dot)
-										if (
-											businessDomain.includes('.') &&
-											savedDomain.includes('.')
-										) {
-											if (
-												businessDomain === savedDomain
-											) {
-												return true;
-											}
-										}
-									}
-								}
-
-								// Check name match (normalize company names)
-								if (business.name && savedBusiness.name) {
-									const normalizeName = (name: string) => {
-										return name
-											.toLowerCase()
-											.replace(/[,\.]/g, '') // Remove commas and periods
-											.replace(/\s+/g, ' ') // Normalize spaces
-											.replace(
-												/\s*(inc|llc|ltd|corp|corporation|co|company)\s*\.?$/i,
-												''
-											)
-											.trim();
-									};
-
-									const businessName = normalizeName(
-										business.name
-									);
-									const savedName = normalizeName(
-										savedBusiness.name
-									);
-
-									if (businessName === savedName) return true;
-								}
-
-								// Check location match (normalize locations)
-								if (
-									business.location &&
-									savedBusiness.location
-								) {
-									const normalizeLocation = (
-										location: string
-									) => {
-										return (
-											location
-												.toLowerCase()
-												// Remove apartment/suite numbers
-												.replace(
-													/(\s|,)+suite\s+\w+/i,
-													''
-												)
-												.replace(
-													/(\s|,)+ste\.?\s+\w+/i,
-													''
-												)
-												.replace(
-													/(\s|,)+apt\.?\s+\w+/i,
-													''
-												)
-												.replace(
-													/(\s|,)+unit\s+\w+/i,
-													''
-												)
-												.replace(/(\s|,)+#\s*\w+/i, '')
-												// Remove floor indicators
-												.replace(
-													/(\s|,)+floor\s+\w+/i,
-													''
-												)
-												.replace(
-													/(\s|,)+fl\.?\s+\w+/i,
-													''
-												)
-												// Remove room numbers
-												.replace(
-													/(\s|,)+room\s+\w+/i,
-													''
-												)
-												.replace(
-													/(\s|,)+rm\.?\s+\w+/i,
-													''
-												)
-												// Standardize address components
-												.replace(/\bstreet\b/i, 'st')
-												.replace(/\bavenue\b/i, 'ave')
-												.replace(
-													/\bboulevard\b/i,
-													'blvd'
-												)
-												.replace(/\bsuite\b/i, 'ste')
-												.trim()
-										);
-									};
-
-									const businessLocation = normalizeLocation(
-										business.location
-									);
-									const savedLocation = normalizeLocation(
-										savedBusiness.location
-									);
-
-									// Check if the core address matches
-									if (businessLocation === savedLocation)
-										return true;
-
-									// Attempt to extract city and state/zip if full match fails
-									const extractCityState = (
-										location: string
-									) => {
-										// Try to get city, state from address
-										const cityStateMatch = location.match(
-											/([^,]+),\s*([^,]+)(?:,\s*([^,]+))?$/
-										);
-										if (cityStateMatch) {
-											const city = cityStateMatch[1]
-												?.trim()
-												.toLowerCase();
-											const state = cityStateMatch[2]
-												?.trim()
-												.toLowerCase();
-											return { city, state };
-										}
-										return { city: '', state: '' };
-									};
-
-									const businessAddr =
-										extractCityState(businessLocation);
-									const savedAddr =
-										extractCityState(savedLocation);
-
-									// If we have both city and state and they match, it's likely the same location
-									if (
-										businessAddr.city &&
-										businessAddr.state &&
-										businessAddr.city === savedAddr.city &&
-										businessAddr.state === savedAddr.state
-									) {
-										return true;
-									}
-								}
-
-								return false;
-							}
-						);
-					}
+	// Delete a list. The businesses in it stay saved.
+	app.delete('/api/my/lists/:id', authenticate, async (req, res) => {
+		try {
+			const list = await getSavedListById(req.params.id);
+			if (!list || list.userId !== req.user!.userId) {
+				return res.status(404).json({ message: 'List not found' });
+			}
+
+			await deleteSavedList(list._id!);
+			res.json({ message: 'List deleted' });
+		} catch (error) {
+			console.error('Error deleting saved list:', error);
+			res.status(500).json({ message: 'Failed to delete list' });
+		}
+	});
 
-					return { ...business, isDuplicate };
+	// Add saved businesses to a list; ones already in it are left as they are
+	app.post('/api/my/lists/:id/businesses', authenticate, async (req, res) => {
+		try {
+			const userId = req.user!.userId;
+			const { businessIds } = listMembershipInputSchema.parse(req.body);
+			const list = await getSavedListById(req.params.id);
+			if (!list || list.userId !== userId) {
+				return res.status(404).json({ message: 'List not found' });
+			}
+			if (isSmartList(list)) {
+				return res.status(400).json({
+					message: "A smart list's businesses come from its rules",
 				});
+			}
 
-				// Store the results with duplicate flags
-				const savedBusinesses = await storage.saveBatchBusinesses(
-					businessesWithDuplicates
-				);
+			const businesses = await Promise.all(
+				businessIds.map((id) => getSavedBusinessById(id))
+			);
+			if (businesses.some((b) => !b || b.userId !== userId)) {
+				return res.status(404).json({ message: 'Business not found' });
+			}
 
-				// Save results to persistent cache for future searches
-				try {
-					await saveCachedSearchResult({
-						searchFingerprint,
-						searchParams: {
-							businessType,
-							location,
-							radius: Number(radius),
-							maxResults: Number(maxResults),
-						},
-						businesses: savedBusinesses.map((b) => ({
-							name: b.name,
-							website: b.website || '',
-							location: b.location,
-							distance: b.distance,
-							isBadLead: b.isBadLead,
-							notes: b.notes,
-							careerLink: b.careerLink,
-							isDuplicate: b.isDuplicate,
-						})),
-						totalResults: savedBusinesses.length,
-						userId: req.user?.userId, // Optional user association
+			const before = new Set(list.businesses || []);
+			const updated = await addBusinessesToList(list._id!, businessIds);
+			res.json({
+				list: updated,
+				added: businessIds.filter((id) => !before.has(id)).length,
+			});
+		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
+
+			console.error('Error adding businesses to list:', error);
+			res.status(500).json({
+				message: 'Failed to add businesses to the list',
+			});
+		}
+	});
+
+	// Take businesses out of a list without deleting them
+	app.delete(
+		'/api/my/lists/:id/businesses',
+		authenticate,
+		async (req, res) => {
+			try {
+				const { businessIds } = listMembershipInputSchema.parse(
+					req.body
+				);
+				const list = await getSavedListById(req.params.id);
+				if (!list || list.userId !== req.user!.userId) {
+					return res.status(404).json({ message: 'List not found' });
+				}
+				if (isSmartList(list)) {
+					return res.status(400).json({
+						message:
+							"A smart list's businesses come from its rules",
 					});
-					console.log(
-						`Cached search results for fingerprint: ${searchFingerprint}`
-					);
-				} catch (cacheError) {
-					console.error(
-						'Error saving search results to cache:',
-						cacheError
-					);
-					// Don't fail the request if caching fails
 				}
 
-				// Guest results will only be saved when "Add to my company list" is clicked
-
-				res.json({
-					businesses: savedBusinesses,
-					total: savedBusinesses.length,
-					cached: false,
-					isGuest: !!req.guest?.guestId,
-					searchesRemaining: req.guest?.guestId
-						? (await getDemoSearchStatus(req.guest.guestId))
-								.remaining
-						: undefined,
-				});
+				const updated = await removeBusinessesFromList(
+					list._id!,
+					businessIds
+				);
+				res.json({ list: updated });
 			} catch (error) {
 				if (error instanceof ZodError) {
 					const validationError = fromZodError(error);
@@ -2739,196 +4356,420 @@ export async function registerRoutes(app: Express): Promise<Server> {
 						.json({ message: validationError.message });
 				}
 
-				console.error('Error searching businesses:', error);
+				console.error('Error removing businesses from list:', error);
 				res.status(500).json({
-					message: 'An error occurred while searching for businesses',
+					message: 'Failed to remove businesses from the list',
 				});
 			}
 		}
 	);
 
-	// Get guest businesses for duplicate detection
-	app.get('/api/guest/businesses', optionalUserOrGuest, async (req, res) => {
-		try {
-			if (req.guest?.guestId) {
-				const guestBusinesses = await getGuestBusinesses(
-					req.guest.guestId
+	// Add one business to a list
+	app.put(
+		'/api/my/lists/:id/businesses/:businessId',
+		authenticate,
+		async (req, res) => {
+			try {
+				const userId = req.user!.userId;
+				const list = await getSavedListById(req.params.id);
+				if (!list || list.userId !== userId) {
+					return res.status(404).json({ message: 'List not found' });
+				}
+				if (isSmartList(list)) {
+					return res.status(400).json({
+						message:
+							"A smart list's businesses come from its rules",
+					});
+				}
+				const business = await getSavedBusinessById(
+					req.params.businessId
 				);
-				res.json({ businesses: guestBusinesses });
-			} else {
-				// No guest session, return empty array
-				res.json({ businesses: [] });
+				if (!business || business.userId !== userId) {
+					return res
+						.status(404)
+						.json({ message: 'Business not found' });
+				}
+
+				const updated = await addBusinessToList(
+					list._id!,
+					business._id!
+				);
+				res.json(updated);
+			} catch (error) {
+				console.error('Error adding business to list:', error);
+				res.status(500).json({
+					message: 'Failed to add the business to the list',
+				});
+			}
+		}
+	);
+
+	app.delete(
+		'/api/my/lists/:id/businesses/:businessId',
+		authenticate,
+		async (req, res) => {
+			try {
+				const list = await getSavedListById(req.params.id);
+				if (!list || list.userId !== req.user!.userId) {
+					return res.status(404).json({ message: 'List not found' });
+				}
+				if (isSmartList(list)) {
+					return res.status(400).json({
+						message:
+							"A smart list's businesses come from its rules",
+					});
+				}
+
+				const updated = await removeBusinessFromList(
+					list._id!,
+					req.params.businessId
+				);
+				res.json(updated);
+			} catch (error) {
+				console.error('Error removing business from list:', error);
+				res.status(500).json({
+					message: 'Failed to remove the business from the list',
+				});
 			}
+		}
+	);
+
+	// Tags endpoints
+
+	// The user's tags, by name, with how many businesses carry each
+	app.get('/api/my/tags', authenticate, async (req, res) => {
+		try {
+			const userId = req.user!.userId;
+			const [tags, counts] = await Promise.all([
+				getTags(userId),
+				countTags({ userId }),
+			]);
+			const countByName = new Map(counts.map((c) => [c.name, c.count]));
+			res.json(
+				tags.map((tag) => ({
+					...tag,
+					count: countByName.get(tag.name) || 0,
+				}))
+			);
 		} catch (error) {
-			console.error('Error fetching guest businesses:', error);
-			res.status(500).json({
-				message: 'An error occurred while fetching guest businesses',
-			});
+			console.error('Error fetching tags:', error);
+			res.status(500).json({ message: 'Failed to fetch tags' });
 		}
 	});
 
-	// Generate search suggestions based on current search
-	app.post('/api/businesses/suggestions', optionalAuth, async (req, res) => {
+	app.post('/api/my/tags', authenticate, async (req, res) => {
 		try {
-			const { jobRole } = req.body;
-
-			if (!jobRole || !jobRole.trim()) {
-				return res.status(400).json({
-					message: 'Job role is required for generating suggestions',
-				});
+			const input = tagInputSchema.parse(req.body);
+			const tag = await createTag(req.user!.userId, input);
+			res.status(201).json(tag);
+		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
+			if ((error as Error).message === 'Tag already exists') {
+				return res.status(409).json({ message: 'Tag already exists' });
 			}
 
-			// Get OpenAI API key from user, system, or demo keys
-			let openaiApiKey: string | undefined;
+			console.error('Error creating tag:', error);
+			res.status(500).json({ message: 'Failed to create tag' });
+		}
+	});
 
-			if (req.user?.userId) {
-				// Authenticated user - get their API keys
-				const userApiKeys = await getApiKeys(req.user.userId);
-				openaiApiKey = userApiKeys?.openaiApiKey;
+	// Rename or recolor a tag; businesses with it keep it under the new name
+	app.patch('/api/my/tags/:id', authenticate, async (req, res) => {
+		try {
+			const updates = tagInputSchema.partial().parse(req.body);
+			const tag = await getTagById(req.params.id);
+			if (!tag || tag.userId !== req.user!.userId) {
+				return res.status(404).json({ message: 'Tag not found' });
 			}
 
-			// Fall back to system key if no user key
-			if (!openaiApiKey) {
-				openaiApiKey = process.env.OPENAI_API_KEY;
+			const updated = await updateTag(tag, {
+				...(updates.name && { name: updates.name }),
+				...(updates.color && { color: updates.color }),
+			});
+			res.json(updated);
+		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
+			if ((error as Error).message === 'Tag already exists') {
+				return res.status(409).json({ message: 'Tag already exists' });
 			}
 
-			// Check for demo keys if no user or system key
-			if (!openaiApiKey) {
-				const demoKeys = getDemoApiKeys();
-				if (demoKeys?.openaiApiKey) {
-					openaiApiKey = demoKeys.openaiApiKey;
-				}
+			console.error('Error updating tag:', error);
+			res.status(500).json({ message: 'Failed to update tag' });
+		}
+	});
+
+	// Delete a tag and take it off every business
+	app.delete('/api/my/tags/:id', authenticate, async (req, res) => {
+		try {
+			const tag = await getTagById(req.params.id);
+			if (!tag || tag.userId !== req.user!.userId) {
+				return res.status(404).json({ message: 'Tag not found' });
 			}
 
-			if (!openaiApiKey) {
-				return res.status(400).json({
-					message:
-						'OpenAI API key is required. Please set up your API keys in Account Portal or use demo mode.',
-				});
+			await deleteTag(tag);
+			res.json({ message: 'Tag deleted' });
+		} catch (error) {
+			console.error('Error deleting tag:', error);
+			res.status(500).json({ message: 'Failed to delete tag' });
+		}
+	});
+
+	// The user's exclusion list; an empty one if they haven't saved any
+	app.get('/api/my/exclusions', authenticate, async (req, res) => {
+		try {
+			const list = await getExclusionList(req.user!.userId);
+			res.json(list || { mode: 'hide', rules: [] });
+		} catch (error) {
+			console.error('Error fetching exclusion list:', error);
+			res.status(500).json({ message: 'Failed to fetch exclusion list' });
+		}
+	});
+
+	// Replace the user's exclusion list. Applies to searches run from now on.
+	app.put('/api/my/exclusions', authenticate, async (req, res) => {
+		try {
+			const input = exclusionListInputSchema.parse(req.body);
+			const list = await saveExclusionList(req.user!.userId, input);
+			res.json(list);
+		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
+
+			console.error('Error saving exclusion list:', error);
+			res.status(500).json({ message: 'Failed to save exclusion list' });
+		}
+	});
+
+	// The user's pipeline stages, in board order
+	app.get('/api/my/pipeline', authenticate, async (req, res) => {
+		try {
+			const stages = await getPipelineStages(req.user!.userId);
+			res.json({ stages });
+		} catch (error) {
+			console.error('Error fetching pipeline:', error);
+			res.status(500).json({ message: 'Failed to fetch pipeline' });
+		}
+	});
+
+	// Replace the user's pipeline stages. Businesses in a removed stage are
+	// left without a status.
+	app.put('/api/my/pipeline', authenticate, async (req, res) => {
+		try {
+			const { stages } = pipelineInputSchema.parse(req.body);
+			const result = await savePipelineStages(req.user!.userId, stages);
+			res.json(result);
+		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
 			}
 
-			// Create OpenAI client with the resolved API key
-			const openaiToUse = new OpenAI({
-				apiKey: openaiApiKey,
-			});
-
-			console.log('Generating search suggestions...');
+			console.error('Error saving pipeline:', error);
+			res.status(500).json({ message: 'Failed to save pipeline' });
+		}
+	});
 
-			// Generate job-focused search terms using OpenAI
-			const searchTerms = await generateJobFocusedSearchTerms(
-				jobRole,
-				openaiToUse
-			);
-			console.log(
-				`Generated ${searchTerms.length} search suggestions for "${jobRole}":`,
-				searchTerms
+	// Saved searches, with the number of unseen leads in each one's inbox
+	app.get('/api/my/saved-searches', authenticate, async (req, res) => {
+		try {
+			const userId = req.user!.userId;
+			const [searches, unseenCounts] = await Promise.all([
+				getSavedSearches(userId),
+				getUnseenLeadCounts(userId),
+			]);
+
+			res.json(
+				searches.map((search) => ({
+					...search,
+					unseenLeadCount: unseenCounts[search._id!] || 0,
+				}))
 			);
+		} catch (error) {
+			console.error('Error fetching saved searches:', error);
+			res.status(500).json({ message: 'Failed to fetch saved searches' });
+		}
+	});
 
-			res.json({
-				suggestions: searchTerms,
+	app.post('/api/my/saved-searches', authenticate, async (req, res) => {
+		try {
+			const input = savedSearchInputSchema.parse(req.body);
+
+			// New searches run on the scheduler's next tick
+			const search = await createSavedSearch({
+				...input,
+				businessType: sanitizeSearchTerm(input.businessType),
+				location: sanitizeSearchTerm(input.location),
+				userId: req.user!.userId,
+				nextRunAt: new Date(),
 			});
+			res.status(201).json({ ...search, unseenLeadCount: 0 });
 		} catch (error) {
-			console.error('Error generating suggestions:', error);
-			res.status(500).json({
-				message: 'Failed to generate suggestions',
-				error: error instanceof Error ? error.message : String(error),
-			});
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
+
+			console.error('Error creating saved search:', error);
+			res.status(500).json({ message: 'Failed to create saved search' });
 		}
 	});
 
-	// Search saved businesses for debugging
-	app.get('/api/my/businesses/search', authenticate, async (req, res) => {
+	app.patch('/api/my/saved-searches/:id', authenticate, async (req, res) => {
 		try {
-			const userId = req.user!.userId;
-			const query = req.query.q as string;
+			const search = await getSavedSearchById(req.params.id);
+			if (!search || search.userId !== req.user!.userId) {
+				return res
+					.status(404)
+					.json({ message: 'Saved search not found' });
+			}
 
-			if (!query) {
+			const input = savedSearchInputSchema.partial().parse(req.body);
+			const updates: Partial<SavedSearch> = { ...input };
+			if (input.businessType) {
+				updates.businessType = sanitizeSearchTerm(input.businessType);
+			}
+			if (input.location) {
+				updates.location = sanitizeSearchTerm(input.location);
+			}
+			// Keep the schedule anchored to the last run when the cadence changes
+			if (
+				input.cadence &&
+				input.cadence !== search.cadence &&
+				search.lastRunAt
+			) {
+				updates.nextRunAt = getNextRunAt(
+					input.cadence,
+					new Date(search.lastRunAt)
+				);
+			}
+
+			const updated = await updateSavedSearch(req.params.id, updates);
+			res.json(updated);
+		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
 				return res
 					.status(400)
-					.json({ message: 'Search query required' });
+					.json({ message: validationError.message });
 			}
 
-			const result = await getSavedBusinesses(userId, 1, 1000); // Get all businesses
-			const filteredBusinesses = result.businesses.filter(
-				(business) =>
-					business.name
-						?.toLowerCase()
-						.includes(query.toLowerCase()) ||
-					business.website
-						?.toLowerCase()
-						.includes(query.toLowerCase()) ||
-					business.location
-						?.toLowerCase()
-						.includes(query.toLowerCase())
-			);
+			console.error('Error updating saved search:', error);
+			res.status(500).json({ message: 'Failed to update saved search' });
+		}
+	});
 
-			console.log(
-				`Search for "${query}": found ${filteredBusinesses.length} matches out of ${result.total} total businesses`
-			);
+	app.delete('/api/my/saved-searches/:id', authenticate, async (req, res) => {
+		try {
+			const search = await getSavedSearchById(req.params.id);
+			if (!search || search.userId !== req.user!.userId) {
+				return res
+					.status(404)
+					.json({ message: 'Saved search not found' });
+			}
 
-			res.json({
-				businesses: filteredBusinesses,
-				total: filteredBusinesses.length,
-				searchQuery: query,
-				totalInDatabase: result.total,
-			});
+			await deleteSavedSearch(req.params.id);
+			res.json({ message: 'Saved search deleted successfully' });
 		} catch (error) {
-			console.error('Error searching saved businesses:', error);
-			res.status(500).json({
-				message: 'An error occurred while searching businesses',
-			});
+			console.error('Error deleting saved search:', error);
+			res.status(500).json({ message: 'Failed to delete saved search' });
 		}
 	});
 
-	// Find FYVE Marketing specifically
-	app.get('/api/my/businesses/find-fyve', authenticate, async (req, res) => {
-		try {
-			const userId = req.user!.userId;
+	// Run a saved search now instead of waiting for its schedule
+	app.post(
+		'/api/my/saved-searches/:id/run',
+		authenticate,
+		async (req, res) => {
+			try {
+				const search = await getSavedSearchById(req.params.id);
+				if (!search || search.userId !== req.user!.userId) {
+					return res
+						.status(404)
+						.json({ message: 'Saved search not found' });
+				}
 
-			// Search through all pages to find FYVE Marketing
-			let pageFound = -1;
-			let fyveMarketingBusiness = null;
+				try {
+					const result = await runSavedSearch(search);
+					res.json(result);
+				} catch (error) {
+					// The failure is also stored as the search's lastError
+					res.status(400).json({
+						message:
+							error instanceof Error
+								? error.message
+								: 'Failed to run saved search',
+					});
+				}
+			} catch (error) {
+				console.error('Error running saved search:', error);
+				res.status(500).json({ message: 'Failed to run saved search' });
+			}
+		}
+	);
 
-			// Check up to 100 pages (5000 businesses)
-			for (let page = 1; page <= 100; page++) {
-				const result = await getSavedBusinesses(userId, page, 50);
+	// Leads inbox for a saved search, newest first
+	app.get(
+		'/api/my/saved-searches/:id/leads',
+		authenticate,
+		async (req, res) => {
+			try {
+				const search = await getSavedSearchById(req.params.id);
+				if (!search || search.userId !== req.user!.userId) {
+					return res
+						.status(404)
+						.json({ message: 'Saved search not found' });
+				}
 
-				const fyveFound = result.businesses.find(
-					(b) =>
-						b.name === 'FYVE Marketing' ||
-						b.name?.toLowerCase() === 'fyve marketing' ||
-						b.name?.includes('FYVE') ||
-						b.name?.includes('fyve')
+				const leads = await getSavedSearchLeads(
+					req.params.id,
+					req.query.unseenOnly === 'true'
 				);
+				res.json(leads);
+			} catch (error) {
+				console.error('Error fetching saved search leads:', error);
+				res.status(500).json({ message: 'Failed to fetch leads' });
+			}
+		}
+	);
 
-				if (fyveFound) {
-					pageFound = page;
-					fyveMarketingBusiness = fyveFound;
-					console.log(
-						`FYVE Marketing found on page ${page}: ${fyveFound.name}`
-					);
-					break;
+	app.post(
+		'/api/my/saved-searches/:id/leads/seen',
+		authenticate,
+		async (req, res) => {
+			try {
+				const search = await getSavedSearchById(req.params.id);
+				if (!search || search.userId !== req.user!.userId) {
+					return res
+						.status(404)
+						.json({ message: 'Saved search not found' });
 				}
 
-				// If we've checked all businesses, stop
-				if (result.businesses.length < 50) break;
+				const count = await markSavedSearchLeadsSeen(req.params.id);
+				res.json({ message: 'Leads marked as seen', count });
+			} catch (error) {
+				console.error('Error marking saved search leads seen:', error);
+				res.status(500).json({ message: 'Failed to update leads' });
 			}
-
-			res.json({
-				found: !!fyveMarketingBusiness,
-				pageFound,
-				business: fyveMarketingBusiness,
-				message: fyveMarketingBusiness
-					? `FYVE Marketing found on page ${pageFound}`
-					: 'FYVE Marketing not found in any page',
-			});
-		} catch (error) {
-			console.error('Error finding FYVE Marketing:', error);
-			res.status(500).json({
-				message: 'An error occurred while searching for FYVE Marketing',
-			});
 		}
-	});
+	);
 
 	// Get available cities for a specific state
 	app.post('/api/businesses/state-cities', optionalAuth, async (req, res) => {
@@ -3002,359 +4843,577 @@ export async function registerRoutes(app: Express): Promise<Server> {
 		}
 	});
 
-	// State-wide business search with intelligent caching
-	app.post('/api/businesses/search/state', optionalAuth, async (req, res) => {
-		try {
-			const {
-				businessType,
-				state,
-				maxCities = 5,
-				selectedCities,
-			} = req.body;
+	// Validate a state-wide search request and submit it as a background job.
+	// Sends the error response itself and returns undefined when the request
+	// can't be run.
+	const submitStateSearchJob = async (
+		req: Request,
+		res: Response
+	): Promise<SearchJob | undefined> => {
+		const { businessType, state, maxCities = 5, selectedCities } = req.body;
+
+		if (!businessType || !state) {
+			res.status(400).json({
+				message: 'Business type and state are required',
+			});
+			return undefined;
+		}
 
-			if (!businessType || !state) {
-				return res
-					.status(400)
-					.json({ message: 'Business type and state are required' });
-			}
+		const ownerId = getResultOwnerId(req);
+		if (!ownerId) {
+			res.status(401).json({
+				message:
+					'Authentication required. Please log in or try our demo mode.',
+			});
+			return undefined;
+		}
+		const userId = req.user?.userId;
+
+		// Enforce limits for performance - hard limits
+		const limitedMaxCities = Math.min(maxCities, 5); // Maximum 5 cities for optimal performance
+		const jobParams: SearchJobParams = {
+			businessType,
+			state,
+			maxCities: limitedMaxCities,
+			selectedCities: selectedCities?.slice(0, 5),
+		};
 
-			// Enforce limits for performance - hard limits
-			const limitedMaxCities = Math.min(maxCities, 5); // Maximum 5 cities for optimal performance
-			const limitedMaxResults = 50; // Maximum results to return per search
-			const maxResults = 50; // For compliance reporting
+		// Generate search fingerprint for caching
+		const searchFingerprint = generateSearchFingerprint({
+			businessType,
+			state,
+			selectedCities: selectedCities?.slice(0, 5), // Limit to 5 cities for fingerprint
+			maxResults: 50, // Standard limit for state searches
+		});
 
-			// Generate search fingerprint for caching
-			const searchFingerprint = generateSearchFingerprint({
-				businessType,
-				state,
-				selectedCities: selectedCities?.slice(0, 5), // Limit to 5 cities for fingerprint
-				maxResults: 50, // Standard limit for state searches
-			});
+		// Check for cached results first
+		console.log(
+			`Checking cache for search fingerprint: ${searchFingerprint}`
+		);
+		const cachedResult = await getCachedSearchResult(searchFingerprint);
 
-			// Check for cached results first
+		if (cachedResult) {
 			console.log(
-				`Checking cache for search fingerprint: ${searchFingerprint}`
+				`Found cached results for ${businessType} in ${state}. Returning ${cachedResult.businesses.length} cached businesses.`
 			);
-			const cachedResult = await getCachedSearchResult(searchFingerprint);
 
-			if (cachedResult) {
-				console.log(
-					`Found cached results for ${businessType} in ${state}. Returning ${cachedResult.businesses.length} cached businesses.`
+			return searchJobs.submit(ownerId, jobParams, async (job) => {
+				job.markCached(
+					Math.round(
+						(Date.now() -
+							new Date(cachedResult.createdAt).getTime()) /
+							(1000 * 60)
+					) // Age in minutes
 				);
-
-				// Clear existing in-memory storage and load cached results
-				await storage.clearAllBusinesses();
-				const businessesToStore = cachedResult.businesses.map((b) => ({
-					name: b.name,
-					website: b.website || '',
-					location: b.location,
-					distance: b.distance,
-					isBadLead: b.isBadLead,
-					notes: b.notes,
-					careerLink: b.careerLink,
-				}));
-
+				job.setCities(cachedResult.searchedCities || []);
+
+				const userSavedBusinesses =
+					await getSavedBusinessesForDuplicateCheck(userId);
+				const exclusionList = await getExclusionListForUser(userId);
+				// A newer search that cancelled this one owns the results now
+				if (job.signal.aborted) return;
+
+				// Replace this caller's previous results with the cached ones
+				await storage.clearAllBusinesses(ownerId);
+				if (job.signal.aborted) return;
+				const { businesses: includedBusinesses, summary } =
+					applyExclusions(
+						cachedResult.businesses.map((b) => ({
+							...pickPlaceDetails(b),
+							name: b.name,
+							website: b.website || '',
+							location: b.location,
+							distance: b.distance,
+							isBadLead: b.isBadLead,
+							notes: b.notes,
+							careerLink: b.careerLink,
+						})),
+						exclusionList
+					);
 				const savedBusinesses = await storage.saveBatchBusinesses(
-					businessesToStore
+					ownerId,
+					markDuplicates(includedBusinesses, userSavedBusinesses)
 				);
+				job.addExclusions(summary);
+
+				for (const city of cachedResult.searchedCities || []) {
+					job.updateCity(city, {
+						status: 'done',
+						resultCount: savedBusinesses.filter(
+							(b) => b.distance === `${city}, ${state}`
+						).length,
+					});
+				}
+				job.addResults(savedBusinesses);
 
-				return res.json({
-					businesses: savedBusinesses,
-					total: cachedResult.totalResults,
-					searchedCities: cachedResult.searchedCities?.length || 0,
-					totalCities: cachedResult.searchedCities?.length || 0,
-					cached: true,
-					cacheAge: Math.round(
-						(Date.now() -
-							new Date(cachedResult.createdAt).getTime()) /
-							(1000 * 60)
-					), // Age in minutes
+				await recordSearchHistory(
+					userId,
+					{
+						searchType: 'state',
+						businessType,
+						state,
+						cities: cachedResult.searchedCities || [],
+						queryKey: searchFingerprint,
+						cached: true,
+					},
+					savedBusinesses
+				);
+			});
+		}
+
+		console.log(
+			`No cached results found. Proceeding with fresh API search.`
+		);
+
+		// For guest users, check demo quota before proceeding
+		if (req.guest?.guestId) {
+			const quotaStatus = await getDemoSearchStatus(req.guest.guestId);
+			if (!quotaStatus.canSearch) {
+				res.status(429).json({
+					message:
+						'Demo search limit reached. Please sign up to continue searching.',
+					quotaExhausted: true,
+					searchesUsed: quotaStatus.count,
+					searchesRemaining: quotaStatus.remaining,
 				});
+				return undefined;
 			}
+		}
 
-			console.log(
-				`No cached results found. Proceeding with fresh API search.`
-			);
+		// Get API keys for authenticated users, or use demo keys for guests
+		let googleApiKey: string | undefined;
+		let openaiApiKey: string | undefined;
 
-			// For guest users, check demo quota before proceeding
-			if (req.guest?.guestId) {
-				const quotaStatus = await getDemoSearchStatus(
-					req.guest.guestId
-				);
-				if (!quotaStatus.canSearch) {
-					return res.status(429).json({
-						message:
-							'Demo search limit reached. Please sign up to continue searching.',
-						quotaExhausted: true,
-						searchesUsed: quotaStatus.count,
-						searchesRemaining: quotaStatus.remaining,
-					});
-				}
+		if (req.user?.userId) {
+			// Authenticated user - get their API keys
+			const userApiKeys = await getApiKeys(req.user.userId);
+			googleApiKey = userApiKeys?.googlePlacesApiKey;
+			openaiApiKey = userApiKeys?.openaiApiKey;
+		}
+
+		// Check for demo keys if user keys not available
+		if (!googleApiKey || !openaiApiKey) {
+			const demoKeys = getDemoApiKeys();
+			if (demoKeys) {
+				if (!googleApiKey) googleApiKey = demoKeys.googlePlacesApiKey;
+				if (!openaiApiKey) openaiApiKey = demoKeys.openaiApiKey;
 			}
+		}
 
-			// Get API keys for authenticated users, or use demo keys for guests
-			let googleApiKey: string | undefined;
-			let openaiApiKey: string | undefined;
+		if (!googleApiKey && !isOfflinePlacesProvider()) {
+			res.status(400).json({
+				message:
+					'Google Places API key is required. Please configure your API keys in Account Portal or use demo mode.',
+			});
+			return undefined;
+		}
 
-			if (req.user?.userId) {
-				// Authenticated user - get their API keys
-				const userApiKeys = await getApiKeys(req.user.userId);
-				googleApiKey = userApiKeys?.googlePlacesApiKey;
-				openaiApiKey = userApiKeys?.openaiApiKey;
+		if (!openaiApiKey) {
+			res.status(400).json({
+				message:
+					'OpenAI API key is required for state-wide searches. Please configure your API keys in Account Portal or use demo mode.',
+			});
+			return undefined;
+		}
+
+		// Use selected cities if provided, otherwise get top cities for the state
+		let cities: string[];
+		if (selectedCities && selectedCities.length > 0) {
+			cities = selectedCities.slice(0, 5); // Limit to 5 cities max
+			console.log(`Using ${cities.length} selected cities:`, cities);
+		} else {
+			// Create OpenAI client instance
+			const openaiClient = new OpenAI({
+				apiKey: openaiApiKey,
+			});
+
+			// Get top cities for the state (dynamically generated, cached for 24 hours)
+			const allCities = await getTopCitiesForState(
+				state,
+				10,
+				openaiClient
+			); // Generate max 10 cities, use only 5
+			if (allCities.length === 0) {
+				res.status(400).json({
+					message: `Unable to find cities for "${state}". Please try a different state or check your OpenAI API key.`,
+				});
+				return undefined;
 			}
+			cities = allCities.slice(0, limitedMaxCities);
+			console.log(
+				`Using ${cities.length} top cities for ${state}:`,
+				cities
+			);
+		}
+
+		const placesProvider = createPlacesProvider(googleApiKey || '');
+		const guestId = req.guest?.guestId;
+
+		return searchJobs.submit(ownerId, jobParams, async (job) => {
+			const businesses: Business[] = [];
+			// Everything found, before exclusions; this is what gets cached
+			const foundBusinesses: Business[] = [];
+			let searchedCities = 0;
 
-			// Check for demo keys if user keys not available
-			if (!googleApiKey || !openaiApiKey) {
-				const demoKeys = getDemoApiKeys();
-				if (demoKeys) {
-					if (!googleApiKey)
-						googleApiKey = demoKeys.googlePlacesApiKey;
-					if (!openaiApiKey) openaiApiKey = demoKeys.openaiApiKey;
-				}
-			}
+			job.setCities(cities);
+			const userSavedBusinesses =
+				await getSavedBusinessesForDuplicateCheck(userId);
+			const exclusionList = await getExclusionListForUser(userId);
+			// A newer search that cancelled this one owns the results now
+			if (job.signal.aborted) return;
 
-			if (!googleApiKey) {
-				return res.status(400).json({
-					message:
-						'Google Places API key is required. Please configure your API keys in Account Portal or use demo mode.',
-				});
-			}
+			// Clear this caller's previous search results; each city's results
+			// are stored as soon as that city completes
+			await storage.clearAllBusinesses(ownerId);
 
-			if (!openaiApiKey) {
-				return res.status(400).json({
-					message:
-						'OpenAI API key is required for state-wide searches. Please configure your API keys in Account Portal or use demo mode.',
-				});
-			}
+			const searchCity = async (city: string): Promise<void> => {
+				if (job.signal.aborted) return;
+				job.updateCity(city, { status: 'running' });
 
-			// Use selected cities if provided, otherwise get top cities for the state
-			let cities;
-			let allCities;
-			if (selectedCities && selectedCities.length > 0) {
-				cities = selectedCities.slice(0, 5); // Limit to 5 cities max
-				allCities = selectedCities; // Use all selected cities for count
-				console.log(`Using ${cities.length} selected cities:`, cities);
-			} else {
-				// Create OpenAI client instance
-				const openaiClient = new OpenAI({
-					apiKey: openaiApiKey,
-				});
+				try {
+					searchedCities++;
+
+					// Check places cache (1-hour cache) - use city/state/businessType for caching
+					const placesKey =
+						`${city}-${state}-${businessType}`.toLowerCase();
+					let places: Place[];
+
+					if (businessDetailsCache.has(placesKey)) {
+						places = businessDetailsCache.get(placesKey);
+					} else {
+						// Search for businesses using the configured Places provider
+						const page = await placesProvider.searchText({
+							textQuery: `${businessType} in ${city}, ${state}`,
+							maxResultCount: 20,
+						});
+						places = page.places;
+
+						// Cache for 1 hour
+						if (places.length > 0) {
+							businessDetailsCache.set(placesKey, places);
+							setTimeout(
+								() => businessDetailsCache.delete(placesKey),
+								60 * 60 * 1000
+							);
+						}
+					}
 
-				// Get top cities for the state (dynamically generated, cached for 24 hours)
-				allCities = await getTopCitiesForState(state, 10, openaiClient); // Generate max 10 cities, use only 5
-				if (allCities.length === 0) {
-					return res.status(400).json({
-						message: `Unable to find cities for "${state}". Please try a different state or check your OpenAI API key.`,
+					const cityBusinesses = places.map((place) => ({
+						...toPlaceDetails(place),
+						name: place.displayName,
+						website: place.websiteUri || '',
+						location: place.formattedAddress || `${city}, ${state}`,
+						distance: `${city}, ${state}`,
+						isBadLead: false,
+						notes: '',
+						careerLink: '',
+					}));
+
+					// Don't write into the owner's results once the job is cancelled
+					if (job.signal.aborted) return;
+
+					const { businesses: includedBusinesses, summary } =
+						applyExclusions(cityBusinesses, exclusionList);
+					const saved = await storage.saveBatchBusinesses(
+						ownerId,
+						markDuplicates(includedBusinesses, userSavedBusinesses)
+					);
+					foundBusinesses.push(...cityBusinesses);
+					businesses.push(...saved);
+					job.addResults(saved, city);
+					job.addExclusions(summary);
+					job.updateCity(city, {
+						status: 'done',
+						resultCount: saved.length,
+					});
+				} catch (error) {
+					console.error(`Error searching ${city}, ${state}:`, error);
+					job.updateCity(city, {
+						status: 'failed',
+						error:
+							error instanceof Error
+								? error.message
+								: 'Search failed',
 					});
 				}
-				cities = allCities.slice(0, limitedMaxCities);
-				console.log(
-					`Using ${cities.length} top cities for ${state}:`,
-					cities
-				);
-			}
-			const businesses: Business[] = [];
-			let searchedCities = 0;
+			};
 
-			// Process cities in batches of 2 to control API usage and stay under 2 minutes
-			const BATCH_SIZE = 2;
-			const batches = [];
-			for (let i = 0; i < cities.length; i += BATCH_SIZE) {
-				batches.push(cities.slice(i, i + BATCH_SIZE));
-			}
+			try {
+				// Process cities in batches of 2 to control API usage
+				const BATCH_SIZE = 2;
+				for (let i = 0; i < cities.length; i += BATCH_SIZE) {
+					if (job.signal.aborted) return;
+
+					if (i > 0) {
+						// Rate limiting between batches
+						await new Promise((resolve) =>
+							setTimeout(resolve, 800)
+						);
+					}
 
-			for (const batch of batches) {
-				// Process batch with controlled concurrency and staggered requests
-				const batchPromises = batch.map(async (city, index) => {
 					// Stagger requests within batch to avoid rate limits
-					await new Promise((resolve) =>
-						setTimeout(resolve, index * 300)
+					await Promise.all(
+						cities
+							.slice(i, i + BATCH_SIZE)
+							.map(async (city, index) => {
+								await new Promise((resolve) =>
+									setTimeout(resolve, index * 300)
+								);
+								await searchCity(city);
+							})
 					);
+				}
 
-					try {
-						searchedCities++;
-
-						// Check places cache (1-hour cache) - use city/state/businessType for caching
-						const placesKey =
-							`${city}-${state}-${businessType}`.toLowerCase();
-						let placesData;
-
-						if (businessDetailsCache.has(placesKey)) {
-							placesData = businessDetailsCache.get(placesKey);
-						} else {
-							// Search for businesses using new Places API
-							const requestBody = {
-								textQuery: `${businessType} in ${city}, ${state}`,
-								maxResultCount: 20,
-							};
-
-							const placesResponse = await fetch(
-								`${GOOGLE_PLACES_API_URL}:searchText`,
-								{
-									method: 'POST',
-									headers: {
-										'Content-Type': 'application/json',
-										'X-Goog-Api-Key': googleApiKey,
-										'X-Goog-FieldMask':
-											'places.id,places.displayName,places.websiteUri,places.formattedAddress',
-									},
-									body: JSON.stringify(requestBody),
-								}
-							);
-							placesData = await placesResponse.json();
-
-							// Cache for 1 hour
-							if (placesResponse.ok && placesData.places) {
-								businessDetailsCache.set(placesKey, placesData);
-								setTimeout(
-									() =>
-										businessDetailsCache.delete(placesKey),
-									60 * 60 * 1000
-								);
-							}
-						}
+				if (job.signal.aborted) return;
 
-						const cityBusinesses: Business[] = [];
-
-						if (placesData.places && placesData.places.length > 0) {
-							// Process all results for this city
-							for (const place of placesData.places) {
-								const business: Business = {
-									name:
-										place.displayName?.text ||
-										'Unknown Business',
-									website: place.websiteUri || '',
-									location:
-										place.formattedAddress ||
-										`${city}, ${state}`,
-									distance: `${city}, ${state}`,
-									isBadLead: false,
-									notes: '',
-									isDuplicate: false,
-									careerLink: place.websiteUri
-										? `${place.websiteUri.replace(
-												/\/+$/,
-												''
-										  )}/careers`
-										: '',
-								};
-
-								cityBusinesses.push(business);
-							}
-						}
+				// Save results to persistent cache for future searches
+				try {
+					await saveCachedSearchResult({
+						searchFingerprint,
+						searchParams: {
+							businessType,
+							state,
+							selectedCities:
+								selectedCities?.slice(0, 5) || cities,
+							maxResults: 50,
+						},
+						businesses: foundBusinesses.map((b) => ({
+							...pickPlaceDetails(b),
+							name: b.name,
+							website: b.website || '',
+							location: b.location || '',
+							distance: b.distance || '',
+							isBadLead: b.isBadLead || false,
+							notes: b.notes || '',
+							careerLink: b.careerLink || '',
+						})),
+						totalResults: foundBusinesses.length,
+						searchedCities: cities,
+						userId, // Optional user association
+					});
+					console.log(
+						`Cached search results for fingerprint: ${searchFingerprint}`
+					);
+				} catch (error) {
+					console.error(
+						'Error saving search results to cache:',
+						error
+					);
+					// Don't fail the job if caching fails
+				}
 
-						return cityBusinesses;
+				await recordSearchHistory(
+					userId,
+					{
+						searchType: 'state',
+						businessType,
+						state,
+						cities,
+						queryKey: searchFingerprint,
+						cached: false,
+					},
+					businesses
+				);
+			} finally {
+				// Guests are charged once any city has actually been searched
+				if (guestId && searchedCities > 0) {
+					try {
+						await incrementDemoSearchCount(guestId);
 					} catch (error) {
 						console.error(
-							`Error searching ${city}, ${state}:`,
+							'Error incrementing demo search count:',
 							error
 						);
-						return [];
+						// Don't fail the job if quota increment fails
 					}
-				});
-
-				// Wait for batch to complete
-				const batchResults = await Promise.all(batchPromises);
-				batchResults.forEach((cityBusinesses) => {
-					businesses.push(...cityBusinesses);
-				});
-
-				// Rate limiting between batches (ensures completion within 2 minutes)
-				if (batches.indexOf(batch) < batches.length - 1) {
-					await new Promise((resolve) => setTimeout(resolve, 800));
 				}
 			}
+		});
+	};
+
+	// State-wide business search with intelligent caching. Runs as a search
+	// job and responds once it has finished; see /api/search-jobs for the
+	// non-blocking version with live progress.
+	app.post(
+		'/api/businesses/search/state',
+		optionalUserOrGuest,
+		async (req, res) => {
+			try {
+				const submitted = await submitStateSearchJob(req, res);
+				if (!submitted) return;
 
-			// Store results for duplicate detection and export functionality
-			// Clear previous search results first
-			await storage.clearAllBusinesses();
+				const job = await searchJobs.waitForCompletion(
+					submitted.ownerId,
+					submitted.id
+				);
 
-			if (businesses.length > 0) {
-				const insertBusinesses = businesses.map((business) => ({
-					name: business.name,
-					website: business.website,
-					location: business.location,
-					distance: business.distance,
-					isBadLead: business.isBadLead,
-					notes: business.notes,
-					careerLink: business.careerLink,
-				}));
+				if (job.status === 'failed') {
+					return res.status(500).json({
+						message:
+							'Failed to perform state search. Please try again.',
+					});
+				}
+				// Cancelled directly, or by a newer search from the same user.
+				// The stored results are partial or belong to that newer
+				// search, so none are returned.
+				if (job.status === 'cancelled') {
+					return res.status(409).json({
+						message:
+							'The state search was cancelled, possibly because a newer search was started.',
+					});
+				}
 
-				await storage.saveBatchBusinesses(insertBusinesses);
-			}
+				const businesses = await storage.getBusinesses(job.ownerId);
+				const limitedMaxResults = 50; // Maximum results to return per search
 
-			// Save results to persistent cache for future searches
-			try {
-				await saveCachedSearchResult({
-					searchFingerprint,
-					searchParams: {
-						businessType,
-						state,
-						selectedCities: selectedCities?.slice(0, 5) || cities,
-						maxResults: 50,
+				if (job.cached) {
+					return res.json({
+						businesses,
+						total: businesses.length,
+						searchedCities: job.cities.length,
+						totalCities: job.cities.length,
+						cached: true,
+						cacheAge: job.cacheAge,
+					});
+				}
+
+				res.json({
+					businesses: businesses.slice(0, limitedMaxResults),
+					total: businesses.length,
+					searchedCities: job.cities.filter(
+						(c) => c.status !== 'pending'
+					).length,
+					totalCities: job.cities.length,
+					cached: false,
+					compliance: {
+						maxCitiesLimited: job.params.maxCities,
+						originalRequest: {
+							maxCities: req.body.maxCities ?? 5,
+							maxResults: 50,
+						},
+						limitReason:
+							'API optimization - limited to 5 cities for performance',
+						note: 'Results stored for duplicate detection and export functionality',
 					},
-					businesses: businesses.map((b) => ({
-						name: b.name,
-						website: b.website || '',
-						location: b.location,
-						distance: b.distance,
-						isBadLead: b.isBadLead,
-						notes: b.notes,
-						careerLink: b.careerLink,
-					})),
-					totalResults: businesses.length,
-					searchedCities: cities,
-					userId: req.user?.userId, // Optional user association
 				});
-				console.log(
-					`Cached search results for fingerprint: ${searchFingerprint}`
-				);
 			} catch (error) {
-				console.error('Error saving search results to cache:', error);
-				// Don't fail the request if caching fails
+				console.error('Error in state search:', error);
+				res.status(500).json({
+					message:
+						'Failed to perform state search. Please try again.',
+				});
 			}
+		}
+	);
 
-			// Increment quota for guest users after successful search
-			if (req.guest?.guestId) {
-				try {
-					await incrementDemoSearchCount(req.guest.guestId);
-				} catch (error) {
-					console.error(
-						'Error incrementing demo search count:',
-						error
-					);
-					// Don't fail the request if quota increment fails
-				}
-			}
+	// Submit a state-wide search as a background job
+	app.post('/api/search-jobs', optionalUserOrGuest, async (req, res) => {
+		try {
+			const job = await submitStateSearchJob(req, res);
+			if (!job) return;
 
-			res.json({
-				businesses: businesses.slice(0, limitedMaxResults),
-				total: businesses.length,
-				searchedCities,
-				totalCities: allCities.length,
-				cached: false,
-				compliance: {
-					maxCitiesLimited: limitedMaxCities,
-					originalRequest: { maxCities, maxResults },
-					limitReason:
-						'API optimization - limited to 5 cities for performance',
-					note: 'Results stored for duplicate detection and export functionality',
-				},
-			});
+			res.status(202).json(job);
 		} catch (error) {
-			console.error('Error in state search:', error);
-			res.status(500).json({
-				message: 'Failed to perform state search. Please try again.',
-			});
+			console.error('Error submitting search job:', error);
+			res.status(500).json({ message: 'Failed to start search' });
+		}
+	});
+
+	// Get the current state of one of the caller's search jobs
+	app.get('/api/search-jobs/:id', optionalUserOrGuest, (req, res) => {
+		const ownerId = getResultOwnerId(req);
+		const job = ownerId
+			? searchJobs.get(ownerId, req.params.id)
+			: undefined;
+		if (!job) {
+			return res.status(404).json({ message: 'Search job not found' });
 		}
+		res.json(job);
 	});
 
-	// Get all businesses
-	app.get('/api/businesses', async (_req, res) => {
+	// Cancel a queued or running search job
+	app.post('/api/search-jobs/:id/cancel', optionalUserOrGuest, (req, res) => {
+		const ownerId = getResultOwnerId(req);
+		const job = ownerId
+			? searchJobs.cancel(ownerId, req.params.id)
+			: undefined;
+		if (!job) {
+			return res.status(404).json({ message: 'Search job not found' });
+		}
+		res.json(job);
+	});
+
+	// Stream job progress and per-city results as server-sent events.
+	// Sends the current job state first, then `job` and `results` events until
+	// the job finishes.
+	app.get('/api/search-jobs/:id/events', optionalUserOrGuest, (req, res) => {
+		const ownerId = getResultOwnerId(req);
+		const job = ownerId
+			? searchJobs.get(ownerId, req.params.id)
+			: undefined;
+		if (!ownerId || !job) {
+			return res.status(404).json({ message: 'Search job not found' });
+		}
+
+		res.writeHead(200, {
+			'Content-Type': 'text/event-stream',
+			'Cache-Control': 'no-cache',
+			Connection: 'keep-alive',
+		});
+
+		const send = (event: SearchJobEvent) => {
+			res.write(
+				`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`
+			);
+		};
+
+		send({ type: 'job', job });
+		if (isFinishedStatus(job.status)) {
+			return res.end();
+		}
+
+		// Keep proxies from closing an idle stream
+		const heartbeat = setInterval(() => res.write(': ping\n\n'), 15000);
+		const unsubscribe = searchJobs.subscribe(ownerId, job.id, (event) => {
+			send(event);
+			if (event.type === 'job' && isFinishedStatus(event.job.status)) {
+				cleanup();
+				res.end();
+			}
+		});
+		const cleanup = () => {
+			clearInterval(heartbeat);
+			unsubscribe?.();
+		};
+
+		req.on('close', cleanup);
+	});
+
+	// Get the caller's search results
+	app.get('/api/businesses', optionalUserOrGuest, async (req, res) => {
 		try {
-			const businesses = await storage.getBusinesses();
-			res.json(businesses);
+			const ownerId = getResultOwnerId(req);
+			if (!ownerId) {
+				return res
+					.status(401)
+					.json({ message: 'Authentication required' });
+			}
+
+			const businesses = await storage.getBusinesses(ownerId);
+			res.json(
+				applyResultFilters(
+					businesses,
+					resultFiltersFromQuery(req.query)
+				)
+			);
 		} catch (error) {
+			if (error instanceof ZodError) {
+				const validationError = fromZodError(error);
+				return res
+					.status(400)
+					.json({ message: validationError.message });
+			}
+
 			console.error('Error fetching businesses:', error);
 			res.status(500).json({
 				message: 'An error occurred while fetching businesses',
@@ -3363,8 +5422,15 @@ export async function registerRoutes(app: Express): Promise<Server> {
 	});
 
 	// Update a business (e.g., mark as bad lead)
-	app.patch('/api/businesses/:id', async (req, res) => {
+	app.patch('/api/businesses/:id', optionalUserOrGuest, async (req, res) => {
 		try {
+			const ownerId = getResultOwnerId(req);
+			if (!ownerId) {
+				return res
+					.status(401)
+					.json({ message: 'Authentication required' });
+			}
+
 			const id = parseInt(req.params.id, 10);
 			if (isNaN(id)) {
 				return res.status(400).json({ message: 'Invalid business ID' });
@@ -3372,6 +5438,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
 			const updateData = req.body;
 			const updatedBusiness = await storage.updateBusiness(
+				ownerId,
 				id,
 				updateData
 			);
@@ -3390,102 +5457,127 @@ export async function registerRoutes(app: Express): Promise<Server> {
 	});
 
 	// Compare businesses from CSV with existing search results
-	app.post('/api/businesses/compare', async (req, res) => {
-		try {
-			const { csvData } = req.body;
-
-			if (!csvData) {
-				return res
-					.status(400)
-					.json({ message: 'CSV data is required' });
-			}
+	app.post(
+		'/api/businesses/compare',
+		optionalUserOrGuest,
+		async (req, res) => {
+			try {
+				const ownerId = getResultOwnerId(req);
+				if (!ownerId) {
+					return res
+						.status(401)
+						.json({ message: 'Authentication required' });
+				}
 
-			// Parse CSV data without storing it
-			const csvBusinesses = parseCSV(csvData);
+				const { csvData } = req.body;
+				const thresholds = resolveMatchThresholds(
+					matchThresholdsSchema.parse(req.body.thresholds || {})
+				);
 
-			if (csvBusinesses.length === 0) {
-				return res
-					.status(400)
-					.json({ message: 'No valid businesses found in CSV data' });
-			}
+				if (!csvData) {
+					return res
+						.status(400)
+						.json({ message: 'CSV data is required' });
+				}
 
-			// Get existing businesses (search results)
-			const existingBusinesses = await storage.getBusinesses();
-			let updatedCount = 0;
+				// Parse CSV data without storing it
+				const csvBusinesses = parseCSV(csvData);
 
-			// Check each existing business against the CSV list
-			for (const existing of existingBusinesses) {
-				if (!existing.id) continue;
+				if (csvBusinesses.length === 0) {
+					return res.status(400).json({
+						message: 'No valid businesses found in CSV data',
+					});
+				}
 
-				// Check if this business exists in the CSV data
-				const isDuplicate = csvBusinesses.some((csvBusiness) => {
-					// Compare by domain if website is available
-					if (existing.website && csvBusiness.website) {
-						const existingDomain = normalizeDomain(
-							existing.website
-						);
-						const csvDomain = normalizeDomain(csvBusiness.website);
-						if (
-							existingDomain &&
-							csvDomain &&
-							existingDomain === csvDomain
-						) {
-							return true;
-						}
+				// Get the caller's existing businesses (search results)
+				const existingBusinesses = await storage.getBusinesses(ownerId);
+				const csvIndex = buildMatchIndex(csvBusinesses);
+				let updatedCount = 0;
+
+				// Check each existing business against the CSV list
+				for (const existing of existingBusinesses) {
+					if (!existing.id) continue;
+
+					// Mark as duplicate if found in CSV
+					const match = findMatch(existing, csvIndex, thresholds);
+					if (match) {
+						await storage.updateBusiness(ownerId, existing.id, {
+							isDuplicate: true,
+							duplicateReason: match.explanation,
+						});
+						updatedCount++;
 					}
+				}
 
-					// Fall back to company name comparison
-					const existingName = normalizeName(existing.name);
-					const csvName = normalizeName(csvBusiness.name);
-					return existingName && csvName && existingName === csvName;
+				res.json({
+					message: `Found ${updatedCount} duplicate businesses`,
+					count: updatedCount,
 				});
-
-				// Mark as duplicate if found in CSV
-				if (isDuplicate) {
-					await storage.updateBusiness(existing.id, {
-						isDuplicate: true,
-					});
-					updatedCount++;
+			} catch (error) {
+				if (error instanceof ZodError) {
+					const validationError = fromZodError(error);
+					return res
+						.status(400)
+						.json({ message: validationError.message });
 				}
-			}
 
-			res.json({
-				message: `Found ${updatedCount} duplicate businesses`,
-				count: updatedCount,
-			});
-		} catch (error) {
-			console.error('Error comparing businesses:', error);
-			res.status(500).json({
-				message: 'An error occurred while comparing businesses',
-			});
+				console.error('Error comparing businesses:', error);
+				res.status(500).json({
+					message: 'An error occurred while comparing businesses',
+				});
+			}
 		}
-	});
+	);
 
 	// Clear duplicate flags
-	app.post('/api/businesses/clear-duplicates', async (_req, res) => {
-		try {
-			await storage.clearDuplicateFlags();
-			res.json({ message: 'Duplicate flags cleared successfully' });
-		} catch (error) {
-			console.error('Error clearing duplicate flags:', error);
-			res.status(500).json({
-				message: 'An error occurred while clearing duplicate flags',
-			});
+	app.post(
+		'/api/businesses/clear-duplicates',
+		optionalUserOrGuest,
+		async (req, res) => {
+			try {
+				const ownerId = getResultOwnerId(req);
+				if (!ownerId) {
+					return res
+						.status(401)
+						.json({ message: 'Authentication required' });
+				}
+
+				await storage.clearDuplicateFlags(ownerId);
+				res.json({ message: 'Duplicate flags cleared successfully' });
+			} catch (error) {
+				console.error('Error clearing duplicate flags:', error);
+				res.status(500).json({
+					message: 'An error occurred while clearing duplicate flags',
+				});
+			}
 		}
-	});
+	);
 
-	// Clear all business data (completely removes all businesses from storage)
-	app.post('/api/businesses/clear-all', async (_req, res) => {
-		try {
-			await storage.clearAllBusinesses();
-			res.json({ message: 'All business data cleared successfully' });
-		} catch (error) {
-			console.error('Error clearing all business data:', error);
-			res.status(500).json({
-				message: 'An error occurred while clearing all business data',
-			});
+	// Clear the caller's search results (other users' results are untouched)
+	app.post(
+		'/api/businesses/clear-all',
+		optionalUserOrGuest,
+		async (req, res) => {
+			try {
+				const ownerId = getResultOwnerId(req);
+				if (!ownerId) {
+					return res
+						.status(401)
+						.json({ message: 'Authentication required' });
+				}
+
+				searchJobs.cancelActive(ownerId);
+				await storage.clearAllBusinesses(ownerId);
+				res.json({ message: 'All business data cleared successfully' });
+			} catch (error) {
+				console.error('Error clearing all business data:', error);
+				res.status(500).json({
+					message:
+						'An error occurred while clearing all business data',
+				});
+			}
 		}
-	});
+	);
 
 	// Geocode address to get coordinates using Google Maps API with caching
 	app.get('/api/geocode', async (req, res) => {
@@ -3498,40 +5590,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
 					.json({ message: 'Address parameter is required' });
 			}
 
-			if (!API_KEY) {
+			if (!API_KEY && !isOfflinePlacesProvider()) {
 				return res.status(500).json({
 					message: 'Google Places API key is not configured',
 				});
 			}
 
-			const addressKey = (address as string).toLowerCase();
-
-			// Check cache first to avoid repeated geocoding calls
-			if (geocodeCache.has(addressKey)) {
-				const cachedResult = geocodeCache.get(addressKey);
-				return res.json(cachedResult);
-			}
-
-			const geocodeUrl = `https://maps.googleapis.com/maps/api/geocode/json?address=${encodeURIComponent(
+			// Cached to avoid repeated geocoding calls
+			const result = await geocodeLocation(
+				createPlacesProvider(API_KEY),
 				address as string
-			)}&key=${API_KEY}`;
-
-			const response = await fetch(geocodeUrl);
-			const data = await response.json();
-
-			if (data.status === 'OK' && data.results.length > 0) {
-				const location = data.results[0].geometry.location;
-				const result = {
-					coordinates: {
-						lat: location.lat,
-						lng: location.lng,
-					},
-					formatted_address: data.results[0].formatted_address,
-				};
-
-				// Cache the result to avoid repeated API calls
-				geocodeCache.set(addressKey, result);
+			);
 
+			if (result) {
 				res.json(result);
 			} else {
 				res.status(404).json({ message: 'Address not found' });
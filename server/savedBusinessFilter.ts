@@ -0,0 +1,196 @@
+// The MongoDB filter behind the saved businesses list. Kept apart from
+// mongodb.ts so the filter can be built and tested without a database.
+import { ObjectId } from 'mongodb';
+import type { SavedList, SmartListRule } from '@shared/schema';
+
+export interface SavedBusinessFilters {
+	searchTerm?: string; // Name, website or location contains this
+	recentOnly?: boolean; // Saved in the last 24 hours
+	hiringOnly?: boolean; // Has open postings
+	roleKeyword?: string; // Matched against open role titles
+	// Pipeline stage ids; NO_PIPELINE_STATUS matches businesses without one
+	statuses?: string[];
+	tags?: string[]; // Carries every one of these tags
+	// One part of the address, e.g. "Columbus" in "1 Main St, Columbus, OH
+	// 43215, USA"; the state may be followed by a ZIP code
+	city?: string;
+	state?: string;
+	hasWebsite?: boolean;
+	// Inclusive date ranges
+	createdFrom?: Date;
+	createdTo?: Date;
+	updatedFrom?: Date;
+	updatedTo?: Date;
+	businessIds?: string[]; // Only these businesses, e.g. a saved list's
+	smartList?: Pick<SavedList, 'rules' | 'match'>; // Only ones matching these
+}
+
+export const NO_PIPELINE_STATUS = 'none';
+
+const escapeRegex = (text: string) =>
+	text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Matches an address with this as one of its comma-separated parts
+const addressPart = (part: string, suffix = '') => ({
+	$regex: `(^|,)\\s*${escapeRegex(part)}${suffix}\\s*(,|$)`,
+	$options: 'i',
+});
+
+// A $gte/$lte range, or null when neither end is set
+function dateRange(from?: Date, to?: Date): Record<string, Date> | null {
+	if (!from && !to) return null;
+	return { ...(from && { $gte: from }), ...(to && { $lte: to }) };
+}
+
+// The MongoDB condition for one smart list rule
+function ruleCondition(rule: SmartListRule, now: Date): Record<string, any> {
+	switch (rule.kind) {
+		case 'tag_contains':
+			return { tags: { $regex: escapeRegex(rule.value), $options: 'i' } };
+		case 'status_equals':
+			return rule.value === NO_PIPELINE_STATUS
+				? { pipelineStatus: { $exists: false } }
+				: { pipelineStatus: rule.value };
+		case 'location_matches':
+			return {
+				location: { $regex: escapeRegex(rule.value), $options: 'i' },
+			};
+		case 'created_within_days':
+			return {
+				createdAt: {
+					$gte: new Date(now.getTime() - rule.value * DAY_MS),
+				},
+			};
+		case 'has_career_link':
+			return rule.value
+				? { careerLink: { $nin: [null, ''] } }
+				: { careerLink: { $in: [null, ''] } };
+		case 'hiring_now':
+			return rule.value
+				? { openJobCount: { $gt: 0 } }
+				: {
+						$or: [
+							{ openJobCount: { $exists: false } },
+							{ openJobCount: 0 },
+						],
+				  };
+		case 'domain_ends_with':
+			// The host is the domain itself or one of its subdomains
+			return {
+				website: {
+					$regex: `^(https?://)?([^/]*\\.)?${escapeRegex(
+						rule.value
+					)}(:\\d+)?(/|$)`,
+					$options: 'i',
+				},
+			};
+	}
+}
+
+// The businesses a smart list holds: those matching all (or any) of its rules
+export function buildSmartListCondition(
+	{ rules = [], match = 'all' }: Pick<SavedList, 'rules' | 'match'>,
+	now: Date = new Date()
+): Record<string, any> {
+	const conditions = rules.map((rule) => ruleCondition(rule, now));
+	return match === 'any' ? { $or: conditions } : { $and: conditions };
+}
+
+export function buildSavedBusinessFilter(
+	userId: string,
+	filters: SavedBusinessFilters = {}
+): Record<string, any> {
+	const conditions: Record<string, any>[] = [];
+
+	const searchTerm = filters.searchTerm?.trim();
+	if (searchTerm) {
+		const searchRegex = new RegExp(escapeRegex(searchTerm), 'i');
+		conditions.push({
+			$or: [
+				{ name: { $regex: searchRegex } },
+				{ website: { $regex: searchRegex } },
+				{ location: { $regex: searchRegex } },
+			],
+		});
+	}
+
+	if (filters.recentOnly) {
+		const twentyFourHoursAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+		conditions.push({ createdAt: { $gte: twentyFourHoursAgo } });
+	}
+
+	// Only companies with open postings, optionally for a kind of role
+	if (filters.hiringOnly) {
+		conditions.push({ openJobCount: { $gt: 0 } });
+	}
+	const roleKeyword = filters.roleKeyword?.trim();
+	if (roleKeyword) {
+		conditions.push({
+			openRoles: { $regex: escapeRegex(roleKeyword), $options: 'i' },
+		});
+	}
+
+	if (filters.statuses && filters.statuses.length > 0) {
+		const stageIds = filters.statuses.filter(
+			(status) => status !== NO_PIPELINE_STATUS
+		);
+		const matches: Record<string, any>[] = [];
+		if (stageIds.length > 0) {
+			matches.push({ pipelineStatus: { $in: stageIds } });
+		}
+		if (stageIds.length < filters.statuses.length) {
+			matches.push({ pipelineStatus: { $exists: false } });
+		}
+		conditions.push(matches.length === 1 ? matches[0] : { $or: matches });
+	}
+
+	if (filters.tags && filters.tags.length > 0) {
+		conditions.push({ tags: { $all: filters.tags } });
+	}
+
+	const city = filters.city?.trim();
+	if (city) {
+		conditions.push({ location: addressPart(city) });
+	}
+	const state = filters.state?.trim();
+	if (state) {
+		conditions.push({
+			location: addressPart(state, '(\\s+\\d{5}(-\\d{4})?)?'),
+		});
+	}
+
+	if (filters.hasWebsite !== undefined) {
+		conditions.push(
+			filters.hasWebsite
+				? { website: { $nin: [null, ''] } }
+				: { website: { $in: [null, ''] } }
+		);
+	}
+
+	const created = dateRange(filters.createdFrom, filters.createdTo);
+	if (created) {
+		conditions.push({ createdAt: created });
+	}
+	const updated = dateRange(filters.updatedFrom, filters.updatedTo);
+	if (updated) {
+		conditions.push({ updatedAt: updated });
+	}
+
+	if (filters.smartList?.rules?.length) {
+		conditions.push(buildSmartListCondition(filters.smartList));
+	}
+
+	if (filters.businessIds) {
+		conditions.push({
+			_id: {
+				$in: filters.businessIds
+					.filter((id) => ObjectId.isValid(id))
+					.map((id) => new ObjectId(id)),
+			},
+		});
+	}
+
+	return conditions.length > 0 ? { userId, $and: conditions } : { userId };
+}
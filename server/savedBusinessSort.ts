@@ -0,0 +1,100 @@
+// Ordering and cursor pagination for the saved businesses list. Kept apart
+// from mongodb.ts so the sort and cursor conditions can be tested without a
+// database.
+import { ObjectId } from 'mongodb';
+import type { SavedBusiness, SavedBusinessSort } from '@shared/schema';
+
+// Text is ordered ignoring case, so "acme" sits next to "Acme"
+const TEXT_FIELDS = new Set(['name', 'website', 'location']);
+const TEXT_COLLATION = { locale: 'en', strength: 2 };
+
+// Where the next page starts: the last business shown, by its sort value
+// and id. The sort is kept so a cursor can't be reused with another one.
+interface SavedBusinessCursor {
+	field: SavedBusinessSort['field'];
+	direction: SavedBusinessSort['direction'];
+	value: string | number | null;
+	isDate?: boolean; // value is an ISO date
+	id: string;
+}
+
+// The sort for a find, with _id breaking ties so every page is stable
+export function buildSavedBusinessSort({
+	field,
+	direction,
+}: SavedBusinessSort): Record<string, 1 | -1> {
+	const order = direction === 'asc' ? 1 : -1;
+	return { [field]: order, _id: order };
+}
+
+// The collation the sort needs, if any
+export function sortCollation({ field }: SavedBusinessSort) {
+	return TEXT_FIELDS.has(field) ? TEXT_COLLATION : undefined;
+}
+
+export function encodeCursor(
+	business: SavedBusiness,
+	{ field, direction }: SavedBusinessSort
+): string {
+	const raw = business[field] as unknown;
+	const cursor: SavedBusinessCursor = {
+		field,
+		direction,
+		value:
+			raw instanceof Date
+				? raw.toISOString()
+				: typeof raw === 'string' || typeof raw === 'number'
+				? raw
+				: null,
+		id: String(business._id),
+	};
+	if (raw instanceof Date) cursor.isDate = true;
+	return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+// The condition for the businesses after the cursor, or null when the
+// cursor is malformed or was made for a different sort
+export function cursorCondition(
+	encoded: string,
+	{ field, direction }: SavedBusinessSort
+): Record<string, any> | null {
+	let cursor: SavedBusinessCursor;
+	try {
+		cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString());
+	} catch {
+		return null;
+	}
+	if (
+		!cursor ||
+		cursor.field !== field ||
+		cursor.direction !== direction ||
+		typeof cursor.id !== 'string' ||
+		!ObjectId.isValid(cursor.id) ||
+		!(
+			cursor.value === null ||
+			['string', 'number'].includes(typeof cursor.value)
+		)
+	) {
+		return null;
+	}
+
+	const id = new ObjectId(cursor.id);
+	const value = cursor.isDate
+		? new Date(cursor.value as string)
+		: cursor.value;
+	const after = direction === 'asc' ? '$gt' : '$lt';
+
+	// Missing values sort first ascending and last descending
+	if (value === null) {
+		const tie = { [field]: null, _id: { [after]: id } };
+		return direction === 'asc'
+			? { $or: [{ [field]: { $ne: null } }, tie] }
+			: tie;
+	}
+	const conditions: Record<string, any>[] = [
+		{ [field]: { [after]: value } },
+		{ [field]: value, _id: { [after]: id } },
+	];
+	if (direction === 'desc') conditions.push({ [field]: null });
+	return { $or: conditions };
+}
@@ -0,0 +1,127 @@
+import { type SavedSearch } from '@shared/schema';
+import {
+	addSavedSearchLeads,
+	claimDueSavedSearch,
+	getApiKeys,
+	getSavedBusinesses,
+	updateSavedSearch,
+} from './mongodb';
+import {
+	createPlacesProvider,
+	isOfflinePlacesProvider,
+	searchAllPages,
+} from './places';
+import { getNextRunAt, selectNewLeads } from './savedSearches';
+
+// Background runner for saved searches. Every tick it claims due searches one
+// at a time, runs them with the owner's stored Google key and files results
+// that aren't already saved into the search's leads inbox.
+
+const SCHEDULER_INTERVAL = 5 * 60 * 1000; // 5 minutes
+// How long a claimed search is hidden from other ticks while it runs
+const RUN_LEASE = 15 * 60 * 1000; // 15 minutes
+const MAX_RESULTS = 60;
+
+export interface SavedSearchRunResult {
+	resultCount: number;
+	newLeadCount: number;
+}
+
+// Run a saved search once and record the outcome on it. Failures are stored
+// as lastError rather than thrown, and never stop the schedule.
+export async function runSavedSearch(
+	search: SavedSearch
+): Promise<SavedSearchRunResult> {
+	const searchId = search._id!;
+	const startedAt = new Date();
+
+	try {
+		const apiKeys = await getApiKeys(search.userId);
+		const googleApiKey = apiKeys?.googlePlacesApiKey || '';
+		if (!googleApiKey && !isOfflinePlacesProvider()) {
+			throw new Error(
+				'Add a Google Places API key to run scheduled searches'
+			);
+		}
+
+		const places = await searchAllPages(
+			createPlacesProvider(googleApiKey),
+			`${search.businessType} in ${search.location}`,
+			MAX_RESULTS
+		);
+		const businesses = places.map((place) => ({
+			name: place.displayName,
+			website: place.websiteUri || '',
+			location: place.formattedAddress || '',
+		}));
+
+		const { businesses: savedBusinesses } = await getSavedBusinesses(
+			search.userId,
+			{ limit: 10000 } // Get all businesses for duplicate detection
+		);
+		const newLeadCount = await addSavedSearchLeads(
+			selectNewLeads(businesses, savedBusinesses).map((lead) => ({
+				...lead,
+				userId: search.userId,
+				savedSearchId: searchId,
+			}))
+		);
+
+		await updateSavedSearch(searchId, {
+			lastRunAt: startedAt,
+			nextRunAt: getNextRunAt(search.cadence, startedAt),
+			lastResultCount: businesses.length,
+			lastNewLeadCount: newLeadCount,
+			lastError: '',
+		});
+
+		return { resultCount: businesses.length, newLeadCount };
+	} catch (error) {
+		console.error(`Saved search ${searchId} failed:`, error);
+		await updateSavedSearch(searchId, {
+			lastRunAt: startedAt,
+			nextRunAt: getNextRunAt(search.cadence, startedAt),
+			lastError:
+				error instanceof Error ? error.message : 'Saved search failed',
+		});
+		throw error;
+	}
+}
+
+let timer: NodeJS.Timeout | null = null;
+let ticking = false;
+
+async function runDueSavedSearches(): Promise<void> {
+	// A slow tick must not overlap the next one
+	if (ticking) return;
+	ticking = true;
+
+	try {
+		let search: SavedSearch | null;
+		while ((search = await claimDueSavedSearch(new Date(), RUN_LEASE))) {
+			try {
+				const { resultCount, newLeadCount } = await runSavedSearch(
+					search
+				);
+				console.log(
+					`Saved search ${search._id}: ${resultCount} results, ${newLeadCount} new leads`
+				);
+			} catch {
+				// Already recorded on the saved search
+			}
+		}
+	} catch (error) {
+		console.error('Error running due saved searches:', error);
+	} finally {
+		ticking = false;
+	}
+}
+
+export function startSavedSearchScheduler(
+	intervalMs: number = SCHEDULER_INTERVAL
+): void {
+	if (timer) return;
+	timer = setInterval(runDueSavedSearches, intervalMs);
+	// Don't keep the process alive just for the scheduler
+	timer.unref();
+}
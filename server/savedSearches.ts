@@ -0,0 +1,53 @@
+import { type SavedSearchCadence } from '@shared/schema';
+import {
+	businessIdentity,
+	markDuplicates,
+	type ComparableBusiness,
+} from './duplicates';
+
+// Scheduling and lead selection for saved searches. The scheduler in
+// savedSearchScheduler.ts does the I/O; these helpers decide when a search
+// runs next and which of its results count as new leads.
+
+const HOUR = 60 * 60 * 1000;
+
+export const SAVED_SEARCH_INTERVALS: Record<SavedSearchCadence, number> = {
+	daily: 24 * HOUR,
+	weekly: 7 * 24 * HOUR,
+};
+
+export function getNextRunAt(cadence: SavedSearchCadence, from: Date): Date {
+	return new Date(from.getTime() + SAVED_SEARCH_INTERVALS[cadence]);
+}
+
+export interface LeadCandidate {
+	identity: string;
+	name: string;
+	website?: string;
+	location?: string;
+}
+
+// Results that aren't already saved, one per company. Whether a company was
+// reported by an earlier run is left to the leads collection's unique index.
+export function selectNewLeads(
+	businesses: ComparableBusiness[],
+	savedBusinesses: ComparableBusiness[]
+): LeadCandidate[] {
+	const leads = new Map<string, LeadCandidate>();
+
+	for (const business of markDuplicates(businesses, savedBusinesses)) {
+		if (business.isDuplicate) continue;
+
+		const identity = businessIdentity(business);
+		if (leads.has(identity)) continue;
+
+		leads.set(identity, {
+			identity,
+			name: business.name,
+			website: business.website || undefined,
+			location: business.location || undefined,
+		});
+	}
+
+	return Array.from(leads.values());
+}
@@ -0,0 +1,337 @@
+import { randomUUID } from 'crypto';
+import { EventEmitter } from 'events';
+import { type Business } from '@shared/schema';
+import { mergeExclusionSummaries, type ExclusionSummary } from './exclusions';
+
+// Background search jobs. A job is submitted with a runner that does the
+// actual searching; the registry tracks its lifecycle and fans progress out to
+// subscribers (the SSE endpoint in routes.ts). Jobs are scoped to the same
+// owner IDs as the in-memory search results in storage.ts.
+
+export type SearchJobStatus =
+	| 'queued'
+	| 'running'
+	| 'done'
+	| 'failed'
+	| 'cancelled';
+
+export type CitySearchStatus = 'pending' | 'running' | 'done' | 'failed';
+
+export interface CityProgress {
+	city: string;
+	status: CitySearchStatus;
+	resultCount: number;
+	error?: string;
+}
+
+export interface SearchJobParams {
+	businessType: string;
+	state: string;
+	maxCities: number;
+	selectedCities?: string[];
+}
+
+export interface SearchJob {
+	id: string;
+	ownerId: string;
+	params: SearchJobParams;
+	status: SearchJobStatus;
+	cities: CityProgress[];
+	totalResults: number;
+	cached: boolean;
+	cacheAge?: number; // Minutes, when served from the search cache
+	excluded?: ExclusionSummary; // Results the owner's exclusion list matched
+	error?: string;
+	createdAt: string;
+	startedAt?: string;
+	finishedAt?: string;
+}
+
+export type SearchJobEvent =
+	| { type: 'job'; job: SearchJob }
+	| {
+			type: 'results';
+			jobId: string;
+			city?: string;
+			businesses: Business[];
+	  };
+
+// Handed to a runner so it can report progress without touching the registry
+export interface SearchJobContext {
+	readonly signal: AbortSignal;
+	setCities(cities: string[]): void;
+	updateCity(
+		city: string,
+		progress: Partial<Omit<CityProgress, 'city'>>
+	): void;
+	addResults(businesses: Business[], city?: string): void;
+	addExclusions(summary: ExclusionSummary): void;
+	markCached(cacheAge: number): void;
+}
+
+export type SearchJobRunner = (context: SearchJobContext) => Promise<void>;
+
+interface JobRecord {
+	job: SearchJob;
+	runner: SearchJobRunner;
+	controller: AbortController;
+	emitter: EventEmitter;
+}
+
+const MAX_CONCURRENT_JOBS = 2;
+// Finished jobs stay queryable for a while so late subscribers see the outcome
+const FINISHED_JOB_TTL = 60 * 60 * 1000; // 1 hour
+
+export function isFinishedStatus(status: SearchJobStatus): boolean {
+	return status === 'done' || status === 'failed' || status === 'cancelled';
+}
+
+function snapshot(job: SearchJob): SearchJob {
+	return {
+		...job,
+		params: { ...job.params },
+		cities: job.cities.map((city) => ({ ...city })),
+		excluded: job.excluded && {
+			...job.excluded,
+			byCategory: { ...job.excluded.byCategory },
+		},
+	};
+}
+
+export class SearchJobRegistry {
+	private records: Map<string, JobRecord>;
+	private queue: string[];
+	private running: number;
+	private maxConcurrent: number;
+	private finishedTtl: number;
+
+	constructor(
+		maxConcurrent: number = MAX_CONCURRENT_JOBS,
+		finishedTtl: number = FINISHED_JOB_TTL
+	) {
+		this.records = new Map();
+		this.queue = [];
+		this.running = 0;
+		this.maxConcurrent = maxConcurrent;
+		this.finishedTtl = finishedTtl;
+	}
+
+	submit(
+		ownerId: string,
+		params: SearchJobParams,
+		runner: SearchJobRunner
+	): SearchJob {
+		this.pruneFinishedJobs();
+
+		// A new search replaces the owner's results, so stop any search that
+		// would otherwise keep writing into them
+		this.cancelActive(ownerId);
+
+		const job: SearchJob = {
+			id: randomUUID(),
+			ownerId,
+			params,
+			status: 'queued',
+			cities: [],
+			totalResults: 0,
+			cached: false,
+			createdAt: new Date().toISOString(),
+		};
+
+		this.records.set(job.id, {
+			job,
+			runner,
+			controller: new AbortController(),
+			emitter: new EventEmitter(),
+		});
+		this.queue.push(job.id);
+		// Start on the next tick so callers can subscribe before any progress
+		setImmediate(() => this.drain());
+
+		return snapshot(job);
+	}
+
+	get(ownerId: string, id: string): SearchJob | undefined {
+		const record = this.getRecord(ownerId, id);
+		return record ? snapshot(record.job) : undefined;
+	}
+
+	cancel(ownerId: string, id: string): SearchJob | undefined {
+		const record = this.getRecord(ownerId, id);
+		if (!record) return undefined;
+
+		if (!isFinishedStatus(record.job.status)) {
+			this.queue = this.queue.filter((queuedId) => queuedId !== id);
+			record.controller.abort();
+			// Runners check the signal between cities; the job is reported as
+			// cancelled right away and nothing more is written for it
+			this.finish(record, 'cancelled');
+		}
+
+		return snapshot(record.job);
+	}
+
+	// Cancel every queued or running job for an owner
+	cancelActive(ownerId: string): void {
+		for (const record of Array.from(this.records.values())) {
+			if (
+				record.job.ownerId === ownerId &&
+				!isFinishedStatus(record.job.status)
+			) {
+				this.cancel(ownerId, record.job.id);
+			}
+		}
+	}
+
+	// Returns an unsubscribe function, or undefined if the job doesn't exist
+	subscribe(
+		ownerId: string,
+		id: string,
+		listener: (event: SearchJobEvent) => void
+	): (() => void) | undefined {
+		const record = this.getRecord(ownerId, id);
+		if (!record) return undefined;
+
+		record.emitter.on('event', listener);
+		return () => {
+			record.emitter.off('event', listener);
+		};
+	}
+
+	// Resolves with the final state of the job once it has finished
+	waitForCompletion(ownerId: string, id: string): Promise<SearchJob> {
+		return new Promise((resolve, reject) => {
+			const current = this.get(ownerId, id);
+			if (!current) {
+				return reject(new Error(`Search job ${id} not found`));
+			}
+			if (isFinishedStatus(current.status)) {
+				return resolve(current);
+			}
+
+			const unsubscribe = this.subscribe(ownerId, id, (event) => {
+				if (
+					event.type === 'job' &&
+					isFinishedStatus(event.job.status)
+				) {
+					unsubscribe?.();
+					resolve(event.job);
+				}
+			});
+		});
+	}
+
+	private getRecord(ownerId: string, id: string): JobRecord | undefined {
+		const record = this.records.get(id);
+		return record && record.job.ownerId === ownerId ? record : undefined;
+	}
+
+	private emit(record: JobRecord, event: SearchJobEvent): void {
+		record.emitter.emit('event', event);
+	}
+
+	private emitJob(record: JobRecord): void {
+		this.emit(record, { type: 'job', job: snapshot(record.job) });
+	}
+
+	private finish(
+		record: JobRecord,
+		status: SearchJobStatus,
+		error?: string
+	): void {
+		if (isFinishedStatus(record.job.status)) return;
+
+		record.job.status = status;
+		record.job.error = error;
+		record.job.finishedAt = new Date().toISOString();
+		this.emitJob(record);
+		record.emitter.removeAllListeners();
+	}
+
+	private drain(): void {
+		while (this.running < this.maxConcurrent && this.queue.length > 0) {
+			const record = this.records.get(this.queue.shift()!);
+			if (record && record.job.status === 'queued') {
+				this.run(record);
+			}
+		}
+	}
+
+	private async run(record: JobRecord): Promise<void> {
+		const { job, controller } = record;
+		const isActive = () => !isFinishedStatus(job.status);
+
+		this.running++;
+		job.status = 'running';
+		job.startedAt = new Date().toISOString();
+		this.emitJob(record);
+
+		const context: SearchJobContext = {
+			signal: controller.signal,
+			setCities: (cities) => {
+				if (!isActive()) return;
+				job.cities = cities.map((city) => ({
+					city,
+					status: 'pending',
+					resultCount: 0,
+				}));
+				this.emitJob(record);
+			},
+			updateCity: (city, progress) => {
+				const entry = job.cities.find((c) => c.city === city);
+				if (!entry || !isActive()) return;
+				Object.assign(entry, progress);
+				this.emitJob(record);
+			},
+			addResults: (businesses, city) => {
+				if (!isActive() || businesses.length === 0) return;
+				job.totalResults += businesses.length;
+				this.emit(record, {
+					type: 'results',
+					jobId: job.id,
+					city,
+					businesses,
+				});
+			},
+			addExclusions: (summary) => {
+				if (!isActive()) return;
+				job.excluded = mergeExclusionSummaries(job.excluded, summary);
+				this.emitJob(record);
+			},
+			markCached: (cacheAge) => {
+				job.cached = true;
+				job.cacheAge = cacheAge;
+			},
+		};
+
+		try {
+			await record.runner(context);
+			this.finish(record, 'done');
+		} catch (error) {
+			console.error(`Search job ${job.id} failed:`, error);
+			this.finish(
+				record,
+				'failed',
+				error instanceof Error ? error.message : 'Search failed'
+			);
+		} finally {
+			this.running--;
+			this.drain();
+		}
+	}
+
+	private pruneFinishedJobs(): void {
+		const cutoff = Date.now() - this.finishedTtl;
+		const entries = Array.from(this.records.entries());
+		for (const [id, record] of entries) {
+			const finishedAt = record.job.finishedAt
+				? new Date(record.job.finishedAt).getTime()
+				: undefined;
+			if (finishedAt !== undefined && finishedAt < cutoff) {
+				this.records.delete(id);
+			}
+		}
+	}
+}
+
+export const searchJobs = new SearchJobRegistry();
@@ -1,78 +1,116 @@
-import { businesses, type Business, type InsertBusiness, type ImportBusiness } from "@shared/schema";
+import { type Business, type InsertBusiness, type ImportBusiness } from "@shared/schema";
+import { buildMatchIndex, findMatch } from "@shared/matcher";
 
+// Search results are kept per owner (an authenticated user or a guest) so that
+// concurrent searches never overwrite each other. Owner IDs come from
+// getResultOwnerId() in middleware/auth.ts.
 export interface IStorage {
-  getBusinesses(): Promise<Business[]>;
-  getBusinessById(id: number): Promise<Business | undefined>;
-  createBusiness(business: InsertBusiness): Promise<Business>;
-  updateBusiness(id: number, business: Partial<InsertBusiness>): Promise<Business | undefined>;
-  deleteBusiness(id: number): Promise<boolean>;
-  saveBatchBusinesses(businessList: InsertBusiness[]): Promise<Business[]>;
-  importBusinessesFromCSV(businessList: ImportBusiness[]): Promise<number>;
-  clearDuplicateFlags(): Promise<void>;
-  clearAllBusinesses(): Promise<void>; // Added method to clear all businesses
-  checkForDuplicates(newBusinesses: Business[]): Promise<Business[]>;
+  getBusinesses(ownerId: string): Promise<Business[]>;
+  getBusinessById(ownerId: string, id: number): Promise<Business | undefined>;
+  createBusiness(ownerId: string, business: InsertBusiness): Promise<Business>;
+  updateBusiness(ownerId: string, id: number, business: Partial<InsertBusiness>): Promise<Business | undefined>;
+  deleteBusiness(ownerId: string, id: number): Promise<boolean>;
+  saveBatchBusinesses(ownerId: string, businessList: InsertBusiness[]): Promise<Business[]>;
+  importBusinessesFromCSV(ownerId: string, businessList: ImportBusiness[]): Promise<number>;
+  clearDuplicateFlags(ownerId: string): Promise<void>;
+  clearAllBusinesses(ownerId: string): Promise<void>; // Clears only this owner's results
+  checkForDuplicates(ownerId: string, newBusinesses: Business[]): Promise<Business[]>;
 }
 
+interface ResultSet {
+  businesses: Map<number, Business>;
+  currentId: number;
+  lastAccessedAt: number;
+}
+
+// Result sets nobody has touched for this long are dropped to bound memory use
+const RESULT_SET_IDLE_TTL = 24 * 60 * 60 * 1000; // 24 hours
+
 export class MemStorage implements IStorage {
-  private businesses: Map<number, Business>;
-  private currentId: number;
+  private resultSets: Map<string, ResultSet>;
+  private idleTtl: number;
+
+  constructor(idleTtl: number = RESULT_SET_IDLE_TTL) {
+    this.resultSets = new Map();
+    this.idleTtl = idleTtl;
+  }
+
+  private getResultSet(ownerId: string): ResultSet {
+    let resultSet = this.resultSets.get(ownerId);
+    if (!resultSet) {
+      this.pruneIdleResultSets();
+      resultSet = { businesses: new Map(), currentId: 1, lastAccessedAt: Date.now() };
+      this.resultSets.set(ownerId, resultSet);
+    }
+    resultSet.lastAccessedAt = Date.now();
+    return resultSet;
+  }
 
-  constructor() {
-    this.businesses = new Map();
-    this.currentId = 1;
+  private pruneIdleResultSets(): void {
+    const cutoff = Date.now() - this.idleTtl;
+    const entries = Array.from(this.resultSets.entries());
+    for (const [ownerId, resultSet] of entries) {
+      if (resultSet.lastAccessedAt < cutoff) {
+        this.resultSets.delete(ownerId);
+      }
+    }
   }
 
-  async getBusinesses(): Promise<Business[]> {
-    return Array.from(this.businesses.values());
+  async getBusinesses(ownerId: string): Promise<Business[]> {
+    return Array.from(this.getResultSet(ownerId).businesses.values());
   }
 
-  async getBusinessById(id: number): Promise<Business | undefined> {
-    return this.businesses.get(id);
+  async getBusinessById(ownerId: string, id: number): Promise<Business | undefined> {
+    return this.getResultSet(ownerId).businesses.get(id);
   }
 
-  async createBusiness(insertBusiness: InsertBusiness): Promise<Business> {
-    const id = this.currentId++;
-    const business: Business = { 
+  async createBusiness(ownerId: string, insertBusiness: InsertBusiness): Promise<Business> {
+    const resultSet = this.getResultSet(ownerId);
+    const id = resultSet.currentId++;
+    const business: Business = {
+      ...insertBusiness,
       id,
       name: insertBusiness.name,
-      website: insertBusiness.website || null,
-      location: insertBusiness.location || null,
-      distance: insertBusiness.distance || null,
-      notes: insertBusiness.notes || null,
+      website: insertBusiness.website || undefined,
+      location: insertBusiness.location || undefined,
+      distance: insertBusiness.distance || undefined,
+      notes: insertBusiness.notes || undefined,
       isDuplicate: insertBusiness.isDuplicate || false,
-      careerLink: insertBusiness.careerLink || null
+      isBadLead: insertBusiness.isBadLead || false,
+      careerLink: insertBusiness.careerLink || undefined
     };
-    this.businesses.set(id, business);
+    resultSet.businesses.set(id, business);
     return business;
   }
 
-  async updateBusiness(id: number, partialBusiness: Partial<InsertBusiness>): Promise<Business | undefined> {
-    const business = this.businesses.get(id);
+  async updateBusiness(ownerId: string, id: number, partialBusiness: Partial<InsertBusiness>): Promise<Business | undefined> {
+    const resultSet = this.getResultSet(ownerId);
+    const business = resultSet.businesses.get(id);
     if (!business) return undefined;
-    
-    const updatedBusiness = { ...business, ...partialBusiness };
-    this.businesses.set(id, updatedBusiness);
+
+    const updatedBusiness = { ...business, ...partialBusiness, id };
+    resultSet.businesses.set(id, updatedBusiness);
     return updatedBusiness;
   }
 
-  async deleteBusiness(id: number): Promise<boolean> {
-    return this.businesses.delete(id);
+  async deleteBusiness(ownerId: string, id: number): Promise<boolean> {
+    return this.getResultSet(ownerId).businesses.delete(id);
   }
 
-  async saveBatchBusinesses(businessList: InsertBusiness[]): Promise<Business[]> {
+  async saveBatchBusinesses(ownerId: string, businessList: InsertBusiness[]): Promise<Business[]> {
     const savedBusinesses: Business[] = [];
-    
+
     for (const business of businessList) {
-      const saved = await this.createBusiness(business);
+      const saved = await this.createBusiness(ownerId, business);
       savedBusinesses.push(saved);
     }
-    
+
     return savedBusinesses;
   }
 
-  async importBusinessesFromCSV(businessList: ImportBusiness[]): Promise<number> {
+  async importBusinessesFromCSV(ownerId: string, businessList: ImportBusiness[]): Promise<number> {
     let importedCount = 0;
-    
+
     for (const csvBusiness of businessList) {
       // Convert CSV business to InsertBusiness format
       const insertBusiness: InsertBusiness = {
@@ -84,103 +122,55 @@ export class MemStorage implements IStorage {
         isDuplicate: false,
         careerLink: csvBusiness.careerLink || ''
       };
-      
-      await this.createBusiness(insertBusiness);
+
+      await this.createBusiness(ownerId, insertBusiness);
       importedCount++;
     }
-    
+
     return importedCount;
   }
 
-  async clearDuplicateFlags(): Promise<void> {
+  async clearDuplicateFlags(ownerId: string): Promise<void> {
     // Reset all duplicate flags
-    const businessEntries = Array.from(this.businesses.entries());
-    for (const [id, business] of businessEntries) {
+    const businessEntries = Array.from(this.getResultSet(ownerId).businesses.values());
+    for (const business of businessEntries) {
       if (business.isDuplicate) {
         business.isDuplicate = false;
-        this.businesses.set(id, business);
+        delete business.duplicateReason;
       }
     }
   }
-  
-  async clearAllBusinesses(): Promise<void> {
-    // Clear all businesses and reset the ID counter
-    this.businesses.clear();
-    this.currentId = 1;
+
+  async clearAllBusinesses(ownerId: string): Promise<void> {
+    // Drop this owner's result set; the ID counter starts over with the next search
+    this.resultSets.delete(ownerId);
   }
 
-  async checkForDuplicates(newBusinesses: Business[]): Promise<Business[]> {
-    // Get existing businesses for comparison
-    const existingBusinesses = await this.getBusinesses();
+  async checkForDuplicates(ownerId: string, newBusinesses: Business[]): Promise<Business[]> {
+    // Only compare against businesses that aren't from this current batch
+    const existingBusinesses = (await this.getBusinesses(ownerId)).filter(
+      existing => !newBusinesses.some(nb => nb.id === existing.id)
+    );
+    const index = buildMatchIndex(existingBusinesses);
     const markedBusinesses: Business[] = [];
 
     for (const newBusiness of newBusinesses) {
-      let isDuplicate = false;
-      
-      // Only compare against businesses that aren't from this current batch
-      const existingBusinessesForComparison = existingBusinesses.filter(
-        existing => !newBusinesses.some(nb => nb.id === existing.id)
-      );
-      
-      // First, try to match based on domain name only
-      if (newBusiness.website) {
-        const newDomain = normalizeDomain(newBusiness.website);
-        
-        if (newDomain) {
-          isDuplicate = existingBusinessesForComparison.some(existing => 
-            existing.website && normalizeDomain(existing.website) === newDomain
-          );
-        }
-      }
-      
-      // If no domain match was found, try exact name match as fallback
-      if (!isDuplicate && newBusiness.name) {
-        const normalizedNewName = normalizeName(newBusiness.name);
-        
-        if (normalizedNewName) {
-          isDuplicate = existingBusinessesForComparison.some(existing =>
-            normalizeName(existing.name) === normalizedNewName
-          );
-        }
-      }
-      
-      if (isDuplicate && newBusiness.id) {
+      const match = findMatch(newBusiness, index);
+
+      if (match && newBusiness.id) {
         // Update the business marking it as a duplicate
-        const updated = await this.updateBusiness(newBusiness.id, { isDuplicate: true });
+        const updated = await this.updateBusiness(ownerId, newBusiness.id, {
+          isDuplicate: true,
+          duplicateReason: match.explanation,
+        });
         if (updated) {
           markedBusinesses.push(updated);
         }
       }
     }
-    
-    return markedBusinesses;
-  }
-}
 
-// Helper functions for comparing businesses
-function normalizeDomain(url: string): string {
-  try {
-    if (!url) return '';
-    
-    // Extract just the main domain (example.com) for comparison
-    const domainMatch = url.toLowerCase()
-      .replace(/^https?:\/\//i, '')
-      .replace(/^www\./i, '')
-      .match(/([a-z0-9-]+\.[a-z0-9-]+)/i);
-    
-    return domainMatch ? domainMatch[0] : '';
-  } catch {
-    return url.toLowerCase();
+    return markedBusinesses;
   }
 }
 
-function normalizeName(name: string): string {
-  if (!name) return '';
-  
-  // Remove common business suffixes and lowercase
-  return name.toLowerCase()
-    .replace(/,?\s+(inc|llc|corporation|corp|co|company|ltd|limited)\.?$/i, '')
-    .trim();
-}
-
 export const storage = new MemStorage();
@@ -0,0 +1,316 @@
+// Duplicate matching shared by search results, CSV compare/import, guest
+// migration and saved-list cleanup, so "duplicate" means the same thing
+// everywhere. A match carries a short explanation ("same domain",
+// "name 93% similar") that's shown next to the duplicate flag.
+
+export interface MatchableBusiness {
+	name: string;
+	website?: string;
+	location?: string;
+	phone?: string;
+}
+
+export interface MatchThresholds {
+	// 0-1; names at least this similar after normalization match. 1 turns
+	// fuzzy name matching off and leaves exact matches only.
+	nameSimilarity: number;
+	matchPhone: boolean;
+	matchAddress: boolean;
+}
+
+export const DEFAULT_MATCH_THRESHOLDS: MatchThresholds = {
+	nameSimilarity: 0.9,
+	matchPhone: true,
+	matchAddress: true,
+};
+
+export type MatchReason = 'domain' | 'phone' | 'name' | 'address';
+
+export interface BusinessMatch<T> {
+	reason: MatchReason;
+	explanation: string;
+	// Name similarity, 0-1; 1 for every other kind of match
+	similarity: number;
+	match: T;
+}
+
+// Reduce a URL to its bare host (no scheme, www, path, query or fragment)
+export function normalizeWebsiteDomain(url?: string): string {
+	if (!url) return '';
+	return url
+		.trim()
+		.toLowerCase()
+		.replace(/^https?:\/\//i, '')
+		.replace(/^www\./i, '')
+		.replace(/\/+$/, '')
+		.split('/')[0] // Get just the domain part
+		.split('?')[0] // Remove query parameters
+		.split('#')[0]; // Remove fragments
+}
+
+export function normalizeCompanyName(name?: string): string {
+	if (!name) return '';
+	return name
+		.toLowerCase()
+		.replace(/[-/]/g, ' ') // "Smith-Jones" and "Smith Jones" match
+		.replace(/[.,'"’!?()[\]:;]/g, '') // Remove punctuation
+		.replace(/&/g, ' and ')
+		.replace(/\s+/g, ' ') // Normalize spaces
+		.trim()
+		.replace(/^the\s+/, '')
+		.replace(/\s+(inc|llc|ltd|limited|corp|corporation|co|company)$/, '') // Remove business suffixes
+		.trim();
+}
+
+export function normalizeAddress(location?: string): string {
+	if (!location) return '';
+	return (
+		location
+			.toLowerCase()
+			// Remove apartment/suite numbers
+			.replace(/(\s|,)+suite\s+\w+/i, '')
+			.replace(/(\s|,)+ste\.?\s+\w+/i, '')
+			.replace(/(\s|,)+apt\.?\s+\w+/i, '')
+			.replace(/(\s|,)+unit\s+\w+/i, '')
+			.replace(/(\s|,)+#\s*\w+/i, '')
+			// Remove floor indicators
+			.replace(/(\s|,)+floor\s+\w+/i, '')
+			.replace(/(\s|,)+fl\.?\s+\w+/i, '')
+			// Remove room numbers
+			.replace(/(\s|,)+room\s+\w+/i, '')
+			.replace(/(\s|,)+rm\.?\s+\w+/i, '')
+			// Standardize address components
+			.replace(/\bstreet\b/i, 'st')
+			.replace(/\bavenue\b/i, 'ave')
+			.replace(/\bboulevard\b/i, 'blvd')
+			.replace(/\bsuite\b/i, 'ste')
+			.replace(/\s+/g, ' ')
+			.trim()
+	);
+}
+
+// Digits only, without a leading US country code
+export function normalizePhone(phone?: string): string {
+	if (!phone) return '';
+	const digits = phone.replace(/\D/g, '');
+	return digits.length === 11 && digits.startsWith('1')
+		? digits.slice(1)
+		: digits;
+}
+
+// Levenshtein distance, giving up once it's known to exceed maxDistance
+function editDistance(a: string, b: string, maxDistance: number): number {
+	if (Math.abs(a.length - b.length) > maxDistance) {
+		return maxDistance + 1;
+	}
+
+	let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const current = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+			current[j] = Math.min(
+				previous[j] + 1,
+				current[j - 1] + 1,
+				previous[j - 1] + cost
+			);
+			rowMin = Math.min(rowMin, current[j]);
+		}
+		if (rowMin > maxDistance) {
+			return maxDistance + 1;
+		}
+		previous = current;
+	}
+	return previous[b.length];
+}
+
+// 0-1 similarity of two company names after normalization
+export function nameSimilarity(a: string, b: string): number {
+	const left = normalizeCompanyName(a);
+	const right = normalizeCompanyName(b);
+	if (!left || !right) return 0;
+
+	const longest = Math.max(left.length, right.length);
+	return 1 - editDistance(left, right, longest) / longest;
+}
+
+// Websites sometimes end up in the location field, so both are checked
+function websiteDomains(business: MatchableBusiness): string[] {
+	return [business.website, business.location]
+		.map(normalizeWebsiteDomain)
+		.filter((domain) => domain.includes('.'));
+}
+
+// A bare "Columbus, OH" says nothing about which company is there, so only
+// addresses with a street number are compared
+function matchableAddress(location?: string): string {
+	const address = normalizeAddress(location);
+	return /\d/.test(address) ? address : '';
+}
+
+// Too short to tell two companies apart by digits
+function matchablePhone(phone?: string): string {
+	const digits = normalizePhone(phone);
+	return digits.length >= 7 ? digits : '';
+}
+
+// Lookup maps built once per list, so matching a page of results is cheap.
+// Names are also bucketed by length to keep fuzzy matching to likely pairs.
+export interface MatchIndex<T extends MatchableBusiness = MatchableBusiness> {
+	domains: Map<string, T>;
+	phones: Map<string, T>;
+	addresses: Map<string, T>;
+	names: Map<string, T>;
+	namesByLength: Map<number, string[]>;
+}
+
+export function addToMatchIndex<T extends MatchableBusiness>(
+	index: MatchIndex<T>,
+	business: T
+): void {
+	const setFirst = (map: Map<string, T>, key: string) => {
+		if (key && !map.has(key)) map.set(key, business);
+	};
+
+	websiteDomains(business).forEach((domain) =>
+		setFirst(index.domains, domain)
+	);
+	setFirst(index.phones, matchablePhone(business.phone));
+	setFirst(index.addresses, matchableAddress(business.location));
+
+	const name = normalizeCompanyName(business.name);
+	if (name && !index.names.has(name)) {
+		index.names.set(name, business);
+		const bucket = index.namesByLength.get(name.length) || [];
+		bucket.push(name);
+		index.namesByLength.set(name.length, bucket);
+	}
+}
+
+export function buildMatchIndex<T extends MatchableBusiness>(
+	businesses: T[]
+): MatchIndex<T> {
+	const index: MatchIndex<T> = {
+		domains: new Map(),
+		phones: new Map(),
+		addresses: new Map(),
+		names: new Map(),
+		namesByLength: new Map(),
+	};
+	businesses.forEach((business) => addToMatchIndex(index, business));
+	return index;
+}
+
+function closestName<T extends MatchableBusiness>(
+	name: string,
+	index: MatchIndex<T>,
+	minSimilarity: number
+): { name: string; similarity: number } | null {
+	let best: { name: string; similarity: number } | null = null;
+
+	// Lengths that could still be similar enough
+	const shortest = Math.ceil(name.length * minSimilarity);
+	const longestAllowed = Math.floor(name.length / minSimilarity);
+
+	for (let length = shortest; length <= longestAllowed; length++) {
+		for (const candidate of index.namesByLength.get(length) || []) {
+			const longest = Math.max(name.length, candidate.length);
+			const distance = editDistance(
+				name,
+				candidate,
+				Math.floor(longest * (1 - minSimilarity))
+			);
+			const similarity = 1 - distance / longest;
+			if (
+				similarity >= minSimilarity &&
+				(!best || similarity > best.similarity)
+			) {
+				best = { name: candidate, similarity };
+			}
+		}
+	}
+
+	return best;
+}
+
+// The strongest reason the business duplicates something in the index:
+// website domain, then phone, exact name, street address and finally a
+// fuzzy name match
+export function findMatch<T extends MatchableBusiness>(
+	business: MatchableBusiness,
+	index: MatchIndex<T>,
+	thresholds: MatchThresholds = DEFAULT_MATCH_THRESHOLDS
+): BusinessMatch<T> | null {
+	for (const domain of websiteDomains(business)) {
+		const match = index.domains.get(domain);
+		if (match) {
+			return {
+				reason: 'domain',
+				explanation: 'same domain',
+				similarity: 1,
+				match,
+			};
+		}
+	}
+
+	if (thresholds.matchPhone) {
+		const phone = matchablePhone(business.phone);
+		const match = phone ? index.phones.get(phone) : undefined;
+		if (match) {
+			return {
+				reason: 'phone',
+				explanation: 'same phone number',
+				similarity: 1,
+				match,
+			};
+		}
+	}
+
+	const name = normalizeCompanyName(business.name);
+	const sameName = name ? index.names.get(name) : undefined;
+	if (sameName) {
+		return {
+			reason: 'name',
+			explanation: 'same name',
+			similarity: 1,
+			match: sameName,
+		};
+	}
+
+	if (thresholds.matchAddress) {
+		const address = matchableAddress(business.location);
+		const match = address ? index.addresses.get(address) : undefined;
+		if (match) {
+			return {
+				reason: 'address',
+				explanation: 'same address',
+				similarity: 1,
+				match,
+			};
+		}
+	}
+
+	if (name && thresholds.nameSimilarity < 1) {
+		const closest = closestName(name, index, thresholds.nameSimilarity);
+		if (closest) {
+			return {
+				reason: 'name',
+				explanation: `name ${Math.floor(
+					closest.similarity * 100
+				)}% similar`,
+				similarity: closest.similarity,
+				match: index.names.get(closest.name)!,
+			};
+		}
+	}
+
+	return null;
+}
+
+// Fill unset thresholds with the defaults
+export function resolveMatchThresholds(
+	thresholds?: Partial<MatchThresholds>
+): MatchThresholds {
+	return { ...DEFAULT_MATCH_THRESHOLDS, ...thresholds };
+}
@@ -0,0 +1,90 @@
+import type { PlaceDetails, ResultFilters } from './schema';
+
+// Shared by the results panel and the server so what's shown, what's
+// returned and what's imported all agree.
+
+type FilterableBusiness = PlaceDetails & { website?: string };
+
+// "Car dealer" and "car_dealer" name the same Places type
+export function normalizePlaceType(type: string): string {
+	return type
+		.trim()
+		.toLowerCase()
+		.replace(/[\s-]+/g, '_');
+}
+
+function businessTypes(business: FilterableBusiness): string[] {
+	const types = [...(business.types || [])];
+	if (business.primaryType) {
+		types.push(business.primaryType);
+	}
+	return types.map(normalizePlaceType);
+}
+
+export function passesResultFilters(
+	business: FilterableBusiness,
+	filters: ResultFilters
+): boolean {
+	const status = business.businessStatus;
+	if (filters.hidePermanentlyClosed && status === 'CLOSED_PERMANENTLY') {
+		return false;
+	}
+	if (filters.hideTemporarilyClosed && status === 'CLOSED_TEMPORARILY') {
+		return false;
+	}
+
+	if (
+		filters.minRating !== undefined &&
+		(business.rating === undefined || business.rating < filters.minRating)
+	) {
+		return false;
+	}
+	if (
+		filters.minReviewCount !== undefined &&
+		(business.reviewCount || 0) < filters.minReviewCount
+	) {
+		return false;
+	}
+
+	if (filters.websiteOnly && !business.website?.trim()) {
+		return false;
+	}
+
+	const include = (filters.includeTypes || []).map(normalizePlaceType);
+	const exclude = (filters.excludeTypes || []).map(normalizePlaceType);
+	if (include.length > 0 || exclude.length > 0) {
+		const types = businessTypes(business);
+		if (
+			include.length > 0 &&
+			!types.some((type) => include.includes(type))
+		) {
+			return false;
+		}
+		if (types.some((type) => exclude.includes(type))) {
+			return false;
+		}
+	}
+
+	return true;
+}
+
+export function applyResultFilters<T extends FilterableBusiness>(
+	businesses: T[],
+	filters: ResultFilters
+): T[] {
+	return businesses.filter((business) =>
+		passesResultFilters(business, filters)
+	);
+}
+
+export function hasActiveResultFilters(filters: ResultFilters): boolean {
+	return Boolean(
+		filters.hidePermanentlyClosed ||
+			filters.hideTemporarilyClosed ||
+			filters.minRating !== undefined ||
+			filters.minReviewCount !== undefined ||
+			filters.websiteOnly ||
+			filters.includeTypes?.length ||
+			filters.excludeTypes?.length
+	);
+}
@@ -1,7 +1,24 @@
 import { z } from 'zod';
 
+// Details copied from the Places listing of a business. All optional: CSV
+// imports and businesses saved before these were captured don't have them.
+export const placeDetailsSchema = z.object({
+	placeId: z.string().optional(),
+	phone: z.string().optional(),
+	lat: z.number().optional(),
+	lng: z.number().optional(),
+	primaryType: z.string().optional(),
+	types: z.array(z.string()).optional(),
+	rating: z.number().optional(),
+	reviewCount: z.number().optional(),
+	businessStatus: z.string().optional(), // OPERATIONAL, CLOSED_TEMPORARILY, ...
+	googleMapsUrl: z.string().optional(),
+});
+
+export type PlaceDetails = z.infer<typeof placeDetailsSchema>;
+
 // Business schema for in-memory search results
-export const businessSchema = z.object({
+export const businessSchema = placeDetailsSchema.extend({
 	id: z.number().optional(),
 	name: z.string(),
 	website: z.string().optional(),
@@ -9,7 +26,12 @@ export const businessSchema = z.object({
 	distance: z.string().optional(),
 	notes: z.string().optional(),
 	isDuplicate: z.boolean().default(false).optional(),
+	// Why it was flagged, e.g. "same domain" or "name 93% similar"
+	duplicateReason: z.string().optional(),
+	isBadLead: z.boolean().default(false).optional(),
 	careerLink: z.string().optional(),
+	// Set when the owner's exclusion list matched and it flags rather than hides
+	excludedBy: z.string().optional(),
 });
 
 export const insertBusinessSchema = businessSchema.omit({
@@ -41,11 +63,75 @@ export interface User {
 	email: string;
 	password: string;
 	name?: string;
+	calendarToken?: string; // Secret in the user's reminders calendar feed URL
 	createdAt: Date;
 	updatedAt: Date;
 }
 
-export const savedBusinessSchema = z.object({
+// How sure careers discovery is that careerLink is the company's jobs page
+export const careerLinkConfidenceSchema = z.enum(['high', 'medium', 'low']);
+
+export type CareerLinkConfidence = z.infer<typeof careerLinkConfidenceSchema>;
+
+// Hosted job boards whose public postings we can read
+export const atsPlatformSchema = z.enum([
+	'greenhouse',
+	'lever',
+	'workday',
+	'ashby',
+	'bamboohr',
+	'smartrecruiters',
+]);
+
+export type AtsPlatform = z.infer<typeof atsPlatformSchema>;
+
+// What the last website check found. ok and redirected sites work;
+// redirected ones landed on another domain.
+export const websiteHealthStatusSchema = z.enum([
+	'ok',
+	'redirected',
+	'blocked', // Refused our request (401/403/429) but exists
+	'broken',
+	'parked',
+	'unreachable',
+]);
+
+export type WebsiteHealthStatus = z.infer<typeof websiteHealthStatusSchema>;
+
+export const websiteHealthSchema = z.object({
+	status: websiteHealthStatusSchema,
+	httpStatus: z.number().optional(),
+	finalUrl: z.string().optional(), // After redirects
+	// Suggested replacement for the stored website, when they differ
+	canonicalUrl: z.string().optional(),
+	tlsValid: z.boolean().optional(), // Unset when the site has no https
+	parkedReason: z.string().optional(),
+	error: z.string().optional(),
+	checkedAt: z.date(),
+});
+
+export type WebsiteHealth = z.infer<typeof websiteHealthSchema>;
+
+// A published contact detail and the page it was found on
+export const contactDetailSchema = z.object({
+	value: z.string(),
+	sourceUrl: z.string(),
+});
+
+export type ContactDetail = z.infer<typeof contactDetailSchema>;
+
+export const businessContactsSchema = z.object({
+	emails: z.array(contactDetailSchema),
+	phones: z.array(contactDetailSchema),
+	linkedin: contactDetailSchema.optional(),
+	x: contactDetailSchema.optional(),
+	github: contactDetailSchema.optional(),
+	checkedAt: z.date(),
+});
+
+export type BusinessContacts = z.infer<typeof businessContactsSchema>;
+
+export const savedBusinessSchema = placeDetailsSchema.extend({
 	userId: z.string(),
 	name: z.string(),
 	website: z.string().optional(),
@@ -53,7 +139,19 @@ export const savedBusinessSchema = z.object({
 	distance: z.string().optional(),
 	notes: z.string().optional(),
 	careerLink: z.string().optional(),
+	careerLinkConfidence: careerLinkConfidenceSchema.optional(),
+	careerLinkCheckedAt: z.date().optional(),
+	// Open postings read from the careers page's job board
+	atsPlatform: atsPlatformSchema.optional(),
+	atsBoardUrl: z.string().optional(),
+	openJobCount: z.number().optional(),
+	openRoles: z.array(z.string()).optional(), // Role titles
+	jobsCheckedAt: z.date().optional(),
+	websiteHealth: websiteHealthSchema.optional(),
+	contacts: businessContactsSchema.optional(), // From the company website
+	pipelineStatus: z.string().optional(), // Id of one of the user's stages
 	tags: z.array(z.string()).optional(),
+	isBadLead: z.boolean().optional(),
 	createdAt: z.date().optional(),
 	updatedAt: z.date().optional(),
 });
@@ -62,11 +160,41 @@ export type SavedBusiness = z.infer<typeof savedBusinessSchema> & {
 	_id?: string;
 };
 
+// A rule a smart list picks its businesses by. Rules are turned into a
+// MongoDB query each time the list is read, so smart lists never go stale.
+const ruleText = (max: number) => z.string().trim().min(1).max(max);
+
+export const smartListRuleSchema = z.discriminatedUnion('kind', [
+	z.object({ kind: z.literal('tag_contains'), value: ruleText(100) }),
+	// A pipeline stage id, or "none" for no status
+	z.object({ kind: z.literal('status_equals'), value: ruleText(40) }),
+	z.object({ kind: z.literal('location_matches'), value: ruleText(200) }),
+	z.object({
+		kind: z.literal('created_within_days'),
+		value: z.number().int().min(1).max(3650),
+	}),
+	z.object({ kind: z.literal('has_career_link'), value: z.boolean() }),
+	z.object({ kind: z.literal('hiring_now'), value: z.boolean() }),
+	z.object({
+		kind: z.literal('domain_ends_with'),
+		value: ruleText(253).transform((domain) =>
+			domain.toLowerCase().replace(/^[*.]+/, '')
+		),
+	}),
+]);
+
+export type SmartListRule = z.infer<typeof smartListRuleSchema>;
+
+export const smartListMatchSchema = z.enum(['all', 'any']);
+
 export const savedListSchema = z.object({
 	userId: z.string(),
 	name: z.string(),
 	description: z.string().optional(),
 	businesses: z.array(z.string()).optional(), // Array of business IDs
+	// Set for smart lists, whose businesses are the ones matching the rules
+	rules: z.array(smartListRuleSchema).optional(),
+	match: smartListMatchSchema.optional(),
 	createdAt: z.date().optional(),
 	updatedAt: z.date().optional(),
 });
@@ -75,14 +203,356 @@ export type SavedList = z.infer<typeof savedListSchema> & {
 	_id?: string;
 };
 
+export const isSmartList = (list: Pick<SavedList, 'rules'>) =>
+	!!list.rules && list.rules.length > 0;
+
+// Lists with rules are smart lists; a list can't switch between the two
+export const savedListInputSchema = z.object({
+	name: z.string().trim().min(1, 'List name is required').max(100),
+	description: z.string().trim().max(500).optional(),
+	rules: z
+		.array(smartListRuleSchema)
+		.min(1, 'A smart list needs at least one rule')
+		.max(20)
+		.optional(),
+	match: smartListMatchSchema.optional(),
+});
+
+// Saved businesses added to or removed from a list together
+export const listMembershipInputSchema = z.object({
+	businessIds: z
+		.array(z.string().min(1))
+		.min(1, 'Pick at least one business')
+		.max(500),
+});
+
+// Merging duplicate saved businesses into one survivor. sources names the
+// business each field's value is taken from; unset fields keep the
+// survivor's value, or the first duplicate's when the survivor has none.
+export const mergeableFieldSchema = z.enum([
+	'name',
+	'website',
+	'location',
+	'phone',
+	'careerLink',
+	'notes',
+]);
+
+export type MergeableField = z.infer<typeof mergeableFieldSchema>;
+
+const mergeSourceSchema = z.string().min(1).optional();
+
+export const businessMergeInputSchema = z.object({
+	survivorId: z.string().min(1, 'Survivor is required'),
+	duplicateIds: z
+		.array(z.string().min(1))
+		.min(1, 'Pick at least one duplicate')
+		.max(20),
+	sources: z
+		.object({
+			name: mergeSourceSchema,
+			website: mergeSourceSchema,
+			location: mergeSourceSchema,
+			phone: mergeSourceSchema,
+			careerLink: mergeSourceSchema,
+			notes: mergeSourceSchema,
+		})
+		.default({}),
+	// Join every copy's notes instead of picking one
+	combineNotes: z.boolean().default(false),
+});
+
+export type BusinessMergeInput = z.infer<typeof businessMergeInputSchema>;
+
+// A merge as it was applied, kept so it can be undone
+export interface BusinessMerge {
+	_id?: string;
+	userId: string;
+	survivorId: string;
+	survivorBefore: SavedBusiness; // The survivor before the merge
+	removed: SavedBusiness[]; // The duplicates, as they were when deleted
+	// List memberships of the removed businesses
+	listMemberships: { listId: string; businessId: string }[];
+	addedToLists: string[]; // Lists the survivor joined through the merge
+	// The survivor's updatedAt once merged; a later one means it was edited
+	survivorUpdatedAt?: Date;
+	createdAt: Date;
+	undoneAt?: Date;
+}
+
+// Append-only history of a saved business. Notes, emails and calls are
+// logged by the user; the rest are recorded when the business changes.
+export const businessActivityTypeSchema = z.enum([
+	'note',
+	'status_changed',
+	'email_sent',
+	'call_logged',
+	'career_link_changed',
+	'merged',
+]);
+
+export type BusinessActivityType = z.infer<typeof businessActivityTypeSchema>;
+
+export interface BusinessActivity {
+	_id?: string;
+	businessId: string;
+	userId: string; // Owner of the business
+	type: BusinessActivityType;
+	body?: string; // Note text, or a summary of the email or call
+	from?: string; // Old status or career link
+	to?: string; // New status or career link
+	mergedFrom?: { _id: string; name: string }[];
+	author: { userId: string; email?: string };
+	createdAt: Date;
+}
+
+// Kinds of activity a user can log by hand
+export const businessActivityInputSchema = z
+	.object({
+		type: z.enum(['note', 'email_sent', 'call_logged']),
+		body: z.string().trim().max(5000).optional(),
+	})
+	.refine((input) => input.type !== 'note' || !!input.body, {
+		message: 'A note needs some text',
+		path: ['body'],
+	});
+
+export type BusinessActivityInput = z.infer<typeof businessActivityInputSchema>;
+
+// A follow-up due on a saved business. Logging one of the completeOn
+// activity types on the business marks the reminder done.
+export const reminderInputSchema = z.object({
+	title: z.string().trim().min(1, 'Reminder title is required').max(200),
+	dueAt: z.coerce.date(),
+	completeOn: z.array(businessActivityTypeSchema).max(6).default([]),
+});
+
+export const reminderUpdateSchema = reminderInputSchema
+	.partial()
+	.extend({ done: z.boolean().optional() });
+
+export type ReminderInput = z.infer<typeof reminderInputSchema>;
+
+export interface Reminder {
+	_id?: string;
+	userId: string;
+	businessId: string;
+	title: string;
+	dueAt: Date;
+	completeOn: BusinessActivityType[];
+	doneAt?: Date;
+	doneByActivityId?: string; // The logged activity that completed it
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+// A reminder with the business it's for, as listed and exported
+export interface ReminderWithBusiness extends Reminder {
+	business: Pick<SavedBusiness, 'name' | 'website' | 'careerLink'>;
+}
+
+// A tag a user labels saved businesses with. Businesses carry tag names in
+// their tags array; the tag record holds its color.
+export const tagNameSchema = z
+	.string()
+	.trim()
+	.min(1, 'Tag name is required')
+	.max(40)
+	.refine((name) => !/[;,|]/.test(name), {
+		message: 'Tag names cannot contain ; , or |',
+	});
+
+export const tagColorSchema = z
+	.string()
+	.regex(/^#[0-9a-f]{6}$/i, 'Color must be a hex color like #3b82f6')
+	.transform((color) => color.toLowerCase());
+
+export const DEFAULT_TAG_COLOR = '#64748b';
+
+export const tagInputSchema = z.object({
+	name: tagNameSchema,
+	color: tagColorSchema.default(DEFAULT_TAG_COLOR),
+});
+
+export interface Tag {
+	_id?: string;
+	userId: string;
+	name: string;
+	color: string;
+	createdAt: Date;
+	updatedAt: Date;
+}
+
+// Fields a bulk "set field" operation may overwrite; an empty value clears
+export const bulkSettableFieldSchema = z.enum([
+	'notes',
+	'website',
+	'location',
+	'phone',
+	'careerLink',
+]);
+
+export type BulkSettableField = z.infer<typeof bulkSettableFieldSchema>;
+
+// One change applied to many saved businesses at once
+export const bulkOperationSchema = z.discriminatedUnion('type', [
+	z.object({ type: z.literal('delete') }),
+	// A stage id; empty (or "none") clears the status
+	z.object({ type: z.literal('set_status'), status: z.string().max(40) }),
+	z.object({
+		type: z.literal('add_tags'),
+		tags: z.array(tagNameSchema).min(1).max(20),
+	}),
+	z.object({
+		type: z.literal('remove_tags'),
+		tags: z.array(tagNameSchema).min(1).max(20),
+	}),
+	z.object({ type: z.literal('add_to_list'), listId: z.string().min(1) }),
+	z.object({ type: z.literal('mark_bad_lead'), value: z.boolean() }),
+	z.object({
+		type: z.literal('set_field'),
+		field: bulkSettableFieldSchema,
+		value: z.string().trim().max(5000),
+	}),
+]);
+
+export type BulkOperation = z.infer<typeof bulkOperationSchema>;
+
+// The saved businesses list's filters, for picking every business that
+// matches them rather than a list of ids
+export const savedBusinessQuerySchema = z.object({
+	search: z.string().optional(),
+	recentOnly: z.boolean().optional(),
+	hiringOnly: z.boolean().optional(),
+	roleKeyword: z.string().optional(),
+	statuses: z.array(z.string()).optional(),
+	tags: z.array(z.string()).optional(),
+	listId: z.string().optional(),
+	city: z.string().optional(),
+	state: z.string().optional(), // As the address has it, e.g. "OH"
+	hasWebsite: z.boolean().optional(),
+	// Saved and last changed between these dates, inclusive
+	createdFrom: z.coerce.date().optional(),
+	createdTo: z.coerce.date().optional(),
+	updatedFrom: z.coerce.date().optional(),
+	updatedTo: z.coerce.date().optional(),
+});
+
+// The fields the saved businesses list can be ordered by
+export const SAVED_BUSINESS_SORT_FIELDS = [
+	'createdAt',
+	'updatedAt',
+	'name',
+	'website',
+	'location',
+	'openJobCount',
+] as const;
+
+export const savedBusinessSortSchema = z.object({
+	field: z.enum(SAVED_BUSINESS_SORT_FIELDS).default('createdAt'),
+	direction: z.enum(['asc', 'desc']).default('desc'),
+});
+
+export type SavedBusinessSort = z.infer<typeof savedBusinessSortSchema>;
+
+export const BULK_OPERATION_LIMIT = 5000;
+
+export const bulkBusinessInputSchema = z
+	.object({
+		operation: bulkOperationSchema,
+		businessIds: z
+			.array(z.string())
+			.min(1)
+			.max(BULK_OPERATION_LIMIT)
+			.optional(),
+		filter: savedBusinessQuerySchema.optional(),
+	})
+	.refine((input) => !!input.businessIds !== !!input.filter, {
+		message: 'Provide either businessIds or filter',
+	});
+
+// What happened to one business in a bulk operation
+export interface BulkItemResult {
+	id: string;
+	ok: boolean;
+	error?: string;
+}
+
+// A previewed duplicate cleanup. Confirming it deletes exactly the records
+// listed here, and only while the record each group keeps still exists.
+export interface CleanupPlanBusiness {
+	_id: string;
+	name: string;
+	website?: string;
+	location?: string;
+	createdAt?: Date;
+}
+
+export interface CleanupPlanGroup {
+	keep: CleanupPlanBusiness;
+	keepReason: string; // e.g. "saved first"
+	remove: (CleanupPlanBusiness & { reason: string })[];
+}
+
+export interface DuplicateCleanupPlan {
+	_id?: string;
+	userId: string;
+	groups: CleanupPlanGroup[];
+	removeCount: number;
+	createdAt: Date;
+	expiresAt: Date;
+}
+
 // Search parameters
 export const searchParamsSchema = z.object({
 	businessType: z.string().min(1, 'Business/Job type is required'),
 	location: z.string().min(1, 'Location is required'),
+	radius: z.number().min(1).max(50).default(20), // Miles from the location
+	// A single query stops at 60; tiled searches can collect more
+	maxResults: z.number().int().min(1).max(500).default(60),
+	// 'tiled' splits the area into a grid and searches each tile, to get past
+	// the 60-result limit of a single query
+	searchMode: z.enum(['standard', 'tiled']).default('standard'),
+	tileDensity: z.number().int().min(2).max(8).optional(), // Tiles per side
 });
 
 export type SearchParams = z.infer<typeof searchParamsSchema>;
 
+// Filters over a result set's Places details. Businesses missing the data a
+// filter needs (no rating, no types) don't pass it.
+export const resultFiltersSchema = z.object({
+	hidePermanentlyClosed: z.boolean().optional(),
+	hideTemporarilyClosed: z.boolean().optional(),
+	minRating: z.number().min(0).max(5).optional(),
+	minReviewCount: z.number().int().min(0).optional(),
+	websiteOnly: z.boolean().optional(),
+	includeTypes: z.array(z.string()).optional(), // Places types, any match
+	excludeTypes: z.array(z.string()).optional(),
+});
+
+export type ResultFilters = z.infer<typeof resultFiltersSchema>;
+
+// Overrides for the duplicate matcher's defaults (see shared/matcher.ts)
+export const matchThresholdsSchema = z.object({
+	nameSimilarity: z.number().min(0.5).max(1).optional(),
+	matchPhone: z.boolean().optional(),
+	matchAddress: z.boolean().optional(),
+});
+
+export type MatchThresholdsInput = z.infer<typeof matchThresholdsSchema>;
+
+// Bulk website checks run over either picked businesses or a whole saved list
+export const bulkEnrichmentInputSchema = z
+	.object({
+		businessIds: z.array(z.string()).min(1).max(100).optional(),
+		listId: z.string().optional(),
+	})
+	.refine((input) => !!input.businessIds !== !!input.listId, {
+		message: 'Provide either businessIds or listId',
+	});
+
+export type BulkEnrichmentInput = z.infer<typeof bulkEnrichmentInputSchema>;
+
 export const searchResultSchema = z.object({
 	businesses: z.array(insertBusinessSchema),
 	total: z.number(),
@@ -90,7 +560,7 @@ export const searchResultSchema = z.object({
 
 export type SearchResult = z.infer<typeof searchResultSchema>;
 
-export const importBusinessSchema = z.object({
+export const importBusinessSchema = placeDetailsSchema.extend({
 	isBadLead: z.boolean().default(false),
 	name: z.string(),
 	website: z.string().optional(),
@@ -98,6 +568,7 @@ export const importBusinessSchema = z.object({
 	location: z.string().optional(),
 	distance: z.string().optional(),
 	notes: z.string().optional(),
+	tags: z.array(z.string()).optional(),
 });
 
 export type ImportBusiness = z.infer<typeof importBusinessSchema>;
@@ -157,7 +628,7 @@ export const cachedSearchResultSchema = z.object({
 		maxResults: z.number().optional(),
 	}),
 	businesses: z.array(
-		z.object({
+		placeDetailsSchema.extend({
 			name: z.string(),
 			website: z.string().optional(),
 			location: z.string(),
@@ -180,6 +651,168 @@ export type CachedSearchResult = z.infer<typeof cachedSearchResultSchema> & {
 	_id?: string;
 };
 
+// Per-user history of searches that have been run
+export const searchHistorySchema = z.object({
+	userId: z.string(),
+	searchType: z.enum(['location', 'state']),
+	businessType: z.string(),
+	location: z.string().optional(),
+	state: z.string().optional(),
+	cities: z.array(z.string()).default([]),
+	queryKey: z.string(), // Search fingerprint - runs of the same query share it
+	resultCount: z.number(),
+	newCount: z.number(),
+	duplicateCount: z.number(),
+	cached: z.boolean(),
+	// Identifying fields of each result, kept so runs can be diffed
+	businesses: z.array(
+		z.object({
+			name: z.string(),
+			website: z.string().optional(),
+			location: z.string().optional(),
+		})
+	),
+	createdAt: z.date().optional(),
+});
+
+export type SearchHistoryEntry = z.infer<typeof searchHistorySchema> & {
+	_id?: string;
+};
+
+// Companies a user never wants in their results: chains, staffing agencies,
+// do-not-contact companies. One list per user.
+export const exclusionCategorySchema = z.enum([
+	'chain',
+	'staffing',
+	'do_not_contact',
+	'other',
+]);
+
+export type ExclusionCategory = z.infer<typeof exclusionCategorySchema>;
+
+export const exclusionRuleSchema = z.object({
+	// name: case-insensitive match anywhere in the name, * as a wildcard
+	// domain: the website's domain or any subdomain of it
+	// type: a Places type such as "employment_agency"
+	kind: z.enum(['name', 'domain', 'type']),
+	pattern: z.string().trim().min(1, 'Pattern is required').max(200),
+	category: exclusionCategorySchema.default('other'),
+});
+
+export type ExclusionRule = z.infer<typeof exclusionRuleSchema>;
+
+export const exclusionListSchema = z.object({
+	userId: z.string(),
+	// hide drops matching businesses from results; flag keeps them, marked
+	mode: z.enum(['hide', 'flag']).default('hide'),
+	rules: z.array(exclusionRuleSchema).max(500),
+	updatedAt: z.date().optional(),
+});
+
+export type ExclusionList = z.infer<typeof exclusionListSchema> & {
+	_id?: string;
+};
+
+export const exclusionListInputSchema = exclusionListSchema.pick({
+	mode: true,
+	rules: true,
+});
+
+// The stages a saved business moves through, e.g. researching -> applied ->
+// interviewing. Each user can rename, reorder, add and remove them.
+export const pipelineStageSchema = z.object({
+	id: z
+		.string()
+		.trim()
+		.regex(
+			/^[a-z0-9_-]{1,40}$/,
+			'Stage ids are lowercase letters, digits, - and _'
+		)
+		// "none" filters for businesses without a status
+		.refine((id) => id !== 'none', 'The stage id "none" is reserved'),
+	name: z.string().trim().min(1, 'Stage name is required').max(40),
+});
+
+export type PipelineStage = z.infer<typeof pipelineStageSchema>;
+
+export const pipelineSchema = z.object({
+	userId: z.string(),
+	stages: z
+		.array(pipelineStageSchema)
+		.min(1, 'Keep at least one stage')
+		.max(20)
+		.refine(
+			(stages) => new Set(stages.map((s) => s.id)).size === stages.length,
+			'Stage ids must be unique'
+		),
+	updatedAt: z.date().optional(),
+});
+
+export type Pipeline = z.infer<typeof pipelineSchema> & { _id?: string };
+
+export const pipelineInputSchema = pipelineSchema.pick({ stages: true });
+
+export const DEFAULT_PIPELINE_STAGES: PipelineStage[] = [
+	{ id: 'researching', name: 'Researching' },
+	{ id: 'applied', name: 'Applied' },
+	{ id: 'contacted', name: 'Contacted' },
+	{ id: 'interviewing', name: 'Interviewing' },
+	{ id: 'offer', name: 'Offer' },
+	{ id: 'rejected', name: 'Rejected' },
+	{ id: 'not_a_fit', name: 'Not a fit' },
+];
+
+// Searches a user wants re-run on a schedule to catch new companies
+export const savedSearchCadenceSchema = z.enum(['daily', 'weekly']);
+
+export type SavedSearchCadence = z.infer<typeof savedSearchCadenceSchema>;
+
+export const savedSearchSchema = z.object({
+	userId: z.string(),
+	name: z.string().min(1, 'Name is required').max(100),
+	businessType: z.string().min(1, 'Business/Job type is required'),
+	location: z.string().min(1, 'Location is required'),
+	cadence: savedSearchCadenceSchema,
+	enabled: z.boolean().default(true),
+	nextRunAt: z.date(),
+	lastRunAt: z.date().optional(),
+	lastResultCount: z.number().optional(),
+	lastNewLeadCount: z.number().optional(),
+	lastError: z.string().optional(),
+	createdAt: z.date().optional(),
+	updatedAt: z.date().optional(),
+});
+
+export type SavedSearch = z.infer<typeof savedSearchSchema> & {
+	_id?: string;
+};
+
+// Fields a user can set when creating or editing a saved search
+export const savedSearchInputSchema = savedSearchSchema.pick({
+	name: true,
+	businessType: true,
+	location: true,
+	cadence: true,
+	enabled: true,
+});
+
+// A company a scheduled run found that wasn't already in the user's saved
+// businesses. Each company is reported once per saved search.
+export const savedSearchLeadSchema = z.object({
+	userId: z.string(),
+	savedSearchId: z.string(),
+	identity: z.string(), // businessIdentity() - unique per saved search
+	name: z.string(),
+	website: z.string().optional(),
+	location: z.string().optional(),
+	seen: z.boolean().default(false),
+	createdAt: z.date().optional(),
+});
+
+export type SavedSearchLead = z.infer<typeof savedSearchLeadSchema> & {
+	_id?: string;
+};
+
 // Guest Demo System Schemas
 
 // Demo search quota tracking